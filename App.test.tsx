@@ -1,6 +1,11 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import App from './App';
 
+// Worker construction relies on bundler-only import.meta.url
+jest.mock('./workers/createImportWorker', () => ({
+  createImportWorker: () => null,
+}));
+
 describe('App Component', () => {
   beforeEach(() => {
     // Clear localStorage before each test
@@ -1,19 +1,94 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { FIR, FilterCriteria, Hotspot } from './types';
 import { firService } from './services/firService';
 import { filterService } from './services/filterService';
 import { hotspotService } from './services/hotspotService';
 import { insightService } from './services/insightService';
-import { parseCSV } from './utils/csvParser';
-import { validateFIRBatch } from './utils/validation';
+import {
+  createImportProgress,
+  importService,
+  ImportJob,
+  ImportProgress,
+} from './services/importService';
+import { mappingProfileService } from './services/mappingProfileService';
+import { duplicateReviewService } from './services/duplicateReviewService';
+import {
+  RedactionSettings,
+  redactionService,
+} from './services/redactionService';
+import { QualitySnapshot, dataQualityService } from './services/dataQualityService';
+import { parseExcel } from './utils/csvParser';
+import { ColumnMapping, MappingSuggestion, suggestMapping } from './utils/columnMapping';
+import {
+  DATE_FORMAT_LABELS,
+  DateFormatOption,
+  describeDateReport,
+} from './utils/dateFormats';
+import {
+  CSVDialectReport,
+  DELIMITER_LABELS,
+  DelimiterOption,
+  ENCODING_LABELS,
+  EncodingOption,
+  describeDialect,
+} from './utils/csvDialect';
+import { withIncidentTimestamp } from './utils/incidentTime';
+import { isJSONFile } from './utils/jsonParser';
+import { buildRejectCSV, formatImportError } from './utils/importErrors';
+import { applyAttributeFilters, describeAttributes } from './utils/firAttributes';
+import { describeGeocode } from './utils/geocoding';
+import { EXPORT_FORMAT_LABELS, ExportFormat, exportFIRs } from './utils/firExport';
+import {
+  DEFAULT_JURISDICTION,
+  JURISDICTIONS,
+  getJurisdictionRules,
+} from './utils/validationRules';
+import { DuplicateCandidate } from './utils/nearDuplicates';
+import { parseBoundaries, setBoundaries } from './utils/boundaries';
+import { TESSELLATION_LABELS, detectHotspots, hexGridConfig } from './utils/geoUtils';
+import { HEX_SIZE_CHOICES_M, MAX_HEX_CELLS, parseHexCellId } from './utils/hexGrid';
+import { applyCrimeCategoryFilter, describeCrimeSections } from './utils/crimeTaxonomy';
+import {
+  CLUSTER_ALGORITHM_LABELS,
+  ClusterAlgorithm,
+  ClusterOptions,
+  DEFAULT_CLUSTER_OPTIONS,
+  HDBSCAN_MAX_POINTS,
+  clusterByDensity,
+} from './utils/densityClustering';
+import {
+  BANDWIDTH_CHOICES_KM,
+  DEFAULT_DENSITY_OPTIONS,
+  DENSITY_WEIGHTING_LABELS,
+  DensityExportFormat,
+  DensityOptions,
+  DensityWeighting,
+  KERNEL_LABELS,
+  KernelType,
+  estimateDensity,
+  exportDensity,
+} from './utils/kernelDensity';
+import {
+  CONFLICT_POLICY_LABELS,
+  ConflictPolicy,
+  DEFAULT_CONFLICT_POLICY,
+  StagedRow,
+  buildChangeReportCSV,
+} from './utils/importStaging';
 import { CrimeMap } from './components/Map/CrimeMap';
 import { AnalyticsPanel } from './components/Analytics/AnalyticsPanel';
 import { IntegrationDashboard } from './components/Integration/IntegrationDashboard';
+import { ColumnMappingDialog } from './components/Import/ColumnMappingDialog';
+import { ImportPreviewDialog } from './components/Import/ImportPreviewDialog';
+import { ImportSummaryPanel } from './components/Import/ImportSummaryPanel';
+import { DuplicateReviewPanel } from './components/Review/DuplicateReviewPanel';
+import { RedactionSettingsPanel } from './components/Privacy/RedactionSettingsPanel';
+import { DataQualityDashboard } from './components/Quality/DataQualityDashboard';
 import FilterPanel from './components/Filters/FilterPanel';
 import SafeRoutePage from './pages/SafeRoutePage';
 import CrimeLinkingPage from './pages/CrimeLinkingPage';
 
-type ActivePage = 'dashboard' | 'safe-route' | 'crime-linking';
+type ActivePage = 'dashboard' | 'safe-route' | 'crime-linking' | 'data-quality';
 
 interface AppState {
   allFIRs: FIR[];
@@ -23,9 +98,38 @@ interface AppState {
   searchQuery: string;
   loading: boolean;
   error: string | null;
+  importProgress: ImportProgress | null;
+  pendingMapping: PendingMapping | null;
+  dateFormat: DateFormatOption;
+  delimiter: DelimiterOption;
+  encoding: EncodingOption;
+  dialect: CSVDialectReport | null; // How the last CSV upload was read
+  conflictPolicy: ConflictPolicy;
+  jurisdiction: string; // Validation rule set applied to imports
+  importNotice: string | null;
+  pendingImport: StagedImport | null;
+  importSummary: StagedImport | null;
+  exportFormat: ExportFormat;
+  duplicateQueue: DuplicateCandidate[]; // Likely duplicates awaiting review
+  redaction: RedactionSettings;
+  qualityHistory: QualitySnapshot[]; // Scorecards of committed imports
+  clustering: ClusterOptions | null; // Density clusters drawn on the map; null when off
+  heatmap: DensityOptions | null; // Kernel density surface drawn on the map; null when off
+  hexSizeM: number | null; // Hexagon size of hotspot cells; null for the square grid
   activePage: ActivePage;
 }
 
+interface PendingMapping {
+  file: File;
+  headers: string[];
+  suggestion: MappingSuggestion;
+}
+
+interface StagedImport {
+  fileName: string;
+  progress: ImportProgress;
+}
+
 /**
  * SafeCity MVP - Main Application Component
  *
@@ -46,10 +150,29 @@ export const App: React.FC = () => {
     searchQuery: '',
     loading: false,
     error: null,
+    importProgress: null,
+    pendingMapping: null,
+    dateFormat: 'auto',
+    delimiter: 'auto',
+    encoding: 'auto',
+    dialect: null,
+    conflictPolicy: DEFAULT_CONFLICT_POLICY,
+    jurisdiction: DEFAULT_JURISDICTION,
+    importNotice: null,
+    pendingImport: null,
+    importSummary: null,
+    exportFormat: 'csv',
+    duplicateQueue: [],
+    redaction: redactionService.getSettings(),
+    qualityHistory: dataQualityService.getHistory(),
+    clustering: DEFAULT_CLUSTER_OPTIONS,
+    heatmap: null,
+    hexSizeM: null,
     activePage: 'dashboard',
   });
 
   const [selectedFIR, setSelectedFIR] = useState<FIR | undefined>(undefined);
+  const importJobRef = useRef<ImportJob | null>(null);
 
   // Initialize with preloaded data on mount
   useEffect(() => {
@@ -65,11 +188,12 @@ export const App: React.FC = () => {
       setState((s) => ({ ...s, loading: true }));
 
       // Sample FIR data for MVP - Mumbai locations (Malad & surrounding areas)
+      // Dates are local midnight, as the parsers build them
       const sampleFIRs: FIR[] = [
         {
           id: 'FIR001',
           crimeType: 'Theft',
-          date: new Date('2026-01-25'),
+          date: new Date(2026, 0, 25),
           time: '14:30',
           latitude: 19.1776,
           longitude: 72.8298,
@@ -82,7 +206,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR002',
           crimeType: 'Assault',
-          date: new Date('2026-01-24'),
+          date: new Date(2026, 0, 24),
           time: '09:45',
           latitude: 19.1820,
           longitude: 72.8350,
@@ -95,7 +219,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR003',
           crimeType: 'Robbery',
-          date: new Date('2026-01-23'),
+          date: new Date(2026, 0, 23),
           time: '22:00',
           latitude: 19.1750,
           longitude: 72.8250,
@@ -108,7 +232,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR004',
           crimeType: 'Theft',
-          date: new Date('2026-01-22'),
+          date: new Date(2026, 0, 22),
           time: '11:15',
           latitude: 19.1880,
           longitude: 72.8280,
@@ -121,7 +245,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR005',
           crimeType: 'Assault',
-          date: new Date('2026-01-21'),
+          date: new Date(2026, 0, 21),
           time: '18:45',
           latitude: 19.1700,
           longitude: 72.8400,
@@ -134,7 +258,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR006',
           crimeType: 'Robbery',
-          date: new Date('2026-01-20'),
+          date: new Date(2026, 0, 20),
           time: '20:30',
           latitude: 19.1650,
           longitude: 72.8350,
@@ -147,7 +271,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR007',
           crimeType: 'Theft',
-          date: new Date('2026-01-26'),
+          date: new Date(2026, 0, 26),
           time: '10:00',
           latitude: 19.1800,
           longitude: 72.8150,
@@ -160,7 +284,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR008',
           crimeType: 'Assault',
-          date: new Date('2026-01-27'),
+          date: new Date(2026, 0, 27),
           time: '15:20',
           latitude: 19.1900,
           longitude: 72.8200,
@@ -173,7 +297,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR009',
           crimeType: 'Robbery',
-          date: new Date('2026-01-25'),
+          date: new Date(2026, 0, 25),
           time: '19:00',
           latitude: 19.1950,
           longitude: 72.8400,
@@ -186,7 +310,7 @@ export const App: React.FC = () => {
         {
           id: 'FIR010',
           crimeType: 'Theft',
-          date: new Date('2026-01-26'),
+          date: new Date(2026, 0, 26),
           time: '13:45',
           latitude: 19.1730,
           longitude: 72.8320,
@@ -199,16 +323,17 @@ export const App: React.FC = () => {
       ];
 
       // Validate and add to service
-      sampleFIRs.forEach((fir) => firService.addFIR(fir));
+      sampleFIRs.forEach((fir) => firService.addFIR(withIncidentTimestamp(fir)));
 
-      const allFIRs = firService.getAll();
-      const hotspots = hotspotService.detectHotspots(allFIRs);
+      const allFIRs = duplicateReviewService.applyDecisions(firService.getAll());
+      const hotspots = detectZoneHotspots(allFIRs, state.hexSizeM);
 
       setState((s) => ({
         ...s,
         allFIRs,
         filteredFIRs: allFIRs,
         hotspots,
+        duplicateQueue: duplicateReviewService.getQueue(allFIRs),
         loading: false,
       }));
     } catch (error) {
@@ -222,60 +347,258 @@ export const App: React.FC = () => {
   };
 
   /**
-   * Handles CSV file upload and import
+   * Shows a parsed file in the import preview
+   * Nothing is added to the dataset until the preview is committed;
+   * file-level errors (e.g. missing columns) go to the error banner
+   */
+  const stageImport = (fileName: string, progress: ImportProgress) => {
+    importJobRef.current = null;
+
+    const fileErrors = progress.errors.filter((error) => error.row === null);
+    const hasRows = progress.staged.length + progress.rejected.length > 0;
+
+    setState((s) => ({
+      ...s,
+      importProgress: null,
+      error:
+        fileErrors.length > 0
+          ? fileErrors.map(formatImportError).join('; ')
+          : null,
+      importNotice: progress.dateReport
+        ? describeDateReport(progress.dateReport)
+        : null,
+      dialect: progress.dialect || s.dialect,
+      pendingImport: hasRows ? { fileName, progress } : null,
+    }));
+  };
+
+  /**
+   * Commits the rows chosen in the preview, then refreshes hotspots and
+   * insights from the updated dataset
+   */
+  const handleCommitImport = (staged: StagedRow[]) => {
+    const pending = state.pendingImport;
+    if (!pending) return;
+
+    const progress = importService.commit({ ...pending.progress, staged });
+    dataQualityService.recordImport(
+      pending.fileName,
+      staged.filter((row) => row.included).map((row) => row.fir),
+      { rules: getJurisdictionRules(state.jurisdiction), rejected: progress.rejected }
+    );
+    const allFIRs = duplicateReviewService.applyDecisions(firService.getAll());
+    const hotspots = detectZoneHotspots(allFIRs, state.hexSizeM);
+
+    setState((s) => ({
+      ...s,
+      allFIRs,
+      filteredFIRs: allFIRs,
+      hotspots,
+      duplicateQueue: duplicateReviewService.getQueue(allFIRs),
+      pendingImport: null,
+      importSummary: { fileName: pending.fileName, progress },
+      qualityHistory: dataQualityService.getHistory(),
+    }));
+  };
+
+  /**
+   * Merges a likely duplicate into the record the analyst kept
+   * The merged-away record is hidden from the dataset from then on
+   */
+  const handleMergeDuplicate = (candidate: DuplicateCandidate, keptId: string) => {
+    firService.updateFIR(keptId, duplicateReviewService.merge(candidate, keptId));
+    refreshAfterReview();
+  };
+
+  /**
+   * Marks a likely duplicate pair as separate incidents
+   */
+  const handleDismissDuplicate = (candidate: DuplicateCandidate) => {
+    duplicateReviewService.dismiss(candidate);
+    refreshAfterReview();
+  };
+
+  /**
+   * Reloads the dataset after a review decision, keeping the current filters
+   */
+  const refreshAfterReview = () => {
+    const allFIRs = duplicateReviewService.applyDecisions(firService.getAll());
+    const filtered = applyFilters(allFIRs, state.filters, state.searchQuery);
+
+    setState((s) => ({
+      ...s,
+      allFIRs,
+      filteredFIRs: filtered,
+      hotspots: detectZoneHotspots(filtered, state.hexSizeM),
+      duplicateQueue: duplicateReviewService.getQueue(allFIRs),
+    }));
+  };
+
+  /**
+   * Handles CSV / Excel / JSON file upload
+   * Reads the header row first; when required columns can't be resolved
+   * from aliases or a saved profile, the column mapping step is shown
    */
   const handleFileUpload = (file: File) => {
-    const reader = new FileReader();
+    importService
+      .readHeaders(file, {
+        delimiter: state.delimiter,
+        encoding: state.encoding,
+      })
+      .then(({ headers, dialect }) => {
+        setState((s) => ({ ...s, dialect: dialect || null }));
 
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const { records, errors } = parseCSV(content);
+        const profile = mappingProfileService.findBestMatch(headers);
+        const suggestion = suggestMapping(headers, profile?.mapping);
 
-        if (errors.length > 0) {
+        if (suggestion.missing.length === 0) {
+          if (profile) mappingProfileService.markUsed(profile.id);
+          startImport(file, suggestion.mapping);
+          return;
+        }
+
+        setState((s) => ({
+          ...s,
+          pendingMapping: { file, headers, suggestion },
+        }));
+      })
+      .catch((error) => {
+        setState((s) => ({
+          ...s,
+          error:
+            error instanceof Error ? error.message : 'File upload failed',
+        }));
+      });
+  };
+
+  /**
+   * Applies the mapping chosen in the column mapping step and imports
+   */
+  const handleMappingConfirm = (
+    mapping: ColumnMapping,
+    profileName?: string
+  ) => {
+    const pending = state.pendingMapping;
+    if (!pending) return;
+
+    if (profileName) mappingProfileService.save(profileName, mapping);
+
+    setState((s) => ({ ...s, pendingMapping: null }));
+    startImport(pending.file, mapping);
+  };
+
+  /**
+   * Imports a file with a resolved column mapping
+   * CSV files are streamed through the import worker in batches; workbooks
+   * and JSON files are parsed in one pass
+   */
+  const startImport = (file: File, mapping: ColumnMapping) => {
+    if (/\.xlsx?$/i.test(file.name)) {
+      const reader = new FileReader();
+
+      reader.onload = (e) => {
+        try {
+          const result = parseExcel(e.target?.result as ArrayBuffer, {
+            mapping,
+            dateFormat: state.dateFormat,
+          });
+          stageImport(
+            file.name,
+            importService.importParsed(result, file.size, {
+              jurisdiction: state.jurisdiction,
+            })
+          );
+        } catch (error) {
           setState((s) => ({
             ...s,
-            error: `CSV Import Errors: ${errors.slice(0, 3).join('; ')}`,
+            error:
+              error instanceof Error ? error.message : 'File upload failed',
           }));
-          return;
         }
+      };
 
-        // Validate records
-        const { validRecords, invalidRecords } = validateFIRBatch(records);
+      reader.readAsArrayBuffer(file);
+      return;
+    }
 
-        if (invalidRecords.length > 0) {
+    if (isJSONFile(file.name)) {
+      importService
+        .importJSON(file, {
+          mapping,
+          dateFormat: state.dateFormat,
+          encoding: state.encoding,
+          jurisdiction: state.jurisdiction,
+        })
+        .then((progress) => stageImport(file.name, progress))
+        .catch((error) => {
           setState((s) => ({
             ...s,
-            error: `${invalidRecords.length} records failed validation`,
+            error:
+              error instanceof Error ? error.message : 'File upload failed',
           }));
-        }
+        });
+      return;
+    }
 
-        // Add valid records to service
-        const result = firService.addFIRBatch(validRecords);
+    importJobRef.current?.cancel();
+    setState((s) => ({
+      ...s,
+      error: null,
+      importNotice: null,
+      importSummary: null,
+      importProgress: createImportProgress(file.size),
+    }));
 
-        if (result.failed > 0) {
+    importJobRef.current = importService.importCSV(
+      file,
+      {
+        onProgress: (progress) =>
+          setState((s) => ({ ...s, importProgress: progress })),
+        onComplete: (progress) => stageImport(file.name, progress),
+        onCancel: () => {
+          importJobRef.current = null;
           setState((s) => ({
             ...s,
-            error: `Failed to add ${result.failed} records`,
+            importProgress: null,
+            importNotice: 'Import cancelled; no records were added',
           }));
-        }
+        },
+        onError: (message) => {
+          importJobRef.current = null;
+          setState((s) => ({ ...s, importProgress: null, error: message }));
+        },
+      },
+      {
+        mapping,
+        dateFormat: state.dateFormat,
+        delimiter: state.delimiter,
+        encoding: state.encoding,
+        jurisdiction: state.jurisdiction,
+      }
+    );
+  };
 
-        // Update state
-        const allFIRs = firService.getAll();
-        const hotspots = hotspotService.detectHotspots(allFIRs);
+  /**
+   * Replaces the station, zone and ward boundaries used by validation
+   * with a GeoJSON FeatureCollection from a GIS export
+   */
+  const handleBoundaryUpload = (file: File) => {
+    const reader = new FileReader();
 
+    reader.onload = (e) => {
+      try {
+        const boundaries = parseBoundaries(e.target?.result as string);
+        setBoundaries(boundaries);
         setState((s) => ({
           ...s,
-          allFIRs,
-          filteredFIRs: allFIRs,
-          hotspots,
           error: null,
+          importNotice: `Loaded ${boundaries.length} boundaries from ${file.name}`,
         }));
       } catch (error) {
         setState((s) => ({
           ...s,
           error:
-            error instanceof Error ? error.message : 'File upload failed',
+            error instanceof Error ? error.message : 'Boundary file could not be read',
         }));
       }
     };
@@ -283,6 +606,13 @@ export const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  /**
+   * Stops a running streamed import
+   */
+  const handleCancelImport = () => {
+    importJobRef.current?.cancel();
+  };
+
   // /**
   //  * Updates filter criteria and recomputes filtered results
   //  * (Will be used by FilterPanel component in next phase)
@@ -316,13 +646,9 @@ export const App: React.FC = () => {
    * Updates search query and recomputes filtered results
    */
   const handleSearch = (query: string) => {
-    const filtered = filterService.searchAndFilter(
-      state.allFIRs,
-      state.filters,
-      query
-    );
+    const filtered = applyFilters(state.allFIRs, state.filters, query);
 
-    const hotspots = hotspotService.detectHotspots(filtered);
+    const hotspots = detectZoneHotspots(filtered, state.hexSizeM);
 
     setState((s) => ({
       ...s,
@@ -337,7 +663,7 @@ export const App: React.FC = () => {
    */
   const handleResetFilters = () => {
     const resetFilters = filterService.resetFilters();
-    const hotspots = hotspotService.detectHotspots(state.allFIRs);
+    const hotspots = detectZoneHotspots(state.allFIRs, state.hexSizeM);
 
     setState((s) => ({
       ...s,
@@ -349,21 +675,128 @@ export const App: React.FC = () => {
   };
 
   /**
-   * Exports filtered data as CSV
+   * Exports filtered data and the current hotspots in the chosen format
    */
-  const handleExportCSV = () => {
-    const csv = firService.exportAsCSV(state.filteredFIRs);
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `safecity-fir-export-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
+  const handleExport = () => {
+    const { content, mimeType, extension } = exportFIRs(
+      state.exportFormat,
+      redactionService.redactForExport(state.filteredFIRs),
+      state.hotspots
+    );
+    downloadFile(
+      content,
+      `safecity-fir-export-${new Date().toISOString().split('T')[0]}.${extension}`,
+      mimeType
+    );
+  };
+
+  /**
+   * Exports the density surface of the filtered FIRs
+   */
+  const handleExportDensity = (format: DensityExportFormat) => {
+    if (!density) return;
+
+    const { content, mimeType, extension } = exportDensity(density, format);
+    downloadFile(
+      content,
+      `safecity-density-${new Date().toISOString().split('T')[0]}.${extension}`,
+      mimeType
+    );
+  };
+
+  /**
+   * Switches hotspot cells between the square grid and hexagons of a size
+   * and detects the filtered FIRs' hotspots again
+   */
+  const handleTessellationChange = (hexSizeM: number | null) => {
+    const hotspots = detectZoneHotspots(state.filteredFIRs, hexSizeM);
+
+    setState((s) => ({ ...s, hexSizeM, hotspots }));
+  };
+
+  /**
+   * Downloads the field-level changes of re-imported FIR IDs
+   */
+  const handleDownloadChanges = () => {
+    const summary = state.importSummary;
+    if (!summary) return;
+
+    const baseName = summary.fileName.replace(/\.[^.]+$/, '');
+    downloadFile(
+      buildChangeReportCSV(redactionService.redactStagedRows(summary.progress.staged)),
+      `${baseName}-changes.csv`
+    );
+  };
+
+  /**
+   * Downloads the rows rejected by the last import, with an error column
+   */
+  const handleDownloadRejects = () => {
+    const summary = state.importSummary;
+    if (!summary) return;
+
+    const baseName = summary.fileName.replace(/\.[^.]+$/, '');
+    downloadFile(
+      buildRejectCSV(redactionService.redactRejectedRows(summary.progress.rejected)),
+      `${baseName}-rejected.csv`
+    );
+  };
+
+  /**
+   * Applies a redaction change (settings, a suspension or the privileged
+   * view); exports and views pick it up immediately
+   */
+  const updateRedaction = (update: () => RedactionSettings) => {
+    try {
+      const redaction = update();
+      setState((s) => ({ ...s, redaction, error: null }));
+    } catch (error) {
+      setState((s) => ({
+        ...s,
+        error: error instanceof Error ? error.message : 'Redaction settings could not be changed',
+      }));
+    }
   };
 
   // Generate insights from filtered data
   const insights = insightService.generateInsights(state.filteredFIRs);
   const hotspotStats = hotspotService.getStatistics(state.hotspots);
+  const attributes = useMemo(
+    () => describeAttributes(state.allFIRs),
+    [state.allFIRs]
+  );
+  const qualityOptions = useMemo(
+    () => ({
+      rules: getJurisdictionRules(state.jurisdiction),
+      rejected: state.importSummary?.progress.rejected,
+    }),
+    [state.jurisdiction, state.importSummary]
+  );
+  const redactionConfig = useMemo(
+    () => redactionService.getConfig(),
+    [state.redaction]
+  );
+  // Hexagon size the hotspots came out in; larger than chosen for wide areas
+  const hotspotHexSizeM =
+    state.hotspots.length > 0 ? parseHexCellId(state.hotspots[0].zoneId)?.sizeM : undefined;
+  const clusterTooLarge =
+    state.clustering?.algorithm === 'hdbscan' &&
+    state.filteredFIRs.length > HDBSCAN_MAX_POINTS;
+  const clusters = useMemo(
+    () =>
+      state.clustering && !clusterTooLarge
+        ? clusterByDensity(state.filteredFIRs, state.clustering).clusters
+        : [],
+    [state.filteredFIRs, state.clustering, clusterTooLarge]
+  );
+  const density = useMemo(
+    () => (state.heatmap ? estimateDensity(state.filteredFIRs, state.heatmap) : null),
+    [state.filteredFIRs, state.heatmap]
+  );
+  const redactView = useMemo(
+    () => (text: string) => redactionService.redactForView(text),
+    [state.redaction]
+  );
 
   return (
     <div className="app-container">
@@ -385,19 +818,80 @@ export const App: React.FC = () => {
           >
             🛡️ Safe Routes
           </button>
+          <button
+            className={`nav-btn ${state.activePage === 'data-quality' ? 'active' : ''}`}
+            onClick={() => setState({ ...state, activePage: 'data-quality' })}
+          >
+            📋 Data Quality
+          </button>
         </nav>
       </header>
 
       {state.activePage === 'safe-route' ? (
         <SafeRoutePage firs={state.filteredFIRs} hotspots={state.hotspots} />
+      ) : state.activePage === 'data-quality' ? (
+        <DataQualityDashboard
+          firs={state.allFIRs}
+          history={state.qualityHistory}
+          options={qualityOptions}
+          onClearHistory={() => {
+            dataQualityService.clear();
+            setState((s) => ({ ...s, qualityHistory: [] }));
+          }}
+        />
       ) : (
         <>
+          {state.pendingMapping && (
+            <ColumnMappingDialog
+              fileName={state.pendingMapping.file.name}
+              headers={state.pendingMapping.headers}
+              suggestion={state.pendingMapping.suggestion}
+              profiles={mappingProfileService.getAll()}
+              onConfirm={handleMappingConfirm}
+              onCancel={() => setState((s) => ({ ...s, pendingMapping: null }))}
+            />
+          )}
+
           {state.error && (
             <div className="error-banner">
               <strong>Error:</strong> {state.error}
             </div>
           )}
 
+          {state.importNotice && (
+            <div className="notice-banner">
+              <strong>Import:</strong> {state.importNotice}
+            </div>
+          )}
+
+          {state.pendingImport && (
+            <ImportPreviewDialog
+              fileName={state.pendingImport.fileName}
+              progress={state.pendingImport.progress}
+              conflictPolicy={state.conflictPolicy}
+              onCommit={handleCommitImport}
+              onDiscard={() => setState((s) => ({ ...s, pendingImport: null }))}
+              redactText={redactView}
+            />
+          )}
+
+          {state.importSummary && (
+            <ImportSummaryPanel
+              fileName={state.importSummary.fileName}
+              progress={state.importSummary.progress}
+              onDownloadRejects={handleDownloadRejects}
+              onDownloadChanges={handleDownloadChanges}
+              onDismiss={() => setState((s) => ({ ...s, importSummary: null }))}
+            />
+          )}
+
+          <DuplicateReviewPanel
+            candidates={state.duplicateQueue}
+            onMerge={handleMergeDuplicate}
+            onDismiss={handleDismissDuplicate}
+            redactText={redactView}
+          />
+
           <main className="app-main">
         {/* Control Panel */}
         <section className="control-panel">
@@ -405,15 +899,129 @@ export const App: React.FC = () => {
 
           {/* File Upload */}
           <div className="file-upload">
-            <label>Upload FIR Data (CSV):</label>
+            <label>Upload FIR Data (CSV / Excel / GeoJSON / NDJSON):</label>
+            <select
+              aria-label="Date format"
+              value={state.dateFormat}
+              onChange={(e) =>
+                setState((s) => ({
+                  ...s,
+                  dateFormat: e.target.value as DateFormatOption,
+                }))
+              }
+            >
+              {(Object.keys(DATE_FORMAT_LABELS) as DateFormatOption[]).map(
+                (format) => (
+                  <option key={format} value={format}>
+                    Dates: {DATE_FORMAT_LABELS[format]}
+                  </option>
+                )
+              )}
+            </select>
+            <select
+              aria-label="Delimiter"
+              value={state.delimiter}
+              onChange={(e) =>
+                setState((s) => ({
+                  ...s,
+                  delimiter: e.target.value as DelimiterOption,
+                }))
+              }
+            >
+              {(Object.keys(DELIMITER_LABELS) as DelimiterOption[]).map(
+                (delimiter) => (
+                  <option key={delimiter} value={delimiter}>
+                    Delimiter: {DELIMITER_LABELS[delimiter]}
+                  </option>
+                )
+              )}
+            </select>
+            <select
+              aria-label="Encoding"
+              value={state.encoding}
+              onChange={(e) =>
+                setState((s) => ({
+                  ...s,
+                  encoding: e.target.value as EncodingOption,
+                }))
+              }
+            >
+              {(Object.keys(ENCODING_LABELS) as EncodingOption[]).map(
+                (encoding) => (
+                  <option key={encoding} value={encoding}>
+                    Encoding: {ENCODING_LABELS[encoding]}
+                  </option>
+                )
+              )}
+            </select>
+            <select
+              aria-label="Existing FIR IDs"
+              value={state.conflictPolicy}
+              onChange={(e) =>
+                setState((s) => ({
+                  ...s,
+                  conflictPolicy: e.target.value as ConflictPolicy,
+                }))
+              }
+            >
+              {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map(
+                (policy) => (
+                  <option key={policy} value={policy}>
+                    Existing IDs: {CONFLICT_POLICY_LABELS[policy]}
+                  </option>
+                )
+              )}
+            </select>
+            <select
+              aria-label="Validation rules"
+              value={state.jurisdiction}
+              onChange={(e) =>
+                setState((s) => ({ ...s, jurisdiction: e.target.value }))
+              }
+            >
+              {JURISDICTIONS.map((jurisdiction) => (
+                <option key={jurisdiction.id} value={jurisdiction.id}>
+                  Rules: {jurisdiction.name}
+                </option>
+              ))}
+            </select>
             <input
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv,.txt,.xlsx,.xls,.json,.geojson,.ndjson,.jsonl"
               onChange={(e) => {
                 const file = e.target.files?.[0];
                 if (file) handleFileUpload(file);
               }}
             />
+            <label>Station / Zone / Ward Boundaries (GeoJSON):</label>
+            <input
+              type="file"
+              aria-label="Boundaries"
+              accept=".json,.geojson"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleBoundaryUpload(file);
+              }}
+            />
+            {state.dialect && (
+              <p className="import-dialect">
+                Read as {describeDialect(state.dialect)}
+              </p>
+            )}
+            {state.importProgress && (
+              <div className="import-progress">
+                <progress
+                  value={state.importProgress.bytesRead}
+                  max={state.importProgress.totalBytes || 1}
+                />
+                <p>
+                  {state.importProgress.rowsParsed} rows parsed,{' '}
+                  {state.importProgress.staged.length} staged,{' '}
+                  {state.importProgress.rejected.length} rejected
+                </p>
+                <button onClick={handleCancelImport}>Cancel Import</button>
+              </div>
+            )}
           </div>
 
           {/* Search */}
@@ -430,20 +1038,54 @@ export const App: React.FC = () => {
           {/* Filter Buttons */}
           <div className="filter-actions">
             <button onClick={handleResetFilters}>Reset Filters</button>
-            <button onClick={handleExportCSV}>Export CSV</button>
+            <select
+              aria-label="Export format"
+              value={state.exportFormat}
+              onChange={(e) =>
+                setState((s) => ({
+                  ...s,
+                  exportFormat: e.target.value as ExportFormat,
+                }))
+              }
+            >
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(
+                (format) => (
+                  <option key={format} value={format}>
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </option>
+                )
+              )}
+            </select>
+            <button onClick={handleExport}>Export</button>
           </div>
+
+          <RedactionSettingsPanel
+            settings={state.redaction}
+            config={redactionConfig}
+            onChange={(changes) => updateRedaction(() => redactionService.saveSettings(changes))}
+            onSuspend={(reason) =>
+              updateRedaction(() => redactionService.suspendEnforcement(reason))
+            }
+            onResume={() => updateRedaction(() => redactionService.resumeEnforcement())}
+            onOpenPrivilegedView={(reason) =>
+              updateRedaction(() => redactionService.openPrivilegedView(reason))
+            }
+            onClosePrivilegedView={() =>
+              updateRedaction(() => redactionService.closePrivilegedView())
+            }
+          />
         </section>
 
         {/* Advanced Filter Panel */}
         <section className="filter-panel-section">
           <FilterPanel
             onFiltersChange={(filters) => {
-              const filtered = filterService.searchAndFilter(
+              const filtered = applyFilters(
                 state.allFIRs,
                 filters,
                 state.searchQuery
               );
-              const hotspots = hotspotService.detectHotspots(filtered);
+              const hotspots = detectZoneHotspots(filtered, state.hexSizeM);
               setState((s) => ({
                 ...s,
                 filters,
@@ -454,15 +1096,186 @@ export const App: React.FC = () => {
             onSearch={handleSearch}
             currentFilters={state.filters}
             searchQuery={state.searchQuery}
+            attributes={attributes}
           />
         </section>
 
         {/* Crime Map */}
         {state.filteredFIRs.length > 0 && (
           <section className="map-section">
+            <div className="hotspot-controls">
+              <select
+                aria-label="Hotspot cells"
+                value={state.hexSizeM ?? 'square'}
+                onChange={(e) =>
+                  handleTessellationChange(
+                    e.target.value === 'square' ? null : Number(e.target.value)
+                  )
+                }
+              >
+                <option value="square">Cells: {TESSELLATION_LABELS.square}</option>
+                {HEX_SIZE_CHOICES_M.map((size) => (
+                  <option key={size} value={size}>
+                    Cells: {TESSELLATION_LABELS.hex} {formatHexSize(size)}
+                  </option>
+                ))}
+              </select>
+              {state.hexSizeM && hotspotHexSizeM && hotspotHexSizeM > state.hexSizeM && (
+                <p className="hotspot-note">
+                  Hexagons enlarged to {formatHexSize(hotspotHexSizeM)} to keep the area within{' '}
+                  {MAX_HEX_CELLS.toLocaleString()} cells. Narrow the filters for smaller ones.
+                </p>
+              )}
+            </div>
+            <div className="cluster-controls">
+              <select
+                aria-label="Clustering"
+                value={state.clustering?.algorithm ?? 'off'}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setState((s) => ({
+                    ...s,
+                    clustering:
+                      value === 'off'
+                        ? null
+                        : {
+                            ...(s.clustering ?? DEFAULT_CLUSTER_OPTIONS),
+                            algorithm: value as ClusterAlgorithm,
+                          },
+                  }));
+                }}
+              >
+                <option value="off">Clusters: Off</option>
+                {(Object.keys(CLUSTER_ALGORITHM_LABELS) as ClusterAlgorithm[]).map(
+                  (algorithm) => (
+                    <option key={algorithm} value={algorithm}>
+                      Clusters: {CLUSTER_ALGORITHM_LABELS[algorithm]}
+                    </option>
+                  )
+                )}
+              </select>
+              {state.clustering?.algorithm === 'dbscan' && (
+                <label>
+                  Radius (km):
+                  <input
+                    type="number"
+                    min={0.05}
+                    step={0.05}
+                    value={state.clustering.eps}
+                    onChange={(e) => {
+                      const eps = Number(e.target.value);
+                      if (eps > 0) {
+                        setState((s) => ({
+                          ...s,
+                          clustering: s.clustering && { ...s.clustering, eps },
+                        }));
+                      }
+                    }}
+                  />
+                </label>
+              )}
+              {state.clustering && (
+                <label>
+                  Min FIRs:
+                  <input
+                    type="number"
+                    min={2}
+                    step={1}
+                    value={state.clustering.minPts}
+                    onChange={(e) => {
+                      const minPts = Math.round(Number(e.target.value));
+                      if (minPts >= 2) {
+                        setState((s) => ({
+                          ...s,
+                          clustering: s.clustering && { ...s.clustering, minPts },
+                        }));
+                      }
+                    }}
+                  />
+                </label>
+              )}
+              {clusterTooLarge && (
+                <p className="cluster-note">
+                  HDBSCAN is limited to {HDBSCAN_MAX_POINTS.toLocaleString()} FIRs.
+                  Narrow the filters or use DBSCAN.
+                </p>
+              )}
+            </div>
+            <div className="heatmap-controls">
+              <select
+                aria-label="Heatmap kernel"
+                value={state.heatmap?.kernel ?? 'off'}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setState((s) => ({
+                    ...s,
+                    heatmap:
+                      value === 'off'
+                        ? null
+                        : {
+                            ...(s.heatmap ?? DEFAULT_DENSITY_OPTIONS),
+                            kernel: value as KernelType,
+                          },
+                  }));
+                }}
+              >
+                <option value="off">Heatmap: Off</option>
+                {(Object.keys(KERNEL_LABELS) as KernelType[]).map((kernel) => (
+                  <option key={kernel} value={kernel}>
+                    Heatmap: {KERNEL_LABELS[kernel]} kernel
+                  </option>
+                ))}
+              </select>
+              {state.heatmap && (
+                <>
+                  <select
+                    aria-label="Heatmap bandwidth"
+                    value={state.heatmap.bandwidthKm}
+                    onChange={(e) => {
+                      const bandwidthKm = Number(e.target.value);
+                      setState((s) => ({
+                        ...s,
+                        heatmap: s.heatmap && { ...s.heatmap, bandwidthKm },
+                      }));
+                    }}
+                  >
+                    {BANDWIDTH_CHOICES_KM.map((bandwidth) => (
+                      <option key={bandwidth} value={bandwidth}>
+                        Bandwidth: {bandwidth} km
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label="Heatmap weighting"
+                    value={state.heatmap.weighting}
+                    onChange={(e) => {
+                      const weighting = e.target.value as DensityWeighting;
+                      setState((s) => ({
+                        ...s,
+                        heatmap: s.heatmap && { ...s.heatmap, weighting },
+                      }));
+                    }}
+                  >
+                    {(Object.keys(DENSITY_WEIGHTING_LABELS) as DensityWeighting[]).map(
+                      (weighting) => (
+                        <option key={weighting} value={weighting}>
+                          Weight: {DENSITY_WEIGHTING_LABELS[weighting]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  <button onClick={() => handleExportDensity('geojson')}>
+                    Export Heatmap (GeoJSON)
+                  </button>
+                  <button onClick={() => handleExportDensity('csv')}>Export Heatmap (CSV)</button>
+                </>
+              )}
+            </div>
             <CrimeMap
               firs={state.filteredFIRs}
               hotspots={state.hotspots}
+              clusters={clusters}
+              density={density}
               selectedFIR={selectedFIR}
               onFIRSelect={setSelectedFIR}
             />
@@ -588,10 +1401,15 @@ export const App: React.FC = () => {
                 {state.filteredFIRs.slice(0, 20).map((fir) => (
                   <tr key={fir.id}>
                     <td>{fir.id}</td>
-                    <td>{fir.crimeType}</td>
+                    <td title={describeCrimeSections(fir.crimeType) || undefined}>
+                      {fir.crimeType}
+                    </td>
                     <td>{fir.date.toLocaleDateString()}</td>
                     <td>{fir.time}</td>
-                    <td>{fir.area}</td>
+                    <td title={describeGeocode(fir) || undefined}>
+                      {fir.area}
+                      {fir.geocodeConfidence && ' (approx.)'}
+                    </td>
                     <td>{fir.zone}</td>
                     <td>{fir.policeStation}</td>
                   </tr>
@@ -620,4 +1438,61 @@ export const App: React.FC = () => {
   );
 };
 
+/**
+ * Applies the service filters and search, then any crime category and
+ * custom attribute filters
+ */
+function applyFilters(
+  firs: FIR[],
+  filters: FilterCriteria,
+  query: string
+): FIR[] {
+  // Crime types picked with categories widen the category selection, so
+  // they are applied together rather than one after the other
+  const { crimeTypes, crimeCategories } = filters;
+  const otherFilters =
+    crimeCategories && crimeCategories.length > 0 ? { ...filters, crimeTypes: undefined } : filters;
+
+  return applyAttributeFilters(
+    applyCrimeCategoryFilter(
+      filterService.searchAndFilter(firs, otherFilters, query),
+      crimeCategories,
+      crimeTypes
+    ),
+    filters.attributes
+  );
+}
+
+/**
+ * Detects hotspots in the square grid, or in hexagons of a size
+ */
+function detectZoneHotspots(firs: FIR[], hexSizeM: number | null): Hotspot[] {
+  return hexSizeM
+    ? detectHotspots(firs, hexGridConfig(firs, hexSizeM))
+    : hotspotService.detectHotspots(firs);
+}
+
+/**
+ * Hexagon size for display, e.g. 500 m or 2 km
+ */
+function formatHexSize(sizeM: number): string {
+  return sizeM >= 1000 ? `${sizeM / 1000} km` : `${sizeM} m`;
+}
+
+/**
+ * Saves a generated file through a temporary download link
+ */
+function downloadFile(
+  content: string | ArrayBuffer,
+  fileName: string,
+  type = 'text/csv'
+): void {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+}
+
 export default App;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   BarChart,
   Bar,
@@ -28,6 +28,7 @@ interface AnalyticsPanelProps {
  * - Peak hours analysis (bar chart)
  * - Day-wise crime trends (line chart)
  * - Crime type distribution (pie chart)
+ * - Crime categories (bar chart, click a category to drill down to its types)
  * - Monthly trends (bar chart)
  * - Hotspot severity distribution (pie chart)
  *
@@ -38,6 +39,8 @@ export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
   insights,
   hotspots,
 }) => {
+  const [drillCategory, setDrillCategory] = useState<string | null>(null);
+
   // Colors for charts
   const COLORS = ['#2e7d32', '#f57c00', '#c62828'];
   const CHART_COLORS = {
@@ -82,6 +85,13 @@ export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
     dayName: dayNames[idx] || trend.day,
   }));
 
+  // Category roll-up, or the types of the category drilled into
+  const categories = insights.crimeCategories || [];
+  const drilled = categories.find((c) => c.category === drillCategory);
+  const categoryData = drilled
+    ? drilled.types.map((t) => ({ name: t.type, count: t.count }))
+    : categories.map((c) => ({ name: c.category, count: c.count }));
+
   return (
     <div className="analytics-panel">
       <h2>📊 Crime Analytics Dashboard</h2>
@@ -182,6 +192,47 @@ export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
           </ResponsiveContainer>
         </div>
 
+        {/* Crime Categories (taxonomy roll-up with drill-down) */}
+        {categories.length > 0 && (
+          <div className="chart-container">
+            <h3>
+              {drilled ? `Crime Types: ${drilled.category}` : 'Crime Categories'}
+              {drilled && (
+                <button
+                  className="chart-back-button"
+                  onClick={() => setDrillCategory(null)}
+                >
+                  ← All categories
+                </button>
+              )}
+            </h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={categoryData} layout="vertical" margin={{ left: 150 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={140}
+                  tick={{ fontSize: 12 }}
+                />
+                <Tooltip formatter={(value) => `${value} incidents`} />
+                <Bar
+                  dataKey="count"
+                  fill={CHART_COLORS.primary}
+                  cursor={drilled ? undefined : 'pointer'}
+                  onClick={(_data, index) => {
+                    if (!drilled) setDrillCategory(categories[index].category);
+                  }}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+            {!drilled && (
+              <div className="chart-insight">Click a category to see its crime types</div>
+            )}
+          </div>
+        )}
+
         {/* Hotspot Severity Distribution */}
         <div className="chart-container">
           <h3>Hotspot Severity Distribution</h3>
@@ -141,4 +141,35 @@ describe('FilterPanel Component', () => {
     expect(screen.getByText(/Severity: high/i)).toBeInTheDocument();
     expect(screen.getByText(/Area: Downtown/i)).toBeInTheDocument();
   });
+
+  test('renders filters for custom attributes', () => {
+    render(
+      <FilterPanel
+        onFiltersChange={mockOnFiltersChange}
+        onSearch={mockOnSearch}
+        currentFilters={{ attributes: { 'victim age': { min: 18 } } }}
+        searchQuery=""
+        attributes={[
+          { name: 'fir status', label: 'Fir Status', type: 'string', values: ['Closed', 'Open'] },
+          { name: 'victim age', label: 'Victim Age', type: 'number', values: [] },
+        ]}
+      />
+    );
+
+    const toggleButton = screen.getByRole('button', { name: '+' });
+    fireEvent.click(toggleButton);
+
+    fireEvent.change(screen.getByLabelText('Fir Status'), {
+      target: { value: 'Open' },
+    });
+    expect(mockOnFiltersChange).toHaveBeenCalledWith({
+      attributes: { 'victim age': { min: 18 }, 'fir status': { value: 'Open' } },
+    });
+
+    fireEvent.change(screen.getByLabelText('Victim Age Min'), {
+      target: { value: '' },
+    });
+    expect(mockOnFiltersChange).toHaveBeenLastCalledWith({ attributes: undefined });
+    expect(screen.getByText('Victim Age: ≥ 18')).toBeInTheDocument();
+  });
 });
@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import { FilterCriteria } from '../../types';
 import { filterService } from '../../services/filterService';
+import {
+  AttributeDefinition,
+  AttributeFilter,
+  hasAttributeFilters,
+} from '../../utils/firAttributes';
+import { classifyCrimeType, getCrimeTaxonomy } from '../../utils/crimeTaxonomy';
 import './FilterPanel.css';
 
 interface FilterPanelProps {
@@ -8,6 +14,7 @@ interface FilterPanelProps {
   onSearch: (query: string) => void;
   currentFilters: FilterCriteria;
   searchQuery: string;
+  attributes?: AttributeDefinition[];
 }
 
 /**
@@ -16,11 +23,12 @@ interface FilterPanelProps {
  * Multi-criteria filtering interface for FIR data
  * Features:
  * - Date range filtering
- * - Crime type selection
+ * - Crime type selection: whole taxonomy categories or single types
  * - Area filtering
  * - Zone filtering
  * - Police station filtering
  * - Severity level filtering
+ * - Custom attribute filtering (imported extra columns)
  * - Full-text search
  *
  * Time Complexity: O(1) for filter state updates
@@ -31,12 +39,17 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
   onSearch,
   currentFilters,
   searchQuery,
+  attributes = [],
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [localSearch, setLocalSearch] = useState(searchQuery);
 
   // Get available filter options from service
   const filterOptions = filterService.getFilterOptions();
+  const taxonomy = getCrimeTaxonomy();
+  const otherCrimeTypes = filterOptions.crimeTypes.filter(
+    (type) => !classifyCrimeType(type)
+  );
 
   /**
    * Handle individual filter changes
@@ -57,22 +70,30 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     onFiltersChange(newFilters);
   };
 
+  /**
+   * Toggles a crime type, or a whole category ("category:" values)
+   * "All Types" clears both
+   */
   const handleCrimeTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const selectedType = e.target.value;
+    const selected = e.target.value;
     const crimeTypes = currentFilters.crimeTypes || [];
+    const categories = currentFilters.crimeCategories || [];
 
-    let newCrimeTypes: string[];
-    if (selectedType === '') {
+    let newCrimeTypes = crimeTypes;
+    let newCategories = categories;
+    if (selected === '') {
       newCrimeTypes = [];
-    } else if (crimeTypes.includes(selectedType)) {
-      newCrimeTypes = crimeTypes.filter((t) => t !== selectedType);
+      newCategories = [];
+    } else if (selected.startsWith(CATEGORY_PREFIX)) {
+      newCategories = toggle(categories, selected.slice(CATEGORY_PREFIX.length));
     } else {
-      newCrimeTypes = [...crimeTypes, selectedType];
+      newCrimeTypes = toggle(crimeTypes, selected);
     }
 
     const newFilters: FilterCriteria = {
       ...currentFilters,
       crimeTypes: newCrimeTypes.length > 0 ? newCrimeTypes : undefined,
+      crimeCategories: newCategories.length > 0 ? newCategories : undefined,
     };
     onFiltersChange(newFilters);
   };
@@ -110,6 +131,24 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     onFiltersChange(newFilters);
   };
 
+  /**
+   * Sets or clears the filter on one custom attribute
+   */
+  const handleAttributeChange = (name: string, change: AttributeFilter) => {
+    const filter: AttributeFilter = {
+      ...currentFilters.attributes?.[name],
+      ...change,
+    };
+    const next = { ...currentFilters.attributes, [name]: filter };
+    if (!hasAttributeFilters({ [name]: filter })) delete next[name];
+
+    const newFilters: FilterCriteria = {
+      ...currentFilters,
+      attributes: Object.keys(next).length > 0 ? next : undefined,
+    };
+    onFiltersChange(newFilters);
+  };
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
     setLocalSearch(query);
@@ -190,12 +229,30 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
               className="filter-select"
             >
               <option value="">All Types</option>
-              {filterOptions.crimeTypes.map((type) => (
-                <option key={type} value={type}>
-                  {type}
-                  {currentFilters.crimeTypes?.includes(type) ? ' ✓' : ''}
-                </option>
+              {taxonomy.categories.map((category) => (
+                <optgroup key={category.id} label={category.name}>
+                  <option value={`${CATEGORY_PREFIX}${category.name}`}>
+                    All {category.name}
+                    {currentFilters.crimeCategories?.includes(category.name) ? ' ✓' : ''}
+                  </option>
+                  {category.subcategories.map((subcategory) => (
+                    <option key={subcategory.id} value={subcategory.name}>
+                      {subcategory.name}
+                      {currentFilters.crimeTypes?.includes(subcategory.name) ? ' ✓' : ''}
+                    </option>
+                  ))}
+                </optgroup>
               ))}
+              {otherCrimeTypes.length > 0 && (
+                <optgroup label="Other types">
+                  {otherCrimeTypes.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                      {currentFilters.crimeTypes?.includes(type) ? ' ✓' : ''}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
             </select>
           </div>
 
@@ -269,13 +326,90 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
             </select>
           </div>
 
+          {/* Custom Attributes */}
+          {attributes.map((attribute) => {
+            const filter = currentFilters.attributes?.[attribute.name] || {};
+            const id = `attribute-${attribute.name.replace(/\W+/g, '-')}`;
+
+            if (attribute.type === 'number' || attribute.type === 'date') {
+              const isNumber = attribute.type === 'number';
+              return (
+                <div key={attribute.name} className="filter-row">
+                  <div className="filter-group">
+                    <label htmlFor={`${id}-from`}>
+                      {attribute.label} {isNumber ? 'Min' : 'From'}
+                    </label>
+                    <input
+                      id={`${id}-from`}
+                      type={isNumber ? 'number' : 'date'}
+                      value={(isNumber ? filter.min : filter.from) ?? ''}
+                      onChange={(e) =>
+                        handleAttributeChange(
+                          attribute.name,
+                          isNumber
+                            ? { min: parseBound(e.target.value) }
+                            : { from: e.target.value || undefined }
+                        )
+                      }
+                      className="filter-input"
+                    />
+                  </div>
+                  <div className="filter-group">
+                    <label htmlFor={`${id}-to`}>
+                      {attribute.label} {isNumber ? 'Max' : 'To'}
+                    </label>
+                    <input
+                      id={`${id}-to`}
+                      type={isNumber ? 'number' : 'date'}
+                      value={(isNumber ? filter.max : filter.to) ?? ''}
+                      onChange={(e) =>
+                        handleAttributeChange(
+                          attribute.name,
+                          isNumber
+                            ? { max: parseBound(e.target.value) }
+                            : { to: e.target.value || undefined }
+                        )
+                      }
+                      className="filter-input"
+                    />
+                  </div>
+                </div>
+              );
+            }
+
+            return (
+              <div key={attribute.name} className="filter-group">
+                <label htmlFor={id}>{attribute.label}</label>
+                <select
+                  id={id}
+                  value={filter.value ?? ''}
+                  onChange={(e) =>
+                    handleAttributeChange(attribute.name, {
+                      value: e.target.value || undefined,
+                    })
+                  }
+                  className="filter-select"
+                >
+                  <option value="">All</option>
+                  {attribute.values.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+
           {/* Clear Button */}
           <button onClick={handleClearFilters} className="clear-filters-button">
             Clear All Filters
           </button>
 
           {/* Active Filters Display */}
-          {filterService.hasActiveFilters(currentFilters) && (
+          {(filterService.hasActiveFilters(currentFilters) ||
+            (currentFilters.crimeCategories?.length ?? 0) > 0 ||
+            hasAttributeFilters(currentFilters.attributes)) && (
             <div className="active-filters">
               <p className="active-filters-label">Active Filters:</p>
               <div className="filter-tags">
@@ -289,6 +423,11 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
                     To: {currentFilters.dateTo.toLocaleDateString()}
                   </span>
                 )}
+                {currentFilters.crimeCategories?.map((category) => (
+                  <span key={category} className="filter-tag">
+                    Category: {category}
+                  </span>
+                ))}
                 {currentFilters.crimeTypes?.map((type) => (
                   <span key={type} className="filter-tag">
                     Crime: {type}
@@ -314,6 +453,14 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
                     Severity: {currentFilters.severity}
                   </span>
                 )}
+                {Object.entries(currentFilters.attributes || {}).map(
+                  ([name, filter]) => (
+                    <span key={name} className="filter-tag">
+                      {attributes.find((a) => a.name === name)?.label || name}:{' '}
+                      {describeAttributeFilter(filter)}
+                    </span>
+                  )
+                )}
               </div>
             </div>
           )}
@@ -323,4 +470,26 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
   );
 };
 
+// Crime type select values that name a whole taxonomy category
+const CATEGORY_PREFIX = 'category:';
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+// Empty number inputs clear the bound
+function parseBound(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+function describeAttributeFilter(filter: AttributeFilter): string {
+  if (filter.value !== undefined) return filter.value;
+  const low = filter.min ?? filter.from;
+  const high = filter.max ?? filter.to;
+  if (low !== undefined && high !== undefined) return `${low} – ${high}`;
+  return low !== undefined ? `≥ ${low}` : `≤ ${high}`;
+}
+
 export default FilterPanel;
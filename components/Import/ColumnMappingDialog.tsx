@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import {
+  ColumnMapping,
+  FIR_FIELDS,
+  MappingSuggestion,
+  suggestMapping,
+} from '../../utils/columnMapping';
+import { MappingProfile } from '../../services/mappingProfileService';
+import './ColumnMappingDialog.css';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  headers: string[];
+  suggestion: MappingSuggestion;
+  profiles: MappingProfile[];
+  onConfirm: (mapping: ColumnMapping, profileName?: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * ColumnMappingDialog Component
+ *
+ * Interactive mapping step shown when an upload is missing required headers
+ * Features:
+ * - One selector per FIR field, pre-filled with alias matches and suggestions
+ * - Apply a saved mapping profile
+ * - Save the confirmed mapping as a profile for later imports
+ *
+ * Time Complexity: O(f × h) for rendering (f = FIR fields, h = file headers)
+ */
+export const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  fileName,
+  headers,
+  suggestion,
+  profiles,
+  onConfirm,
+  onCancel,
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    withTopSuggestions(suggestion)
+  );
+  const [profileName, setProfileName] = useState('');
+  const [saveProfile, setSaveProfile] = useState(true);
+
+  const missing = FIR_FIELDS.filter((f) => f.required && !mapping[f.key]);
+
+  const handleFieldChange = (field: string, header: string) => {
+    const next = { ...mapping };
+    if (header) {
+      next[field] = header;
+    } else {
+      delete next[field];
+    }
+    setMapping(next);
+  };
+
+  const handleProfileChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const profile = profiles.find((p) => p.id === e.target.value);
+    if (!profile) return;
+
+    setMapping(withTopSuggestions(suggestMapping(headers, profile.mapping)));
+    setProfileName(profile.name);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(
+      mapping,
+      saveProfile && profileName.trim() ? profileName.trim() : undefined
+    );
+  };
+
+  return (
+    <div className="column-mapping-overlay" role="dialog" aria-label="Map columns">
+      <div className="column-mapping-dialog">
+        <h3>Map Columns</h3>
+        <p className="column-mapping-subtitle">
+          Some required columns in <strong>{fileName}</strong> were not
+          recognized. Choose which file column holds each field.
+        </p>
+
+        {profiles.length > 0 && (
+          <div className="column-mapping-row">
+            <label htmlFor="mapping-profile">Saved Profile</label>
+            <select
+              id="mapping-profile"
+              defaultValue=""
+              onChange={handleProfileChange}
+            >
+              <option value="">Choose a profile...</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="column-mapping-fields">
+          {FIR_FIELDS.map((field) => (
+            <div
+              key={field.key}
+              className={`column-mapping-row ${
+                field.required && !mapping[field.key] ? 'unmapped' : ''
+              }`}
+            >
+              <label htmlFor={`map-${field.key}`}>
+                {field.label}
+                {field.required ? ' *' : ''}
+              </label>
+              <select
+                id={`map-${field.key}`}
+                value={mapping[field.key] || ''}
+                onChange={(e) => handleFieldChange(field.key, e.target.value)}
+              >
+                <option value="">— Not mapped —</option>
+                {headers.map((header) => (
+                  <option key={header} value={header}>
+                    {header}
+                    {suggestion.suggestions[field.key]?.includes(header)
+                      ? ' (suggested)'
+                      : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="column-mapping-save">
+          <label>
+            <input
+              type="checkbox"
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+            />
+            Save as profile
+          </label>
+          <input
+            type="text"
+            placeholder="e.g. Zone 11 station export"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            disabled={!saveProfile}
+          />
+        </div>
+
+        {missing.length > 0 && (
+          <p className="column-mapping-warning">
+            Still missing: {missing.map((f) => f.label).join(', ')}
+          </p>
+        )}
+
+        <div className="column-mapping-actions">
+          <button onClick={onCancel}>Cancel</button>
+          <button
+            className="primary"
+            onClick={handleConfirm}
+            disabled={missing.length > 0}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Pre-selects the best suggestion for each missing field
+ */
+function withTopSuggestions(suggestion: MappingSuggestion): ColumnMapping {
+  const mapping = { ...suggestion.mapping };
+  const used = new Set(Object.values(mapping));
+
+  suggestion.missing.forEach((field) => {
+    const candidate = suggestion.suggestions[field]?.find((h) => !used.has(h));
+    if (candidate) {
+      mapping[field] = candidate;
+      used.add(candidate);
+    }
+  });
+
+  return mapping;
+}
+
+export default ColumnMappingDialog;
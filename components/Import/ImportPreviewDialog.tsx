@@ -0,0 +1,350 @@
+import React, { useMemo, useState } from 'react';
+import { ImportProgress } from '../../services/importService';
+import { FIR_FIELDS } from '../../utils/columnMapping';
+import { firToFields } from '../../utils/importErrors';
+import { isRedactedField } from '../../utils/piiRedaction';
+import {
+  CONFLICT_POLICY_LABELS,
+  ConflictPolicy,
+  StagedRow,
+  StagedStatus,
+  applyConflictPolicy,
+  countStagedRows,
+} from '../../utils/importStaging';
+import './ImportPreviewDialog.css';
+
+interface ImportPreviewDialogProps {
+  fileName: string;
+  progress: ImportProgress;
+  conflictPolicy: ConflictPolicy;
+  onCommit: (staged: StagedRow[]) => void;
+  onDiscard: () => void;
+  redactText?: (text: string) => string; // Masks PII in changed free-text values
+}
+
+type PreviewStatus = StagedStatus | 'invalid';
+type PreviewFilter = PreviewStatus | 'all';
+
+interface PreviewEntry {
+  key: string;
+  row: number | null;
+  status: PreviewStatus;
+  stagedIndex: number | null; // Position in the staged rows; null for invalid rows
+  fields: { [column: string]: string };
+  details: string;
+}
+
+const STATUS_LABELS: { [status in PreviewStatus]: string } = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  conflict: 'Conflict',
+  invalid: 'Invalid',
+};
+
+// Rows rendered per filter; large files are summarized by the counts
+const MAX_PREVIEW_ROWS = 200;
+
+const NO_CHOICES = new Map<number, boolean>();
+
+/**
+ * ImportPreviewDialog Component
+ *
+ * Dry-run step between parsing a file and adding it to the dataset
+ * Features:
+ * - Rows classified as new, duplicate, conflicting or invalid
+ * - Conflict policy for re-imported FIR IDs, with field-level diffs
+ * - Filter by classification
+ * - Include or exclude rows individually or per filter
+ * - Commit the included rows or discard the whole batch
+ *
+ * Time Complexity: O(n log n) for building the preview (n = rows in file),
+ * O(c) per toggle (c = rows chosen by hand)
+ */
+export const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({
+  fileName,
+  progress,
+  conflictPolicy,
+  onCommit,
+  onDiscard,
+  redactText = keepText,
+}) => {
+  const [policy, setPolicy] = useState<ConflictPolicy>(conflictPolicy);
+  const [filter, setFilter] = useState<PreviewFilter>('all');
+
+  // Rows chosen by hand (staged position → included), kept apart from the
+  // staged rows so a toggle touches one entry; they belong to the progress
+  // they were made on, so a newly staged file starts without any
+  const [chosen, setChosen] = useState(() => ({
+    progress,
+    choices: new Map<number, boolean>(),
+  }));
+  const choices = chosen.progress === progress ? chosen.choices : NO_CHOICES;
+  const updateChoices = (update: (choices: Map<number, boolean>) => void) => {
+    const updated = new Map(choices);
+    update(updated);
+    setChosen({ progress, choices: updated });
+  };
+
+  const staged = useMemo(
+    () => applyConflictPolicy(progress.staged, policy),
+    [progress, policy]
+  );
+  const entries = useMemo(
+    () => buildEntries(progress, redactText),
+    [progress, redactText]
+  );
+
+  // Choosing a row by hand settles any review it was waiting for
+  const isIncluded = (index: number) => choices.get(index) ?? staged[index].included;
+  const needsReview = (index: number) => !choices.has(index) && staged[index].needsReview;
+
+  let includedCount = 0;
+  let reviewCount = 0;
+  staged.forEach((_, index) => {
+    if (isIncluded(index)) includedCount++;
+    if (needsReview(index)) reviewCount++;
+  });
+
+  const counts = {
+    ...countStagedRows(staged),
+    invalid: progress.rejected.length,
+  };
+
+  const shown = entries.filter((e) => filter === 'all' || e.status === filter);
+  const selectable = shown.filter((e) => isSelectable(e));
+
+  // A new policy re-resolves every conflict, replacing hand choices on them
+  const handlePolicyChange = (next: ConflictPolicy) => {
+    updateChoices((updated) =>
+      staged.forEach((row, index) => {
+        if (row.status === 'conflict') updated.delete(index);
+      })
+    );
+    setPolicy(next);
+  };
+
+  const setIncludedFor = (targets: PreviewEntry[], value: boolean) => {
+    updateChoices((updated) =>
+      targets.forEach((entry) => {
+        if (entry.stagedIndex !== null) updated.set(entry.stagedIndex, value);
+      })
+    );
+  };
+
+  const handleCommit = () => {
+    onCommit(
+      staged.map((row, index) =>
+        choices.has(index)
+          ? { ...row, included: choices.get(index)!, needsReview: false }
+          : row
+      )
+    );
+  };
+
+  return (
+    <div className="import-preview-overlay" role="dialog" aria-label="Import preview">
+      <div className="import-preview-dialog">
+        <h3>Review Import</h3>
+        <p className="import-preview-subtitle">
+          Nothing from <strong>{fileName}</strong> has been added yet. Choose
+          the rows to import, then commit or discard the batch.
+        </p>
+
+        {counts.conflict > 0 && (
+          <div className="import-preview-policy">
+            <label htmlFor="conflict-policy">Existing FIR IDs</label>
+            <select
+              id="conflict-policy"
+              value={policy}
+              onChange={(e) =>
+                handlePolicyChange(e.target.value as ConflictPolicy)
+              }
+            >
+              {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map(
+                (option) => (
+                  <option key={option} value={option}>
+                    {CONFLICT_POLICY_LABELS[option]}
+                  </option>
+                )
+              )}
+            </select>
+            {reviewCount > 0 && (
+              <span className="import-preview-review">
+                {reviewCount} conflicts need review
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className="import-preview-filters">
+          <button
+            className={filter === 'all' ? 'active' : ''}
+            onClick={() => setFilter('all')}
+          >
+            All ({entries.length})
+          </button>
+          {(Object.keys(STATUS_LABELS) as PreviewStatus[]).map((status) => (
+            <button
+              key={status}
+              className={`status-${status} ${filter === status ? 'active' : ''}`}
+              onClick={() => setFilter(status)}
+            >
+              {STATUS_LABELS[status]} ({counts[status]})
+            </button>
+          ))}
+        </div>
+
+        <div className="import-preview-bulk">
+          <button
+            onClick={() => setIncludedFor(selectable, true)}
+            disabled={selectable.length === 0}
+          >
+            Include shown
+          </button>
+          <button
+            onClick={() => setIncludedFor(selectable, false)}
+            disabled={selectable.length === 0}
+          >
+            Exclude shown
+          </button>
+        </div>
+
+        <div className="import-preview-table-wrapper">
+          <table className="import-preview-table">
+            <thead>
+              <tr>
+                <th>Include</th>
+                <th>Row</th>
+                <th>Status</th>
+                <th>FIR ID</th>
+                <th>Crime Type</th>
+                <th>Date</th>
+                <th>Area</th>
+                <th>Police Station</th>
+                <th>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.slice(0, MAX_PREVIEW_ROWS).map((entry) => (
+                <tr key={entry.key} className={`status-${entry.status}`}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={`Include row ${entry.row ?? ''}`}
+                      checked={
+                        entry.stagedIndex !== null && isIncluded(entry.stagedIndex)
+                      }
+                      disabled={!isSelectable(entry)}
+                      onChange={(e) => setIncludedFor([entry], e.target.checked)}
+                    />
+                  </td>
+                  <td>{entry.row ?? '—'}</td>
+                  <td>
+                    <span className={`import-preview-badge status-${entry.status}`}>
+                      {STATUS_LABELS[entry.status]}
+                    </span>
+                    {entry.stagedIndex !== null && needsReview(entry.stagedIndex) && (
+                      <span className="import-preview-review"> Review</span>
+                    )}
+                  </td>
+                  <td>{entry.fields.id}</td>
+                  <td>{entry.fields.crimetype}</td>
+                  <td>{entry.fields.date}</td>
+                  <td>{entry.fields.area}</td>
+                  <td>{entry.fields.policestation}</td>
+                  <td className="import-preview-details">{entry.details}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {shown.length > MAX_PREVIEW_ROWS && (
+          <p className="import-preview-note">
+            Showing {MAX_PREVIEW_ROWS} of {shown.length} rows.
+          </p>
+        )}
+
+        <div className="import-preview-actions">
+          <span>
+            {includedCount} of {staged.length} valid rows selected
+          </span>
+          <button onClick={onDiscard}>Discard</button>
+          <button
+            className="primary"
+            onClick={handleCommit}
+            disabled={includedCount === 0}
+          >
+            Commit {includedCount} Rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Merges staged and rejected rows into one list ordered by source row
+ * Built once per file: policies and toggles change only which rows are
+ * included, which is read from the staged rows when rendering
+ */
+function buildEntries(
+  progress: ImportProgress,
+  redactText: (text: string) => string
+): PreviewEntry[] {
+  const entries: PreviewEntry[] = progress.staged.map((row, index) => ({
+    key: `staged-${index}`,
+    row: row.row,
+    status: row.status,
+    stagedIndex: index,
+    fields: firToFields(row.fir),
+    details: describeStagedRow(row, redactText),
+  }));
+
+  progress.rejected.forEach((rejected, index) => {
+    entries.push({
+      key: `rejected-${index}`,
+      row: rejected.row,
+      status: 'invalid',
+      stagedIndex: null,
+      fields: rejected.fields,
+      details: rejected.errors.map((error) => error.message).join('; '),
+    });
+  });
+
+  return entries.sort((a, b) => (a.row ?? 0) - (b.row ?? 0));
+}
+
+function keepText(text: string): string {
+  return text;
+}
+
+function describeStagedRow(
+  staged: StagedRow,
+  redactText: (text: string) => string
+): string {
+  if (staged.status === 'duplicate') return 'Same as loaded record';
+  if (staged.status === 'conflict') {
+    return staged.changes
+      .map((change) => {
+        const label =
+          FIR_FIELDS.find((field) => field.key === change.field)?.label ||
+          change.field;
+        const show = (value: string) =>
+          isRedactedField(change.field) ? redactText(value) : value;
+        return `${label}: ${show(change.from) || '(empty)'} → ${show(change.to) || '(empty)'}`;
+      })
+      .join('; ');
+  }
+  return '';
+}
+
+/**
+ * Duplicates are identical to a loaded record, so only new and
+ * conflicting rows can be toggled
+ */
+function isSelectable(entry: PreviewEntry): boolean {
+  return entry.status === 'new' || entry.status === 'conflict';
+}
+
+export default ImportPreviewDialog;
@@ -0,0 +1,172 @@
+import React from 'react';
+import { ImportProgress } from '../../services/importService';
+import { FIR_FIELDS } from '../../utils/columnMapping';
+import {
+  ImportErrorGroup,
+  groupErrorsByCode,
+  groupImportErrors,
+} from '../../utils/importErrors';
+import './ImportSummaryPanel.css';
+
+interface ImportSummaryPanelProps {
+  fileName: string;
+  progress: ImportProgress;
+  onDownloadRejects: () => void;
+  onDownloadChanges: () => void;
+  onDismiss: () => void;
+}
+
+// Row numbers listed per error code before collapsing to "+N more"
+const MAX_LISTED_ROWS = 10;
+
+/**
+ * ImportSummaryPanel Component
+ *
+ * Shown after a previewed import is committed
+ * Features:
+ * - Totals for rows read, imported, updated, skipped and rejected
+ * - Problems grouped by error code with the affected rows and an example
+ * - Validation warnings (records imported anyway) grouped the same way
+ * - Download of the rejected rows with an error column for correction
+ * - Download of the field changes for re-imported FIR IDs
+ *
+ * Time Complexity: O(e log e) where e = number of row errors
+ */
+export const ImportSummaryPanel: React.FC<ImportSummaryPanelProps> = ({
+  fileName,
+  progress,
+  onDownloadRejects,
+  onDownloadChanges,
+  onDismiss,
+}) => {
+  const groups = groupImportErrors(progress.rejected);
+  const warningGroups = groupErrorsByCode(progress.warnings);
+  const conflicts = progress.staged.filter((row) => row.status === 'conflict');
+  const fileErrors = progress.errors.filter((error) => error.row === null);
+
+  return (
+    <section className="import-summary" aria-label="Import summary">
+      <div className="import-summary-header">
+        <h3>Import Summary: {fileName}</h3>
+        <button className="import-summary-close" onClick={onDismiss}>
+          ✕
+        </button>
+      </div>
+
+      <div className="import-summary-stats">
+        <div>
+          <span className="import-summary-value">{progress.rowsParsed}</span>
+          <span>Rows read</span>
+        </div>
+        <div>
+          <span className="import-summary-value">{progress.imported}</span>
+          <span>Imported</span>
+        </div>
+        {progress.updated > 0 && (
+          <div>
+            <span className="import-summary-value">{progress.updated}</span>
+            <span>Updated</span>
+          </div>
+        )}
+        {progress.skipped > 0 && (
+          <div>
+            <span className="import-summary-value">{progress.skipped}</span>
+            <span>Skipped</span>
+          </div>
+        )}
+        <div className={progress.rejected.length > 0 ? 'rejected' : ''}>
+          <span className="import-summary-value">{progress.rejected.length}</span>
+          <span>Rejected</span>
+        </div>
+        {progress.warningCount > 0 && (
+          <div className="warned">
+            <span className="import-summary-value">{progress.warningCount}</span>
+            <span>Warnings</span>
+          </div>
+        )}
+        {progress.failed > 0 && (
+          <div className="rejected">
+            <span className="import-summary-value">{progress.failed}</span>
+            <span>Not saved</span>
+          </div>
+        )}
+      </div>
+
+      {fileErrors.length > 0 && (
+        <ul className="import-summary-file-errors">
+          {fileErrors.map((error, index) => (
+            <li key={index}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {groups.length > 0 && <ErrorGroupTable groups={groups} heading="Problem" />}
+
+      {warningGroups.length > 0 && (
+        <ErrorGroupTable groups={warningGroups} heading="Warning" />
+      )}
+
+      <div className="import-summary-actions">
+        {conflicts.length > 0 && (
+          <button onClick={onDownloadChanges}>
+            Download Change Report ({conflicts.length} conflicts)
+          </button>
+        )}
+        <button
+          className="primary"
+          onClick={onDownloadRejects}
+          disabled={progress.rejected.length === 0}
+        >
+          Download Rejected Rows
+        </button>
+      </div>
+    </section>
+  );
+};
+
+/**
+ * Error groups with their affected rows and an example message
+ */
+const ErrorGroupTable: React.FC<{ groups: ImportErrorGroup[]; heading: string }> = ({
+  groups,
+  heading,
+}) => (
+  <table className="import-summary-table">
+    <thead>
+      <tr>
+        <th>{heading}</th>
+        <th>Count</th>
+        <th>Rows</th>
+        <th>Example</th>
+      </tr>
+    </thead>
+    <tbody>
+      {groups.map((group) => (
+        <tr key={group.code}>
+          <td>
+            {group.label}
+            <code>{group.code}</code>
+          </td>
+          <td>{group.count}</td>
+          <td>
+            {group.rows.slice(0, MAX_LISTED_ROWS).join(', ')}
+            {group.rows.length > MAX_LISTED_ROWS &&
+              ` +${group.rows.length - MAX_LISTED_ROWS} more`}
+          </td>
+          <td>
+            {group.example.column && (
+              <strong>{fieldLabel(group.example.column)}: </strong>
+            )}
+            {group.example.message}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+function fieldLabel(column: string): string {
+  return FIR_FIELDS.find((field) => field.key === column)?.label || column;
+}
+
+export default ImportSummaryPanel;
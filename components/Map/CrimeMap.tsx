@@ -2,23 +2,49 @@ import React, { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { FIR, Hotspot } from '../../types';
+import { describeGeocode } from '../../utils/geocoding';
+import { FIRCluster } from '../../utils/densityClustering';
+import {
+  DENSITY_COLOR_STOPS,
+  DensityRaster,
+  densityColor,
+  describeRaster,
+} from '../../utils/kernelDensity';
+import {
+  CONFIDENCE_BINS,
+  CONFIDENCE_BIN_COLORS,
+  CONFIDENCE_BIN_LABELS,
+} from '../../utils/hotspotStatistics';
 import './CrimeMap.css';
 
 interface CrimeMapProps {
   firs: FIR[];
   hotspots: Hotspot[];
+  clusters?: FIRCluster[];
+  density?: DensityRaster | null; // Drawn as a heatmap under the markers
   selectedFIR?: FIR;
   onFIRSelect?: (fir: FIR) => void;
 }
 
+const CLUSTER_COLOR = '#1565c0';
+
+const DENSITY_GRADIENT = `linear-gradient(to right, ${DENSITY_COLOR_STOPS.map(
+  ([r, g, b, a]) => `rgba(${r}, ${g}, ${b}, ${a})`
+).join(', ')})`;
+
 /**
  * CrimeMap Component - Task 3.0
  *
  * Interactive crime mapping using Leaflet.js
  * Features:
  * - Display FIR locations as markers
- * - Hotspot visualization with color-coding by severity
+ * - Hotspot visualization colour-coded by Gi* confidence bin (hot and cold
+ *   spots), or by severity for hotspots without one; hotspots with a cell
+ *   outline (square or hexagon) are drawn as that cell
+ * - Density clusters outlined by their convex hulls
+ * - Kernel density heatmap with a legend
  * - Interactive popups showing crime details
+ * - Dashed outline for gazetteer-geocoded (approximate) locations
  * - Zoom and pan controls
  * - Layer toggle for FIRs and hotspots
  *
@@ -28,12 +54,16 @@ interface CrimeMapProps {
 export const CrimeMap: React.FC<CrimeMapProps> = ({
   firs,
   hotspots,
+  clusters = [],
+  density = null,
   selectedFIR,
   onFIRSelect,
 }) => {
   const mapRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.CircleMarker[]>([]);
   const hotspotsLayerRef = useRef<L.FeatureGroup>(new L.FeatureGroup());
+  const clustersLayerRef = useRef<L.FeatureGroup>(new L.FeatureGroup());
+  const densityLayerRef = useRef<L.ImageOverlay | null>(null);
   const containerId = 'crime-map-container';
 
   // Color scheme for severity
@@ -57,8 +87,9 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
         minZoom: 5,
       }).addTo(map);
 
-      // Add hotspots layer
+      // Add hotspots and clusters layers
       hotspotsLayerRef.current.addTo(map);
+      clustersLayerRef.current.addTo(map);
 
       mapRef.current = map;
 
@@ -80,6 +111,7 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
     firs.forEach((fir) => {
       // Determine marker color based on crime type
       const markerColor = fir.crimeType === 'Robbery' ? 'red' : fir.crimeType === 'Assault' ? 'orange' : 'blue';
+      const geocodeNote = describeGeocode(fir);
 
       const marker = L.circleMarker(
         [fir.latitude, fir.longitude],
@@ -90,15 +122,18 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
           weight: 2,
           opacity: 0.8,
           fillOpacity: 0.7,
+          dashArray: geocodeNote ? '3 3' : undefined,
         }
       )
         .bindPopup(
           `<div class="crime-popup">
-            <strong>${fir.crimeType}</strong><br/>
-            <small>${fir.date.toLocaleDateString()} ${fir.time}</small><br/>
-            Area: ${fir.area}<br/>
-            Zone: ${fir.zone}<br/>
-            Station: ${fir.policeStation}
+            <strong>${escapeHTML(fir.crimeType)}</strong><br/>
+            <small>${fir.date.toLocaleDateString()} ${escapeHTML(fir.time)}</small><br/>
+            Area: ${escapeHTML(fir.area)}<br/>
+            Zone: ${escapeHTML(fir.zone)}<br/>
+            Station: ${escapeHTML(fir.policeStation)}${
+              geocodeNote ? `<br/><em class="geocode-note">${escapeHTML(geocodeNote)}</em>` : ''
+            }
           </div>`
         )
         .on('click', () => {
@@ -119,36 +154,111 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
     // Clear existing hotspot layers
     hotspotsLayerRef.current.clearLayers();
 
-    // Add hotspot rectangles
+    // Busier cells are filled more strongly
+    const maxCount = hotspots.reduce((max, hotspot) => Math.max(max, hotspot.firCount), 1);
+
+    // Add hotspot cells
     hotspots.forEach((hotspot) => {
-      const severityColor = SEVERITY_COLORS[hotspot.severity];
+      const color =
+        hotspot.giBin !== undefined
+          ? CONFIDENCE_BIN_COLORS[hotspot.giBin]
+          : SEVERITY_COLORS[hotspot.severity].color;
 
-      // Create a circle for each hotspot
-      const circle = L.circleMarker(
-        [hotspot.centerLat, hotspot.centerLng],
-        {
-          radius: 15 + hotspot.firCount,
-          fillColor: severityColor.color,
-          color: severityColor.color,
-          weight: 2,
-          opacity: 0.4,
-          fillOpacity: 0.3,
-        }
-      ).bindPopup(
+      // Outline the hotspot's cell, or a circle for hotspots without one
+      const shape = hotspot.cellBoundary
+        ? L.polygon(hotspot.cellBoundary, {
+            fillColor: color,
+            color,
+            weight: 1,
+            opacity: 0.6,
+            fillOpacity: 0.2 + (0.5 * hotspot.firCount) / maxCount,
+          })
+        : L.circleMarker([hotspot.centerLat, hotspot.centerLng], {
+            radius: 15 + hotspot.firCount,
+            fillColor: color,
+            color,
+            weight: 2,
+            opacity: 0.4,
+            fillOpacity: 0.3,
+          });
+
+      shape.bindPopup(
         `<div class="hotspot-popup">
-          <strong>${hotspot.zoneName}</strong><br/>
+          <strong>${escapeHTML(hotspot.zoneName)}</strong><br/>
           <span class="severity-badge severity-${hotspot.severity}">
             ${hotspot.severity.toUpperCase()}
           </span><br/>
-          FIRs: ${hotspot.firCount} (${hotspot.percentage.toFixed(1)}%)<br/>
+          FIRs: ${hotspot.firCount} (${hotspot.percentage.toFixed(1)}%)<br/>${
+            hotspot.giBin !== undefined
+              ? `${CONFIDENCE_BIN_LABELS[hotspot.giBin]}: Gi* z = ${hotspot.giZScore!.toFixed(
+                  2
+                )}, p = ${formatPValue(hotspot.giPValue!)}<br/>`
+              : ''
+          }${hotspot.moranCluster ? `Local Moran's I: ${hotspot.moranCluster} cluster<br/>` : ''}
+          Cell: ${escapeHTML(hotspot.zoneId)}<br/>
           Location: ${hotspot.centerLat.toFixed(4)}, ${hotspot.centerLng.toFixed(4)}
         </div>`
       );
 
-      hotspotsLayerRef.current.addLayer(circle);
+      hotspotsLayerRef.current.addLayer(shape);
     });
   }, [hotspots]);
 
+  // Update cluster hulls
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    clustersLayerRef.current.clearLayers();
+
+    clusters.forEach((cluster) => {
+      const popup = `<div class="hotspot-popup">
+          <strong>Cluster ${cluster.id}</strong>
+          FIRs: ${cluster.firs.length} (${cluster.coreCount} core, ${
+            cluster.firs.length - cluster.coreCount
+          } border)<br/>
+          Centre: ${cluster.centerLat.toFixed(4)}, ${cluster.centerLng.toFixed(4)}
+        </div>`;
+      const style = {
+        color: CLUSTER_COLOR,
+        weight: 2,
+        opacity: 0.8,
+        fillOpacity: 0.1,
+      };
+
+      // Clusters on one spot or along a line have no area to outline
+      const outline =
+        cluster.hull.length >= 3
+          ? L.polygon(cluster.hull, style)
+          : L.circleMarker([cluster.centerLat, cluster.centerLng], { ...style, radius: 12 });
+
+      clustersLayerRef.current.addLayer(outline.bindPopup(popup));
+    });
+  }, [clusters]);
+
+  // Update density heatmap
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    densityLayerRef.current?.remove();
+    densityLayerRef.current = null;
+    if (!density || density.max <= 0) return;
+
+    const image = renderDensity(density);
+    if (!image) return;
+
+    densityLayerRef.current = L.imageOverlay(
+      image,
+      [
+        [density.minLat, density.minLng],
+        [
+          density.minLat + density.rows * density.latStep,
+          density.minLng + density.cols * density.lngStep,
+        ],
+      ],
+      { opacity: 0.8 }
+    ).addTo(mapRef.current);
+  }, [density]);
+
   // Handle selected FIR highlight
   useEffect(() => {
     if (!selectedFIR || !mapRef.current) return;
@@ -171,6 +281,9 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
     });
   }, [selectedFIR]);
 
+  // Confidence bins on the map, hottest first
+  const giBins = CONFIDENCE_BINS.filter((bin) => hotspots.some((h) => h.giBin === bin));
+
   return (
     <div className="crime-map-wrapper">
       <div className="map-header">
@@ -197,23 +310,54 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
             ></span>
             <span>Other Crimes</span>
           </div>
+          {giBins.length > 0 ? (
+            giBins.map((bin) => (
+              <div key={bin} className="legend-item">
+                <span
+                  className="legend-color"
+                  style={{ backgroundColor: CONFIDENCE_BIN_COLORS[bin] }}
+                ></span>
+                <span>{CONFIDENCE_BIN_LABELS[bin]}</span>
+              </div>
+            ))
+          ) : (
+            <>
+              <div className="legend-item">
+                <span
+                  className="legend-color legend-hotspot-low"
+                ></span>
+                <span>Hotspot (Low)</span>
+              </div>
+              <div className="legend-item">
+                <span
+                  className="legend-color legend-hotspot-medium"
+                ></span>
+                <span>Hotspot (Medium)</span>
+              </div>
+              <div className="legend-item">
+                <span
+                  className="legend-color legend-hotspot-high"
+                ></span>
+                <span>Hotspot (High)</span>
+              </div>
+            </>
+          )}
+          {density && density.max > 0 && (
+            <div className="legend-item" title={describeRaster(density)}>
+              <span>Density</span>
+              <span className="legend-density" style={{ background: DENSITY_GRADIENT }}></span>
+              <span>{formatDensity(density.max)} / km²</span>
+            </div>
+          )}
+          {clusters.length > 0 && (
+            <div className="legend-item">
+              <span className="legend-color legend-cluster"></span>
+              <span>Cluster</span>
+            </div>
+          )}
           <div className="legend-item">
-            <span
-              className="legend-color legend-hotspot-low"
-            ></span>
-            <span>Hotspot (Low)</span>
-          </div>
-          <div className="legend-item">
-            <span
-              className="legend-color legend-hotspot-medium"
-            ></span>
-            <span>Hotspot (Medium)</span>
-          </div>
-          <div className="legend-item">
-            <span
-              className="legend-color legend-hotspot-high"
-            ></span>
-            <span>Hotspot (High)</span>
+            <span className="legend-color legend-geocoded"></span>
+            <span>Approximate (geocoded)</span>
           </div>
         </div>
       </div>
@@ -224,6 +368,12 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
         <p>
           📍 <strong>{firs.length}</strong> FIR Locations | 🎯
           <strong>{hotspots.length}</strong> Hotspots Detected
+          {clusters.length > 0 && (
+            <>
+              {' '}
+              | 🔷 <strong>{clusters.length}</strong> Clusters
+            </>
+          )}
         </p>
         <p className="map-info">
           Click on markers to view details. Use zoom controls to explore the map.
@@ -233,4 +383,52 @@ export const CrimeMap: React.FC<CrimeMapProps> = ({
   );
 };
 
+/**
+ * Escapes imported text (names, geocode matches) for popup HTML
+ */
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Draws a density raster as a PNG data URL, one pixel per cell (north up)
+ * Returns null where canvas isn't available
+ */
+function renderDensity(raster: DensityRaster): string | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.cols;
+  canvas.height = raster.rows;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const image = context.createImageData(raster.cols, raster.rows);
+  raster.values.forEach((value, i) => {
+    const color = densityColor(value, raster.max);
+    if (!color) return;
+
+    const row = raster.rows - 1 - Math.floor(i / raster.cols);
+    const offset = (row * raster.cols + (i % raster.cols)) * 4;
+    image.data[offset] = color[0];
+    image.data[offset + 1] = color[1];
+    image.data[offset + 2] = color[2];
+    image.data[offset + 3] = Math.round(color[3] * 255);
+  });
+  context.putImageData(image, 0, 0);
+
+  return canvas.toDataURL();
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? '< 0.001' : pValue.toFixed(3);
+}
+
+function formatDensity(value: number): string {
+  return value >= 10 ? value.toFixed(0) : value.toFixed(1);
+}
+
 export default CrimeMap;
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import {
+  MIN_REASON_LENGTH,
+  RedactionSettings,
+  RedactionSettingsChanges,
+} from '../../services/redactionService';
+import {
+  DEFAULT_PII_DETECTORS,
+  MASK_STYLE_LABELS,
+  MaskStyle,
+  NAME_DICTIONARY_ID,
+  RedactionConfig,
+  previewRedaction,
+} from '../../utils/piiRedaction';
+import './RedactionSettingsPanel.css';
+
+interface RedactionSettingsPanelProps {
+  settings: RedactionSettings;
+  config: RedactionConfig;
+  onChange: (changes: RedactionSettingsChanges) => void;
+  onSuspend: (reason: string) => void;
+  onResume: () => void;
+  onOpenPrivilegedView: (reason: string) => void;
+  onClosePrivilegedView: () => void;
+}
+
+// What a reason is being given for
+type ReasonFor = 'suspend' | 'privileged';
+
+const REASON_ACTIONS: { [reasonFor in ReasonFor]: string } = {
+  suspend: 'Suspend for 1 hour',
+  privileged: 'Open privileged view for 1 hour',
+};
+
+const SAMPLE_TEXT =
+  'Complainant Smt. Priya Sharma (ph 98200 12345, Aadhaar 2345 6789 0123) reported her scooter MH 02 AB 1234 stolen.';
+
+/**
+ * RedactionSettingsPanel Component
+ *
+ * Controls PII masking for exports and shared views
+ * Features:
+ * - Enforced redaction, suspended only for an hour with a written reason
+ * - Mask style
+ * - Switch detectors on and off (at least one stays on), add names to the
+ *   dictionary
+ * - Live preview of what would be masked in sample text
+ * - Privileged view showing original descriptions in the app for an hour,
+ *   opened with a written reason
+ */
+export const RedactionSettingsPanel: React.FC<RedactionSettingsPanelProps> = ({
+  settings,
+  config,
+  onChange,
+  onSuspend,
+  onResume,
+  onOpenPrivilegedView,
+  onClosePrivilegedView,
+}) => {
+  const [sample, setSample] = useState(SAMPLE_TEXT);
+  const [newName, setNewName] = useState('');
+  const [reasonFor, setReasonFor] = useState<ReasonFor | null>(null);
+  const [reason, setReason] = useState('');
+
+  const detectors = [
+    ...DEFAULT_PII_DETECTORS.map(({ id, label }) => ({ id, label })),
+    { id: NAME_DICTIONARY_ID, label: 'Names in the dictionary' },
+  ];
+  const enabledCount = detectors.filter(
+    ({ id }) => !settings.disabledDetectors.includes(id)
+  ).length;
+  const segments = previewRedaction(sample, config);
+  const matchCount = segments.filter((segment) => segment.match).length;
+
+  const toggleDetector = (id: string, enabled: boolean) =>
+    onChange({
+      disabledDetectors: enabled
+        ? settings.disabledDetectors.filter((disabled) => disabled !== id)
+        : [...settings.disabledDetectors, id],
+    });
+
+  const submitReason = () => {
+    if (reasonFor === 'suspend') onSuspend(reason);
+    else onOpenPrivilegedView(reason);
+    setReasonFor(null);
+    setReason('');
+  };
+
+  const addName = () => {
+    if (!newName.trim()) return;
+    onChange({ names: [...settings.names, newName] });
+    setNewName('');
+  };
+
+  return (
+    <section className="redaction-settings" aria-label="PII redaction">
+      <h3>PII Redaction</h3>
+
+      {settings.enforced ? (
+        <div className="redaction-option">
+          Enforced on exports and shared views{' '}
+          {!reasonFor && <button onClick={() => setReasonFor('suspend')}>Suspend…</button>}
+        </div>
+      ) : (
+        <div className="redaction-option redaction-suspended">
+          Suspended until {new Date(settings.suspension!.until).toLocaleTimeString()}:{' '}
+          {settings.suspension!.reason} <button onClick={onResume}>Enforce now</button>
+        </div>
+      )}
+      {settings.privilegedView ? (
+        <div className="redaction-option redaction-suspended">
+          Privileged view until {new Date(settings.privilegedView.until).toLocaleTimeString()}:{' '}
+          {settings.privilegedView.reason}{' '}
+          <button onClick={onClosePrivilegedView}>Close</button>
+        </div>
+      ) : (
+        settings.enforced && (
+          <div className="redaction-option">
+            Original descriptions on this screen (exports stay masked){' '}
+            {!reasonFor && (
+              <button onClick={() => setReasonFor('privileged')}>Privileged view…</button>
+            )}
+          </div>
+        )
+      )}
+      {settings.enforced && reasonFor && (
+        <div className="redaction-suspend">
+          <input
+            type="text"
+            aria-label="Reason"
+            placeholder={`Reason (at least ${MIN_REASON_LENGTH} characters)`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <button disabled={reason.trim().length < MIN_REASON_LENGTH} onClick={submitReason}>
+            {REASON_ACTIONS[reasonFor]}
+          </button>
+          <button onClick={() => setReasonFor(null)}>Cancel</button>
+        </div>
+      )}
+
+      <select
+        aria-label="Mask style"
+        value={settings.maskStyle}
+        onChange={(e) => onChange({ maskStyle: e.target.value as MaskStyle })}
+      >
+        {(Object.keys(MASK_STYLE_LABELS) as MaskStyle[]).map((style) => (
+          <option key={style} value={style}>
+            Mask: {MASK_STYLE_LABELS[style]}
+          </option>
+        ))}
+      </select>
+
+      <fieldset className="redaction-detectors">
+        <legend>Detectors</legend>
+        {detectors.map(({ id, label }) => {
+          const enabled = !settings.disabledDetectors.includes(id);
+          const last = enabled && enabledCount === 1;
+          return (
+            <label key={id} title={last ? 'At least one detector stays on' : undefined}>
+              <input
+                type="checkbox"
+                checked={enabled}
+                disabled={last}
+                onChange={(e) => toggleDetector(id, e.target.checked)}
+              />
+              {label}
+            </label>
+          );
+        })}
+      </fieldset>
+
+      <div className="redaction-names">
+        <input
+          type="text"
+          aria-label="Name to redact"
+          placeholder="Add a name to redact"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addName()}
+        />
+        <button onClick={addName}>Add</button>
+        {settings.names.map((name) => (
+          <span key={name} className="redaction-name-tag">
+            {name}
+            <button
+              aria-label={`Remove ${name}`}
+              onClick={() => onChange({ names: settings.names.filter((n) => n !== name) })}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <label className="redaction-preview-label">
+        Preview ({matchCount} found)
+        <textarea
+          aria-label="Preview text"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+        />
+      </label>
+      <p className="redaction-preview">
+        {segments.map((segment, index) =>
+          segment.match ? (
+            <mark key={index} title={`${segment.match.kind}: ${segment.text}`}>
+              {segment.mask}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </p>
+    </section>
+  );
+};
+
+export default RedactionSettingsPanel;
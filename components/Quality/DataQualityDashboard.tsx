@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { FIR } from '../../types';
+import { QualitySnapshot } from '../../services/dataQualityService';
+import {
+  QUALITY_DIMENSIONS,
+  QUALITY_DIMENSION_LABELS,
+  QualityGroupBy,
+  QualityOptions,
+  scoreDataQuality,
+} from '../../utils/dataQuality';
+import './DataQualityDashboard.css';
+
+interface DataQualityDashboardProps {
+  firs: FIR[];
+  history: QualitySnapshot[];
+  options?: QualityOptions;
+  onClearHistory: () => void;
+}
+
+const GROUP_LABELS: { [groupBy in QualityGroupBy]: string } = {
+  policeStation: 'Police Station',
+  zone: 'Zone',
+};
+
+const LINE_COLORS = ['#1a237e', '#2e7d32', '#f57c00', '#c62828', '#6a1b9a', '#00838f'];
+
+/**
+ * DataQualityDashboard Component
+ *
+ * Scorecard of the data each police station or zone submits
+ * Features:
+ * - Completeness, validity, duplicate, geocode and timeliness scores per
+ *   station or zone for the loaded dataset, worst first
+ * - Median report lag and overall score
+ * - Trend of the selected station or zone over committed imports
+ *
+ * Time Complexity: O(n × r) for scoring (n = records, r = rules)
+ */
+export const DataQualityDashboard: React.FC<DataQualityDashboardProps> = ({
+  firs,
+  history,
+  options,
+  onClearHistory,
+}) => {
+  const [groupBy, setGroupBy] = useState<QualityGroupBy>('policeStation');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const scores = useMemo(
+    () => scoreDataQuality(firs, groupBy, options),
+    [firs, groupBy, options]
+  );
+  const group = selected && scores.some((s) => s.group === selected) ? selected : scores[0]?.group;
+
+  const trend = history.flatMap((snapshot) => {
+    const score = (groupBy === 'zone' ? snapshot.zones : snapshot.stations).find(
+      (s) => s.group === group
+    );
+    if (!score) return [];
+
+    const point: { [key: string]: string | number | null } = {
+      label: `${snapshot.takenAt.toLocaleDateString()} ${snapshot.source}`,
+      overall: percentValue(score.overall),
+    };
+    QUALITY_DIMENSIONS.forEach((dimension) => {
+      point[dimension] = score[dimension] === null ? null : percentValue(score[dimension] as number);
+    });
+    return [point];
+  });
+
+  return (
+    <div className="data-quality">
+      <div className="data-quality-header">
+        <h2>Data Quality Scorecard</h2>
+        <select
+          aria-label="Group by"
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as QualityGroupBy)}
+        >
+          {(Object.keys(GROUP_LABELS) as QualityGroupBy[]).map((key) => (
+            <option key={key} value={key}>
+              By {GROUP_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {scores.length === 0 ? (
+        <p>No records loaded. Upload FIR data to score it.</p>
+      ) : (
+        <table className="data-quality-table">
+          <thead>
+            <tr>
+              <th>{GROUP_LABELS[groupBy]}</th>
+              <th>Records</th>
+              <th>Rejected</th>
+              {QUALITY_DIMENSIONS.map((dimension) => (
+                <th key={dimension}>{QUALITY_DIMENSION_LABELS[dimension]}</th>
+              ))}
+              <th>Median Lag</th>
+              <th>Overall</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scores.map((score) => (
+              <tr
+                key={score.group}
+                className={score.group === group ? 'selected' : undefined}
+                onClick={() => setSelected(score.group)}
+              >
+                <td>{score.group}</td>
+                <td>{score.records}</td>
+                <td>{score.rejected}</td>
+                {QUALITY_DIMENSIONS.map((dimension) => (
+                  <ScoreCell key={dimension} value={score[dimension]} />
+                ))}
+                <td>
+                  {score.medianReportLagHours === null
+                    ? '—'
+                    : formatLag(score.medianReportLagHours)}
+                </td>
+                <ScoreCell value={score.overall} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="data-quality-trend">
+        <h3>Trend over imports{group && `: ${group}`}</h3>
+        {trend.length === 0 ? (
+          <p className="data-quality-note">
+            Trends appear once imports from this {GROUP_LABELS[groupBy].toLowerCase()} are
+            committed.
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Tooltip />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="overall"
+                name="Overall"
+                stroke={LINE_COLORS[0]}
+                strokeWidth={3}
+              />
+              {QUALITY_DIMENSIONS.map((dimension, index) => (
+                <Line
+                  key={dimension}
+                  type="monotone"
+                  dataKey={dimension}
+                  name={QUALITY_DIMENSION_LABELS[dimension]}
+                  stroke={LINE_COLORS[index + 1]}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+        {history.length > 0 && (
+          <button onClick={onClearHistory}>Clear History ({history.length} imports)</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ScoreCell: React.FC<{ value: number | null }> = ({ value }) =>
+  value === null ? (
+    <td className="score-none">—</td>
+  ) : (
+    <td className={`score-${value >= 0.9 ? 'good' : value >= 0.7 ? 'fair' : 'poor'}`}>
+      {percentValue(value)}%
+    </td>
+  );
+
+function percentValue(score: number): number {
+  return Math.round(score * 100);
+}
+
+function formatLag(hours: number): string {
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} d`;
+}
+
+export default DataQualityDashboard;
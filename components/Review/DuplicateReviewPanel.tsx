@@ -0,0 +1,108 @@
+import React from 'react';
+import { FIR } from '../../types';
+import { DuplicateCandidate } from '../../utils/nearDuplicates';
+import './DuplicateReviewPanel.css';
+
+interface DuplicateReviewPanelProps {
+  candidates: DuplicateCandidate[];
+  onMerge: (candidate: DuplicateCandidate, keptId: string) => void;
+  onDismiss: (candidate: DuplicateCandidate) => void;
+  redactText?: (text: string) => string; // Masks PII in descriptions
+}
+
+// Pairs shown at once; the rest wait until these are decided
+const MAX_SHOWN_PAIRS = 10;
+
+/**
+ * DuplicateReviewPanel Component
+ *
+ * Review queue for FIRs that look like the same incident registered twice
+ * Features:
+ * - Both records side by side with their station, time, place and description
+ * - Overall score with the crime type, distance, time and description signals
+ * - Merge keeping either record, or dismiss the pair as separate incidents
+ */
+export const DuplicateReviewPanel: React.FC<DuplicateReviewPanelProps> = ({
+  candidates,
+  onMerge,
+  onDismiss,
+  redactText = keepText,
+}) => {
+  if (candidates.length === 0) return null;
+
+  return (
+    <section className="duplicate-review" aria-label="Duplicate review">
+      <h3>Possible Duplicates ({candidates.length})</h3>
+
+      {candidates.slice(0, MAX_SHOWN_PAIRS).map((candidate) => (
+        <div key={candidate.key} className="duplicate-pair">
+          <div className="duplicate-pair-score">
+            <span className="duplicate-pair-total">
+              {percent(candidate.score.total)}
+            </span>
+            <span>
+              {candidate.distanceKm.toFixed(2)} km apart,{' '}
+              {candidate.timeGapHours.toFixed(1)} h apart
+            </span>
+            <span>
+              Type {percent(candidate.score.crimeType)} · Distance{' '}
+              {percent(candidate.score.distance)} · Time{' '}
+              {percent(candidate.score.timeGap)}
+              {candidate.score.description !== null &&
+                ` · Description ${percent(candidate.score.description)}`}
+            </span>
+          </div>
+
+          <div className="duplicate-pair-records">
+            <RecordSummary fir={candidate.primary} redactText={redactText} />
+            <RecordSummary fir={candidate.duplicate} redactText={redactText} />
+          </div>
+
+          <div className="duplicate-pair-actions">
+            <button onClick={() => onMerge(candidate, candidate.primary.id)}>
+              Merge, keep {candidate.primary.id}
+            </button>
+            <button onClick={() => onMerge(candidate, candidate.duplicate.id)}>
+              Merge, keep {candidate.duplicate.id}
+            </button>
+            <button onClick={() => onDismiss(candidate)}>Not a duplicate</button>
+          </div>
+        </div>
+      ))}
+
+      {candidates.length > MAX_SHOWN_PAIRS && (
+        <p className="duplicate-review-note">
+          +{candidates.length - MAX_SHOWN_PAIRS} more pairs to review
+        </p>
+      )}
+    </section>
+  );
+};
+
+const RecordSummary: React.FC<{
+  fir: FIR;
+  redactText: (text: string) => string;
+}> = ({ fir, redactText }) => (
+  <dl className="duplicate-record">
+    <dt>{fir.id}</dt>
+    <dd>
+      {fir.crimeType} · {fir.date.toLocaleDateString()} {fir.time}
+    </dd>
+    <dd>
+      {fir.area}, {fir.policeStation}
+    </dd>
+    {fir.description && (
+      <dd className="duplicate-record-text">{redactText(fir.description)}</dd>
+    )}
+  </dl>
+);
+
+function keepText(text: string): string {
+  return text;
+}
+
+function percent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+export default DuplicateReviewPanel;
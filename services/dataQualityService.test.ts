@@ -0,0 +1,51 @@
+import { dataQualityService } from './dataQualityService';
+import { makeFIR } from '../utils/testFixtures';
+import { FIR } from '../types';
+
+describe('dataQualityService', () => {
+  const fir = (overrides: Partial<FIR>): FIR =>
+    makeFIR({
+      latitude: 19.205,
+      longitude: 72.84,
+      area: 'Kandivali West',
+      policeStation: 'Kandivali PS',
+      description: 'Mobile phone stolen',
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep a scorecard per committed import', () => {
+    const snapshot = dataQualityService.recordImport('kandivali-jan.csv', [fir({})], {
+      rejected: [{ row: 3, fields: { policestation: 'Kandivali PS' }, errors: [] }],
+    });
+
+    expect(snapshot).toEqual(
+      expect.objectContaining({ source: 'kandivali-jan.csv', records: 1, rejected: 1 })
+    );
+    expect(snapshot.stations.map((s) => s.group)).toEqual(['Kandivali PS']);
+    expect(snapshot.zones.map((s) => s.group)).toEqual(['Unspecified', 'Zone 11']);
+    expect(dataQualityService.getHistory()[0].takenAt).toBeInstanceOf(Date);
+  });
+
+  it('should trace a station across imports', () => {
+    dataQualityService.recordImport('jan.csv', [fir({ description: undefined })]);
+    dataQualityService.recordImport('feb.csv', [fir({ policeStation: 'Charkop PS' })]);
+    dataQualityService.recordImport('mar.csv', [fir({ id: 'FIR002' })]);
+
+    const trend = dataQualityService.getTrend('policeStation', 'Kandivali PS');
+
+    expect(trend.map((point) => point.source)).toEqual(['jan.csv', 'mar.csv']);
+    expect(trend[0].score.completeness).toBe(0.8);
+    expect(trend[1].score.completeness).toBe(1);
+  });
+
+  it('should clear the history', () => {
+    dataQualityService.recordImport('jan.csv', [fir({})]);
+    dataQualityService.clear();
+
+    expect(dataQualityService.getHistory()).toEqual([]);
+  });
+});
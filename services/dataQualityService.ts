@@ -0,0 +1,110 @@
+import { FIR } from '../types';
+import {
+  QualityGroupBy,
+  QualityOptions,
+  QualityScore,
+  scoreDataQuality,
+} from '../utils/dataQuality';
+
+const STORAGE_KEY = 'safecity.qualityHistory';
+
+// Imports kept for trends; older snapshots are dropped
+const MAX_SNAPSHOTS = 50;
+
+/**
+ * Scorecard of one committed import
+ */
+export interface QualitySnapshot {
+  id: string;
+  takenAt: Date;
+  source: string; // File name
+  records: number;
+  rejected: number;
+  stations: QualityScore[];
+  zones: QualityScore[];
+}
+
+/**
+ * One station's or zone's score in an import
+ */
+export interface QualityTrendPoint {
+  takenAt: Date;
+  source: string;
+  score: QualityScore;
+}
+
+/**
+ * Data Quality Service - Scorecard history across imports
+ *
+ * Each committed import is scored per police station and zone (the rows
+ * it added and the rows it rejected) and kept in localStorage, so
+ * supervisors can see whether a station's submissions get better or worse
+ * over time.
+ */
+class DataQualityService {
+  /**
+   * Scores an import's records and adds the scorecard to the history
+   */
+  recordImport(source: string, firs: FIR[], options: QualityOptions = {}): QualitySnapshot {
+    const snapshots = this.read();
+    const snapshot: QualitySnapshot = {
+      id: `quality_${Date.now()}_${snapshots.length}`,
+      takenAt: new Date(),
+      source,
+      records: firs.length,
+      rejected: options.rejected?.length || 0,
+      stations: scoreDataQuality(firs, 'policeStation', options),
+      zones: scoreDataQuality(firs, 'zone', options),
+    };
+
+    this.write([...snapshots, snapshot].slice(-MAX_SNAPSHOTS));
+    return snapshot;
+  }
+
+  /**
+   * Returns all scorecards, oldest first
+   */
+  getHistory(): QualitySnapshot[] {
+    return this.read().sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime());
+  }
+
+  /**
+   * Scores of one station or zone in the imports that included it, oldest first
+   */
+  getTrend(groupBy: QualityGroupBy, group: string): QualityTrendPoint[] {
+    return this.getHistory().flatMap((snapshot) => {
+      const score = (groupBy === 'zone' ? snapshot.zones : snapshot.stations).find(
+        (s) => s.group === group
+      );
+      return score ? [{ takenAt: snapshot.takenAt, source: snapshot.source, score }] : [];
+    });
+  }
+
+  clear(): void {
+    this.write([]);
+  }
+
+  private read(): QualitySnapshot[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+
+      return (JSON.parse(raw) as QualitySnapshot[]).map((s) => ({
+        ...s,
+        takenAt: new Date(s.takenAt),
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private write(snapshots: QualitySnapshot[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots));
+    } catch {
+      // Storage full or unavailable; history lasts for this session only
+    }
+  }
+}
+
+export const dataQualityService = new DataQualityService();
@@ -0,0 +1,57 @@
+import { duplicateReviewService } from './duplicateReviewService';
+import { makeFIR } from '../utils/testFixtures';
+
+describe('duplicateReviewService', () => {
+  const firs = [
+    makeFIR(),
+    makeFIR({
+      id: 'FIR-KUR-104',
+      time: '15:00',
+      policeStation: 'Kurar PS',
+      description: 'Mobile stolen',
+    }),
+  ];
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should queue likely duplicates until a decision is made', () => {
+    const [candidate] = duplicateReviewService.getQueue(firs);
+
+    expect(candidate.key).toBe('FIR-KUR-104|FIR001');
+
+    duplicateReviewService.dismiss(candidate);
+
+    expect(duplicateReviewService.getQueue(firs)).toHaveLength(0);
+    expect(duplicateReviewService.getDecisions()[0]).toEqual(
+      expect.objectContaining({ key: candidate.key, action: 'dismissed' })
+    );
+  });
+
+  it('should merge into the kept record and hide the other one', () => {
+    const [candidate] = duplicateReviewService.getQueue(firs);
+
+    const merged = duplicateReviewService.merge(candidate, 'FIR001');
+
+    expect(merged.id).toBe('FIR001');
+    expect(merged.description).toBe('Mobile stolen');
+    expect(duplicateReviewService.applyDecisions(firs).map((f) => f.id)).toEqual(['FIR001']);
+    expect(duplicateReviewService.getDecisions()[0]).toEqual(
+      expect.objectContaining({ keptId: 'FIR001', removedId: 'FIR-KUR-104' })
+    );
+  });
+
+  it('should remember decisions across reloads and allow undo', () => {
+    const [candidate] = duplicateReviewService.getQueue(firs);
+    duplicateReviewService.merge(candidate, 'FIR-KUR-104');
+
+    const stored = JSON.parse(localStorage.getItem('safecity.duplicateDecisions') || '[]');
+    expect(stored).toHaveLength(1);
+    expect(duplicateReviewService.applyDecisions(firs).map((f) => f.id)).toEqual(['FIR-KUR-104']);
+
+    expect(duplicateReviewService.undo(candidate.key)).toBe(true);
+    expect(duplicateReviewService.applyDecisions(firs)).toHaveLength(2);
+    expect(duplicateReviewService.getQueue(firs)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { FIR } from '../types';
+import {
+  DuplicateCandidate,
+  NearDuplicateOptions,
+  findNearDuplicates,
+  mergeDuplicateFIRs,
+} from '../utils/nearDuplicates';
+
+const STORAGE_KEY = 'safecity.duplicateDecisions';
+
+export type DuplicateAction = 'merged' | 'dismissed';
+
+/**
+ * An analyst's decision on a likely duplicate pair
+ * For merges, keptId is the record that stays and removedId the one merged into it
+ */
+export interface DuplicateDecision {
+  key: string;
+  action: DuplicateAction;
+  keptId?: string;
+  removedId?: string;
+  decidedAt: Date;
+}
+
+/**
+ * Duplicate Review Service - Review queue for near-duplicate FIRs
+ *
+ * Likely duplicates wait in a queue until an analyst merges or dismisses
+ * them. Decisions are persisted in localStorage by pair key, so dismissed
+ * pairs don't come back and merged-away records stay hidden when the same
+ * files are imported again.
+ */
+class DuplicateReviewService {
+  /**
+   * Likely duplicate pairs without a decision, highest score first
+   * Records already merged away are not paired again
+   */
+  getQueue(firs: FIR[], options?: NearDuplicateOptions): DuplicateCandidate[] {
+    const decided = new Set(this.read().map((d) => d.key));
+    return findNearDuplicates(this.applyDecisions(firs), options).filter(
+      (candidate) => !decided.has(candidate.key)
+    );
+  }
+
+  /**
+   * Merges the other record of a pair into the one kept and records the decision
+   * @returns The merged record to store under keptId
+   */
+  merge(candidate: DuplicateCandidate, keptId: string = candidate.primary.id): FIR {
+    const keepPrimary = keptId === candidate.primary.id;
+    const kept = keepPrimary ? candidate.primary : candidate.duplicate;
+    const removed = keepPrimary ? candidate.duplicate : candidate.primary;
+
+    this.record({
+      key: candidate.key,
+      action: 'merged',
+      keptId: kept.id,
+      removedId: removed.id,
+      decidedAt: new Date(),
+    });
+    return mergeDuplicateFIRs(kept, removed);
+  }
+
+  /**
+   * Records that a pair are separate incidents
+   */
+  dismiss(candidate: DuplicateCandidate): void {
+    this.record({ key: candidate.key, action: 'dismissed', decidedAt: new Date() });
+  }
+
+  /**
+   * Forgets the decision on a pair so it can be reviewed again
+   */
+  undo(key: string): boolean {
+    const decisions = this.read();
+    const remaining = decisions.filter((d) => d.key !== key);
+    this.write(remaining);
+    return remaining.length !== decisions.length;
+  }
+
+  /**
+   * Returns all decisions, most recent first
+   */
+  getDecisions(): DuplicateDecision[] {
+    return this.read().sort((a, b) => b.decidedAt.getTime() - a.decidedAt.getTime());
+  }
+
+  /**
+   * Drops records that were merged into another record
+   */
+  applyDecisions(firs: FIR[]): FIR[] {
+    const removed = new Set(
+      this.read()
+        .filter((d) => d.action === 'merged' && d.removedId)
+        .map((d) => d.removedId as string)
+    );
+    return removed.size > 0 ? firs.filter((fir) => !removed.has(fir.id)) : firs;
+  }
+
+  private record(decision: DuplicateDecision): void {
+    this.write([...this.read().filter((d) => d.key !== decision.key), decision]);
+  }
+
+  private read(): DuplicateDecision[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+
+      return (JSON.parse(raw) as DuplicateDecision[]).map((d) => ({
+        ...d,
+        decidedAt: new Date(d.decidedAt),
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private write(decisions: DuplicateDecision[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(decisions));
+    } catch {
+      // Storage full or unavailable; decisions last for this session only
+    }
+  }
+}
+
+export const duplicateReviewService = new DuplicateReviewService();
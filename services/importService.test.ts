@@ -0,0 +1,398 @@
+import {
+  ImportProgress,
+  importService,
+  ImportWorkerMessage,
+} from './importService';
+import { firService } from './firService';
+import { createImportWorker } from '../workers/createImportWorker';
+import { FIR } from '../types';
+import { ImportError, RejectedRow } from '../utils/importErrors';
+
+jest.mock('../workers/createImportWorker', () => ({
+  createImportWorker: jest.fn(),
+}));
+
+jest.mock('./firService', () => ({
+  firService: {
+    getAll: jest.fn(() => []),
+    addFIRBatch: jest.fn((firs: unknown[]) => ({
+      successful: firs.length,
+      failed: 0,
+    })),
+    updateFIR: jest.fn((_id: string, fir: unknown) => fir),
+  },
+}));
+
+describe('importService', () => {
+  const header =
+    'id,crimeType,date,time,latitude,longitude,area,zone,policeStation';
+  const validFIR: FIR = {
+    id: 'FIR001',
+    crimeType: 'Theft',
+    date: new Date('2026-01-20T00:00:00'),
+    time: '14:30',
+    latitude: 19.1776,
+    longitude: 72.8298,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: false,
+  };
+
+  const latitudeError: ImportError = {
+    row: 4,
+    column: 'latitude',
+    code: 'INVALID_LATITUDE',
+    value: 'x',
+    message: 'Invalid latitude: x',
+  };
+
+  const createFakeWorker = () => ({
+    onmessage: null as ((event: { data: ImportWorkerMessage }) => void) | null,
+    onerror: null,
+    postMessage: jest.fn(),
+    terminate: jest.fn(),
+  });
+
+  const toUTF16LE = (text: string): ArrayBuffer => {
+    const bytes = new Uint8Array(text.length * 2);
+    for (let i = 0; i < text.length; i++) {
+      bytes[i * 2] = text.charCodeAt(i) & 0xff;
+      bytes[i * 2 + 1] = text.charCodeAt(i) >> 8;
+    }
+    return bytes.buffer;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (firService.getAll as jest.Mock).mockReturnValue([]);
+  });
+
+  describe('importCSV with a worker', () => {
+    it('should validate and stage each batch as it arrives', () => {
+      const worker = createFakeWorker();
+      (createImportWorker as jest.Mock).mockReturnValue(worker);
+      const onProgress = jest.fn();
+      const onComplete = jest.fn();
+
+      importService.importCSV(new File(['x'], 'firs.csv'), {
+        onProgress,
+        onComplete,
+        onError: jest.fn(),
+      });
+
+      expect(worker.postMessage).toHaveBeenCalledTimes(1);
+
+      worker.onmessage!({
+        data: {
+          type: 'batch',
+          records: [validFIR, { ...validFIR, id: 'FIR002', crimeType: '' }],
+          rows: [2, 3],
+          errors: [latitudeError],
+          rejected: [{ row: 4, fields: { latitude: 'x' }, errors: [latitudeError] }],
+          rowsParsed: 3,
+          errorCount: 1,
+          bytesRead: 1,
+          totalBytes: 1,
+        },
+      });
+      worker.onmessage!({ data: { type: 'done', dateReport: null, dialect: null } });
+
+      expect(firService.addFIRBatch).not.toHaveBeenCalled();
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ rowsParsed: 3, imported: 0, invalid: 1 })
+      );
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          imported: 0,
+          errorCount: 1,
+        })
+      );
+
+      const progress = onComplete.mock.calls[0][0];
+      expect(progress.staged).toEqual([
+        expect.objectContaining({ row: 2, fir: validFIR, status: 'new', included: true }),
+      ]);
+      expect(progress.errors).toEqual([
+        latitudeError,
+        expect.objectContaining({ row: 3, code: 'REQUIRED_FIELD', column: 'crimetype' }),
+      ]);
+      expect(progress.rejected.map((r: RejectedRow) => r.row)).toEqual([4, 3]);
+      expect(progress.rejected[1].fields).toEqual(
+        expect.objectContaining({ id: 'FIR002', date: '2026-01-20', time: '14:30' })
+      );
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should stop the worker on cancel', () => {
+      const worker = createFakeWorker();
+      (createImportWorker as jest.Mock).mockReturnValue(worker);
+      const onCancel = jest.fn();
+
+      const job = importService.importCSV(new File(['x'], 'firs.csv'), {
+        onComplete: jest.fn(),
+        onCancel,
+        onError: jest.fn(),
+      });
+      job.cancel();
+
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(onCancel).toHaveBeenCalledWith(
+        expect.objectContaining({ imported: 0 })
+      );
+    });
+
+    it('should report worker errors', () => {
+      const worker = createFakeWorker();
+      (createImportWorker as jest.Mock).mockReturnValue(worker);
+      const onError = jest.fn();
+
+      importService.importCSV(new File(['x'], 'firs.csv'), {
+        onComplete: jest.fn(),
+        onError,
+      });
+      worker.onmessage!({ data: { type: 'error', message: 'Disk error' } });
+
+      expect(onError).toHaveBeenCalledWith('Disk error');
+    });
+  });
+
+  describe('importCSV without a worker', () => {
+    it('should parse the whole file on the main thread', async () => {
+      (createImportWorker as jest.Mock).mockReturnValue(null);
+      const file = new File(
+        [`${header}\nFIR001,Theft,2026-01-20,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS`],
+        'firs.csv'
+      );
+
+      const progress = await new Promise((resolve, reject) => {
+        importService.importCSV(file, { onComplete: resolve, onError: reject });
+      });
+
+      expect(progress).toEqual(
+        expect.objectContaining({ rowsParsed: 1, imported: 0, errorCount: 0 })
+      );
+      expect(firService.addFIRBatch).not.toHaveBeenCalled();
+    });
+
+    it('should decode UTF-16 semicolon files with Devanagari text', async () => {
+      (createImportWorker as jest.Mock).mockReturnValue(null);
+      const file = new File(
+        [
+          toUTF16LE(
+            `\ufeff${header.replace(/,/g, ';')}\nFIR001;Theft;20/01/2026;14:30;19.1776;72.8298;मालाड पश्चिम;Zone 11;मालाड पोलीस ठाणे`
+          ),
+        ],
+        'firs.csv'
+      );
+
+      const progress = await new Promise<ImportProgress>((resolve, reject) => {
+        importService.importCSV(file, { onComplete: resolve, onError: reject });
+      });
+
+      expect(progress.staged[0].fir).toEqual(
+        expect.objectContaining({ area: 'मालाड पश्चिम', policeStation: 'मालाड पोलीस ठाणे' })
+      );
+      expect(progress.dialect).toEqual({
+        delimiter: ';',
+        encoding: 'utf-16le',
+        bom: true,
+        delimiterSource: 'detected',
+        encodingSource: 'detected',
+      });
+    });
+  });
+
+  describe('importJSON', () => {
+    it('should stage GeoJSON features through validation', async () => {
+      const file = new File(
+        [
+          JSON.stringify({
+            type: 'FeatureCollection',
+            features: [
+              {
+                type: 'Feature',
+                geometry: { type: 'Point', coordinates: [72.8298, 19.1776] },
+                properties: { ...validFIR, date: '2026-01-20', latitude: undefined },
+              },
+              {
+                type: 'Feature',
+                geometry: { type: 'LineString', coordinates: [] },
+                properties: { ...validFIR, id: 'FIR002', date: '2026-01-20' },
+              },
+            ],
+          }),
+        ],
+        'firs.geojson'
+      );
+
+      const progress = await importService.importJSON(file);
+
+      expect(progress.staged.map((r) => [r.row, r.fir.id, r.status])).toEqual([
+        [1, 'FIR001', 'new'],
+      ]);
+      expect(progress.staged[0].fir.latitude).toBe(19.1776);
+      expect(progress.rejected.map((r) => [r.row, r.errors[0].code])).toEqual([
+        [2, 'INVALID_GEOMETRY'],
+      ]);
+      expect(firService.addFIRBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readHeaders', () => {
+    it('should read headers with the detected or declared delimiter', async () => {
+      const file = new File([`${header.replace(/,/g, '\t')}\nFIR001`], 'firs.csv');
+
+      const detected = await importService.readHeaders(file);
+      const declared = await importService.readHeaders(file, { delimiter: ',' });
+
+      expect(detected.headers).toHaveLength(9);
+      expect(detected.dialect).toEqual(
+        expect.objectContaining({ delimiter: '\t', encoding: 'utf-8' })
+      );
+      expect(declared.headers).toHaveLength(1);
+    });
+  });
+
+  describe('importParsed', () => {
+    it('should collect parse and validation rejects with their rows', () => {
+      const progress = importService.importParsed(
+        {
+          records: [validFIR, { ...validFIR, id: 'FIR002', latitude: 120 }],
+          rows: [2, 5],
+          errors: [latitudeError],
+          rejected: [{ row: 4, fields: { latitude: 'x' }, errors: [latitudeError] }],
+        },
+        100
+      );
+
+      expect(progress).toEqual(
+        expect.objectContaining({
+          rowsParsed: 3,
+          imported: 0,
+          invalid: 1,
+          errorCount: 1,
+          bytesRead: 100,
+        })
+      );
+      expect(progress.rejected.map((r) => r.row)).toEqual([4, 5]);
+      expect(progress.rejected[1].errors[0]).toEqual(
+        expect.objectContaining({ row: 5, code: 'INVALID_LATITUDE', value: '120' })
+      );
+      expect(progress.staged.map((r) => r.row)).toEqual([2]);
+    });
+
+    it('should classify rows against the loaded dataset', () => {
+      (firService.getAll as jest.Mock).mockReturnValue([
+        validFIR,
+        { ...validFIR, id: 'FIR002' },
+      ]);
+
+      const progress = importService.importParsed(
+        {
+          records: [
+            validFIR,
+            { ...validFIR, id: 'FIR002', crimeType: 'Robbery' },
+            { ...validFIR, id: 'FIR003' },
+          ],
+          rows: [2, 3, 4],
+          errors: [],
+          rejected: [],
+        },
+        100
+      );
+
+      expect(progress.staged.map((r) => [r.status, r.included])).toEqual([
+        ['duplicate', false],
+        ['conflict', false],
+        ['new', true],
+      ]);
+      expect(progress.staged[1].changes).toEqual([
+        { field: 'crimetype', from: 'Theft', to: 'Robbery' },
+      ]);
+    });
+
+    it('should apply the jurisdiction rules and stage records with warnings', () => {
+      const progress = importService.importParsed(
+        {
+          records: [
+            { ...validFIR, crimeType: 'Arson' },
+            { ...validFIR, id: 'FIR002', longitude: 73.3 },
+          ],
+          rows: [2, 3],
+          errors: [],
+          rejected: [],
+        },
+        100,
+        { jurisdiction: 'mumbai-north' }
+      );
+
+      expect(progress.rejected[0].errors[0]).toEqual(
+        expect.objectContaining({ row: 2, code: 'NOT_ALLOWED', value: 'Arson' })
+      );
+      expect(progress.staged.map((r) => r.fir.id)).toEqual(['FIR002']);
+      expect(progress.warningCount).toBe(4);
+      expect(progress.warnings.map((w) => [w.row, w.code])).toEqual([
+        [3, 'OUTSIDE_BOUNDARY'],
+        [3, 'OUTSIDE_BOUNDARY'],
+        [3, 'OUTSIDE_BOUNDARY'],
+        [3, 'OUT_OF_BOUNDS'],
+      ]);
+    });
+  });
+
+  describe('commit', () => {
+    it('should add included new rows and replace included conflicts', () => {
+      (firService.getAll as jest.Mock).mockReturnValue([validFIR]);
+      const progress = importService.importParsed(
+        {
+          records: [
+            { ...validFIR, crimeType: 'Robbery' },
+            { ...validFIR, id: 'FIR002' },
+            { ...validFIR, id: 'FIR003' },
+          ],
+          rows: [2, 3, 4],
+          errors: [],
+          rejected: [],
+        },
+        100
+      );
+
+      const committed = importService.commit({
+        ...progress,
+        staged: progress.staged.map((row) => ({
+          ...row,
+          included: row.fir.id !== 'FIR003',
+        })),
+      });
+
+      expect(firService.addFIRBatch).toHaveBeenCalledWith([
+        { ...validFIR, id: 'FIR002' },
+      ]);
+      expect(firService.updateFIR).toHaveBeenCalledWith('FIR001', {
+        ...validFIR,
+        crimeType: 'Robbery',
+      });
+      expect(committed).toEqual(
+        expect.objectContaining({ imported: 1, updated: 1, skipped: 1, failed: 0 })
+      );
+    });
+
+    it('should not touch the dataset when nothing is included', () => {
+      const progress = importService.importParsed(
+        { records: [validFIR], rows: [2], errors: [], rejected: [] },
+        100
+      );
+
+      const committed = importService.commit({
+        ...progress,
+        staged: progress.staged.map((row) => ({ ...row, included: false })),
+      });
+
+      expect(firService.addFIRBatch).toHaveBeenCalledWith([]);
+      expect(firService.updateFIR).not.toHaveBeenCalled();
+      expect(committed.skipped).toBe(1);
+    });
+  });
+});
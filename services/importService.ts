@@ -0,0 +1,455 @@
+import { FIR } from '../types';
+import {
+  CSVParseOptions,
+  FIRParseResult,
+  parseCSV,
+  readExcelHeaders,
+} from '../utils/csvParser';
+import {
+  CSVDialectReport,
+  TextEncoding,
+  resolveDelimiter,
+  resolveEncoding,
+} from '../utils/csvDialect';
+import { CSVTokenizer } from '../utils/csvTokenizer';
+import { DateFormatReport } from '../utils/dateFormats';
+import { ImportError, RejectedRow, firToFields } from '../utils/importErrors';
+import { isJSONFile, parseJSONFile, readJSONHeaders } from '../utils/jsonParser';
+import { StagedRow, stageRecords } from '../utils/importStaging';
+import { validateFIRBatch } from '../utils/validation';
+import { ValidationRule, getJurisdictionRules } from '../utils/validationRules';
+import { createImportWorker } from '../workers/createImportWorker';
+import { firService } from './firService';
+
+// Bytes read per file slice in the worker
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// Parsed records buffered before a batch is posted to the main thread
+const DEFAULT_BATCH_SIZE = 5000;
+
+// Errors retained for display; every rejected row is kept in full
+const MAX_ERROR_SAMPLES = 100;
+
+// Bytes read from the start of a CSV file to find its header row, encoding
+// and delimiter
+const HEADER_PREVIEW_SIZE = 64 * 1024;
+
+export interface ImportProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+  errorCount: number; // Parse errors
+  errors: ImportError[]; // First MAX_ERROR_SAMPLES parse and validation errors
+  warningCount: number; // Validation warnings on staged records
+  warnings: ImportError[]; // First MAX_ERROR_SAMPLES validation warnings
+  rejected: RejectedRow[]; // Rows not imported, for the reject file
+  staged: StagedRow[]; // Valid records awaiting commit
+  imported: number; // Set on commit
+  updated: number; // Set on commit
+  skipped: number; // Set on commit
+  invalid: number;
+  failed: number;
+  dateReport?: DateFormatReport; // Set when the import completes
+  dialect?: CSVDialectReport; // Set when a CSV import completes
+}
+
+/**
+ * Import options: how the file is parsed, and the jurisdiction whose
+ * validation rules staged records must pass
+ */
+export interface ImportOptions extends CSVParseOptions {
+  jurisdiction?: string;
+}
+
+/**
+ * Header row of an uploaded file, with how a CSV file will be read
+ */
+export interface HeaderPreview {
+  headers: string[];
+  dialect?: CSVDialectReport;
+}
+
+export interface ImportWorkerRequest {
+  file: File;
+  chunkSize: number;
+  batchSize: number;
+  options: CSVParseOptions;
+}
+
+export type ImportWorkerMessage =
+  | {
+      type: 'batch';
+      records: FIR[];
+      rows: number[];
+      errors: ImportError[];
+      rejected: RejectedRow[];
+      rowsParsed: number;
+      errorCount: number;
+      bytesRead: number;
+      totalBytes: number;
+    }
+  | {
+      type: 'done';
+      dateReport: DateFormatReport | null;
+      dialect: CSVDialectReport | null;
+    }
+  | { type: 'error'; message: string };
+
+export interface ImportHandlers {
+  onProgress?: (progress: ImportProgress) => void;
+  onComplete: (progress: ImportProgress) => void;
+  onCancel?: (progress: ImportProgress) => void;
+  onError: (message: string) => void;
+}
+
+export interface ImportJob {
+  cancel: () => void;
+}
+
+/**
+ * Progress counters for an import that hasn't read anything yet
+ */
+export const createImportProgress = (totalBytes: number): ImportProgress => ({
+  bytesRead: 0,
+  totalBytes,
+  rowsParsed: 0,
+  errorCount: 0,
+  errors: [],
+  warningCount: 0,
+  warnings: [],
+  rejected: [],
+  staged: [],
+  imported: 0,
+  updated: 0,
+  skipped: 0,
+  invalid: 0,
+  failed: 0,
+});
+
+/**
+ * Import Service - Streams large FIR files into a staged preview
+ *
+ * Parsing runs in a Web Worker so the UI stays responsive. Each batch of
+ * parsed records is validated with validateFIRBatch and staged as new,
+ * duplicate or conflicting against the loaded dataset. Nothing reaches
+ * firService until the reviewed preview is committed; cancelling stops the
+ * worker and discards the staged rows.
+ *
+ * Time Complexity: O(n) where n = number of rows
+ */
+class ImportService {
+  /**
+   * Reads only the header row of an uploaded CSV, Excel or JSON file
+   * Lets the upload flow check column mapping before parsing any records,
+   * and show the detected delimiter and encoding of CSV files
+   */
+  async readHeaders(
+    file: File,
+    options: CSVParseOptions = {}
+  ): Promise<HeaderPreview> {
+    if (/\.xlsx?$/i.test(file.name)) {
+      const { headers, errors } = readExcelHeaders(await readBytes(file));
+      if (errors.length > 0) throw new Error(errors[0].message);
+      return { headers };
+    }
+
+    if (isJSONFile(file.name)) {
+      const text = await this.readFileText(file, options);
+      const { headers, errors } = readJSONHeaders(text, file.name);
+      if (errors.length > 0) throw new Error(errors[0].message);
+      return { headers };
+    }
+
+    const { dialect, preview } = await this.readDialect(file, options);
+    const rows = new CSVTokenizer(dialect.delimiter).write(preview);
+
+    return {
+      headers: rows.length > 0 ? rows[0].values.map((h) => h.trim()) : [],
+      dialect,
+    };
+  }
+
+  /**
+   * Starts a chunked CSV import into a staged preview
+   * Falls back to a single in-memory parse where workers are unavailable
+   */
+  importCSV(
+    file: File,
+    handlers: ImportHandlers,
+    options: ImportOptions = {}
+  ): ImportJob {
+    const progress = createImportProgress(file.size);
+    const index = this.createIndex();
+    const rules = getJurisdictionRules(options.jurisdiction);
+
+    const worker = createImportWorker();
+
+    if (!worker) {
+      let cancelled = false;
+
+      this.readDialect(file, options)
+        .then(async ({ dialect }) => {
+          const text = await readText(file, dialect.encoding);
+          if (cancelled) return;
+
+          const result = parseCSV(text, { ...options, delimiter: dialect.delimiter });
+          handlers.onComplete({
+            ...this.importParsed(result, file.size, options),
+            dialect,
+          });
+        })
+        .catch((error) => {
+          if (cancelled) return;
+          handlers.onError(
+            error instanceof Error ? error.message : 'File upload failed'
+          );
+        });
+
+      return {
+        cancel: () => {
+          cancelled = true;
+          handlers.onCancel?.({ ...progress });
+        },
+      };
+    }
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'batch':
+          this.stageBatch(progress, message, index, rules);
+          progress.rowsParsed = message.rowsParsed;
+          progress.errorCount = message.errorCount;
+          progress.bytesRead = message.bytesRead;
+          handlers.onProgress?.({ ...progress });
+          break;
+        case 'done':
+          worker.terminate();
+          progress.dateReport = message.dateReport || undefined;
+          progress.dialect = message.dialect || undefined;
+          handlers.onComplete({ ...progress });
+          break;
+        case 'error':
+          worker.terminate();
+          handlers.onError(message.message);
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      handlers.onError(event.message || 'Import worker failed');
+    };
+
+    const request: ImportWorkerRequest = {
+      file,
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      batchSize: DEFAULT_BATCH_SIZE,
+      options,
+    };
+    worker.postMessage(request);
+
+    return {
+      cancel: () => {
+        worker.terminate();
+        handlers.onCancel?.({ ...progress });
+      },
+    };
+  }
+
+  /**
+   * Parses a GeoJSON, JSON or NDJSON file and stages its records
+   * Features go through the same validation and staging as CSV rows
+   */
+  async importJSON(
+    file: File,
+    options: ImportOptions = {}
+  ): Promise<ImportProgress> {
+    const text = await this.readFileText(file, options);
+    return this.importParsed(
+      parseJSONFile(text, file.name, options),
+      file.size,
+      options
+    );
+  }
+
+  /**
+   * Stages records parsed in one pass (workbooks, JSON, or CSV without a worker)
+   * Returns the completed progress for the import preview
+   */
+  importParsed(
+    result: FIRParseResult,
+    totalBytes: number,
+    options: ImportOptions = {}
+  ): ImportProgress {
+    const progress = createImportProgress(totalBytes);
+
+    this.stageBatch(
+      progress,
+      result,
+      this.createIndex(),
+      getJurisdictionRules(options.jurisdiction)
+    );
+    progress.dateReport = result.dateReport;
+    progress.rowsParsed = result.records.length + result.rejected.length;
+    progress.errorCount = result.errors.length;
+    progress.bytesRead = totalBytes;
+
+    return progress;
+  }
+
+  /**
+   * Commits the included staged rows to firService
+   * New FIR IDs are added; included conflicts replace the loaded record
+   *
+   * @returns Progress with imported, updated, skipped and failed counts
+   */
+  commit(progress: ImportProgress): ImportProgress {
+    const known = new Set(firService.getAll().map((fir) => fir.id));
+    const additions: FIR[] = [];
+    const replacements: FIR[] = [];
+
+    progress.staged.forEach(({ fir, included }) => {
+      if (!included) return;
+      if (known.has(fir.id)) {
+        replacements.push(fir);
+      } else {
+        additions.push(fir);
+        known.add(fir.id);
+      }
+    });
+
+    const result = firService.addFIRBatch(additions);
+    let updated = 0;
+    let failed = result.failed;
+
+    replacements.forEach((fir) => {
+      if (firService.updateFIR(fir.id, fir)) updated++;
+      else failed++;
+    });
+
+    return {
+      ...progress,
+      imported: additions.length - result.failed,
+      updated,
+      skipped: progress.staged.length - additions.length - replacements.length,
+      failed,
+    };
+  }
+
+  /**
+   * Resolves the encoding and delimiter of a CSV file from its first bytes
+   * Returns them with the decoded preview text
+   */
+  private async readDialect(
+    file: File,
+    options: CSVParseOptions
+  ): Promise<{ dialect: CSVDialectReport; preview: string }> {
+    const head = file.slice(0, HEADER_PREVIEW_SIZE);
+    const encoding = resolveEncoding(
+      options.encoding || 'auto',
+      new Uint8Array(await readBytes(head))
+    );
+    const preview = await readText(head, encoding.encoding);
+
+    return {
+      dialect: {
+        ...encoding,
+        ...resolveDelimiter(options.delimiter || 'auto', preview),
+      },
+      preview,
+    };
+  }
+
+  /**
+   * Reads a whole file as text in its declared or detected encoding
+   */
+  private async readFileText(
+    file: File,
+    options: CSVParseOptions
+  ): Promise<string> {
+    const { encoding } = resolveEncoding(
+      options.encoding || 'auto',
+      new Uint8Array(await readBytes(file.slice(0, HEADER_PREVIEW_SIZE)))
+    );
+    return readText(file, encoding);
+  }
+
+  /**
+   * Index of the loaded records by FIR ID, used to classify staged rows
+   */
+  private createIndex(): Map<string, FIR> {
+    return new Map(firService.getAll().map((fir) => [fir.id, fir]));
+  }
+
+  /**
+   * Validates a batch of parsed records and stages the valid ones
+   * Parse rejects and records failing validation are collected for the
+   * reject file, located by their source row; warnings are counted and
+   * sampled but don't stop a record from being staged
+   */
+  private stageBatch(
+    progress: ImportProgress,
+    batch: Pick<FIRParseResult, 'records' | 'rows' | 'errors' | 'rejected'>,
+    index: Map<string, FIR>,
+    rules: ValidationRule[]
+  ): void {
+    const { validRecords, invalidRecords, warnedRecords } = validateFIRBatch(
+      batch.records,
+      rules
+    );
+    const invalidIndexes = new Set(invalidRecords.map((r) => r.index));
+    const validRows = batch.rows.filter((_, i) => !invalidIndexes.has(i));
+    progress.staged.push(...stageRecords(validRecords, validRows, index));
+
+    const errors = [...batch.errors];
+    progress.rejected.push(...batch.rejected);
+
+    invalidRecords.forEach(({ fir, index, issues }) => {
+      const row = batch.rows[index] ?? null;
+      const rowErrors = issues.map((issue) => ({ ...issue, row }));
+      errors.push(...rowErrors);
+      progress.rejected.push({ row, fields: firToFields(fir), errors: rowErrors });
+    });
+
+    const room = MAX_ERROR_SAMPLES - progress.errors.length;
+    if (room > 0) progress.errors.push(...errors.slice(0, room));
+
+    progress.invalid += invalidRecords.length;
+
+    const warnings = warnedRecords.flatMap(({ index, warnings }) =>
+      warnings.map((warning) => ({ ...warning, row: batch.rows[index] ?? null }))
+    );
+    const warningRoom = MAX_ERROR_SAMPLES - progress.warnings.length;
+    if (warningRoom > 0) progress.warnings.push(...warnings.slice(0, warningRoom));
+    progress.warningCount += warnings.length;
+  }
+}
+
+function readBytes(blob: Blob): Promise<ArrayBuffer> {
+  return readBlob((reader) => reader.readAsArrayBuffer(blob));
+}
+
+/**
+ * Decodes a file with FileReader, which (unlike TextDecoder) is available
+ * wherever the main-thread import runs
+ */
+function readText(blob: Blob, encoding: TextEncoding): Promise<string> {
+  return readBlob((reader) => reader.readAsText(blob, encoding));
+}
+
+function readBlob<T extends ArrayBuffer | string>(
+  read: (reader: FileReader) => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => {
+      reject(reader.error || new Error('Unable to read file'));
+    };
+    read(reader);
+  });
+}
+
+export const importService = new ImportService();
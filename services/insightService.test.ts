@@ -69,6 +69,23 @@ describe('insightService', () => {
 
       expect(hour14?.count).toBe(2);
     });
+    it('should read 12-hour and compact times correctly', () => {
+      const peakHours = insightService.getPeakHours([
+        { ...firs[0], time: '2:30 PM' },
+        { ...firs[0], time: '1430' },
+      ]);
+
+      expect(peakHours.find((h) => h.hour === 14)?.count).toBe(2);
+      expect(peakHours.find((h) => h.hour === 2)?.count).toBe(0);
+    });
+
+    it('should use the IST incident timestamp when present', () => {
+      const peakHours = insightService.getPeakHours([
+        { ...firs[0], incidentAt: new Date('2026-01-20T18:15:00.000Z') },
+      ]);
+
+      expect(peakHours[0]).toEqual({ hour: 23, count: 1 });
+    });
   });
 
   describe('getDayWiseTrends', () => {
@@ -93,6 +110,27 @@ describe('insightService', () => {
 
       expect(topTypes).toHaveLength(1);
     });
+
+    it('should count spelling variants of a crime type together', () => {
+      const topTypes = insightService.getTopCrimeTypes([
+        ...firs,
+        { ...firs[0], id: 'FIR004', crimeType: 'theft ' },
+      ]);
+
+      expect(topTypes[0]).toEqual({ type: 'Theft', count: 3 });
+    });
+  });
+
+  describe('getCrimeCategories', () => {
+    it('should roll crime types up to taxonomy categories', () => {
+      const categories = insightService.getCrimeCategories(firs);
+
+      expect(categories.map((c) => [c.category, c.count])).toEqual([
+        ['Property Crime', 2],
+        ['Offences Against the Body', 1],
+      ]);
+      expect(insightService.generateInsights(firs).crimeCategories).toEqual(categories);
+    });
   });
 
   describe('getMonthlyTrends', () => {
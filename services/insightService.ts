@@ -1,4 +1,17 @@
 import { FIR, CrimeInsight } from '../types';
+import { getIncidentParts } from '../utils/incidentTime';
+import {
+  CrimeCategoryCount,
+  countByCrimeCategory,
+  normalizeCrimeType,
+} from '../utils/crimeTaxonomy';
+
+declare module '../types' {
+  interface CrimeInsight {
+    /** Crime type counts rolled up to taxonomy categories */
+    crimeCategories?: CrimeCategoryCount[];
+  }
+}
 
 /**
  * Insight Service - Generates crime patterns and statistical insights
@@ -6,9 +19,12 @@ import { FIR, CrimeInsight } from '../types';
  * Analyzes:
  * - Peak crime hours
  * - Daily trends
- * - Crime type distribution
+ * - Crime type distribution, by type and by taxonomy category
  * - Time-based patterns
  *
+ * Hours, weekdays and months are taken in Asia/Kolkata (see incidentTime),
+ * independent of the browser's timezone
+ *
  * Time Complexity: O(n log n) for sorting operations
  */
 class InsightService {
@@ -23,6 +39,7 @@ class InsightService {
       peakHours: this.getPeakHours(firs),
       dayWiseTrends: dayTrends,
       topCrimeTypes: this.getTopCrimeTypes(firs),
+      crimeCategories: this.getCrimeCategories(firs),
       monthlyTrends: this.getMonthlyTrends(firs),
       areaStatistics: this.getAreaStatistics(firs),
       predictedPeakHours: this.getPredictedPeakHours(firs),
@@ -45,7 +62,8 @@ class InsightService {
     const hourCounts: { [key: number]: number } = {};
 
     firs.forEach((fir) => {
-      const hour = parseInt(fir.time.split(':')[0], 10);
+      const { hour } = getIncidentParts(fir);
+      if (hour === null) return; // Unknown incident time
       hourCounts[hour] = (hourCounts[hour] || 0) + 1;
     });
 
@@ -72,7 +90,7 @@ class InsightService {
     const dayCounts: { [key: number]: number } = {};
 
     firs.forEach((fir) => {
-      const day = fir.date.getDay();
+      const day = getIncidentParts(fir).weekday;
       dayCounts[day] = (dayCounts[day] || 0) + 1;
     });
 
@@ -84,6 +102,8 @@ class InsightService {
 
   /**
    * Gets most frequent crime types
+   * Types are counted under their canonical taxonomy name, so "theft" and
+   * "Theft " are one bucket
    * Time Complexity: O(n log n)
    */
   getTopCrimeTypes(
@@ -93,7 +113,8 @@ class InsightService {
     const typeCounts: { [key: string]: number } = {};
 
     firs.forEach((fir) => {
-      typeCounts[fir.crimeType] = (typeCounts[fir.crimeType] || 0) + 1;
+      const type = normalizeCrimeType(fir.crimeType);
+      typeCounts[type] = (typeCounts[type] || 0) + 1;
     });
 
     return Object.entries(typeCounts)
@@ -102,6 +123,14 @@ class InsightService {
       .slice(0, limit);
   }
 
+  /**
+   * Counts crimes per taxonomy category with the types under each
+   * Time Complexity: O(n + t log t) where t = distinct crime types
+   */
+  getCrimeCategories(firs: FIR[]): CrimeCategoryCount[] {
+    return countByCrimeCategory(firs);
+  }
+
   /**
    * Analyzes crimes by month
    */
@@ -113,7 +142,7 @@ class InsightService {
     const monthCounts: { [key: number]: number } = {};
 
     firs.forEach((fir) => {
-      const month = fir.date.getMonth();
+      const month = getIncidentParts(fir).month;
       monthCounts[month] = (monthCounts[month] || 0) + 1;
     });
 
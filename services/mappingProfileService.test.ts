@@ -0,0 +1,51 @@
+import { mappingProfileService } from './mappingProfileService';
+
+describe('mappingProfileService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should save and list profiles', () => {
+    mappingProfileService.save('Zone 11 export', { policestation: 'PS Name' });
+
+    const profiles = mappingProfileService.getAll();
+
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].name).toBe('Zone 11 export');
+    expect(profiles[0].mapping).toEqual({ policestation: 'PS Name' });
+    expect(profiles[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should replace a profile saved under the same name', () => {
+    mappingProfileService.save('Zone 11', { policestation: 'PS Name' });
+    mappingProfileService.save('zone 11', { policestation: 'Station' });
+
+    const profiles = mappingProfileService.getAll();
+
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].mapping.policestation).toBe('Station');
+  });
+
+  it('should delete profiles', () => {
+    const profile = mappingProfileService.save('Temp', { id: 'No' });
+
+    expect(mappingProfileService.delete(profile.id)).toBe(true);
+    expect(mappingProfileService.getAll()).toHaveLength(0);
+  });
+
+  it('should find the profile whose headers all appear in the file', () => {
+    mappingProfileService.save('Partial', { policestation: 'Stn' });
+    mappingProfileService.save('Full', { policestation: 'Stn', crimetype: 'Head' });
+    mappingProfileService.save('Other', { policestation: 'Thana' });
+
+    const match = mappingProfileService.findBestMatch(['Head', 'Stn', 'Lat']);
+
+    expect(match?.name).toBe('Full');
+  });
+
+  it('should return undefined when no profile fits', () => {
+    mappingProfileService.save('Other', { policestation: 'Thana' });
+
+    expect(mappingProfileService.findBestMatch(['Stn'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { ColumnMapping } from '../utils/columnMapping';
+
+const STORAGE_KEY = 'safecity.mappingProfiles';
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Mapping Profile Service - Saved column mappings for station exports
+ *
+ * Profiles are persisted in localStorage so a district's mapping only has
+ * to be confirmed once and is picked up automatically on later imports.
+ */
+class MappingProfileService {
+  /**
+   * Returns all saved profiles, most recently used first
+   */
+  getAll(): MappingProfile[] {
+    return this.read().sort(
+      (a, b) => this.lastActivity(b) - this.lastActivity(a)
+    );
+  }
+
+  /**
+   * Saves a mapping under a name; an existing profile with the same name is replaced
+   */
+  save(name: string, mapping: ColumnMapping): MappingProfile {
+    const profiles = this.read();
+    const trimmed = name.trim();
+    const existing = profiles.find(
+      (p) => p.name.toLowerCase() === trimmed.toLowerCase()
+    );
+
+    const profile: MappingProfile = {
+      id: existing?.id || `profile_${Date.now()}_${profiles.length}`,
+      name: trimmed,
+      mapping: { ...mapping },
+      createdAt: existing?.createdAt || new Date(),
+      lastUsedAt: new Date(),
+    };
+
+    this.write([...profiles.filter((p) => p.id !== profile.id), profile]);
+    return profile;
+  }
+
+  delete(id: string): boolean {
+    const profiles = this.read();
+    const remaining = profiles.filter((p) => p.id !== id);
+    this.write(remaining);
+    return remaining.length !== profiles.length;
+  }
+
+  /**
+   * Records that a profile was applied to an import
+   */
+  markUsed(id: string): void {
+    const profiles = this.read();
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+
+    profile.lastUsedAt = new Date();
+    this.write(profiles);
+  }
+
+  /**
+   * Finds the saved profile that fits a file's headers best
+   * Every source header a profile maps must be present in the file;
+   * among those the profile mapping the most fields wins
+   */
+  findBestMatch(headers: string[]): MappingProfile | undefined {
+    const available = new Set(headers.map((h) => h.trim()));
+
+    return this.getAll()
+      .filter((p) => {
+        const sources = Object.values(p.mapping);
+        return (
+          sources.length > 0 && sources.every((s) => available.has(s.trim()))
+        );
+      })
+      .sort(
+        (a, b) =>
+          Object.keys(b.mapping).length - Object.keys(a.mapping).length
+      )[0];
+  }
+
+  private lastActivity(profile: MappingProfile): number {
+    return (profile.lastUsedAt || profile.createdAt).getTime();
+  }
+
+  private read(): MappingProfile[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+
+      return (JSON.parse(raw) as MappingProfile[]).map((p) => ({
+        ...p,
+        createdAt: new Date(p.createdAt),
+        lastUsedAt: p.lastUsedAt ? new Date(p.lastUsedAt) : undefined,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private write(profiles: MappingProfile[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    } catch {
+      // Storage full or unavailable; profiles simply aren't persisted
+    }
+  }
+}
+
+export const mappingProfileService = new MappingProfileService();
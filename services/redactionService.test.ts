@@ -0,0 +1,133 @@
+import { PRIVILEGED_VIEW_MS, SUSPENSION_MS, redactionService } from './redactionService';
+import { DEFAULT_PII_DETECTORS, NAME_DICTIONARY_ID } from '../utils/piiRedaction';
+import { StagedRow } from '../utils/importStaging';
+import { FIR } from '../types';
+
+describe('redactionService', () => {
+  const fir = { id: 'FIR001', description: 'Caller Bunty Rane, 9820012345' } as FIR;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should enforce redaction by default', () => {
+    expect(redactionService.getSettings()).toEqual(
+      expect.objectContaining({ enforced: true, maskStyle: 'label' })
+    );
+    expect(redactionService.redactForExport([fir])[0].description).toBe(
+      'Caller Bunty [NAME], [PHONE]'
+    );
+  });
+
+  it('should persist added names and disabled detectors', () => {
+    redactionService.saveSettings({ names: ['Bunty', ' Bunty '], disabledDetectors: ['phone'] });
+
+    expect(redactionService.getSettings().names).toEqual(['Bunty']);
+    expect(redactionService.redactForExport([fir])[0].description).toBe(
+      'Caller [NAME], 9820012345'
+    );
+
+    redactionService.saveSettings({ disabledDetectors: [NAME_DICTIONARY_ID] });
+
+    expect(redactionService.redactForExport([fir])[0].description).toBe(
+      'Caller [NAME] Rane, [PHONE]'
+    );
+  });
+
+  it('should refuse settings that switch off every detector', () => {
+    const patterns = DEFAULT_PII_DETECTORS.map((detector) => detector.id);
+
+    expect(() =>
+      redactionService.saveSettings({ disabledDetectors: [...patterns, NAME_DICTIONARY_ID] })
+    ).toThrow(/at least one detector/);
+    expect(redactionService.getSettings().disabledDetectors).toEqual([]);
+
+    redactionService.saveSettings({ disabledDetectors: patterns });
+    expect(redactionService.redactForExport([fir])[0].description).toBe(
+      'Caller Bunty [NAME], 9820012345'
+    );
+  });
+
+  it('should need a reason to open the privileged view and never export the original', () => {
+    expect(() => redactionService.openPrivilegedView('curious')).toThrow(/reason/);
+    expect(redactionService.redactForView('ph 9820012345')).toBe('ph [PHONE]');
+
+    const start = new Date();
+    const settings = redactionService.openPrivilegedView('Victim callback for FIR001', start);
+
+    expect(settings.privilegedView).toEqual({
+      reason: 'Victim callback for FIR001',
+      until: new Date(start.getTime() + PRIVILEGED_VIEW_MS).toISOString(),
+    });
+    expect(redactionService.redactForView('ph 9820012345')).toBe('ph 9820012345');
+    expect(redactionService.redactForExport([fir])[0].description).toContain('[PHONE]');
+
+    // Settings saves can't open it, and it closes early or after an hour
+    redactionService.closePrivilegedView();
+    redactionService.saveSettings({ privilegedView: settings.privilegedView } as object);
+    expect(redactionService.redactForView('ph 9820012345')).toBe('ph [PHONE]');
+
+    redactionService.openPrivilegedView('Victim callback for FIR001', new Date(0));
+    expect(redactionService.getSettings().privilegedView).toBeUndefined();
+    expect(redactionService.redactForView('ph 9820012345')).toBe('ph [PHONE]');
+  });
+
+  it('should need a reason to suspend enforcement and resume it after an hour', () => {
+    expect(() => redactionService.suspendEnforcement('  export ')).toThrow(/reason/);
+    expect(redactionService.getSettings().enforced).toBe(true);
+
+    const start = new Date();
+    const settings = redactionService.suspendEnforcement('Court order 12/2026 for FIR001', start);
+
+    expect(settings.suspension).toEqual({
+      reason: 'Court order 12/2026 for FIR001',
+      until: new Date(start.getTime() + SUSPENSION_MS).toISOString(),
+    });
+    expect(redactionService.redactForView('ph 9820012345')).toBe('ph 9820012345');
+    expect(redactionService.redactForExport([fir])).toEqual([fir]);
+
+    redactionService.suspendEnforcement('Court order 12/2026 for FIR001', new Date(0));
+    expect(redactionService.getSettings().enforced).toBe(true);
+  });
+
+  it('should end a suspension early and ignore enforcement stored as off', () => {
+    redactionService.suspendEnforcement('Court order 12/2026 for FIR001');
+    expect(redactionService.resumeEnforcement().enforced).toBe(true);
+    expect(redactionService.getSettings().suspension).toBeUndefined();
+
+    localStorage.setItem('safecity.redaction', JSON.stringify({ enforced: false }));
+    expect(redactionService.getSettings().enforced).toBe(true);
+  });
+
+  it('should mask free-text changes in the change report rows', () => {
+    const staged = [
+      {
+        row: 2,
+        fir,
+        status: 'conflict',
+        changes: [
+          { field: 'description', from: 'ph 9820012345', to: 'ph 9820054321' },
+          { field: 'area', from: 'Malad West', to: 'Malad East' },
+        ],
+        included: true,
+        needsReview: false,
+      },
+    ] as unknown as StagedRow[];
+
+    expect(redactionService.redactStagedRows(staged)[0].changes).toEqual([
+      { field: 'description', from: 'ph [PHONE]', to: 'ph [PHONE]' },
+      { field: 'area', from: 'Malad West', to: 'Malad East' },
+    ]);
+  });
+
+  it('should mask custom columns of rejected rows', () => {
+    const rejected = [
+      { row: 3, fields: { id: 'FIR002', witness: 'Suresh Patil' }, errors: [] },
+    ];
+
+    expect(redactionService.redactRejectedRows(rejected)[0].fields).toEqual({
+      id: 'FIR002',
+      witness: '[NAME]',
+    });
+  });
+});
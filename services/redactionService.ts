@@ -0,0 +1,275 @@
+import { FIR } from '../types';
+import { RejectedRow } from '../utils/importErrors';
+import { StagedRow } from '../utils/importStaging';
+import {
+  DEFAULT_PII_DETECTORS,
+  DEFAULT_PII_NAMES,
+  MaskStyle,
+  NAME_DICTIONARY_ID,
+  RedactionConfig,
+  isRedactedField,
+  redactFIR,
+  redactFieldValues,
+  redactText,
+} from '../utils/piiRedaction';
+
+const STORAGE_KEY = 'safecity.redaction';
+
+// How long enforcement stays off once suspended and a privileged view stays
+// open, and the shortest reason accepted for either
+export const SUSPENSION_MS = 60 * 60 * 1000;
+export const PRIVILEGED_VIEW_MS = 60 * 60 * 1000;
+export const MIN_REASON_LENGTH = 10;
+
+/**
+ * Why and until when redaction is relaxed (until is an ISO timestamp)
+ */
+export interface RedactionGrant {
+  reason: string;
+  until: string;
+}
+
+/**
+ * Redaction settings
+ * - enforced: mask PII in every export and in non-privileged views; false
+ *   only while a suspension is running
+ * - suspension: the reasoned suspension that turned enforcement off
+ * - privilegedView: the reasoned grant showing original text in the app
+ * - disabledDetectors: detector IDs switched off (NAME_DICTIONARY_ID for the names list);
+ *   at least one detector stays on
+ * - names: names added to the bundled dictionary
+ */
+export interface RedactionSettings {
+  enforced: boolean;
+  suspension?: RedactionGrant;
+  privilegedView?: RedactionGrant;
+  maskStyle: MaskStyle;
+  disabledDetectors: string[];
+  names: string[];
+}
+
+/**
+ * Settings saveSettings may change; enforcement and the privileged view
+ * have their own methods
+ */
+export type RedactionSettingsChanges = Partial<
+  Omit<RedactionSettings, 'enforced' | 'suspension' | 'privilegedView'>
+>;
+
+// Every detector, the name dictionary included
+const DETECTOR_IDS = [...DEFAULT_PII_DETECTORS.map((detector) => detector.id), NAME_DICTIONARY_ID];
+
+const DEFAULT_SETTINGS: RedactionSettings = {
+  enforced: true,
+  maskStyle: 'label',
+  disabledDetectors: [],
+  names: [],
+};
+
+/**
+ * Redaction Service - PII masking for exports and shared views
+ *
+ * Settings are persisted in localStorage. While redaction is enforced,
+ * every export goes through redactForExport (or the row helpers for the
+ * reject and change reports), and descriptions shown to anyone without a
+ * privileged view go through redactForView. Exports never depend on the
+ * privileged view. Stored records are never changed, so merges and
+ * re-exports always start from the original text.
+ *
+ * Nothing relaxes redaction without a written reason: enforcement is
+ * suspended for SUSPENSION_MS and the privileged view opened for
+ * PRIVILEGED_VIEW_MS, each then ending by itself, and settings that would
+ * switch off every detector are refused.
+ */
+class RedactionService {
+  private cachedConfig: { settings: string; config: RedactionConfig } | null = null;
+
+  getSettings(): RedactionSettings {
+    return this.read();
+  }
+
+  /**
+   * Updates some settings and returns the result
+   * Enforcement and the privileged view are changed through their own
+   * methods; throws when the changes would switch off every detector
+   */
+  saveSettings(changes: RedactionSettingsChanges): RedactionSettings {
+    // Dropped even when passed untyped, so nothing bypasses the reason
+    const { enforced, suspension, privilegedView, ...allowed } =
+      changes as Partial<RedactionSettings>;
+    const settings = { ...this.read(), ...allowed };
+    if (DETECTOR_IDS.every((id) => settings.disabledDetectors.includes(id))) {
+      throw new Error('Keep at least one detector on; suspend redaction to export unmasked');
+    }
+
+    settings.names = uniqueNames(settings.names);
+    this.write(settings);
+    return settings;
+  }
+
+  /**
+   * Turns enforcement off for SUSPENSION_MS, recording why
+   * Throws when the reason is shorter than MIN_REASON_LENGTH
+   */
+  suspendEnforcement(reason: string, now: Date = new Date()): RedactionSettings {
+    const suspension = createGrant(reason, now, SUSPENSION_MS);
+    const settings = { ...this.read(), enforced: false, suspension };
+    this.write(settings);
+    return settings;
+  }
+
+  /**
+   * Ends a suspension early
+   */
+  resumeEnforcement(): RedactionSettings {
+    const { suspension, ...settings } = this.read();
+    const resumed = { ...settings, enforced: true };
+    this.write(resumed);
+    return resumed;
+  }
+
+  /**
+   * Shows original text in the app for PRIVILEGED_VIEW_MS, recording why;
+   * exports stay masked
+   * Throws when the reason is shorter than MIN_REASON_LENGTH
+   */
+  openPrivilegedView(reason: string, now: Date = new Date()): RedactionSettings {
+    const privilegedView = createGrant(reason, now, PRIVILEGED_VIEW_MS);
+    const settings = { ...this.read(), privilegedView };
+    this.write(settings);
+    return settings;
+  }
+
+  /**
+   * Ends a privileged view early
+   */
+  closePrivilegedView(): RedactionSettings {
+    const { privilegedView, ...settings } = this.read();
+    this.write(settings);
+    return settings;
+  }
+
+  /**
+   * Detectors and names in effect under the current settings
+   */
+  getConfig(): RedactionConfig {
+    const settings = this.read();
+    const key = JSON.stringify(settings);
+    if (this.cachedConfig?.settings === key) return this.cachedConfig.config;
+
+    const disabled = new Set(settings.disabledDetectors);
+    const config: RedactionConfig = {
+      detectors: DEFAULT_PII_DETECTORS.filter((detector) => !disabled.has(detector.id)),
+      names: disabled.has(NAME_DICTIONARY_ID)
+        ? settings.names
+        : uniqueNames([...DEFAULT_PII_NAMES, ...settings.names]),
+      maskStyle: settings.maskStyle,
+    };
+
+    this.cachedConfig = { settings: key, config };
+    return config;
+  }
+
+  /**
+   * Records as they may leave the app
+   */
+  redactForExport(firs: FIR[]): FIR[] {
+    if (!this.read().enforced) return firs;
+
+    const config = this.getConfig();
+    return firs.map((fir) => redactFIR(fir, config));
+  }
+
+  /**
+   * Rejected rows with their free-text columns masked, for the reject file
+   */
+  redactRejectedRows(rejected: RejectedRow[]): RejectedRow[] {
+    if (!this.read().enforced) return rejected;
+
+    const config = this.getConfig();
+    return rejected.map((row) => ({ ...row, fields: redactFieldValues(row.fields, config) }));
+  }
+
+  /**
+   * Staged rows with masked records and field changes, for the change report
+   */
+  redactStagedRows(staged: StagedRow[]): StagedRow[] {
+    if (!this.read().enforced) return staged;
+
+    const config = this.getConfig();
+    const mask = (field: string, value: string) =>
+      isRedactedField(field) ? redactText(value, config).text : value;
+
+    return staged.map((row) => ({
+      ...row,
+      fir: redactFIR(row.fir, config),
+      changes: row.changes.map((change) => ({
+        ...change,
+        from: mask(change.field, change.from),
+        to: mask(change.field, change.to),
+      })),
+    }));
+  }
+
+  /**
+   * Free text as the app shows it; the original while a privileged view is open
+   */
+  redactForView(text: string): string {
+    const settings = this.read();
+    if (settings.privilegedView || !settings.enforced) return text;
+    return redactText(text, this.getConfig()).text;
+  }
+
+  /**
+   * Stored settings; enforcement is off only while a suspension is running
+   * and the privileged view open only until it ends, whatever was stored
+   */
+  private read(): RedactionSettings {
+    let stored: Partial<RedactionSettings> = {};
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) stored = JSON.parse(raw) as Partial<RedactionSettings>;
+    } catch {
+      // Unreadable settings fall back to the defaults
+    }
+
+    const { suspension, privilegedView, ...settings } = { ...DEFAULT_SETTINGS, ...stored };
+    const read: RedactionSettings = { ...settings, enforced: true };
+    if (isRunning(privilegedView)) read.privilegedView = privilegedView;
+    if (isRunning(suspension)) {
+      read.enforced = false;
+      read.suspension = suspension;
+    }
+    return read;
+  }
+
+  private write(settings: RedactionSettings): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // Storage full or unavailable; settings last for this session only
+    }
+  }
+}
+
+/**
+ * Grant lasting durationMs from now
+ * Throws when the reason is shorter than MIN_REASON_LENGTH
+ */
+function createGrant(reason: string, now: Date, durationMs: number): RedactionGrant {
+  const trimmed = reason.trim();
+  if (trimmed.length < MIN_REASON_LENGTH) {
+    throw new Error(`Give a reason of at least ${MIN_REASON_LENGTH} characters`);
+  }
+  return { reason: trimmed, until: new Date(now.getTime() + durationMs).toISOString() };
+}
+
+function isRunning(grant: RedactionGrant | undefined): grant is RedactionGrant {
+  return !!grant && Date.parse(grant.until) > Date.now();
+}
+
+function uniqueNames(names: string[]): string[] {
+  return Array.from(new Set(names.map((name) => name.trim()).filter(Boolean)));
+}
+
+export const redactionService = new RedactionService();
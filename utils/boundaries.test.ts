@@ -0,0 +1,146 @@
+import {
+  Boundary,
+  checkDeclaredBoundary,
+  createBoundarySet,
+  findBoundary,
+  getBoundaries,
+  isInsideBoundary,
+  locateBoundaries,
+  parseBoundaries,
+  setBoundaries,
+} from './boundaries';
+import { FIR } from '../types';
+
+describe('boundaries', () => {
+  const square = (x0: number, y0: number, x1: number, y1: number) => [
+    [x0, y0],
+    [x1, y0],
+    [x1, y1],
+    [x0, y1],
+    [x0, y0],
+  ];
+
+  const feature = (properties: object, geometry: object) => ({
+    type: 'Feature',
+    properties,
+    geometry,
+  });
+
+  const collection = {
+    type: 'FeatureCollection',
+    features: [
+      feature(
+        { kind: 'zone', name: 'Zone 11' },
+        { type: 'Polygon', coordinates: [square(72.78, 19.16, 72.86, 19.27)] }
+      ),
+      // L-shaped station with a hole (a railway yard outside its jurisdiction)
+      feature(
+        { kind: 'station', name: 'Malad PS', aliases: ['Malad Police Station'] },
+        {
+          type: 'Polygon',
+          coordinates: [
+            [[72.80, 19.16], [72.86, 19.16], [72.86, 19.18], [72.82, 19.18], [72.82, 19.20], [72.80, 19.20], [72.80, 19.16]],
+            square(72.84, 19.165, 72.85, 19.17),
+          ],
+        }
+      ),
+      feature(
+        { kind: 'station', name: 'Kandivali PS' },
+        {
+          type: 'MultiPolygon',
+          coordinates: [[square(72.82, 19.18, 72.86, 19.20)], [square(72.80, 19.20, 72.86, 19.22)]],
+        }
+      ),
+    ],
+  };
+
+  const boundaries = parseBoundaries(collection);
+  const set = createBoundarySet(boundaries);
+  const byName = (name: string) => boundaries.find((b) => b.name === name) as Boundary;
+
+  afterEach(() => setBoundaries(null));
+
+  describe('parseBoundaries', () => {
+    it('should read Polygon and MultiPolygon features', () => {
+      expect(boundaries.map((b) => [b.kind, b.name, b.polygons.length])).toEqual([
+        ['zone', 'Zone 11', 1],
+        ['station', 'Malad PS', 1],
+        ['station', 'Kandivali PS', 2],
+      ]);
+      expect(byName('Kandivali PS').bbox).toEqual([72.80, 19.18, 72.86, 19.22]);
+    });
+
+    it('should reject documents that are not usable boundaries', () => {
+      expect(() => parseBoundaries({ type: 'Feature' })).toThrow('FeatureCollection');
+      expect(() =>
+        parseBoundaries({
+          type: 'FeatureCollection',
+          features: [feature({ kind: 'beat', name: 'B1' }, collection.features[0].geometry)],
+        })
+      ).toThrow('Boundary B1 has unknown kind: beat');
+      expect(() =>
+        parseBoundaries({
+          type: 'FeatureCollection',
+          features: [feature({ kind: 'zone', name: 'Z' }, { type: 'Point', coordinates: [72.8, 19.1] })],
+        })
+      ).toThrow('Boundary Z must be a Polygon or MultiPolygon');
+    });
+  });
+
+  describe('isInsideBoundary', () => {
+    it('should follow concave outlines, holes and multiple polygons', () => {
+      const malad = byName('Malad PS');
+
+      expect(isInsideBoundary(malad, 19.19, 72.81)).toBe(true);
+      expect(isInsideBoundary(malad, 19.19, 72.84)).toBe(false); // Inside the L's notch
+      expect(isInsideBoundary(malad, 19.1675, 72.845)).toBe(false); // In the hole
+      expect(isInsideBoundary(byName('Kandivali PS'), 19.21, 72.81)).toBe(true);
+    });
+  });
+
+  describe('locateBoundaries', () => {
+    it('should work out the station and zone for a coordinate', () => {
+      expect(locateBoundaries(19.19, 72.84, set)).toEqual({
+        station: 'Kandivali PS',
+        zone: 'Zone 11',
+        ward: null,
+      });
+      expect(locateBoundaries(18.9, 72.8, set)).toEqual({ station: null, zone: null, ward: null });
+    });
+
+    it('should locate coordinates in the bundled Mumbai boundaries', () => {
+      expect(locateBoundaries(19.1874, 72.8395)).toEqual({
+        station: 'Malad PS',
+        zone: 'Zone 11',
+        ward: 'P/North',
+      });
+    });
+  });
+
+  describe('checkDeclaredBoundary', () => {
+    const fir = { latitude: 19.19, longitude: 72.84 } as FIR;
+
+    it('should name the boundary the point actually falls in', () => {
+      expect(checkDeclaredBoundary(fir, 'station', 'Malad P.S.', set)).toBe(
+        'Location 19.19, 72.84 is outside the station boundary of Malad P.S. (falls in Kandivali PS)'
+      );
+      expect(checkDeclaredBoundary(fir, 'zone', 'Zone 11', set)).toBeNull();
+    });
+
+    it('should pass values with no boundary', () => {
+      expect(checkDeclaredBoundary(fir, 'station', 'Central PS', set)).toBeNull();
+    });
+  });
+
+  describe('setBoundaries', () => {
+    it('should replace the bundled boundaries until reset', () => {
+      setBoundaries(boundaries);
+      expect(findBoundary('station', 'Malad Police Station')).toBe(byName('Malad PS'));
+      expect(findBoundary('ward', 'Malad West')).toBeUndefined();
+
+      setBoundaries(null);
+      expect(findBoundary('ward', 'Malad West')?.name).toBe('P/North');
+      expect(getBoundaries().boundaries.length).toBeGreaterThan(3);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { FIR } from '../types';
+import BOUNDARY_DATA from '../data/boundaries.json';
+import { normalizePlaceName } from './geocoding';
+
+/**
+ * Police station, zone and ward boundaries
+ *
+ * Boundaries are GeoJSON Polygon or MultiPolygon features whose properties
+ * give their kind ("station", "zone" or "ward"), name and optional aliases
+ * (e.g. the area names a ward covers). The bundled set
+ * (data/boundaries.json) covers Zones 11 and 12; a GIS export can replace
+ * it for the session with setBoundaries.
+ *
+ * Used to check that an FIR's coordinates fall inside the polygons of its
+ * declared police station, zone and area, and to work out which station
+ * and zone a coordinate belongs to. Names are compared as in the
+ * gazetteer (normalizePlaceName).
+ */
+
+export type BoundaryKind = 'station' | 'zone' | 'ward';
+
+export const BOUNDARY_KINDS: BoundaryKind[] = ['station', 'zone', 'ward'];
+
+// GeoJSON position order: [longitude, latitude]
+export type Position = [number, number];
+
+// Outer ring first, then holes
+export type PolygonRings = Position[][];
+
+export interface Boundary {
+  kind: BoundaryKind;
+  name: string;
+  aliases: string[];
+  polygons: PolygonRings[];
+  bbox: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+  area: number; // Planar area in square degrees, to prefer the tightest match
+}
+
+/**
+ * Boundaries prepared for lookups (see createBoundarySet)
+ */
+export interface BoundarySet {
+  boundaries: Boundary[];
+  byName: Map<string, Boundary>; // "kind:normalized name or alias" -> boundary
+}
+
+/**
+ * Boundaries containing a coordinate, one per kind
+ */
+export interface BoundaryLocation {
+  station: string | null;
+  zone: string | null;
+  ward: string | null;
+}
+
+let activeBoundaries: BoundarySet | null = null;
+
+/**
+ * Reads boundary features from a GeoJSON FeatureCollection
+ * Throws when the document isn't a FeatureCollection or a feature has no
+ * kind, name or polygon geometry
+ *
+ * Time Complexity: O(v) where v = polygon vertices
+ */
+export const parseBoundaries = (data: unknown): Boundary[] => {
+  const document = typeof data === 'string' ? JSON.parse(data) : data;
+  if (!isObject(document) || document.type !== 'FeatureCollection' || !Array.isArray(document.features)) {
+    throw new Error('Boundaries must be a GeoJSON FeatureCollection');
+  }
+
+  return document.features.map((feature, index) => {
+    const properties = isObject(feature) && isObject(feature.properties) ? feature.properties : {};
+    const geometry = isObject(feature) && isObject(feature.geometry) ? feature.geometry : {};
+    const name = typeof properties.name === 'string' ? properties.name : '';
+    const label = name || `#${index + 1}`;
+
+    if (!name) throw new Error(`Boundary ${label} has no name`);
+    if (!BOUNDARY_KINDS.includes(properties.kind as BoundaryKind)) {
+      throw new Error(`Boundary ${label} has unknown kind: ${String(properties.kind)}`);
+    }
+
+    let polygons: PolygonRings[];
+    if (geometry.type === 'Polygon') polygons = [geometry.coordinates as PolygonRings];
+    else if (geometry.type === 'MultiPolygon') polygons = geometry.coordinates as PolygonRings[];
+    else throw new Error(`Boundary ${label} must be a Polygon or MultiPolygon`);
+
+    if (!Array.isArray(polygons) || !polygons.every(isPolygon)) {
+      throw new Error(`Boundary ${label} has invalid coordinates`);
+    }
+
+    const aliases = Array.isArray(properties.aliases)
+      ? properties.aliases.filter((alias): alias is string => typeof alias === 'string')
+      : [];
+
+    return {
+      kind: properties.kind as BoundaryKind,
+      name,
+      aliases,
+      polygons,
+      bbox: boundingBox(polygons),
+      area: polygons.reduce((sum, rings) => sum + polygonArea(rings), 0),
+    };
+  });
+};
+
+/**
+ * Indexes boundaries by kind and normalized name or alias
+ * The first boundary claiming a name keeps it
+ */
+export const createBoundarySet = (boundaries: Boundary[]): BoundarySet => {
+  const byName = new Map<string, Boundary>();
+
+  boundaries.forEach((boundary) => {
+    [boundary.name, ...boundary.aliases].forEach((alias) => {
+      const key = `${boundary.kind}:${normalizePlaceName(alias)}`;
+      if (!byName.has(key)) byName.set(key, boundary);
+    });
+  });
+
+  return { boundaries, byName };
+};
+
+/**
+ * The boundaries in use: a set passed to setBoundaries, else the bundled one
+ */
+export const getBoundaries = (): BoundarySet => {
+  if (!activeBoundaries) {
+    activeBoundaries = createBoundarySet(parseBoundaries(BOUNDARY_DATA));
+  }
+  return activeBoundaries;
+};
+
+/**
+ * Replaces the boundaries in use; null restores the bundled set
+ */
+export const setBoundaries = (boundaries: Boundary[] | null): void => {
+  activeBoundaries = boundaries ? createBoundarySet(boundaries) : null;
+};
+
+/**
+ * Finds the boundary of a kind with a given name or alias
+ */
+export const findBoundary = (
+  kind: BoundaryKind,
+  name: string,
+  set: BoundarySet = getBoundaries()
+): Boundary | undefined => set.byName.get(`${kind}:${normalizePlaceName(name)}`);
+
+/**
+ * True when a coordinate is inside one of a boundary's polygons and
+ * outside its holes
+ *
+ * Time Complexity: O(v) where v = polygon vertices
+ */
+export const isInsideBoundary = (
+  boundary: Boundary,
+  latitude: number,
+  longitude: number
+): boolean => {
+  const [minLng, minLat, maxLng, maxLat] = boundary.bbox;
+  if (latitude < minLat || latitude > maxLat || longitude < minLng || longitude > maxLng) {
+    return false;
+  }
+
+  return boundary.polygons.some(
+    ([outer, ...holes]) =>
+      pointInRing(longitude, latitude, outer) &&
+      !holes.some((hole) => pointInRing(longitude, latitude, hole))
+  );
+};
+
+/**
+ * Works out the station, zone and ward a coordinate belongs to
+ * Where boundaries of a kind overlap, the smallest one wins
+ *
+ * Time Complexity: O(b × v) where b = boundaries, v = vertices per boundary
+ */
+export const locateBoundaries = (
+  latitude: number,
+  longitude: number,
+  set: BoundarySet = getBoundaries()
+): BoundaryLocation => {
+  const location: BoundaryLocation = { station: null, zone: null, ward: null };
+  const best: { [kind in BoundaryKind]?: Boundary } = {};
+
+  set.boundaries.forEach((boundary) => {
+    const current = best[boundary.kind];
+    if (current && current.area <= boundary.area) return;
+    if (isInsideBoundary(boundary, latitude, longitude)) best[boundary.kind] = boundary;
+  });
+
+  BOUNDARY_KINDS.forEach((kind) => {
+    location[kind] = best[kind]?.name || null;
+  });
+  return location;
+};
+
+/**
+ * Checks a FIR's coordinates against the boundary its declared value names
+ * @returns A message when the point is outside; null when it is inside or
+ * no boundary has that name
+ */
+export const checkDeclaredBoundary = (
+  fir: FIR,
+  kind: BoundaryKind,
+  declared: string,
+  set: BoundarySet = getBoundaries()
+): string | null => {
+  const boundary = findBoundary(kind, declared, set);
+  if (!boundary || isInsideBoundary(boundary, fir.latitude, fir.longitude)) return null;
+
+  const actual = locateBoundaries(fir.latitude, fir.longitude, set)[kind];
+  return `Location ${fir.latitude}, ${fir.longitude} is outside the ${kind} boundary of ${declared}${
+    actual ? ` (falls in ${actual})` : ''
+  }`;
+};
+
+/**
+ * Bounding box of all boundaries in use, in isValidGeoLocation's form
+ */
+export const getBoundaryExtent = (
+  set: BoundarySet = getBoundaries()
+): { minLat: number; maxLat: number; minLng: number; maxLng: number } => {
+  const [minLng, minLat, maxLng, maxLat] = boundingBox(
+    set.boundaries.flatMap((boundary) => boundary.polygons)
+  );
+  return { minLat, maxLat, minLng, maxLng };
+};
+
+/**
+ * Ray casting: counts ring edges crossed by a ray running east of the point
+ */
+function pointInRing(x: number, y: number, ring: Position[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function boundingBox(polygons: PolygonRings[]): [number, number, number, number] {
+  let minLng = Infinity;
+  let minLat = Infinity;
+  let maxLng = -Infinity;
+  let maxLat = -Infinity;
+
+  polygons.forEach(([outer]) => {
+    outer.forEach(([lng, lat]) => {
+      minLng = Math.min(minLng, lng);
+      minLat = Math.min(minLat, lat);
+      maxLng = Math.max(maxLng, lng);
+      maxLat = Math.max(maxLat, lat);
+    });
+  });
+
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+/**
+ * Shoelace area of the outer ring less its holes
+ */
+function polygonArea([outer, ...holes]: PolygonRings): number {
+  const ringArea = (ring: Position[]) => {
+    let sum = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      sum += (ring[j][0] + ring[i][0]) * (ring[j][1] - ring[i][1]);
+    }
+    return Math.abs(sum) / 2;
+  };
+
+  return ringArea(outer) - holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+}
+
+function isPolygon(rings: unknown): rings is PolygonRings {
+  return (
+    Array.isArray(rings) &&
+    rings.length > 0 &&
+    rings.every(
+      (ring) =>
+        Array.isArray(ring) &&
+        ring.length >= 4 &&
+        ring.every(
+          (position) =>
+            Array.isArray(position) &&
+            typeof position[0] === 'number' &&
+            typeof position[1] === 'number'
+        )
+    )
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,101 @@
+import {
+  normalizeHeaderName,
+  resolveHeaders,
+  suggestMapping,
+} from './columnMapping';
+
+describe('columnMapping', () => {
+  describe('normalizeHeaderName', () => {
+    it('should strip case, spaces and punctuation', () => {
+      expect(normalizeHeaderName('PS Name')).toBe('psname');
+      expect(normalizeHeaderName('Date of Occurrence')).toBe('dateofoccurrence');
+      expect(normalizeHeaderName('crime_type')).toBe('crimetype');
+    });
+  });
+
+  describe('resolveHeaders', () => {
+    it('should keep canonical headers as lowercase keys', () => {
+      const resolved = resolveHeaders(['id', 'crimeType', 'policeStation']);
+
+      expect(resolved).toEqual(['id', 'crimetype', 'policestation']);
+    });
+
+    it('should resolve district export aliases', () => {
+      const resolved = resolveHeaders([
+        'FIR No',
+        'Offence Head',
+        'Date of Occurrence',
+        'Time of Occurrence',
+        'Lat',
+        'Long',
+        'Locality',
+        'Zone',
+        'PS Name',
+      ]);
+
+      expect(resolved).toEqual([
+        'id',
+        'crimetype',
+        'date',
+        'time',
+        'latitude',
+        'longitude',
+        'area',
+        'zone',
+        'policestation',
+      ]);
+    });
+
+    it('should apply an explicit mapping before aliases', () => {
+      const resolved = resolveHeaders(['Reported On', 'Date'], {
+        date: 'Reported On',
+      });
+
+      expect(resolved[0]).toBe('date');
+      expect(resolved[1]).not.toBe('date');
+    });
+
+    it('should leave unknown headers lowercased', () => {
+      expect(resolveHeaders(['IPC Section'])).toEqual(['ipc section']);
+    });
+  });
+
+  describe('suggestMapping', () => {
+    it('should report no missing fields when aliases cover everything', () => {
+      const suggestion = suggestMapping([
+        'FIR No', 'Offence Head', 'Date', 'Time', 'Lat', 'Long',
+        'Area', 'Zone', 'PS Name',
+      ]);
+
+      expect(suggestion.missing).toHaveLength(0);
+      expect(suggestion.mapping.policestation).toBe('PS Name');
+    });
+
+    it('should list missing required fields with ranked suggestions', () => {
+      const suggestion = suggestMapping([
+        'FIR No', 'Offence Head', 'Occurrence Dt', 'Time', 'Lat', 'Long',
+        'Area', 'Zone', 'Police Stn',
+      ]);
+
+      expect(suggestion.missing).toEqual(['date', 'policestation']);
+      expect(suggestion.suggestions.policestation[0]).toBe('Police Stn');
+      expect(suggestion.suggestions.date).toContain('Occurrence Dt');
+    });
+
+    it('should use a saved profile mapping when its headers are present', () => {
+      const suggestion = suggestMapping(
+        ['FIR No', 'Head', 'Dt', 'Tm', 'Lat', 'Long', 'Area', 'Zone', 'Stn'],
+        {
+          crimetype: 'Head',
+          date: 'Dt',
+          time: 'Tm',
+          policestation: 'Stn',
+          description: 'Not In This File',
+        }
+      );
+
+      expect(suggestion.missing).toHaveLength(0);
+      expect(suggestion.mapping.description).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Column Mapping for heterogeneous FIR exports
+ *
+ * Police-station exports name the same field differently
+ * ("Offence Head", "PS Name", "Lat", "Date of Occurrence"). Headers are
+ * resolved to the canonical FIR field keys used by the parsers through:
+ * 1. An explicit mapping (chosen by the user or a saved profile)
+ * 2. Exact match on the normalized field name
+ * 3. Built-in header aliases
+ *
+ * Fuzzy suggestions (bigram similarity) are offered for fields that remain
+ * unmapped so the upload flow can ask the user to confirm them.
+ */
+
+/**
+ * Explicit mapping of canonical field key -> source header as it appears in the file
+ */
+export type ColumnMapping = { [field: string]: string };
+
+export interface FieldDefinition {
+  key: string; // Canonical lowercase key used by the parsers
+  property: string; // FIR property name, used as the column name when writing CSV
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const FIR_FIELDS: FieldDefinition[] = [
+  {
+    key: 'id',
+    property: 'id',
+    label: 'FIR ID',
+    required: true,
+    aliases: ['fir no', 'fir number', 'fir id', 'firno', 'case no', 'case number'],
+  },
+  {
+    key: 'crimetype',
+    property: 'crimeType',
+    label: 'Crime Type',
+    required: true,
+    aliases: ['offence head', 'offence', 'offense', 'crime head', 'crime', 'crime type', 'major head'],
+  },
+  {
+    key: 'date',
+    property: 'date',
+    label: 'Date',
+    required: true,
+    aliases: ['date of occurrence', 'occurrence date', 'incident date', 'date of offence', 'crime date'],
+  },
+  {
+    key: 'time',
+    property: 'time',
+    label: 'Time',
+    required: true,
+    aliases: ['time of occurrence', 'occurrence time', 'incident time', 'time of offence'],
+  },
+  {
+    key: 'latitude',
+    property: 'latitude',
+    label: 'Latitude',
+    required: true,
+    aliases: ['lat', 'y'],
+  },
+  {
+    key: 'longitude',
+    property: 'longitude',
+    label: 'Longitude',
+    required: true,
+    aliases: ['long', 'lng', 'lon', 'x'],
+  },
+  {
+    key: 'area',
+    property: 'area',
+    label: 'Area',
+    required: true,
+    aliases: ['locality', 'place of occurrence', 'location', 'beat'],
+  },
+  {
+    key: 'zone',
+    property: 'zone',
+    label: 'Zone',
+    required: true,
+    aliases: ['zone name', 'division', 'district'],
+  },
+  {
+    key: 'policestation',
+    property: 'policeStation',
+    label: 'Police Station',
+    required: true,
+    aliases: ['ps name', 'ps', 'police station', 'station', 'station name'],
+  },
+  {
+    key: 'description',
+    property: 'description',
+    label: 'Description',
+    required: false,
+    aliases: ['brief facts', 'remarks', 'details', 'modus operandi'],
+  },
+  {
+    key: 'isaccident',
+    property: 'isAccident',
+    label: 'Is Accident',
+    required: false,
+    aliases: ['accident', 'road accident'],
+  },
+  {
+    key: 'issensitivezone',
+    property: 'isSensitiveZone',
+    label: 'Is Sensitive Zone',
+    required: false,
+    aliases: ['sensitive zone', 'sensitive'],
+  },
+  {
+    key: 'reportedat',
+    property: 'reportedAt',
+    label: 'Registered At',
+    required: false,
+    aliases: ['registered at', 'registered on', 'registration date', 'date of registration', 'reported on'],
+  },
+  {
+    key: 'updatedat',
+    property: 'updatedAt',
+    label: 'Last Updated',
+    required: false,
+    aliases: ['last updated', 'last modified', 'modified on', 'updated on', 'modified date', 'updated'],
+  },
+  {
+    key: 'geocodeconfidence',
+    property: 'geocodeConfidence',
+    label: 'Geocode Confidence',
+    required: false,
+    aliases: ['geocode confidence', 'location confidence'],
+  },
+  {
+    key: 'geocodematch',
+    property: 'geocodeMatch',
+    label: 'Geocoded From',
+    required: false,
+    aliases: ['geocoded from', 'geocode match'],
+  },
+];
+
+// Minimum similarity for a header to be offered as a suggestion
+const SUGGESTION_THRESHOLD = 0.4;
+
+/**
+ * Normalizes a header for comparison: lowercase, alphanumerics only
+ * "PS Name" -> "psname", "Date of Occurrence" -> "dateofoccurrence"
+ */
+export const normalizeHeaderName = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Resolves file headers to canonical field keys
+ * Unrecognized headers are returned trimmed and lowercased
+ *
+ * Time Complexity: O(h × a) where h = headers, a = total aliases
+ */
+export const resolveHeaders = (
+  headers: string[],
+  mapping: ColumnMapping = {}
+): string[] => {
+  const resolved: string[] = headers.map((h) => h.trim().toLowerCase());
+  const assigned = new Set<string>();
+
+  // Explicit mappings take precedence
+  Object.entries(mapping).forEach(([field, source]) => {
+    const index = headers.findIndex((h) => h.trim() === source.trim());
+    if (index >= 0) {
+      resolved[index] = field;
+      assigned.add(field);
+    }
+  });
+
+  const explicit = new Set(
+    Object.values(mapping).map((source) => source.trim())
+  );
+
+  headers.forEach((header, index) => {
+    if (explicit.has(header.trim())) return;
+
+    const field = matchField(header);
+    if (!field) return;
+
+    if (!assigned.has(field)) {
+      resolved[index] = field;
+      assigned.add(field);
+    } else if (resolved[index] === field) {
+      // Duplicate column for an already-resolved field; keep the first
+      resolved[index] = `${field}_${index + 1}`;
+    }
+  });
+
+  return resolved;
+};
+
+/**
+ * Finds the canonical field a header names exactly or by alias
+ */
+function matchField(header: string): string | undefined {
+  const normalized = normalizeHeaderName(header);
+  if (!normalized) return undefined;
+
+  const field = FIR_FIELDS.find(
+    (f) =>
+      f.key === normalized ||
+      normalizeHeaderName(f.label) === normalized ||
+      f.aliases.some((alias) => normalizeHeaderName(alias) === normalized)
+  );
+
+  return field?.key;
+}
+
+/**
+ * Result of matching file headers against the FIR fields
+ * - mapping: field -> source header for every field that could be resolved
+ * - missing: required fields with no matching header
+ * - suggestions: ranked candidate headers for each missing field
+ */
+export interface MappingSuggestion {
+  mapping: ColumnMapping;
+  missing: string[];
+  suggestions: { [field: string]: string[] };
+}
+
+/**
+ * Suggests a column mapping for a file's headers
+ * A base mapping (e.g. a saved profile) is applied before aliases
+ */
+export const suggestMapping = (
+  headers: string[],
+  base: ColumnMapping = {}
+): MappingSuggestion => {
+  const applicableBase: ColumnMapping = {};
+  Object.entries(base).forEach(([field, source]) => {
+    if (headers.some((h) => h.trim() === source.trim())) {
+      applicableBase[field] = source;
+    }
+  });
+
+  const resolved = resolveHeaders(headers, applicableBase);
+  const mapping: ColumnMapping = {};
+
+  resolved.forEach((field, index) => {
+    if (FIR_FIELDS.some((f) => f.key === field)) {
+      mapping[field] = headers[index].trim();
+    }
+  });
+
+  const used = new Set(Object.values(mapping));
+  const missing = FIR_FIELDS.filter((f) => f.required && !mapping[f.key]).map(
+    (f) => f.key
+  );
+
+  const suggestions: { [field: string]: string[] } = {};
+  missing.forEach((key) => {
+    const field = FIR_FIELDS.find((f) => f.key === key)!;
+    suggestions[key] = headers
+      .map((h) => h.trim())
+      .filter((h) => h && !used.has(h))
+      .map((h) => ({ header: h, score: scoreHeader(h, field) }))
+      .filter((c) => c.score >= SUGGESTION_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .map((c) => c.header);
+  });
+
+  return { mapping, missing, suggestions };
+};
+
+/**
+ * Best similarity between a header and a field's key, label and aliases
+ */
+function scoreHeader(header: string, field: FieldDefinition): number {
+  const candidates = [field.key, field.label, ...field.aliases];
+  const normalized = normalizeHeaderName(header);
+
+  return Math.max(
+    ...candidates.map((c) => {
+      const target = normalizeHeaderName(c);
+      if (target.length >= 3 && normalized.includes(target)) return 0.9;
+      return diceCoefficient(normalized, target);
+    })
+  );
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (0..1)
+ * Time Complexity: O(a + b)
+ */
+function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
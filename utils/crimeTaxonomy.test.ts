@@ -0,0 +1,116 @@
+import {
+  TAXONOMY_VERSION,
+  UNCATEGORIZED,
+  applyCrimeCategoryFilter,
+  classifyCrimeType,
+  countByCrimeCategory,
+  describeCrimeSections,
+  getCrimeCategory,
+  getCrimeTaxonomy,
+  normalizeCrimeType,
+  withNormalizedCrimeType,
+} from './crimeTaxonomy';
+import { FIR } from '../types';
+
+describe('crimeTaxonomy', () => {
+  const fir = (id: string, crimeType: string) => ({ id, crimeType } as FIR);
+
+  it('should be versioned and give every subcategory a unique id', () => {
+    const ids = getCrimeTaxonomy().categories.flatMap((c) => c.subcategories.map((s) => s.id));
+
+    expect(TAXONOMY_VERSION).toMatch(/^\d{4}\.\d+$/);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  describe('normalizeCrimeType', () => {
+    it('should merge case, spacing and synonym variants', () => {
+      expect(['theft', 'Theft ', ' THEFT', 'चोरी'].map(normalizeCrimeType)).toEqual([
+        'Theft',
+        'Theft',
+        'Theft',
+        'Theft',
+      ]);
+      expect(normalizeCrimeType('House-Breaking')).toBe('Burglary');
+      expect(normalizeCrimeType('motor vehicle theft')).toBe('Vehicle Theft');
+    });
+
+    it('should map IPC and BNS section references', () => {
+      expect(normalizeCrimeType('u/s 392 IPC')).toBe('Robbery');
+      expect(normalizeCrimeType('BNS 303(2)')).toBe('Theft');
+      expect(normalizeCrimeType('IPC 354A')).toBe('Sexual Harassment');
+      expect(classifyCrimeType('BNS 74')?.matchedBy).toBe('section');
+    });
+
+    it('should tidy unknown crime types and leave them uncategorized', () => {
+      expect(normalizeCrimeType('  Animal   Cruelty ')).toBe('Animal Cruelty');
+      expect(classifyCrimeType('IPC 999')).toBeNull();
+      expect(getCrimeCategory('Animal Cruelty')).toBe(UNCATEGORIZED);
+    });
+  });
+
+  describe('withNormalizedCrimeType', () => {
+    it('should keep the source text when it was changed', () => {
+      expect(withNormalizedCrimeType(fir('FIR001', 'snatching'))).toEqual({
+        id: 'FIR001',
+        crimeType: 'Chain Snatching',
+        reportedCrimeType: 'snatching',
+      });
+
+      const canonical = fir('FIR002', 'Theft');
+      expect(withNormalizedCrimeType(canonical)).toBe(canonical);
+    });
+  });
+
+  describe('describeCrimeSections', () => {
+    it('should list the IPC and BNS sections', () => {
+      expect(describeCrimeSections('Chain Snatching')).toBe('IPC 356, 379 / BNS 304');
+      expect(describeCrimeSections('Other')).toBe('');
+      expect(describeCrimeSections('Unknown')).toBe('');
+    });
+  });
+
+  describe('countByCrimeCategory', () => {
+    it('should roll crime types up to categories with a drill-down', () => {
+      const counts = countByCrimeCategory([
+        fir('1', 'Theft'),
+        fir('2', 'theft '),
+        fir('3', 'Chain Snatching'),
+        fir('4', 'Molestation'),
+        fir('5', 'Animal Cruelty'),
+      ]);
+
+      expect(counts).toEqual([
+        {
+          category: 'Property Crime',
+          count: 3,
+          types: [
+            { type: 'Theft', count: 2 },
+            { type: 'Chain Snatching', count: 1 },
+          ],
+        },
+        { category: 'Crimes Against Women', count: 1, types: [{ type: 'Molestation', count: 1 }] },
+        { category: UNCATEGORIZED, count: 1, types: [{ type: 'Animal Cruelty', count: 1 }] },
+      ]);
+    });
+  });
+
+  describe('applyCrimeCategoryFilter', () => {
+    it('should keep records of any subcategory in the chosen categories', () => {
+      const firs = [fir('1', 'Robbery'), fir('2', 'Stalking'), fir('3', 'Dacoity')];
+
+      expect(applyCrimeCategoryFilter(firs, ['Property Crime']).map((f) => f.id)).toEqual([
+        '1',
+        '3',
+      ]);
+      expect(applyCrimeCategoryFilter(firs, [])).toBe(firs);
+    });
+
+    it('should keep crime types picked alongside the categories', () => {
+      const firs = [fir('1', 'Robbery'), fir('2', 'Murder'), fir('3', 'Stalking')];
+
+      expect(
+        applyCrimeCategoryFilter(firs, ['Property Crime'], ['Murder']).map((f) => f.id)
+      ).toEqual(['1', '2']);
+    });
+  });
+});
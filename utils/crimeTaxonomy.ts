@@ -0,0 +1,249 @@
+import { FIR } from '../types';
+import TAXONOMY_DATA from '../data/crimeTaxonomy.json';
+
+/**
+ * Crime-type taxonomy
+ *
+ * crimeType is free text in station exports ("theft", "Theft ", "HBT",
+ * "IPC 379"). The versioned taxonomy in data/crimeTaxonomy.json lists
+ * canonical categories and subcategories with their synonyms and the
+ * IPC and BNS sections they are registered under.
+ *
+ * Imported records get the canonical subcategory name as crimeType (the
+ * source text is kept in reportedCrimeType), so analytics and filters can
+ * count by subcategory and roll up to categories. Text is matched by
+ * name or synonym (case, spacing and punctuation ignored), then by a
+ * section reference such as "u/s 379 IPC" or "BNS 303(2)"; a section
+ * listed by several subcategories belongs to the first one. Text that
+ * matches nothing is kept, with its spacing tidied, under Uncategorized.
+ */
+
+declare module '../types' {
+  interface FIR {
+    /** Crime type as written in the source, when it was normalized */
+    reportedCrimeType?: string;
+  }
+
+  interface FilterCriteria {
+    /** Taxonomy categories; records of any of their subcategories match */
+    crimeCategories?: string[];
+  }
+}
+
+export interface TaxonomySubcategory {
+  id: string;
+  name: string;
+  synonyms: string[];
+  ipc: string[];
+  bns: string[];
+}
+
+export interface TaxonomyCategory {
+  id: string;
+  name: string;
+  subcategories: TaxonomySubcategory[];
+}
+
+export interface CrimeTaxonomy {
+  version: string;
+  categories: TaxonomyCategory[];
+}
+
+/**
+ * Where a crime type sits in the taxonomy
+ */
+export interface CrimeClassification {
+  category: TaxonomyCategory;
+  subcategory: TaxonomySubcategory;
+  matchedBy: 'name' | 'synonym' | 'section';
+}
+
+/**
+ * Records per category, with the subcategories (and uncategorized crime
+ * types) under it, most frequent first
+ */
+export interface CrimeCategoryCount {
+  category: string;
+  count: number;
+  types: { type: string; count: number }[];
+}
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+interface TaxonomyIndex {
+  taxonomy: CrimeTaxonomy;
+  names: Map<string, CrimeClassification>; // Normalized name or synonym
+  sections: Map<string, CrimeClassification>; // "ipc:379", "bns:303(2)"
+}
+
+// Section references: the code named before or after the section numbers
+const SECTION_PATTERN = /\b(ipc|bns)\b/i;
+const SECTION_NUMBER_PATTERN = /\b\d+[a-z]?(?:\(\d+\)|\([a-z]\))?/gi;
+
+let defaultIndex: TaxonomyIndex | null = null;
+
+/**
+ * Version of the bundled taxonomy, e.g. "2026.1"
+ */
+export const TAXONOMY_VERSION: string = (TAXONOMY_DATA as CrimeTaxonomy).version;
+
+/**
+ * The bundled taxonomy
+ */
+export const getCrimeTaxonomy = (): CrimeTaxonomy => getIndex().taxonomy;
+
+/**
+ * Finds the taxonomy entry for crime type text
+ *
+ * @returns The category and subcategory, or null for unknown crime types
+ *
+ * Time Complexity: O(1) map lookups, plus O(s) for s section references
+ */
+export const classifyCrimeType = (text: string): CrimeClassification | null => {
+  const index = getIndex();
+  const byName = index.names.get(normalizeCrimeText(text));
+  if (byName) return byName;
+
+  const code = SECTION_PATTERN.exec(text)?.[1].toLowerCase();
+  if (!code) return null;
+
+  const sections = text.replace(SECTION_PATTERN, ' ').match(SECTION_NUMBER_PATTERN) || [];
+  for (const section of sections) {
+    const match = index.sections.get(`${code}:${section.toLowerCase()}`);
+    if (match) return match;
+  }
+  return null;
+};
+
+/**
+ * Canonical crime type: the subcategory name, or the text with its
+ * spacing tidied when it isn't in the taxonomy
+ */
+export const normalizeCrimeType = (text: string): string =>
+  classifyCrimeType(text)?.subcategory.name || text.trim().replace(/\s+/g, ' ');
+
+/**
+ * Returns the FIR with a canonical crime type
+ * The source text is kept in reportedCrimeType when it differs
+ */
+export const withNormalizedCrimeType = (fir: FIR): FIR => {
+  const crimeType = normalizeCrimeType(fir.crimeType);
+  if (crimeType === fir.crimeType) return fir;
+
+  return { ...fir, crimeType, reportedCrimeType: fir.reportedCrimeType || fir.crimeType };
+};
+
+/**
+ * Category name of a crime type, or UNCATEGORIZED
+ */
+export const getCrimeCategory = (crimeType: string): string =>
+  classifyCrimeType(crimeType)?.category.name || UNCATEGORIZED;
+
+/**
+ * Legal sections for a crime type, e.g. "IPC 379 / BNS 303(2)"
+ * Empty when the type is unknown or has no sections
+ */
+export const describeCrimeSections = (crimeType: string): string => {
+  const subcategory = classifyCrimeType(crimeType)?.subcategory;
+  if (!subcategory) return '';
+
+  return [
+    subcategory.ipc.length > 0 ? `IPC ${subcategory.ipc.join(', ')}` : '',
+    subcategory.bns.length > 0 ? `BNS ${subcategory.bns.join(', ')}` : '',
+  ]
+    .filter(Boolean)
+    .join(' / ');
+};
+
+/**
+ * Counts records per category and, within each, per crime type
+ *
+ * Time Complexity: O(n + t log t) where n = records, t = distinct types
+ */
+export const countByCrimeCategory = (firs: FIR[]): CrimeCategoryCount[] => {
+  const categories = new Map<string, Map<string, number>>();
+
+  firs.forEach((fir) => {
+    const type = normalizeCrimeType(fir.crimeType);
+    const category = getCrimeCategory(type);
+    if (!categories.has(category)) categories.set(category, new Map());
+
+    const types = categories.get(category)!;
+    types.set(type, (types.get(type) || 0) + 1);
+  });
+
+  return Array.from(categories.entries())
+    .map(([category, types]) => ({
+      category,
+      count: Array.from(types.values()).reduce((sum, count) => sum + count, 0),
+      types: Array.from(types.entries())
+        .map(([type, count]) => ({ type, count }))
+        .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type)),
+    }))
+    .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+};
+
+/**
+ * Keeps the records whose crime type falls in one of the categories or is
+ * one of the crime types; categories and types picked together are one
+ * selection, so "Property Crime" with "Murder" keeps both
+ * Without categories the records are returned as they are (crime types
+ * alone are applied by filterService)
+ *
+ * Time Complexity: O(n)
+ */
+export const applyCrimeCategoryFilter = (
+  firs: FIR[],
+  categories?: string[],
+  crimeTypes: string[] = []
+): FIR[] => {
+  if (!categories || categories.length === 0) return firs;
+  return firs.filter(
+    (fir) =>
+      crimeTypes.includes(fir.crimeType) ||
+      categories.includes(getCrimeCategory(fir.crimeType))
+  );
+};
+
+function getIndex(): TaxonomyIndex {
+  if (!defaultIndex) defaultIndex = createIndex(TAXONOMY_DATA as CrimeTaxonomy);
+  return defaultIndex;
+}
+
+function createIndex(taxonomy: CrimeTaxonomy): TaxonomyIndex {
+  const names = new Map<string, CrimeClassification>();
+  const sections = new Map<string, CrimeClassification>();
+
+  const claim = <T>(map: Map<string, T>, key: string, value: T) => {
+    if (key && !map.has(key)) map.set(key, value);
+  };
+
+  taxonomy.categories.forEach((category) => {
+    category.subcategories.forEach((subcategory) => {
+      const entry = { category, subcategory };
+      claim(names, normalizeCrimeText(subcategory.name), { ...entry, matchedBy: 'name' });
+      subcategory.synonyms.forEach((synonym) =>
+        claim(names, normalizeCrimeText(synonym), { ...entry, matchedBy: 'synonym' })
+      );
+      subcategory.ipc.forEach((section) =>
+        claim(sections, `ipc:${section.toLowerCase()}`, { ...entry, matchedBy: 'section' })
+      );
+      subcategory.bns.forEach((section) =>
+        claim(sections, `bns:${section.toLowerCase()}`, { ...entry, matchedBy: 'section' })
+      );
+    });
+  });
+
+  return { taxonomy, names, sections };
+}
+
+/**
+ * Lowercases and drops punctuation; letters of any script are kept
+ */
+function normalizeCrimeText(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean)
+    .join(' ');
+}
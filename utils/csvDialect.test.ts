@@ -0,0 +1,112 @@
+import {
+  describeDialect,
+  detectDelimiter,
+  detectEncoding,
+  resolveDelimiter,
+  resolveEncoding,
+} from './csvDialect';
+
+describe('csvDialect', () => {
+  const utf8 = (text: string): Uint8Array =>
+    new Uint8Array(
+      encodeURIComponent(text)
+        .split(/(%[0-9A-F]{2}|.)/)
+        .filter(Boolean)
+        .map((part) =>
+          part.startsWith('%') ? parseInt(part.slice(1), 16) : part.charCodeAt(0)
+        )
+    );
+
+  const utf16 = (text: string, littleEndian: boolean): Uint8Array => {
+    const bytes: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      const pair = [code & 0xff, code >> 8];
+      bytes.push(...(littleEndian ? pair : pair.reverse()));
+    }
+    return new Uint8Array(bytes);
+  };
+
+  const header = 'id;crimeType;date;area\nFIR001;Theft;2026-01-20;मालाड पश्चिम\n';
+
+  describe('detectEncoding', () => {
+    it('should recognize byte order marks', () => {
+      expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x69]))).toEqual({
+        encoding: 'utf-8',
+        bom: true,
+      });
+      expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x69, 0]))).toEqual({
+        encoding: 'utf-16le',
+        bom: true,
+      });
+      expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0, 0x69]))).toEqual({
+        encoding: 'utf-16be',
+        bom: true,
+      });
+    });
+
+    it('should detect UTF-16 without a BOM from its zero bytes', () => {
+      expect(detectEncoding(utf16(header, true)).encoding).toBe('utf-16le');
+      expect(detectEncoding(utf16(header, false)).encoding).toBe('utf-16be');
+    });
+
+    it('should tell UTF-8 Devanagari from Windows-1252', () => {
+      expect(detectEncoding(utf8(header))).toEqual({ encoding: 'utf-8', bom: false });
+      // "Café" in Windows-1252
+      expect(detectEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x2c])).encoding).toBe(
+        'windows-1252'
+      );
+    });
+
+    it('should accept a UTF-8 sequence cut off by the end of the sample', () => {
+      const bytes = utf8('मालाड');
+      expect(detectEncoding(bytes.slice(0, bytes.length - 1)).encoding).toBe('utf-8');
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('should pick the delimiter that splits rows consistently', () => {
+      expect(detectDelimiter(header)).toBe(';');
+      expect(detectDelimiter('id\tarea\nFIR001\tMalad, West\n')).toBe('\t');
+      expect(detectDelimiter('id|area\nFIR001|Malad\n')).toBe('|');
+    });
+
+    it('should ignore delimiters inside quoted fields', () => {
+      expect(
+        detectDelimiter('id,area,zone\nFIR001,"Malad; West",Zone 11\nFIR002,"Kurar; East",Zone 12\n')
+      ).toBe(',');
+    });
+
+    it('should default to comma for a single column', () => {
+      expect(detectDelimiter('id\nFIR001\n')).toBe(',');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should prefer declared options', () => {
+      expect(resolveDelimiter(',', header)).toEqual({
+        delimiter: ',',
+        delimiterSource: 'declared',
+      });
+      expect(resolveEncoding('windows-1252', utf8(header))).toEqual({
+        encoding: 'windows-1252',
+        bom: false,
+        encodingSource: 'declared',
+      });
+    });
+  });
+
+  describe('describeDialect', () => {
+    it('should describe the delimiter, encoding and BOM', () => {
+      expect(
+        describeDialect({
+          delimiter: ';',
+          encoding: 'utf-16le',
+          bom: true,
+          delimiterSource: 'detected',
+          encodingSource: 'detected',
+        })
+      ).toBe('Semicolon-separated, UTF-16 LE with BOM (detected)');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { CSVTokenizer } from './csvTokenizer';
+
+/**
+ * Delimiter and encoding handling for FIR uploads
+ *
+ * Regional systems export semicolon- or tab-separated files, in UTF-16 or
+ * Windows-1252 as well as UTF-8. Both the delimiter and the encoding are
+ * either declared by the user or detected from the start of the file:
+ * - encoding: byte order mark, then the byte pattern (UTF-16 text has a
+ *   zero byte in every ASCII character, invalid UTF-8 means Windows-1252)
+ * - delimiter: the candidate that splits the first rows into the same
+ *   number of fields, preferring more fields
+ */
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+export type DelimiterOption = CSVDelimiter | 'auto';
+
+export const DELIMITER_LABELS: { [key in DelimiterOption]: string } = {
+  auto: 'Auto-detect',
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+export type EncodingOption = TextEncoding | 'auto';
+
+export const ENCODING_LABELS: { [key in EncodingOption]: string } = {
+  auto: 'Auto-detect',
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252',
+};
+
+/**
+ * How a CSV file is read
+ * - bom: the file starts with a byte order mark
+ * - delimiterSource / encodingSource: 'declared' by the user or 'detected'
+ */
+export interface CSVDialectReport {
+  delimiter: CSVDelimiter;
+  encoding: TextEncoding;
+  bom: boolean;
+  delimiterSource: 'declared' | 'detected';
+  encodingSource: 'declared' | 'detected';
+}
+
+const DELIMITER_CANDIDATES: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+// Rows compared when detecting the delimiter
+const DELIMITER_SAMPLE_ROWS = 20;
+
+const BYTE_ORDER_MARKS: { encoding: TextEncoding; bytes: number[] }[] = [
+  { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] },
+];
+
+/**
+ * Detects the encoding of a file from its first bytes
+ *
+ * Time Complexity: O(n) where n = sample bytes
+ */
+export const detectEncoding = (
+  bytes: Uint8Array
+): { encoding: TextEncoding; bom: boolean } => {
+  const mark = BYTE_ORDER_MARKS.find(({ bytes: bom }) =>
+    bom.every((byte, i) => bytes[i] === byte)
+  );
+  if (mark) return { encoding: mark.encoding, bom: true };
+
+  const utf16 = detectUTF16(bytes);
+  if (utf16) return { encoding: utf16, bom: false };
+
+  return { encoding: isValidUTF8(bytes) ? 'utf-8' : 'windows-1252', bom: false };
+};
+
+/**
+ * Detects the delimiter from the first rows of decoded text
+ * Falls back to comma when no candidate splits the header
+ *
+ * Time Complexity: O(n × d) where n = sample characters, d = candidates
+ */
+export const detectDelimiter = (sample: string): CSVDelimiter => {
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+  let bestFields = 0;
+
+  DELIMITER_CANDIDATES.forEach((delimiter) => {
+    const tokenizer = new CSVTokenizer(delimiter);
+    // Only complete rows count; a sample may end mid-row
+    let rows = tokenizer.write(sample);
+    if (rows.length === 0) rows = tokenizer.end();
+    rows = rows.slice(0, DELIMITER_SAMPLE_ROWS);
+
+    const fields = rows.length > 0 ? rows[0].values.length : 0;
+    if (fields < 2) return;
+
+    const score = rows.filter((row) => row.values.length === fields).length;
+    if (score > bestScore || (score === bestScore && fields > bestFields)) {
+      best = delimiter;
+      bestScore = score;
+      bestFields = fields;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Resolves a declared encoding (or detection over the first bytes)
+ */
+export const resolveEncoding = (
+  option: EncodingOption,
+  bytes: Uint8Array
+): Pick<CSVDialectReport, 'encoding' | 'bom' | 'encodingSource'> => {
+  const detected = detectEncoding(bytes);
+
+  if (option !== 'auto') {
+    return { encoding: option, bom: detected.bom, encodingSource: 'declared' };
+  }
+
+  return { ...detected, encodingSource: 'detected' };
+};
+
+/**
+ * Resolves a declared delimiter (or detection over decoded text)
+ */
+export const resolveDelimiter = (
+  option: DelimiterOption,
+  sample: string
+): Pick<CSVDialectReport, 'delimiter' | 'delimiterSource'> =>
+  option !== 'auto'
+    ? { delimiter: option, delimiterSource: 'declared' }
+    : { delimiter: detectDelimiter(sample), delimiterSource: 'detected' };
+
+/**
+ * One-line description for the upload UI, e.g.
+ * "Semicolon-separated, UTF-16 LE with BOM (detected)"
+ */
+export const describeDialect = (report: CSVDialectReport): string => {
+  const detected =
+    report.delimiterSource === 'detected' || report.encodingSource === 'detected';
+
+  return `${DELIMITER_LABELS[report.delimiter]}-separated, ${
+    ENCODING_LABELS[report.encoding]
+  }${report.bom ? ' with BOM' : ''}${detected ? ' (detected)' : ''}`;
+};
+
+/**
+ * UTF-16 without a BOM: ASCII characters leave a zero in every other byte
+ */
+function detectUTF16(bytes: Uint8Array): TextEncoding | null {
+  const pairs = Math.floor(bytes.length / 2);
+  if (pairs === 0) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  if (oddZeros / pairs > 0.2 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.2 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Checks UTF-8 sequence structure; a sequence cut off by the end of the
+ * sample is accepted
+ */
+function isValidUTF8(bytes: Uint8Array): boolean {
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let extra: number;
+
+    if (byte < 0x80) extra = 0;
+    else if (byte >= 0xc2 && byte <= 0xdf) extra = 1;
+    else if (byte >= 0xe0 && byte <= 0xef) extra = 2;
+    else if (byte >= 0xf0 && byte <= 0xf4) extra = 3;
+    else return false;
+
+    for (let k = 1; k <= extra; k++) {
+      if (i + k >= bytes.length) return true;
+      if ((bytes[i + k] & 0xc0) !== 0x80) return false;
+    }
+
+    i += extra + 1;
+  }
+
+  return true;
+}
@@ -1,4 +1,6 @@
-import { parseCSV } from './csvParser';
+import * as XLSX from 'xlsx';
+import { parseCSV, parseExcel, FIRStreamParser } from './csvParser';
+import { formatImportError } from './importErrors';
 
 describe('csvParser', () => {
   describe('parseCSV', () => {
@@ -17,10 +19,27 @@ FIR002,Assault,2026-01-21,09:45,28.5360,77.3920,Uptown,Zone B,North PS`;
       expect(records[0].longitude).toBe(77.391);
     });
 
+    it('should normalize crime types to the taxonomy', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation
+FIR001,theft ,2026-01-20,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS
+FIR002,u/s 356 IPC,2026-01-21,09:45,19.1776,72.8298,Malad West,Zone 11,Malad PS
+FIR003,Robbery,2026-01-21,09:45,19.1776,72.8298,Malad West,Zone 11,Malad PS`;
+
+      const { records } = parseCSV(csvContent);
+
+      expect(records.map((r) => [r.crimeType, r.reportedCrimeType])).toEqual([
+        ['Theft', 'theft'],
+        ['Chain Snatching', 'u/s 356 IPC'],
+        ['Robbery', undefined],
+      ]);
+    });
+
     it('should handle empty CSV content', () => {
       const { records, errors } = parseCSV('');
 
-      expect(errors).toContain('CSV content is empty');
+      expect(errors).toContainEqual(
+        expect.objectContaining({ code: 'EMPTY_FILE', message: 'CSV content is empty' })
+      );
       expect(records).toHaveLength(0);
     });
 
@@ -31,7 +50,8 @@ FIR001,Theft,2026-01-20,14:30`;
       const { records, errors } = parseCSV(csvContent);
 
       expect(errors.length).toBeGreaterThan(0);
-      expect(errors[0]).toContain('Missing required headers');
+      expect(errors[0].code).toBe('MISSING_HEADERS');
+      expect(errors[0].message).toContain('Missing required headers');
       expect(records).toHaveLength(0);
     });
 
@@ -42,7 +62,8 @@ FIR001,Theft,2026-01-20,14:30,invalid,77.3910,Downtown,Zone A,Central PS`;
       const { records: _records, errors } = parseCSV(csvContent);
 
       expect(errors.length).toBeGreaterThan(0);
-      expect(errors[0]).toContain('Invalid latitude');
+      expect(errors[0].code).toBe('INVALID_LATITUDE');
+      expect(errors[0].message).toContain('Invalid latitude');
     });
 
     it('should detect latitude out of range', () => {
@@ -52,7 +73,8 @@ FIR001,Theft,2026-01-20,14:30,100,77.3910,Downtown,Zone A,Central PS`;
       const { records: _records, errors } = parseCSV(csvContent);
 
       expect(errors.length).toBeGreaterThan(0);
-      expect(errors[0]).toContain('Invalid latitude');
+      expect(errors[0].code).toBe('INVALID_LATITUDE');
+      expect(errors[0].message).toContain('Invalid latitude');
     });
 
     it('should detect invalid longitude', () => {
@@ -62,7 +84,30 @@ FIR001,Theft,2026-01-20,14:30,28.5355,invalid,Downtown,Zone A,Central PS`;
       const { records: _records, errors } = parseCSV(csvContent);
 
       expect(errors.length).toBeGreaterThan(0);
-      expect(errors[0]).toContain('Invalid longitude');
+      expect(errors[0].code).toBe('INVALID_LONGITUDE');
+      expect(errors[0].message).toContain('Invalid longitude');
+    });
+
+    it('should geocode rows without coordinates from the gazetteer', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation,Landmark
+FIR001,Theft,2026-01-20,14:30,,,Malad (W),Zone 11,Malad PS,
+FIR002,Theft,2026-01-20,14:30,,,Unknown Nagar,Zone 11,Kurar PS,Near Oberoi Mall
+FIR003,Theft,2026-01-20,14:30,,,Unknown Nagar,Zone 11,Unknown PS,
+FIR004,Theft,2026-01-20,14:30,19.18,,Malad West,Zone 11,Malad PS,`;
+
+      const { records, errors } = parseCSV(csvContent);
+
+      expect(records.map((r) => [r.id, r.geocodeConfidence, r.geocodeMatch])).toEqual([
+        ['FIR001', 'medium', 'Malad West'],
+        ['FIR002', 'medium', 'Oberoi Mall'],
+      ]);
+      expect(records[0]).toEqual(
+        expect.objectContaining({ latitude: 19.1874, longitude: 72.8395 })
+      );
+      expect(errors.map((e) => [e.row, e.code])).toEqual([
+        [4, 'LOCATION_NOT_FOUND'],
+        [5, 'INVALID_LONGITUDE'],
+      ]);
     });
 
     it('should handle missing required fields', () => {
@@ -118,5 +163,369 @@ FIR002,Assault,2026-01-21,09:45,28.5360,77.3920,Uptown,Zone B,North PS`;
       expect(errors).toHaveLength(0);
       expect(records).toHaveLength(2);
     });
+    it('should parse descriptions containing quoted newlines', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation,description
+FIR001,Theft,2026-01-20,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,"Bag snatched
+near the bus stop"
+FIR002,Assault,2026-01-21,09:45,28.5360,77.3920,Uptown,Zone B,North PS,`;
+
+      const { records, errors } = parseCSV(csvContent);
+
+      expect(errors).toHaveLength(0);
+      expect(records).toHaveLength(2);
+      expect(records[0].description).toBe('Bag snatched\nnear the bus stop');
+      expect(records[1].id).toBe('FIR002');
+    });
+
+    it('should parse CRLF files without stray carriage returns', () => {
+      const csvContent =
+        'id,crimeType,date,time,latitude,longitude,area,zone,policeStation,isSensitiveZone\r\n' +
+        'FIR001,Theft,2026-01-20,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,true\r\n';
+
+      const { records, errors } = parseCSV(csvContent);
+
+      expect(errors).toHaveLength(0);
+      expect(records[0].isSensitiveZone).toBe(true);
+    });
+
+    it('should report the physical line where a bad record starts', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation,description
+FIR001,Theft,2026-01-20,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,"Two
+lines"
+FIR002,Theft,2026-01-20,14:30,invalid,77.3910,Downtown,Zone A,Central PS,`;
+
+      const { errors } = parseCSV(csvContent);
+
+      expect(errors.map(formatImportError)).toEqual(['Row 4: Invalid latitude: invalid']);
+    });
+    it('should resolve aliased district headers', () => {
+      const csvContent = `FIR No,Offence Head,Date of Occurrence,Time,Lat,Long,Area,Zone,PS Name
+FIR001,Theft,2026-01-20,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS`;
+
+      const { records, errors } = parseCSV(csvContent);
+
+      expect(errors).toHaveLength(0);
+      expect(records[0].crimeType).toBe('Theft');
+      expect(records[0].policeStation).toBe('Malad PS');
+      expect(records[0].longitude).toBe(72.8298);
+    });
+
+    it('should apply an explicit column mapping', () => {
+      const csvContent = `id,Head,date,time,latitude,longitude,area,zone,Thana
+FIR001,Theft,2026-01-20,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS`;
+
+      const { records, errors } = parseCSV(csvContent, {
+        mapping: { crimetype: 'Head', policestation: 'Thana' },
+      });
+
+      expect(errors).toHaveLength(0);
+      expect(records[0].policeStation).toBe('Malad PS');
+    });
+    it('should detect day-first dates and flag ambiguous rows', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation
+FIR001,Theft,03/04/2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS
+FIR002,Theft,25.04.2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS
+FIR003,Theft,5-4-26,14:30,28.5355,77.3910,Downtown,Zone A,Central PS`;
+
+      const { records, errors, dateReport } = parseCSV(csvContent);
+
+      expect(errors).toHaveLength(0);
+      expect(records[0].date.getMonth()).toBe(3); // April
+      expect(records[0].date.getDate()).toBe(3);
+      expect(records[2].date.getFullYear()).toBe(2026);
+      expect(dateReport?.format).toBe('DMY');
+      expect(dateReport?.source).toBe('detected');
+      expect(dateReport?.ambiguousRows).toEqual([2, 4]);
+    });
+
+    it('should use a declared date format', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation
+FIR001,Theft,03/04/2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS`;
+
+      const { records, dateReport } = parseCSV(csvContent, { dateFormat: 'MDY' });
+
+      expect(records[0].date.getMonth()).toBe(2); // March
+      expect(records[0].date.getDate()).toBe(4);
+      expect(dateReport?.ambiguousRows).toHaveLength(0);
+    });
+    it('should normalize 12-hour and compact times into an IST timestamp', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation
+FIR001,Theft,2026-01-20,2:30 PM,28.5355,77.3910,Downtown,Zone A,Central PS
+FIR002,Theft,2026-01-20,1430,28.5355,77.3910,Downtown,Zone A,Central PS
+FIR003,Theft,2026-01-20,quarter past,28.5355,77.3910,Downtown,Zone A,Central PS`;
+
+      const { records, errors } = parseCSV(csvContent);
+
+      expect(records[0].time).toBe('14:30');
+      expect(records[1].time).toBe('14:30');
+      expect(records[0].incidentAt?.toISOString()).toBe('2026-01-20T09:00:00.000Z');
+      expect(errors.map(formatImportError)).toEqual([
+        'Row 4: Invalid time format: quarter past',
+      ]);
+    });
+    it('should parse the Last Updated time as IST', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation,Last Updated
+FIR001,Theft,20/01/2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,20/01/2026 14:30
+FIR002,Theft,20/01/2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,
+FIR003,Theft,20/01/2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,soon`;
+
+      const { records, errors } = parseCSV(csvContent);
+
+      expect(records[0].updatedAt?.toISOString()).toBe('2026-01-20T09:00:00.000Z');
+      expect(records[1].updatedAt).toBeUndefined();
+      expect(errors).toEqual([
+        expect.objectContaining({ row: 4, code: 'INVALID_DATE', column: 'updatedat' }),
+      ]);
+    });
+    it('should parse the registration time for report lag', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation,Date of Registration
+FIR001,Theft,20/01/2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,22/01/2026 10:00
+FIR002,Theft,20/01/2026,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,later`;
+
+      const { records, errors } = parseCSV(csvContent);
+
+      expect(records[0].reportedAt?.toISOString()).toBe('2026-01-22T04:30:00.000Z');
+      expect(errors).toEqual([
+        expect.objectContaining({ row: 3, code: 'INVALID_DATE', column: 'reportedat' }),
+      ]);
+    });
+    it('should detect semicolon and tab delimiters', () => {
+      const semicolon = `id;crimeType;date;time;latitude;longitude;area;zone;policeStation
+FIR001;Theft;20/01/2026;14:30;19.1776;72.8298;मालाड पश्चिम;Zone 11;Malad PS`;
+      const tab = semicolon.replace(/;/g, '\t');
+
+      [semicolon, tab].forEach((content) => {
+        const { records, errors } = parseCSV(content);
+        expect(errors).toHaveLength(0);
+        expect(records[0]).toEqual(
+          expect.objectContaining({ area: 'मालाड पश्चिम', latitude: 19.1776 })
+        );
+      });
+    });
+    it('should use a declared delimiter', () => {
+      const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation
+FIR001,Theft,2026-01-20,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS`;
+
+      expect(parseCSV(csvContent, { delimiter: ';' }).errors[0].code).toBe(
+        'MISSING_HEADERS'
+      );
+    });
+    it('should report typed errors and keep rejected rows', () => {
+      const csvContent = `FIR No,crimeType,date,time,latitude,longitude,area,zone,policeStation,Beat Officer
+FIR001,Theft,2026-01-20,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,Rao
+FIR002,Theft,2026-01-20,14:30,invalid,77.3910,Downtown,Zone A,Central PS,Iyer
+FIR003,Theft,2026-01-20,14:30,28.5355,77.3910,Downtown,Zone A,,Khan`;
+
+      const { records, rows, errors, rejected } = parseCSV(csvContent);
+
+      expect(records).toHaveLength(1);
+      expect(rows).toEqual([2]);
+      expect(errors).toEqual([
+        {
+          row: 3,
+          column: 'latitude',
+          code: 'INVALID_LATITUDE',
+          value: 'invalid',
+          message: 'Invalid latitude: invalid',
+        },
+        {
+          row: 4,
+          column: 'policestation',
+          code: 'REQUIRED_FIELD',
+          value: null,
+          message: 'Police station is required',
+        },
+      ]);
+      expect(rejected.map((r) => r.row)).toEqual([3, 4]);
+      expect(rejected[0].fields).toEqual(
+        expect.objectContaining({ id: 'FIR002', latitude: 'invalid', 'beat officer': 'Iyer' })
+      );
+      expect(rejected[0].errors).toEqual([errors[0]]);
+    });
+  });
+
+  describe('parseExcel', () => {
+    const headerRow = [
+      'id', 'crimeType', 'date', 'time', 'latitude',
+      'longitude', 'area', 'zone', 'policeStation',
+    ];
+
+    const buildWorkbook = (
+      sheets: { name: string; rows: unknown[][]; merges?: XLSX.Range[] }[]
+    ): ArrayBuffer => {
+      const workbook = XLSX.utils.book_new();
+      sheets.forEach(({ name, rows, merges }) => {
+        const sheet = XLSX.utils.aoa_to_sheet(rows);
+        if (merges) sheet['!merges'] = merges;
+        XLSX.utils.book_append_sheet(workbook, sheet, name);
+      });
+      return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    };
+
+    it('should parse a workbook with Excel serial dates and times', () => {
+      const data = buildWorkbook([
+        {
+          name: 'FIRs',
+          rows: [
+            headerRow,
+            // 46042 = 2026-01-20, 0.6041666 = 14:30
+            ['FIR001', 'Theft', 46042, 0.6041666666666666, 19.1776, 72.8298, 'Malad West', 'Zone 11', 'Malad PS'],
+          ],
+        },
+      ]);
+
+      const { records, errors } = parseExcel(data);
+
+      expect(errors).toHaveLength(0);
+      expect(records).toHaveLength(1);
+      expect(records[0].date.getFullYear()).toBe(2026);
+      expect(records[0].date.getMonth()).toBe(0);
+      expect(records[0].date.getDate()).toBe(20);
+      expect(records[0].time).toBe('14:30');
+      expect(records[0].latitude).toBe(19.1776);
+    });
+
+    it('should find the header row below a merged title banner', () => {
+      const data = buildWorkbook([
+        {
+          name: 'Report',
+          rows: [
+            ['Zone 11 - Monthly FIR Register'],
+            [],
+            headerRow,
+            ['FIR001', 'Theft', '2026-01-20', '14:30', 19.1776, 72.8298, 'Malad West', 'Zone 11', 'Malad PS'],
+          ],
+          merges: [{ s: { r: 0, c: 0 }, e: { r: 0, c: 8 } }],
+        },
+      ]);
+
+      const { records, errors } = parseExcel(data);
+
+      expect(errors).toHaveLength(0);
+      expect(records).toHaveLength(1);
+      expect(records[0].id).toBe('FIR001');
+    });
+
+    it('should pick the sheet that contains FIR headers', () => {
+      const data = buildWorkbook([
+        { name: 'Summary', rows: [['Total'], [2]] },
+        {
+          name: 'Data',
+          rows: [
+            headerRow,
+            ['FIR001', 'Theft', '2026-01-20', '14:30', 19.1776, 72.8298, 'Malad West', 'Zone 11', 'Malad PS'],
+          ],
+        },
+      ]);
+
+      const { records, errors } = parseExcel(data);
+
+      expect(errors).toHaveLength(0);
+      expect(records).toHaveLength(1);
+    });
+
+    it('should fill vertically merged cells into each data row', () => {
+      const data = buildWorkbook([
+        {
+          name: 'FIRs',
+          rows: [
+            headerRow,
+            ['FIR001', 'Theft', '2026-01-20', '14:30', 19.1776, 72.8298, 'Malad West', 'Zone 11', 'Malad PS'],
+            ['FIR002', 'Assault', '2026-01-21', '09:45', 19.182, 72.835, 'Malad East', '', 'Malad PS'],
+          ],
+          merges: [{ s: { r: 1, c: 7 }, e: { r: 2, c: 7 } }],
+        },
+      ]);
+
+      const { records, errors } = parseExcel(data);
+
+      expect(errors).toHaveLength(0);
+      expect(records[1].zone).toBe('Zone 11');
+    });
+
+    it('should report an unknown sheet name', () => {
+      const data = buildWorkbook([{ name: 'FIRs', rows: [headerRow] }]);
+
+      const { records, errors } = parseExcel(data, { sheetName: 'Missing' });
+
+      expect(errors.map(formatImportError)).toContain('Sheet not found: Missing');
+      expect(records).toHaveLength(0);
+    });
+
+    it('should report Excel row numbers for invalid rows', () => {
+      const data = buildWorkbook([
+        {
+          name: 'FIRs',
+          rows: [
+            headerRow,
+            ['FIR001', 'Theft', '2026-01-20', '14:30', 'invalid', 72.8298, 'Malad West', 'Zone 11', 'Malad PS'],
+          ],
+        },
+      ]);
+
+      const { errors } = parseExcel(data);
+
+      expect(formatImportError(errors[0])).toBe('Row 2: Invalid latitude: invalid');
+    });
+  });
+
+  describe('FIRStreamParser', () => {
+    const csvContent = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation,description
+FIR001,Theft,2026-01-20,14:30,28.5355,77.3910,Downtown,Zone A,Central PS,"Split
+description"
+FIR002,Theft,2026-01-20,14:30,invalid,77.3910,Downtown,Zone A,Central PS,
+FIR003,Assault,2026-01-21,09:45,28.5360,77.3920,Uptown,Zone B,North PS,`;
+
+    it('should match parseCSV when fed in small chunks', () => {
+      const parser = new FIRStreamParser();
+      const records = [];
+      const errors = [];
+
+      for (let i = 0; i < csvContent.length; i += 7) {
+        const result = parser.write(csvContent.slice(i, i + 7));
+        records.push(...result.records);
+        errors.push(...result.errors);
+      }
+      const last = parser.end();
+      records.push(...last.records);
+      errors.push(...last.errors);
+
+      const expected = parseCSV(csvContent);
+      expect(records).toEqual(expected.records);
+      expect(errors).toEqual(expected.errors);
+    });
+
+    it('should detect the delimiter once the header row is complete', () => {
+      const semicolon = csvContent.replace(/,/g, ';');
+      const parser = new FIRStreamParser();
+      const records = [];
+
+      for (let i = 0; i < semicolon.length; i += 7) {
+        records.push(...parser.write(semicolon.slice(i, i + 7)).records);
+      }
+      records.push(...parser.end().records);
+
+      expect(records.map((r) => r.id)).toEqual(['FIR001', 'FIR003']);
+    });
+
+    it('should stop after missing headers', () => {
+      const parser = new FIRStreamParser();
+
+      const first = parser.write('id,crimeType\nFIR001,Theft\n');
+      const last = parser.end();
+
+      expect(first.errors[0].code).toBe('MISSING_HEADERS');
+      expect(first.records).toHaveLength(0);
+      expect(last.errors).toHaveLength(0);
+    });
+
+    it('should report empty content', () => {
+      const parser = new FIRStreamParser();
+
+      parser.write('');
+      expect(parser.end().errors.map(formatImportError)).toContain(
+        'CSV content is empty'
+      );
+    });
   });
 });
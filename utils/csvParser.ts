@@ -1,117 +1,350 @@
+import * as XLSX from 'xlsx';
 import { FIR } from '../types';
+import { ColumnMapping, resolveHeaders } from './columnMapping';
+import { DelimiterOption, EncodingOption, resolveDelimiter } from './csvDialect';
+import { CSVRow, CSVTokenizer, tokenizeCSV } from './csvTokenizer';
+import {
+  DateFormat,
+  DateFormatOption,
+  DateFormatReport,
+  isAmbiguousDate,
+  parseDateValue,
+  resolveDateFormat,
+} from './dateFormats';
+import {
+  formatTimeOfDay,
+  parseDateTimeValue,
+  parseTimeValue,
+  splitISOTimestamp,
+  toIncidentTimestamp,
+} from './incidentTime';
+import { readAttributes } from './firAttributes';
+import { normalizeCrimeType } from './crimeTaxonomy';
+import { geocodeLocation, parseGeocodeConfidence } from './geocoding';
+import {
+  ImportError,
+  RecordError,
+  RejectedRow,
+  fileError,
+  toImportError,
+} from './importErrors';
+
+/**
+ * Headers every FIR import must provide (compared lowercase)
+ */
+const REQUIRED_HEADERS = [
+  'id',
+  'crimetype',
+  'date',
+  'time',
+  'latitude',
+  'longitude',
+  'area',
+  'zone',
+  'policestation',
+];
+
+// Data rows sampled to auto-detect the date format in streamed imports
+const DATE_SAMPLE_SIZE = 1000;
+
+// Characters sampled to auto-detect the delimiter
+const DELIMITER_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Options shared by the CSV parsers
+ * - mapping: explicit field -> source header mapping (header aliases always apply)
+ * - dateFormat: declared day/month order, or 'auto' to detect it from the file
+ * - delimiter: declared field separator, or 'auto' to detect it from the first rows
+ * - encoding: declared file encoding, or 'auto'; applies when files are
+ *   read (see csvDialect), the parsers receive decoded text
+ */
+export interface CSVParseOptions {
+  mapping?: ColumnMapping;
+  dateFormat?: DateFormatOption;
+  delimiter?: DelimiterOption;
+  encoding?: EncodingOption;
+}
+
+/**
+ * Parser output
+ * - rows: source row of each record (parallel to records)
+ * - errors: file-level errors and the error of every rejected row
+ * - rejected: rows that were not converted, with their field values
+ * - dateReport: present once the header row has been accepted
+ */
+export interface FIRParseResult {
+  records: FIR[];
+  rows: number[];
+  errors: ImportError[];
+  rejected: RejectedRow[];
+  dateReport?: DateFormatReport;
+}
 
 /**
  * Parses CSV content into FIR records
  *
  * CSV format expected:
  * id,crimeType,date,time,latitude,longitude,area,zone,policeStation,description,isAccident,isSensitiveZone
+ * Semicolon-, tab- and pipe-separated files are detected unless a
+ * delimiter is declared.
+ *
+ * Header names are resolved through column aliases and the optional
+ * mapping, so exports using "PS Name", "Lat", "Offence Head" etc. parse too.
+ * Other columns are kept as custom attributes (see firAttributes). Crime
+ * types are normalized to the taxonomy (see crimeTaxonomy).
  *
  * @param csvContent Raw CSV text content
- * @returns Array of FIR records and any parsing errors
+ * @param options Column mapping and date format for the file
+ * @returns FIR records, typed errors, rejected rows and the date format report
  *
- * Algorithm: Linear scan O(n) where n = number of CSV rows
- * - Splits by newlines
+ * Algorithm: Linear scan O(n) where n = number of CSV characters
+ * - Tokenizes records per RFC 4180 (quoted newlines, CRLF, BOM)
  * - Parses headers
- * - Validates each row
+ * - Resolves the date format (declared or detected from all date values)
+ * - Validates each row, flagging ambiguous dates such as 03/04/2026
  * - Returns records and errors separately
+ *
+ * Error row numbers refer to the physical line where each record starts
  */
 export const parseCSV = (
-  csvContent: string
-): { records: FIR[]; errors: string[] } => {
-  const records: FIR[] = [];
-  const errors: string[] = [];
+  csvContent: string,
+  options: CSVParseOptions = {}
+): FIRParseResult => {
+  const result = emptyResult();
 
   if (!csvContent || csvContent.trim().length === 0) {
-    errors.push('CSV content is empty');
-    return { records, errors };
+    result.errors.push(fileError('EMPTY_FILE', 'CSV content is empty'));
+    return result;
   }
 
-  const lines = csvContent.split('\n').filter((line) => line.trim());
+  const { delimiter } = resolveDelimiter(
+    options.delimiter || 'auto',
+    csvContent.slice(0, DELIMITER_SAMPLE_SIZE)
+  );
+  const rows = tokenizeCSV(csvContent, delimiter);
 
-  if (lines.length < 2) {
-    errors.push('CSV must contain at least headers and one data row');
-    return { records, errors };
+  if (rows.length < 2) {
+    result.errors.push(
+      fileError('NO_DATA_ROWS', 'CSV must contain at least headers and one data row')
+    );
+    return result;
   }
 
+  return parseTabularRows(rows[0].values, rows.slice(1), options);
+};
+
+/**
+ * Converts rows of string values under a header row into FIR records
+ * Shared by every importer that can present its data as a table
+ * (CSV text, GeoJSON features, JSON records)
+ *
+ * @param sourceHeaders Header names as found in the source
+ * @param rows Data rows with the source row number of each
+ * @param options Column mapping and date format
+ */
+export const parseTabularRows = (
+  sourceHeaders: string[],
+  rows: CSVRow[],
+  options: CSVParseOptions = {}
+): FIRParseResult => {
+  const result = emptyResult();
+
   // Parse header
-  const headerLine = lines[0];
-  const headers = headerLine.split(',').map((h) => h.trim().toLowerCase());
-
-  const requiredHeaders = [
-    'id',
-    'crimetype',
-    'date',
-    'time',
-    'latitude',
-    'longitude',
-    'area',
-    'zone',
-    'policestation',
-  ];
-
-  const missingHeaders = requiredHeaders.filter(
-    (h) => !headers.includes(h)
-  );
-  if (missingHeaders.length > 0) {
-    errors.push(`Missing required headers: ${missingHeaders.join(', ')}`);
-    return { records, errors };
+  const headers = resolveHeaders(sourceHeaders, options.mapping);
+
+  const missingHeaders = checkRequiredHeaders(headers);
+  if (missingHeaders) {
+    result.errors.push(missingHeaders);
+    return result;
   }
 
+  const dateIndex = headers.indexOf('date');
+  const dateReport = resolveDateFormat(
+    options.dateFormat || 'auto',
+    rows.map((row) => row.values[dateIndex] || '')
+  );
+
   // Parse data rows
-  for (let i = 1; i < lines.length; i++) {
-    try {
-      const line = lines[i];
-      if (!line.trim()) continue; // Skip empty lines
-
-      const values = parseCSVRow(line);
-      const record = parseFIRRecord(values, headers, i + 1);
-
-      records.push(record);
-    } catch (error) {
-      errors.push(
-        `Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
-  }
+  rows.forEach((row) => parseRow(result, row, headers, dateReport));
 
-  return { records, errors };
+  result.dateReport = dateReport;
+  return result;
 };
 
 /**
- * Parses a single CSV row accounting for quoted values
- * Handles CSV format: "value1","value2",value3
+ * Incremental CSV parser for chunked imports of large files
+ *
+ * Feed decoded text chunks with write() and call end() after the last one.
+ * Each call returns the records and errors completed so far, using the
+ * same row numbering and messages as parseCSV.
+ *
+ * An 'auto' delimiter is detected once the header row is complete.
+ *
+ * Memory: O(chunk size) - only the current partial record is buffered
  */
-function parseCSVRow(row: string): string[] {
-  const values: string[] = [];
-  let current = '';
-  let insideQuotes = false;
+export class FIRStreamParser {
+  private tokenizer: CSVTokenizer | null = null;
+  private leading = ''; // Text held back until the delimiter is resolved
+  private headers: string[] | null = null;
+  private rejected = false;
+  private dateReport: DateFormatReport | null = null;
+  private sampleRows: CSVRow[] = [];
+
+  constructor(private readonly options: CSVParseOptions = {}) {}
+
+  write(chunk: string): FIRParseResult {
+    if (!this.tokenizer) {
+      this.leading += chunk;
+      if (!/[\r\n]/.test(this.leading)) return emptyResult();
+      return this.consume(this.startTokenizer().rows, false);
+    }
+    return this.consume(this.tokenizer.write(chunk), false);
+  }
+
+  end(): FIRParseResult {
+    const { tokenizer, rows } = this.tokenizer
+      ? { tokenizer: this.tokenizer, rows: [] }
+      : this.startTokenizer();
+    const result = this.consume([...rows, ...tokenizer.end()], true);
+
+    if (!this.headers && !this.rejected) {
+      result.errors.push(fileError('EMPTY_FILE', 'CSV content is empty'));
+    }
 
-  for (let i = 0; i < row.length; i++) {
-    const char = row[i];
-    const nextChar = row[i + 1];
+    return result;
+  }
+
+  /**
+   * Date format report so far (null until the format has been resolved)
+   */
+  getDateReport(): DateFormatReport | null {
+    return this.dateReport;
+  }
+
+  /**
+   * Creates the tokenizer for the resolved delimiter and feeds it the
+   * text held back so far
+   */
+  private startTokenizer(): { tokenizer: CSVTokenizer; rows: CSVRow[] } {
+    const { delimiter } = resolveDelimiter(
+      this.options.delimiter || 'auto',
+      this.leading.slice(0, DELIMITER_SAMPLE_SIZE)
+    );
+    const tokenizer = new CSVTokenizer(delimiter);
+    const rows = tokenizer.write(this.leading);
+
+    this.tokenizer = tokenizer;
+    this.leading = '';
+    return { tokenizer, rows };
+  }
+
+  private consume(rows: CSVRow[], final: boolean): FIRParseResult {
+    const result = emptyResult();
+    let pending = rows;
 
-    if (char === '"') {
-      if (insideQuotes && nextChar === '"') {
-        // Escaped quote
-        current += '"';
-        i++;
+    if (!this.headers && !this.rejected && pending.length > 0) {
+      const headers = resolveHeaders(pending[0].values, this.options.mapping);
+      const missingHeaders = checkRequiredHeaders(headers);
+      if (missingHeaders) {
+        result.errors.push(missingHeaders);
+        this.rejected = true;
       } else {
-        // Toggle quote state
-        insideQuotes = !insideQuotes;
+        this.headers = headers;
+      }
+      pending = pending.slice(1);
+    }
+
+    if (this.rejected || !this.headers) return result;
+
+    const headers = this.headers;
+    const dateIndex = headers.indexOf('date');
+
+    // Hold rows back until enough dates have been seen to detect the format
+    if (!this.dateReport) {
+      this.sampleRows.push(...pending);
+      if (this.sampleRows.length < DATE_SAMPLE_SIZE && !final) {
+        return result;
       }
-    } else if (char === ',' && !insideQuotes) {
-      // Field separator
-      values.push(current.trim());
-      current = '';
-    } else {
-      current += char;
+
+      this.dateReport = resolveDateFormat(
+        this.options.dateFormat || 'auto',
+        this.sampleRows.map((row) => row.values[dateIndex] || '')
+      );
+      pending = this.sampleRows;
+      this.sampleRows = [];
     }
+
+    for (const row of pending) {
+      parseRow(result, row, headers, this.dateReport);
+    }
+
+    result.dateReport = this.dateReport;
+    return result;
   }
+}
+
+function emptyResult(): FIRParseResult {
+  return { records: [], rows: [], errors: [], rejected: [] };
+}
+
+/**
+ * Returns a MISSING_HEADERS error when resolved headers lack a required field
+ */
+function checkRequiredHeaders(headers: string[]): ImportError | null {
+  const missingHeaders = REQUIRED_HEADERS.filter((h) => !headers.includes(h));
+  if (missingHeaders.length === 0) return null;
 
-  // Add the last field
-  values.push(current.trim());
+  return {
+    ...fileError(
+      'MISSING_HEADERS',
+      `Missing required headers: ${missingHeaders.join(', ')}`
+    ),
+    value: missingHeaders.join(', '),
+  };
+}
+
+/**
+ * Converts one data row into the result: a record with its source row,
+ * or a typed error plus the rejected row's field values
+ */
+function parseRow(
+  result: FIRParseResult,
+  { values, line, unterminated }: CSVRow,
+  headers: string[],
+  dateReport: DateFormatReport
+): void {
+  try {
+    if (unterminated) {
+      throw new RecordError('UNTERMINATED_QUOTE', 'Unterminated quoted field');
+    }
+
+    result.records.push(parseFIRRecord(values, headers, dateReport.format));
+    result.rows.push(line);
+    flagAmbiguousDate(dateReport, values[headers.indexOf('date')], line);
+  } catch (error) {
+    const importError = toImportError(error, line);
+    const fields: { [column: string]: string } = {};
+    headers.forEach((header, index) => {
+      if (index < values.length) fields[header] = values[index];
+    });
+
+    result.errors.push(importError);
+    result.rejected.push({ row: line, fields, errors: [importError] });
+  }
+}
 
-  return values;
+/**
+ * Records a row whose date depends on the day/month order
+ * Rows are only flagged when the order was not declared by the user
+ */
+function flagAmbiguousDate(
+  report: DateFormatReport,
+  value: string | undefined,
+  rowNumber: number
+): void {
+  if (report.source !== 'declared' && value && isAmbiguousDate(value)) {
+    report.ambiguousRows.push(rowNumber);
+  }
 }
 
 /**
@@ -121,7 +354,7 @@ function parseCSVRow(row: string): string[] {
 function parseFIRRecord(
   values: string[],
   headers: string[],
-  _rowNumber: number
+  dateFormat: DateFormat
 ): FIR {
   const data: Record<string, string> = {};
 
@@ -133,37 +366,60 @@ function parseFIRRecord(
 
   // Validate and convert fields
   const id = data['id']?.trim();
-  if (!id) throw new Error('FIR ID is required');
+  if (!id) throw new RecordError('REQUIRED_FIELD', 'FIR ID is required', 'id');
 
-  const crimeType = data['crimetype']?.trim();
-  if (!crimeType) throw new Error('Crime type is required');
+  const reportedCrimeType = data['crimetype']?.trim();
+  if (!reportedCrimeType) {
+    throw new RecordError('REQUIRED_FIELD', 'Crime type is required', 'crimetype');
+  }
+  const crimeType = normalizeCrimeType(reportedCrimeType);
 
+  // An ISO timestamp in the date column gives the Asia/Kolkata date, and
+  // the time when the time column is blank
   const dateStr = data['date']?.trim();
-  if (!dateStr) throw new Error('Date is required');
-  const date = parseDate(dateStr);
-  if (!date) throw new Error(`Invalid date format: ${dateStr}`);
-
-  const time = data['time']?.trim();
-  if (!time) throw new Error('Time is required');
-
-  const latitude = parseFloat(data['latitude']?.trim() || '');
-  if (isNaN(latitude) || latitude < -90 || latitude > 90) {
-    throw new Error(`Invalid latitude: ${data['latitude']}`);
+  if (!dateStr) throw new RecordError('REQUIRED_FIELD', 'Date is required', 'date');
+  const timestamp = splitISOTimestamp(dateStr);
+  const date = timestamp ? timestamp.date : parseDateValue(dateStr, dateFormat);
+  if (!date) {
+    throw new RecordError(
+      'INVALID_DATE',
+      `Invalid date format: ${dateStr}`,
+      'date',
+      dateStr
+    );
   }
 
-  const longitude = parseFloat(data['longitude']?.trim() || '');
-  if (isNaN(longitude) || longitude < -180 || longitude > 180) {
-    throw new Error(`Invalid longitude: ${data['longitude']}`);
+  const timeStr = data['time']?.trim();
+  if (!timeStr && !timestamp) {
+    throw new RecordError('REQUIRED_FIELD', 'Time is required', 'time');
+  }
+  const timeOfDay = timeStr ? parseTimeValue(timeStr) : timestamp!.time;
+  if (!timeOfDay) {
+    throw new RecordError(
+      'INVALID_TIME',
+      `Invalid time format: ${timeStr}`,
+      'time',
+      timeStr
+    );
   }
+  const time = formatTimeOfDay(timeOfDay);
+
+  const location = readLocation(data);
 
   const area = data['area']?.trim();
-  if (!area) throw new Error('Area is required');
+  if (!area) throw new RecordError('REQUIRED_FIELD', 'Area is required', 'area');
 
   const zone = data['zone']?.trim();
-  if (!zone) throw new Error('Zone is required');
+  if (!zone) throw new RecordError('REQUIRED_FIELD', 'Zone is required', 'zone');
 
   const policeStation = data['policestation']?.trim();
-  if (!policeStation) throw new Error('Police station is required');
+  if (!policeStation) {
+    throw new RecordError(
+      'REQUIRED_FIELD',
+      'Police station is required',
+      'policestation'
+    );
+  }
 
   const description = data['description']?.trim() || undefined;
   const isAccident =
@@ -171,59 +427,406 @@ function parseFIRRecord(
   const isSensitiveZone =
     data['issensitivezone']?.trim().toLowerCase() === 'true' ? true : false;
 
+  const updatedStr = data['updatedat']?.trim();
+  const updatedAt = updatedStr
+    ? parseDateTimeValue(updatedStr, dateFormat)
+    : undefined;
+  if (updatedAt === null) {
+    throw new RecordError(
+      'INVALID_DATE',
+      `Invalid last updated time: ${updatedStr}`,
+      'updatedat',
+      updatedStr
+    );
+  }
+
+  const reportedStr = data['reportedat']?.trim();
+  const reportedAt = reportedStr
+    ? parseDateTimeValue(reportedStr, dateFormat)
+    : undefined;
+  if (reportedAt === null) {
+    throw new RecordError(
+      'INVALID_DATE',
+      `Invalid registration time: ${reportedStr}`,
+      'reportedat',
+      reportedStr
+    );
+  }
+
   return {
     id,
     crimeType,
+    reportedCrimeType: crimeType !== reportedCrimeType ? reportedCrimeType : undefined,
     date,
     time,
-    latitude,
-    longitude,
+    incidentAt: toIncidentTimestamp(date, timeOfDay),
+    ...location,
     area,
     zone,
     policeStation,
     description,
     isAccident,
     isSensitiveZone,
+    updatedAt,
+    reportedAt,
+    attributes: readAttributes(data, dateFormat),
   };
 }
 
 /**
- * Parses date string in multiple formats
- * Supports: YYYY-MM-DD, DD/MM/YYYY, MM/DD/YYYY
+ * Reads a record's coordinates
+ *
+ * When both latitude and longitude are blank the area, police station and
+ * landmark columns are looked up in the gazetteer and the record is flagged
+ * with the match confidence. Coordinates exported from an earlier geocode
+ * keep their flag.
  */
-function parseDate(dateStr: string): Date | null {
-  // Try YYYY-MM-DD format
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    const date = new Date(dateStr + 'T00:00:00');
-    if (!isNaN(date.getTime())) return date;
+function readLocation(
+  data: Record<string, string>
+): Pick<FIR, 'latitude' | 'longitude' | 'geocodeConfidence' | 'geocodeMatch'> {
+  const latitudeStr = data['latitude']?.trim() || '';
+  const longitudeStr = data['longitude']?.trim() || '';
+
+  if (!latitudeStr && !longitudeStr) {
+    const match = geocodeLocation({
+      landmark: data['landmark'],
+      area: data['area'],
+      policeStation: data['policestation'],
+    });
+    if (!match) {
+      throw new RecordError(
+        'LOCATION_NOT_FOUND',
+        `No coordinates and no gazetteer match for area "${data['area']?.trim() || ''}" or police station "${data['policestation']?.trim() || ''}"`,
+        'latitude'
+      );
+    }
+
+    return {
+      latitude: match.latitude,
+      longitude: match.longitude,
+      geocodeConfidence: match.confidence,
+      geocodeMatch: match.matchedName,
+    };
   }
 
-  // Try DD/MM/YYYY format
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(dateStr)) {
-    const [day, month, year] = dateStr.split('/');
-    const date = new Date(
-      `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T00:00:00`
+  const latitude = parseFloat(latitudeStr);
+  if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+    throw new RecordError(
+      'INVALID_LATITUDE',
+      `Invalid latitude: ${data['latitude']}`,
+      'latitude',
+      data['latitude'] ?? null
     );
-    if (!isNaN(date.getTime())) return date;
   }
 
-  // Try MM/DD/YYYY format
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(dateStr)) {
-    const date = new Date(dateStr);
-    if (!isNaN(date.getTime())) return date;
+  const longitude = parseFloat(longitudeStr);
+  if (isNaN(longitude) || longitude < -180 || longitude > 180) {
+    throw new RecordError(
+      'INVALID_LONGITUDE',
+      `Invalid longitude: ${data['longitude']}`,
+      'longitude',
+      data['longitude'] ?? null
+    );
   }
 
-  return null;
+  const geocodeConfidence = parseGeocodeConfidence(data['geocodeconfidence'] || '');
+  return {
+    latitude,
+    longitude,
+    geocodeConfidence,
+    geocodeMatch: geocodeConfidence ? data['geocodematch']?.trim() || undefined : undefined,
+  };
+}
+
+/**
+ * Options for workbook import
+ * - sheetName: sheet to read (defaults to the first sheet with FIR headers)
+ * - headerRow: 1-based row holding the headers (auto-detected if omitted)
+ * - mapping: explicit field -> source header mapping
+ */
+export interface ExcelParseOptions extends CSVParseOptions {
+  sheetName?: string;
+  headerRow?: number;
 }
 
+// Columns holding a date and time rather than a calendar date
+const DATETIME_COLUMNS = ['updatedat', 'reportedat'];
+
+// Rows scanned when looking for the header row below title banners
+const HEADER_SCAN_LIMIT = 20;
+
 /**
- * Parses Excel file (simplified - assumes CSV export format)
- * For real Excel support, integrate xlsx library
+ * Parses an Excel workbook (.xlsx / .xls) into FIR records
+ *
+ * @param data Raw workbook bytes (FileReader.readAsArrayBuffer result)
+ * @param options Sheet, header row, column mapping and date format
+ * @returns FIR records, typed errors, rejected rows and the date format report
+ *          (same shape as parseCSV)
+ *
+ * Algorithm: O(r × c) over the used range of the selected sheet
+ * - Fills merged cell ranges with their top-left value
+ * - Picks the sheet and header row matching the most required headers
+ * - Resolves header names through column aliases and the optional mapping
+ * - Converts Excel serial date/time cells in the date and time columns
+ * - Resolves the format of text dates like the CSV parser
+ * - Reuses the CSV record conversion for each data row
  */
 export const parseExcel = (
-  content: string
-): { records: FIR[]; errors: string[] } => {
-  // For MVP, treat Excel as CSV
-  // In production, use xlsx library for proper .xlsx handling
-  return parseCSV(content);
+  data: ArrayBuffer,
+  options: ExcelParseOptions = {}
+): FIRParseResult => {
+  const result = emptyResult();
+
+  const located = locateHeaderRow(data, options);
+  if ('error' in located) {
+    result.errors.push(located.error);
+    return result;
+  }
+
+  const { grid, headerIndex } = located;
+  const headers = resolveHeaders(
+    (grid[headerIndex] || []).map((cell) => headerText(cell)),
+    options.mapping
+  );
+
+  const missingHeaders = checkRequiredHeaders(headers);
+  if (missingHeaders) {
+    result.errors.push(missingHeaders);
+    return result;
+  }
+
+  const rows: CSVRow[] = [];
+  for (let r = headerIndex + 1; r < grid.length; r++) {
+    const values = headers.map((header, c) =>
+      cellToString(grid[r][c], header)
+    );
+    if (values.every((v) => !v)) continue; // Skip empty rows
+    rows.push({ values, line: r + 1 });
+  }
+
+  // Serial date cells are already ISO; only text dates inform detection
+  const dateIndex = headers.indexOf('date');
+  const dateReport = resolveDateFormat(
+    options.dateFormat || 'auto',
+    rows.map((row) => row.values[dateIndex])
+  );
+
+  for (const row of rows) {
+    parseRow(result, row, headers, dateReport);
+  }
+
+  result.dateReport = dateReport;
+  return result;
+};
+
+/**
+ * Reads the header row of a workbook without converting any records
+ * Used by the upload flow to offer a column mapping before import
+ */
+export const readExcelHeaders = (
+  data: ArrayBuffer,
+  options: ExcelParseOptions = {}
+): { headers: string[]; errors: ImportError[] } => {
+  const located = locateHeaderRow(data, options);
+  if ('error' in located) return { headers: [], errors: [located.error] };
+
+  return {
+    headers: (located.grid[located.headerIndex] || [])
+      .map((cell) => headerText(cell))
+      .filter((h) => h),
+    errors: [],
+  };
 };
+
+/**
+ * Opens a workbook and picks the sheet and header row to import
+ * The requested sheet is used as-is; otherwise the sheet whose header row
+ * matches the most required fields wins
+ */
+function locateHeaderRow(
+  data: ArrayBuffer,
+  options: ExcelParseOptions
+): { grid: XLSX.CellObject[][]; headerIndex: number } | { error: ImportError } {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(data, { type: 'array' });
+  } catch (error) {
+    return {
+      error: fileError(
+        'UNREADABLE_FILE',
+        `Unable to read workbook: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ),
+    };
+  }
+
+  if (workbook.SheetNames.length === 0) {
+    return { error: fileError('EMPTY_FILE', 'Workbook contains no sheets') };
+  }
+
+  if (options.sheetName && !workbook.Sheets[options.sheetName]) {
+    return {
+      error: fileError('SHEET_NOT_FOUND', `Sheet not found: ${options.sheetName}`),
+    };
+  }
+
+  const candidates = options.sheetName
+    ? [options.sheetName]
+    : workbook.SheetNames;
+  let best: { grid: XLSX.CellObject[][]; headerIndex: number; score: number } | null = null;
+
+  for (const sheetName of candidates) {
+    const grid = readSheetGrid(workbook.Sheets[sheetName]);
+    const headerIndex =
+      options.headerRow !== undefined
+        ? options.headerRow - 1
+        : detectHeaderRow(grid, options.mapping);
+    const score = scoreHeaders(grid[headerIndex] || [], options.mapping);
+
+    if (!best || score > best.score) {
+      best = { grid, headerIndex, score };
+    }
+    if (score === REQUIRED_HEADERS.length) break;
+  }
+
+  if (best!.grid.length === 0) {
+    return { error: fileError('EMPTY_FILE', 'Sheet is empty') };
+  }
+
+  return best!;
+}
+
+/**
+ * Reads the used range of a sheet into a dense row/column grid
+ * Merged ranges are filled with the value of their top-left cell
+ */
+function readSheetGrid(sheet: XLSX.WorkSheet): XLSX.CellObject[][] {
+  const grid: XLSX.CellObject[][] = [];
+  if (!sheet || !sheet['!ref']) return grid;
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: XLSX.CellObject[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(sheet[XLSX.utils.encode_cell({ r, c })]);
+    }
+    grid.push(row);
+  }
+
+  (sheet['!merges'] || []).forEach((merge) => {
+    const origin =
+      grid[merge.s.r - range.s.r]?.[merge.s.c - range.s.c];
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const row = grid[r - range.s.r];
+        if (row) row[c - range.s.c] = origin;
+      }
+    }
+  });
+
+  return grid;
+}
+
+/**
+ * Finds the row that looks most like the FIR header row
+ * Skips title banners and merged group headings above it
+ */
+function detectHeaderRow(
+  grid: XLSX.CellObject[][],
+  mapping?: ColumnMapping
+): number {
+  let bestIndex = 0;
+  let bestScore = 0;
+
+  for (let r = 0; r < Math.min(grid.length, HEADER_SCAN_LIMIT); r++) {
+    const score = scoreHeaders(grid[r], mapping);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = r;
+    }
+  }
+
+  return bestIndex;
+}
+
+/**
+ * Counts how many required headers appear in a row
+ */
+function scoreHeaders(
+  row: XLSX.CellObject[],
+  mapping?: ColumnMapping
+): number {
+  const headers = resolveHeaders(
+    row.map((cell) => headerText(cell)),
+    mapping
+  );
+  return REQUIRED_HEADERS.filter((h) => headers.includes(h)).length;
+}
+
+function headerText(cell: XLSX.CellObject | undefined): string {
+  return cell && cell.v !== undefined ? String(cell.v).trim() : '';
+}
+
+/**
+ * Converts a cell to the string form the CSV record parser expects
+ * Date, time and last-updated columns turn Excel serial numbers into
+ * YYYY-MM-DD, HH:MM and YYYY-MM-DD HH:MM
+ */
+function cellToString(
+  cell: XLSX.CellObject | undefined,
+  header: string
+): string {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+
+  if (cell.v instanceof Date) {
+    const date = formatDate(
+      cell.v.getFullYear(),
+      cell.v.getMonth() + 1,
+      cell.v.getDate()
+    );
+    const time = formatTimeOfDay({
+      hours: cell.v.getHours(),
+      minutes: cell.v.getMinutes(),
+      seconds: cell.v.getSeconds(),
+    });
+    if (header === 'time') return time;
+    return DATETIME_COLUMNS.includes(header) ? `${date} ${time}` : date;
+  }
+
+  if (cell.t === 'n' && typeof cell.v === 'number') {
+    if (header === 'date') {
+      const parsed = XLSX.SSF.parse_date_code(cell.v);
+      if (parsed) return formatDate(parsed.y, parsed.m, parsed.d);
+    }
+    if (DATETIME_COLUMNS.includes(header)) {
+      const parsed = XLSX.SSF.parse_date_code(cell.v);
+      if (parsed) {
+        return `${formatDate(parsed.y, parsed.m, parsed.d)} ${formatTimeOfDay({
+          hours: parsed.H,
+          minutes: parsed.M,
+          seconds: parsed.S,
+        })}`;
+      }
+    }
+    if (header === 'time') {
+      // Time cells are day fractions; datetime cells carry a whole-day part
+      const parsed = XLSX.SSF.parse_date_code(cell.v % 1);
+      if (parsed) {
+        return formatTimeOfDay({
+          hours: parsed.H,
+          minutes: parsed.M,
+          seconds: parsed.S,
+        });
+      }
+    }
+    return String(cell.v);
+  }
+
+  if (cell.t === 'b') return cell.v ? 'true' : 'false';
+
+  return String(cell.v).trim();
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
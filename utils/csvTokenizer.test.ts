@@ -0,0 +1,85 @@
+import { CSVTokenizer, tokenizeCSV } from './csvTokenizer';
+
+describe('csvTokenizer', () => {
+  describe('tokenizeCSV', () => {
+    it('should split simple rows and fields', () => {
+      const rows = tokenizeCSV('a,b,c\n1,2,3');
+
+      expect(rows.map((r) => r.values)).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('should keep newlines inside quoted fields', () => {
+      const rows = tokenizeCSV('id,description\nFIR001,"Line one\nLine two"\nFIR002,Short');
+
+      expect(rows).toHaveLength(3);
+      expect(rows[1].values[1]).toBe('Line one\nLine two');
+      expect(rows[2].values[0]).toBe('FIR002');
+    });
+
+    it('should handle CRLF line endings without stray carriage returns', () => {
+      const rows = tokenizeCSV('a,b\r\n1,2\r\n3,"x\r\ny"\r\n');
+
+      expect(rows.map((r) => r.values)).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+        ['3', 'x\ny'],
+      ]);
+    });
+
+    it('should strip a leading byte order mark', () => {
+      const rows = tokenizeCSV('\ufeffid,area\nFIR001,Malad');
+
+      expect(rows[0].values[0]).toBe('id');
+    });
+
+    it('should unescape doubled quotes', () => {
+      const rows = tokenizeCSV('a\n"He said ""stop"""');
+
+      expect(rows[1].values[0]).toBe('He said "stop"');
+    });
+
+    it('should report the physical start line of each record', () => {
+      const rows = tokenizeCSV('h1,h2\n\n"multi\nline",x\nlast,y');
+
+      expect(rows.map((r) => r.line)).toEqual([1, 3, 5]);
+    });
+
+    it('should keep a lone quoted empty field as a record but skip blank lines', () => {
+      const rows = tokenizeCSV('name\n""\n\n  \nlast\n');
+
+      expect(rows.map((r) => r.values)).toEqual([['name'], [''], ['last']]);
+      expect(rows[1].line).toBe(2);
+    });
+
+        it('should flag an unterminated quoted field', () => {
+      const rows = tokenizeCSV('a,b\n1,"never closed');
+
+      expect(rows[1].unterminated).toBe(true);
+    });
+
+    it('should support other delimiters', () => {
+      const rows = tokenizeCSV('a;b\n"1;2";3', ';');
+
+      expect(rows[1].values).toEqual(['1;2', '3']);
+    });
+  });
+
+  describe('CSVTokenizer', () => {
+    it('should produce the same rows when fed in chunks', () => {
+      const content = 'id,note\r\nFIR001,"a ""quoted""\r\nnote"\r\nFIR002,plain\r\n';
+      const expected = tokenizeCSV(content);
+
+      const tokenizer = new CSVTokenizer();
+      const rows = [];
+      for (const char of content) {
+        rows.push(...tokenizer.write(char));
+      }
+      rows.push(...tokenizer.end());
+
+      expect(rows).toEqual(expected);
+    });
+  });
+});
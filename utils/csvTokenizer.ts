@@ -0,0 +1,156 @@
+/**
+ * RFC 4180 CSV Tokenizer
+ *
+ * Streaming state machine that turns CSV text into rows of field values.
+ * Content can be fed in arbitrary chunks (e.g. slices of a large file);
+ * quoted fields, CRLF pairs and escaped quotes may span chunk boundaries.
+ *
+ * Handles:
+ * - Quoted fields with embedded delimiters and newlines
+ * - Escaped quotes ("")
+ * - LF, CRLF and lone CR line endings
+ * - A leading UTF-8 byte order mark
+ *
+ * Time Complexity: O(n) where n = number of characters
+ */
+
+export interface CSVRow {
+  values: string[];
+  line: number; // Physical line where the record starts (1-based)
+  unterminated?: boolean; // Input ended inside a quoted field
+}
+
+type TokenizerState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+export class CSVTokenizer {
+  private state: TokenizerState = 'fieldStart';
+  private field = '';
+  private row: string[] = [];
+  private line = 1;
+  private rowLine = 1;
+  private skipLineFeed = false;
+  private started = false;
+  private rowQuoted = false; // A field of the current row was quoted
+
+  constructor(private readonly delimiter: string = ',') {}
+
+  /**
+   * Consumes a chunk of CSV text
+   * Returns the rows completed by this chunk
+   */
+  write(chunk: string): CSVRow[] {
+    const rows: CSVRow[] = [];
+    let i = 0;
+
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1; // Strip BOM
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // Second half of a CRLF pair
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.state === 'quoted') {
+        if (char === '"') {
+          this.state = 'quoteInQuoted';
+        } else if (char === '\r') {
+          // Normalize embedded CRLF / CR to LF
+          this.field += '\n';
+          this.line++;
+          this.skipLineFeed = true;
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (this.state === 'quoteInQuoted') {
+        if (char === '"') {
+          // Escaped quote
+          this.field += '"';
+          this.state = 'quoted';
+          continue;
+        }
+        // Closing quote; anything up to the next delimiter is kept as-is
+        this.state = 'unquoted';
+      }
+
+      if (char === '"' && this.state === 'fieldStart') {
+        this.state = 'quoted';
+        this.rowQuoted = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.skipLineFeed = char === '\r';
+        const row = this.endRow();
+        if (row) rows.push(row);
+        this.line++;
+        this.rowLine = this.line;
+      } else {
+        this.field += char;
+        this.state = 'unquoted';
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Flushes the final row once all input has been written
+   */
+  end(): CSVRow[] {
+    if (this.state === 'quoted') {
+      this.endField();
+      const values = this.row;
+      this.row = [];
+      return [{ values, line: this.rowLine, unterminated: true }];
+    }
+
+    const row = this.endRow();
+    return row ? [row] : [];
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  /**
+   * Completes the current row; blank lines produce no row, but a lone
+   * quoted empty field ("") is a record with one empty value
+   */
+  private endRow(): CSVRow | null {
+    this.endField();
+
+    const values = this.row;
+    const quoted = this.rowQuoted;
+    this.row = [];
+    this.rowQuoted = false;
+
+    if (values.length === 1 && !quoted && values[0].trim() === '') {
+      return null;
+    }
+
+    return { values, line: this.rowLine };
+  }
+}
+
+/**
+ * Tokenizes a complete CSV document
+ * Convenience wrapper around CSVTokenizer for in-memory content
+ */
+export const tokenizeCSV = (
+  content: string,
+  delimiter: string = ','
+): CSVRow[] => {
+  const tokenizer = new CSVTokenizer(delimiter);
+  return [...tokenizer.write(content), ...tokenizer.end()];
+};
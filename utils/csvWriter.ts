@@ -0,0 +1,21 @@
+/**
+ * CSV writing helpers
+ *
+ * Produces RFC 4180 text that the importer's tokenizer reads back
+ * unchanged: values containing delimiters, quotes or line breaks are quoted
+ * and embedded quotes are doubled.
+ */
+
+/**
+ * Quotes a value when it contains a delimiter, quote or line break
+ */
+export const escapeCSVValue = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Joins a header row and data rows into CSV text
+ *
+ * Time Complexity: O(r × c) where r = rows, c = columns
+ */
+export const toCSV = (header: string[], rows: string[][]): string =>
+  [header, ...rows].map((row) => row.map(escapeCSVValue).join(',')).join('\n');
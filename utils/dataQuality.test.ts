@@ -0,0 +1,86 @@
+import { UNSPECIFIED_GROUP, scoreDataQuality } from './dataQuality';
+import { RejectedRow } from './importErrors';
+import { makeFIR } from './testFixtures';
+import { FIR } from '../types';
+
+describe('dataQuality', () => {
+  const fir = (overrides: Partial<FIR>): FIR =>
+    makeFIR({ description: 'Mobile phone stolen', ...overrides });
+
+  // Kandivali PS submits clean records; Charkop PS has gaps and a late, approximate record
+  const kandivali = (overrides: Partial<FIR>) =>
+    fir({
+      policeStation: 'Kandivali PS',
+      latitude: 19.205,
+      longitude: 72.84,
+      area: 'Kandivali West',
+      ...overrides,
+    });
+
+  const firs = [
+    kandivali({ id: 'KAN-1', description: 'Chain snatched' }),
+    kandivali({ id: 'KAN-2', date: new Date(2026, 1, 3), description: 'Bike stolen' }),
+    fir({
+      id: 'CHK-1',
+      policeStation: 'Charkop PS',
+      latitude: 19.205,
+      longitude: 72.79,
+      area: 'Charkop',
+      description: undefined,
+    }),
+    fir({
+      id: 'CHK-2',
+      policeStation: 'Charkop PS',
+      latitude: 19.206,
+      longitude: 72.791,
+      area: 'Charkop',
+      date: new Date(2026, 2, 1),
+      geocodeConfidence: 'low',
+      reportedAt: new Date('2026-03-16T09:00:00Z'), // 15 days after the incident (14:30 IST)
+    }),
+  ];
+
+  it('should score each station on every dimension, worst first', () => {
+    const [charkop, kandivaliScore] = scoreDataQuality(firs, 'policeStation');
+
+    expect(charkop).toEqual(
+      expect.objectContaining({
+        group: 'Charkop PS',
+        records: 2,
+        completeness: 0.9,
+        validity: 1,
+        duplicates: 1,
+        geocoding: 0.625,
+      })
+    );
+    expect(charkop.timeliness).toBeCloseTo(1 - 14 / 29);
+    expect(charkop.medianReportLagHours).toBe(15 * 24);
+    expect(kandivaliScore).toEqual(
+      expect.objectContaining({ group: 'Kandivali PS', overall: 1, timeliness: null })
+    );
+  });
+
+  it('should count near duplicates and rejected rows against the station', () => {
+    const copy = kandivali({ id: 'KAN-9', description: 'Chain snatched' });
+    const rejected: RejectedRow[] = [
+      { row: 5, fields: { policestation: 'Kandivali PS' }, errors: [] },
+      { row: 6, fields: { area: 'Charkop' }, errors: [] },
+    ];
+
+    const scores = scoreDataQuality([...firs, copy], 'policeStation', { rejected });
+    const station = scores.find((s) => s.group === 'Kandivali PS')!;
+
+    expect(station.duplicates).toBeCloseTo(1 / 3);
+    expect(station.rejected).toBe(1);
+    expect(station.validity).toBe(3 / 4);
+    expect(scores.find((s) => s.group === UNSPECIFIED_GROUP)).toEqual(
+      expect.objectContaining({ records: 0, rejected: 1, validity: 0 })
+    );
+  });
+
+  it('should give warnings half credit for validity', () => {
+    const outside = fir({ id: 'MAL-1', policeStation: 'Malad PS', latitude: 19.25, longitude: 72.86 });
+
+    expect(scoreDataQuality([outside], 'zone')[0].validity).toBe(0.5);
+  });
+});
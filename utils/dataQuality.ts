@@ -0,0 +1,245 @@
+import { FIR } from '../types';
+import { GeocodeConfidence } from './geocoding';
+import { RejectedRow } from './importErrors';
+import { withIncidentTimestamp } from './incidentTime';
+import { NearDuplicateOptions, findNearDuplicates } from './nearDuplicates';
+import { findDuplicates } from './validation';
+import { BASE_RULES, ValidationRule, evaluateRules } from './validationRules';
+
+/**
+ * Data quality scorecard
+ *
+ * Scores the records each police station (or zone) submits on five
+ * dimensions, each between 0 (poor) and 1 (good):
+ * - completeness: share of the optional fields (time, area, zone, station,
+ *   description) that are filled in
+ * - validity: 1 per record passing every rule, 0.5 with warnings only,
+ *   0 for records with errors and rows rejected at import
+ * - duplicates: share of records not in a near-duplicate pair or sharing
+ *   an FIR ID
+ * - geocoding: 1 for source coordinates, less for gazetteer approximations
+ *   by their confidence
+ * - timeliness: 1 when registered within a day of the incident, falling to
+ *   0 at maxReportLagDays; null when no record has a registration time
+ *
+ * The overall score is the weighted mean of the dimensions that have a
+ * score. Groups are listed worst first.
+ */
+
+declare module '../types' {
+  interface FIR {
+    /** When the FIR was registered, for report lag */
+    reportedAt?: Date;
+  }
+}
+
+export type QualityGroupBy = 'policeStation' | 'zone';
+
+export type QualityDimension =
+  | 'completeness'
+  | 'validity'
+  | 'duplicates'
+  | 'geocoding'
+  | 'timeliness';
+
+export const QUALITY_DIMENSIONS: QualityDimension[] = [
+  'completeness',
+  'validity',
+  'duplicates',
+  'geocoding',
+  'timeliness',
+];
+
+export const QUALITY_DIMENSION_LABELS: { [dimension in QualityDimension]: string } = {
+  completeness: 'Completeness',
+  validity: 'Validity',
+  duplicates: 'Duplicates',
+  geocoding: 'Geocode Accuracy',
+  timeliness: 'Timeliness',
+};
+
+export type QualityWeights = { [dimension in QualityDimension]: number };
+
+export interface QualityOptions {
+  rules?: ValidationRule[];
+  rejected?: RejectedRow[]; // Rows rejected at import, counted against validity
+  duplicates?: NearDuplicateOptions;
+  maxReportLagDays?: number;
+  weights?: Partial<QualityWeights>;
+}
+
+/**
+ * Scores of one station or zone; timeliness is null without registration times
+ */
+export interface QualityScore {
+  group: string;
+  records: number;
+  rejected: number;
+  completeness: number;
+  validity: number;
+  duplicates: number;
+  geocoding: number;
+  timeliness: number | null;
+  medianReportLagHours: number | null;
+  overall: number;
+}
+
+export const DEFAULT_QUALITY_WEIGHTS: QualityWeights = {
+  completeness: 1,
+  validity: 1,
+  duplicates: 1,
+  geocoding: 1,
+  timeliness: 1,
+};
+
+// Group for rejected rows that didn't name a station or zone
+export const UNSPECIFIED_GROUP = 'Unspecified';
+
+const DEFAULT_MAX_REPORT_LAG_DAYS = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const COMPLETENESS_FIELDS: (keyof FIR)[] = ['time', 'area', 'zone', 'policeStation', 'description'];
+
+const GEOCODE_SCORES: { [confidence in GeocodeConfidence]: number } = {
+  high: 0.75,
+  medium: 0.5,
+  low: 0.25,
+};
+
+// Column of a rejected row naming its group
+const GROUP_COLUMNS: { [groupBy in QualityGroupBy]: string } = {
+  policeStation: 'policestation',
+  zone: 'zone',
+};
+
+/**
+ * Scores each station or zone, worst first
+ *
+ * Time Complexity: O(n × r + n log n + n × k) where n = records,
+ * r = rules, k = records per duplicate time window
+ */
+export const scoreDataQuality = (
+  firs: FIR[],
+  groupBy: QualityGroupBy,
+  options: QualityOptions = {}
+): QualityScore[] => {
+  const rules = options.rules || BASE_RULES;
+  const maxLagMs = (options.maxReportLagDays ?? DEFAULT_MAX_REPORT_LAG_DAYS) * DAY_MS;
+  const weights = { ...DEFAULT_QUALITY_WEIGHTS, ...options.weights };
+
+  const duplicated = new Set(findDuplicates(firs).map((fir) => fir.id));
+  findNearDuplicates(firs, options.duplicates).forEach(({ primary, duplicate }) => {
+    duplicated.add(primary.id);
+    duplicated.add(duplicate.id);
+  });
+
+  const groups = new Map<string, { firs: FIR[]; rejected: number }>();
+  const groupOf = (name: string | undefined) => {
+    const key = name?.trim() || UNSPECIFIED_GROUP;
+    if (!groups.has(key)) groups.set(key, { firs: [], rejected: 0 });
+    return groups.get(key)!;
+  };
+
+  firs.forEach((fir) => groupOf(fir[groupBy]).firs.push(fir));
+  (options.rejected || []).forEach((row) => {
+    groupOf(row.fields[GROUP_COLUMNS[groupBy]]).rejected++;
+  });
+
+  return Array.from(groups.entries())
+    .map(([group, { firs: records, rejected }]) => {
+      const lags = records
+        .map(reportLag)
+        .filter((lag): lag is number => lag !== null)
+        .sort((a, b) => a - b);
+
+      const score = {
+        group,
+        records: records.length,
+        rejected,
+        completeness: mean(records.map(completeness)),
+        validity:
+          records.length + rejected > 0
+            ? records.reduce((sum, fir) => sum + validity(fir, rules), 0) /
+              (records.length + rejected)
+            : 1,
+        duplicates: mean(records.map((fir) => (duplicated.has(fir.id) ? 0 : 1))),
+        geocoding: mean(
+          records.map((fir) => (fir.geocodeConfidence ? GEOCODE_SCORES[fir.geocodeConfidence] : 1))
+        ),
+        timeliness: lags.length > 0 ? mean(lags.map((lag) => timeliness(lag, maxLagMs))) : null,
+        medianReportLagHours: lags.length > 0 ? median(lags) / HOUR_MS : null,
+      };
+
+      return { ...score, overall: overallScore(score, weights) };
+    })
+    .sort((a, b) => a.overall - b.overall || a.group.localeCompare(b.group));
+};
+
+/**
+ * Weighted mean of the dimensions with a score
+ */
+function overallScore(
+  score: { [dimension in QualityDimension]: number | null },
+  weights: QualityWeights
+): number {
+  let weighted = 0;
+  let weightSum = 0;
+
+  QUALITY_DIMENSIONS.forEach((dimension) => {
+    const value = score[dimension];
+    if (value === null) return;
+    weighted += value * weights[dimension];
+    weightSum += weights[dimension];
+  });
+
+  return weightSum > 0 ? weighted / weightSum : 0;
+}
+
+function completeness(fir: FIR): number {
+  const filled = COMPLETENESS_FIELDS.filter((field) => {
+    const value = fir[field];
+    return typeof value === 'string' ? value.trim() !== '' : value !== undefined;
+  });
+  return filled.length / COMPLETENESS_FIELDS.length;
+}
+
+function validity(fir: FIR, rules: ValidationRule[]): number {
+  const violations = evaluateRules(fir, rules);
+  if (violations.some((v) => v.severity === 'error')) return 0;
+  return violations.length > 0 ? 0.5 : 1;
+}
+
+/**
+ * Time from incident to registration in ms, or null when either is unknown
+ * Registrations dated before the incident count as immediate
+ */
+function reportLag(fir: FIR): number | null {
+  if (!fir.reportedAt || isNaN(fir.reportedAt.getTime())) return null;
+
+  const incidentAt = fir.incidentAt || withIncidentTimestamp(fir).incidentAt;
+  if (!incidentAt) return null;
+  return Math.max(0, fir.reportedAt.getTime() - incidentAt.getTime());
+}
+
+/**
+ * 1 within a day, falling linearly to 0 at the maximum lag
+ */
+function timeliness(lagMs: number, maxLagMs: number): number {
+  if (lagMs <= DAY_MS) return 1;
+  if (maxLagMs <= DAY_MS) return 0;
+  return Math.max(0, 1 - (lagMs - DAY_MS) / (maxLagMs - DAY_MS));
+}
+
+/**
+ * Mean of the scores; groups with no records (only rejected rows) score 1
+ */
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 1;
+}
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,119 @@
+import {
+  describeDateReport,
+  detectDateFormat,
+  isAmbiguousDate,
+  parseDateValue,
+  resolveDateFormat,
+} from './dateFormats';
+
+describe('dateFormats', () => {
+  const ymd = (date: Date | null) =>
+    date && [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+
+  describe('parseDateValue', () => {
+    it('should parse ISO dates regardless of declared order', () => {
+      expect(ymd(parseDateValue('2026-01-20', 'MDY'))).toEqual([2026, 1, 20]);
+      expect(ymd(parseDateValue('2026/1/5', 'DMY'))).toEqual([2026, 1, 5]);
+    });
+
+    it('should honour the declared day/month order', () => {
+      expect(ymd(parseDateValue('03/04/2026', 'DMY'))).toEqual([2026, 4, 3]);
+      expect(ymd(parseDateValue('03/04/2026', 'MDY'))).toEqual([2026, 3, 4]);
+    });
+
+    it('should accept dash and dot separators', () => {
+      expect(ymd(parseDateValue('25-01-2026', 'DMY'))).toEqual([2026, 1, 25]);
+      expect(ymd(parseDateValue('25.01.2026', 'DMY'))).toEqual([2026, 1, 25]);
+    });
+
+    it('should accept single-digit parts and 2-digit years', () => {
+      expect(ymd(parseDateValue('5/1/26', 'DMY'))).toEqual([2026, 1, 5]);
+      expect(ymd(parseDateValue('5/1/98', 'DMY'))).toEqual([1998, 1, 5]);
+    });
+
+    it('should reject impossible dates and mixed separators', () => {
+      expect(parseDateValue('31/02/2026', 'DMY')).toBeNull();
+      expect(parseDateValue('13/13/2026', 'DMY')).toBeNull();
+      expect(parseDateValue('01/02-2026', 'DMY')).toBeNull();
+      expect(parseDateValue('yesterday', 'DMY')).toBeNull();
+    });
+
+    it('should return local midnight', () => {
+      const date = parseDateValue('20/01/2026', 'DMY');
+
+      expect(date?.getHours()).toBe(0);
+      expect(date?.getMinutes()).toBe(0);
+    });
+  });
+
+  describe('isAmbiguousDate', () => {
+    it('should flag dates that read differently in each order', () => {
+      expect(isAmbiguousDate('03/04/2026')).toBe(true);
+      expect(isAmbiguousDate('13/04/2026')).toBe(false);
+      expect(isAmbiguousDate('04/04/2026')).toBe(false);
+      expect(isAmbiguousDate('2026-03-04')).toBe(false);
+    });
+  });
+
+  describe('detectDateFormat', () => {
+    it('should detect day-first dates', () => {
+      const result = detectDateFormat(['03/04/2026', '25/04/2026']);
+
+      expect(result.format).toBe('DMY');
+      expect(result.source).toBe('detected');
+    });
+
+    it('should detect month-first dates', () => {
+      const result = detectDateFormat(['03/04/2026', '04/25/2026']);
+
+      expect(result.format).toBe('MDY');
+    });
+
+    it('should fall back to the default without evidence', () => {
+      const result = detectDateFormat(['03/04/2026', '2026-01-20']);
+
+      expect(result.format).toBe('DMY');
+      expect(result.source).toBe('default');
+    });
+
+    it('should report conflicting evidence', () => {
+      const result = detectDateFormat(['25/04/2026', '26/04/2026', '04/25/2026']);
+
+      expect(result.format).toBe('DMY');
+      expect(result.conflicting).toBe(true);
+    });
+  });
+
+  describe('resolveDateFormat', () => {
+    it('should use a declared format without detection', () => {
+      const report = resolveDateFormat('MDY', ['25/04/2026']);
+
+      expect(report.format).toBe('MDY');
+      expect(report.source).toBe('declared');
+    });
+  });
+
+  describe('describeDateReport', () => {
+    it('should summarize ambiguous rows', () => {
+      const message = describeDateReport({
+        format: 'DMY',
+        source: 'default',
+        conflicting: false,
+        ambiguousRows: [2, 5, 9],
+      });
+
+      expect(message).toContain('3 ambiguous dates read as DD/MM/YYYY (assumed): rows 2, 5, 9');
+    });
+
+    it('should return null when nothing is ambiguous', () => {
+      expect(
+        describeDateReport({
+          format: 'DMY',
+          source: 'detected',
+          conflicting: false,
+          ambiguousRows: [],
+        })
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Date format handling for FIR imports
+ *
+ * Station exports write dates as DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY,
+ * sometimes MM/DD/YYYY, with single-digit days/months and 2-digit years.
+ * A value like 03/04/2026 cannot be read reliably without knowing the
+ * file's convention, so the order is either declared by the user or
+ * detected from the file, and rows whose reading depends on it are reported.
+ *
+ * ISO dates (YYYY-MM-DD, YYYY/MM/DD) are always accepted. The FIR date
+ * column also takes ISO 8601 timestamps, read in Asia/Kolkata
+ * (splitISOTimestamp in incidentTime.ts).
+ */
+
+export type DateFormat = 'DMY' | 'MDY';
+export type DateFormatOption = DateFormat | 'auto';
+
+export const DATE_FORMAT_LABELS: { [key in DateFormatOption]: string } = {
+  auto: 'Auto-detect',
+  DMY: 'DD/MM/YYYY',
+  MDY: 'MM/DD/YYYY',
+};
+
+// Indian station exports default to day-first
+export const DEFAULT_DATE_FORMAT: DateFormat = 'DMY';
+
+/**
+ * How the date order for an import was chosen and which rows it affects
+ * - source: 'declared' by the user, 'detected' from the data, or 'default'
+ * - conflicting: the file contains both day-first and month-first evidence
+ * - ambiguousRows: rows whose date reads differently under DMY and MDY
+ */
+export interface DateFormatReport {
+  format: DateFormat;
+  source: 'declared' | 'detected' | 'default';
+  conflicting: boolean;
+  ambiguousRows: number[];
+}
+
+const ISO_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/;
+const NUMERIC_PATTERN = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})$/;
+
+/**
+ * Parses a date string using the given day/month order
+ * Accepts ISO dates, single-digit parts and 2-digit years
+ * Returns a local-midnight Date, or null if the value is not a real date
+ */
+export const parseDateValue = (
+  value: string,
+  format: DateFormat
+): Date | null => {
+  const trimmed = value.trim();
+
+  const iso = ISO_PATTERN.exec(trimmed);
+  if (iso) {
+    return buildDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const parts = splitNumericDate(trimmed);
+  if (!parts) return null;
+
+  const [day, month] =
+    format === 'DMY' ? [parts.first, parts.second] : [parts.second, parts.first];
+
+  return buildDate(parts.year, month, day);
+};
+
+/**
+ * True when a date reads as two different valid dates under DMY and MDY
+ * e.g. 03/04/2026 (3 April or 4 March); 13/04/2026 and 04/04/2026 are not
+ */
+export const isAmbiguousDate = (value: string): boolean => {
+  const parts = splitNumericDate(value.trim());
+  if (!parts) return false;
+
+  return (
+    parts.first !== parts.second && parts.first <= 12 && parts.second <= 12
+  );
+};
+
+/**
+ * Infers the day/month order from a sample of date values
+ * A first part above 12 proves day-first, a second part above 12 proves
+ * month-first. Without evidence the default order is used.
+ *
+ * Time Complexity: O(n) where n = sample size
+ */
+export const detectDateFormat = (
+  values: string[]
+): { format: DateFormat; source: 'detected' | 'default'; conflicting: boolean } => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+
+  values.forEach((value) => {
+    const parts = splitNumericDate(value.trim());
+    if (!parts) return;
+    if (parts.first > 12 && parts.second <= 12) dayFirst++;
+    if (parts.second > 12 && parts.first <= 12) monthFirst++;
+  });
+
+  if (dayFirst === 0 && monthFirst === 0) {
+    return { format: DEFAULT_DATE_FORMAT, source: 'default', conflicting: false };
+  }
+
+  return {
+    format: monthFirst > dayFirst ? 'MDY' : 'DMY',
+    source: 'detected',
+    conflicting: dayFirst > 0 && monthFirst > 0,
+  };
+};
+
+/**
+ * Resolves a declared option (or auto-detection over samples) into a report
+ */
+export const resolveDateFormat = (
+  option: DateFormatOption,
+  samples: string[]
+): DateFormatReport => {
+  if (option !== 'auto') {
+    return { format: option, source: 'declared', conflicting: false, ambiguousRows: [] };
+  }
+
+  return { ...detectDateFormat(samples), ambiguousRows: [] };
+};
+
+function splitNumericDate(
+  value: string
+): { first: number; second: number; year: number } | null {
+  const match = NUMERIC_PATTERN.exec(value);
+  if (!match) return null;
+
+  return {
+    first: Number(match[1]),
+    second: Number(match[3]),
+    year: expandYear(match[4]),
+  };
+}
+
+/**
+ * Expands 2-digit years to the most recent matching year that isn't in the future
+ */
+function expandYear(year: string): number {
+  if (year.length === 4) return Number(year);
+
+  const currentYear = new Date().getFullYear();
+  const candidate = 2000 + Number(year);
+  return candidate <= currentYear ? candidate : candidate - 100;
+}
+
+/**
+ * Builds a local-midnight date, rejecting overflow such as 31/02
+ */
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const date = new Date(year, month - 1, day);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Human-readable summary of a date format report for the upload UI
+ * Returns null when nothing needs the user's attention
+ */
+export const describeDateReport = (
+  report: DateFormatReport,
+  maxRows: number = 10
+): string | null => {
+  const label = DATE_FORMAT_LABELS[report.format];
+  const notes: string[] = [];
+
+  if (report.conflicting) {
+    notes.push(`file mixes day-first and month-first dates; read as ${label}`);
+  }
+
+  if (report.ambiguousRows.length > 0) {
+    const rows = report.ambiguousRows.slice(0, maxRows).join(', ');
+    const more =
+      report.ambiguousRows.length > maxRows
+        ? ` and ${report.ambiguousRows.length - maxRows} more`
+        : '';
+    const basis = report.source === 'detected' ? 'detected' : 'assumed';
+    notes.push(
+      `${report.ambiguousRows.length} ambiguous dates read as ${label} (${basis}): rows ${rows}${more}`
+    );
+  }
+
+  return notes.length > 0 ? `Date format: ${notes.join('; ')}` : null;
+};
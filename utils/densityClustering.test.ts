@@ -0,0 +1,144 @@
+import { clusterByDensity, convexHull, dbscan, hdbscan } from './densityClustering';
+import { FIR } from '../types';
+
+describe('densityClustering', () => {
+  const fir = (id: string, latitude: number, longitude: number): FIR => ({
+    id,
+    crimeType: 'Theft',
+    date: new Date(2026, 0, 20),
+    time: '14:30',
+    latitude,
+    longitude,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: false,
+  });
+
+  // Deterministic pseudo-random blob of FIRs around a point
+  const blob = (prefix: string, count: number, lat: number, lng: number, spread: number) => {
+    let state = count * 7919 + prefix.length;
+    const random = () => {
+      state = (state * 1664525 + 1013904223) % 4294967296;
+      return state / 4294967296 - 0.5;
+    };
+    return Array.from({ length: count }, (_, i) =>
+      fir(`${prefix}${i}`, lat + random() * spread, lng + random() * spread)
+    );
+  };
+
+  const membership = (points: { fir: FIR; clusterId: number | null; label: string }[]) =>
+    points
+      .map((p) => `${p.fir.id}:${p.clusterId}:${p.label}`)
+      .sort()
+      .join(' ');
+
+  // ~0.11 km per 0.001° of latitude
+  const malad = blob('MAL', 12, 19.187, 72.84, 0.002);
+  const kandivali = blob('KAN', 8, 19.205, 72.85, 0.002);
+  const isolated = fir('ISO', 19.23, 72.9);
+
+  describe('dbscan', () => {
+    it('should find clusters, label noise and number clusters largest first', () => {
+      const result = dbscan([isolated, ...kandivali, ...malad], 0.3, 4);
+
+      expect(result.clusters.map((c) => c.firs.length)).toEqual([12, 8]);
+      expect(result.clusters[0].firs.every((f) => f.id.startsWith('MAL'))).toBe(true);
+      expect(result.noise).toEqual([isolated]);
+      expect(result.points[0]).toEqual(
+        expect.objectContaining({ clusterId: null, label: 'noise', probability: 0 })
+      );
+    });
+
+    it('should expand clusters transitively and keep sparse ends as border points', () => {
+      // A street of FIRs ~0.1 km apart; the ends see too few neighbours to be core
+      const street = [0, 1, 2, 3, 4, 5, 6].map((i) => fir(`S${i}`, 19.1, 72.8 + i * 0.001));
+      const result = dbscan([...street, fir('FAR', 19.11, 72.8)], 0.25, 4);
+      const labels = result.points.map((p) => p.label);
+
+      expect(result.clusters).toHaveLength(1);
+      expect(result.clusters[0].coreCount).toBe(5);
+      expect(labels).toEqual(['border', 'core', 'core', 'core', 'core', 'core', 'border', 'noise']);
+    });
+
+    it('should not depend on input order', () => {
+      const firs = [isolated, ...kandivali, ...malad];
+      const shuffled = [...malad.slice(6), isolated, ...[...kandivali].reverse(), ...malad.slice(0, 6)];
+
+      expect(membership(dbscan(shuffled, 0.3, 4).points)).toBe(
+        membership(dbscan(firs, 0.3, 4).points)
+      );
+    });
+
+    it('should treat FIRs without coordinates as noise', () => {
+      const result = dbscan([...malad, fir('NOLOC', NaN, NaN)], 0.3, 4);
+
+      expect(result.noise.map((f) => f.id)).toEqual(['NOLOC']);
+    });
+  });
+
+  describe('hdbscan', () => {
+    it('should find clusters of different density without an eps', () => {
+      // A tight knot (~50 m) and a loose patch (~600 m)
+      const tight = blob('TIGHT', 15, 19.187, 72.84, 0.0005);
+      const loose = blob('LOOSE', 15, 19.215, 72.86, 0.006);
+      const result = hdbscan([...tight, ...loose, isolated], 4, 5);
+
+      expect(result.clusters).toHaveLength(2);
+      expect(result.noise).toContain(isolated);
+      result.clusters.forEach((cluster) => {
+        const prefix = cluster.firs[0].id.slice(0, 5);
+        expect(cluster.firs.every((f) => f.id.startsWith(prefix))).toBe(true);
+      });
+      result.points
+        .filter((p) => p.clusterId !== null)
+        .forEach((p) => {
+          expect(p.label).toBe('core');
+          expect(p.probability).toBeGreaterThan(0);
+          expect(p.probability).toBeLessThanOrEqual(1);
+        });
+    });
+
+    it('should cope with FIRs at the same spot', () => {
+      const sameSpot = [0, 1, 2, 3, 4, 5].map((i) => fir(`SAME${i}`, 19.1, 72.8));
+      const result = hdbscan([...sameSpot, ...malad], 3, 4);
+
+      expect(result.clusters.map((c) => c.firs.length).sort()).toEqual([12, 6]);
+    });
+
+    it('should leave everything as noise when there are too few FIRs', () => {
+      expect(hdbscan(malad.slice(0, 3), 4).noise).toHaveLength(3);
+    });
+  });
+
+  it('should dispatch on the chosen algorithm', () => {
+    const firs = [...malad, ...kandivali];
+
+    expect(clusterByDensity(firs, { algorithm: 'dbscan', eps: 0.3, minPts: 4 })).toEqual(
+      dbscan(firs, 0.3, 4)
+    );
+    expect(clusterByDensity(firs, { algorithm: 'hdbscan', eps: 0.3, minPts: 4 })).toEqual(
+      hdbscan(firs, 4)
+    );
+  });
+
+  it('should outline a cluster with its convex hull', () => {
+    const square = [
+      fir('A', 19.1, 72.8),
+      fir('B', 19.1, 72.81),
+      fir('C', 19.11, 72.81),
+      fir('D', 19.11, 72.8),
+      fir('INSIDE', 19.105, 72.805),
+      fir('A2', 19.1, 72.8),
+    ];
+
+    expect(convexHull(square)).toEqual([
+      [19.1, 72.8],
+      [19.1, 72.81],
+      [19.11, 72.81],
+      [19.11, 72.8],
+    ]);
+    expect(convexHull(square.slice(0, 2))).toHaveLength(2);
+  });
+});
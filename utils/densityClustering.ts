@@ -0,0 +1,553 @@
+import { FIR } from '../types';
+import { haversineDistance, queryNearby } from './geoUtils';
+import { createSpatialIndex } from './spatialIndex';
+
+/**
+ * Density-based clustering of FIR locations
+ *
+ * DBSCAN: a FIR with at least minPts FIRs (itself included) within eps km
+ * is a core point. Core points within eps of each other share a cluster,
+ * transitively; other FIRs within eps of a core point are border points of
+ * the nearest core's cluster, and the rest are noise. Clusters and labels
+ * don't depend on input order.
+ *
+ * HDBSCAN: runs DBSCAN* at every eps at once and keeps the clusters that
+ * persist longest (excess of mass), so dense and sparse clusters are both
+ * found without choosing eps. As in DBSCAN* there are no border points:
+ * FIRs are core members of a cluster or noise, with a membership
+ * probability for how long they stay in it. Cost grows with n², so it is
+ * limited to HDBSCAN_MAX_POINTS FIRs.
+ *
+ * Clusters are numbered from 1, largest first. FIRs without coordinates
+ * are noise.
+ */
+
+export type ClusterAlgorithm = 'dbscan' | 'hdbscan';
+
+export type PointLabel = 'core' | 'border' | 'noise';
+
+export const CLUSTER_ALGORITHM_LABELS: { [algorithm in ClusterAlgorithm]: string } = {
+  dbscan: 'DBSCAN (fixed radius)',
+  hdbscan: 'HDBSCAN (varying density)',
+};
+
+export interface ClusterOptions {
+  algorithm: ClusterAlgorithm;
+  eps: number; // km, DBSCAN only
+  minPts: number; // Neighbours (self included) that make a core point
+  minClusterSize?: number; // HDBSCAN only; defaults to minPts
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  algorithm: 'dbscan',
+  eps: 0.25,
+  minPts: 4,
+};
+
+export const HDBSCAN_MAX_POINTS = 5000;
+
+/**
+ * Cluster membership of one FIR; clusterId is null for noise
+ */
+export interface ClusterPoint {
+  fir: FIR;
+  clusterId: number | null;
+  label: PointLabel;
+  probability: number; // 0 to 1; 1 for every DBSCAN member
+}
+
+export interface FIRCluster {
+  id: number;
+  firs: FIR[]; // In input order
+  coreCount: number;
+  centerLat: number;
+  centerLng: number;
+  hull: [number, number][]; // Convex hull as [latitude, longitude], counter-clockwise
+}
+
+export interface ClusteringResult {
+  clusters: FIRCluster[];
+  points: ClusterPoint[]; // One per input FIR, in input order
+  noise: FIR[];
+}
+
+// Floor on distances, so FIRs geocoded to the same spot don't give HDBSCAN infinite density
+const MIN_DISTANCE_KM = 1e-6;
+
+/**
+ * Clusters FIRs with the chosen algorithm
+ */
+export const clusterByDensity = (firs: FIR[], options: ClusterOptions): ClusteringResult =>
+  options.algorithm === 'hdbscan'
+    ? hdbscan(firs, options.minPts, options.minClusterSize)
+    : dbscan(firs, options.eps, options.minPts);
+
+/**
+ * DBSCAN with a radius of eps km
+ *
+ * Time Complexity: O(n log n + n × k) with the spatial index, where
+ * k = FIRs within eps of a FIR
+ */
+export const dbscan = (firs: FIR[], eps: number, minPts: number): ClusteringResult => {
+  const points = locatedPoints(firs);
+  const index = createSpatialIndex(points);
+  const neighbours = (position: number) =>
+    queryNearby(index, firs[position].latitude, firs[position].longitude, eps).map(
+      (point) => point.position
+    );
+
+  const isCore = firs.map(() => false);
+  points.forEach(({ position }) => {
+    isCore[position] = neighbours(position).length >= minPts;
+  });
+
+  const assignment = new Int32Array(firs.length).fill(-1);
+  const borderDistance = firs.map(() => Infinity);
+  const borderCore = firs.map(() => -1);
+  let clusterCount = 0;
+
+  points.forEach(({ position: seed }) => {
+    if (!isCore[seed] || assignment[seed] >= 0) return;
+
+    // Grow the cluster through core points reachable from the seed
+    const cluster = clusterCount++;
+    const queue = [seed];
+    assignment[seed] = cluster;
+
+    for (let i = 0; i < queue.length; i++) {
+      const core = queue[i];
+      neighbours(core).forEach((position) => {
+        if (isCore[position]) {
+          if (assignment[position] < 0) {
+            assignment[position] = cluster;
+            queue.push(position);
+          }
+          return;
+        }
+
+        // Border points join the nearest core's cluster (lowest FIR ID on ties)
+        const distance = haversineDistance(
+          firs[core].latitude,
+          firs[core].longitude,
+          firs[position].latitude,
+          firs[position].longitude
+        );
+        const current = borderCore[position];
+        if (
+          distance < borderDistance[position] ||
+          (distance === borderDistance[position] && firs[core].id < firs[current].id)
+        ) {
+          borderDistance[position] = distance;
+          borderCore[position] = core;
+        }
+      });
+    }
+  });
+
+  borderCore.forEach((core, position) => {
+    if (core >= 0) assignment[position] = assignment[core];
+  });
+
+  return buildResult(
+    firs,
+    assignment,
+    clusterCount,
+    (position) => (assignment[position] < 0 ? 'noise' : isCore[position] ? 'core' : 'border'),
+    (position) => (assignment[position] < 0 ? 0 : 1)
+  );
+};
+
+/**
+ * HDBSCAN over mutual reachability distances
+ * minPts sets the core distance (distance to the minPts-th nearest FIR,
+ * itself included); clusters smaller than minClusterSize are noise
+ *
+ * Time Complexity: O(n²) for core distances and the minimum spanning tree
+ */
+export const hdbscan = (
+  firs: FIR[],
+  minPts: number,
+  minClusterSize: number = minPts
+): ClusteringResult => {
+  const points = locatedPoints(firs);
+  const n = points.length;
+  const assignment = new Int32Array(firs.length).fill(-1);
+  const probability = new Float64Array(firs.length);
+  const minSize = Math.max(2, minClusterSize);
+
+  if (n < minSize) {
+    return buildResult(firs, assignment, 0, () => 'noise', () => 0);
+  }
+
+  // Distances on a flat projection about the mean latitude: within 0.1% of
+  // haversineDistance across a city, and much cheaper to compute n² times
+  const meanLat = points.reduce((sum, point) => sum + point.latitude, 0) / n;
+  const kmPerDegree = haversineDistance(0, 0, 1, 0);
+  const xs = Float64Array.from(
+    points,
+    (point) => point.longitude * kmPerDegree * Math.cos((meanLat * Math.PI) / 180)
+  );
+  const ys = Float64Array.from(points, (point) => point.latitude * kmPerDegree);
+  const distance = (a: number, b: number) => {
+    const dx = xs[a] - xs[b];
+    const dy = ys[a] - ys[b];
+    return Math.max(MIN_DISTANCE_KM, Math.sqrt(dx * dx + dy * dy));
+  };
+
+  // Core distances
+  const coreDistance = new Float64Array(n);
+  const row = new Float64Array(n);
+  const k = Math.min(Math.max(minPts, 1), n) - 1;
+  for (let a = 0; a < n; a++) {
+    for (let b = 0; b < n; b++) row[b] = a === b ? 0 : distance(a, b);
+    coreDistance[a] = Math.max(MIN_DISTANCE_KM, kthSmallest(row, k));
+  }
+
+  // Minimum spanning tree of mutual reachability distances (Prim)
+  const edges: { a: number; b: number; weight: number }[] = [];
+  const inTree = new Uint8Array(n);
+  const best = new Float64Array(n).fill(Infinity);
+  const bestFrom = new Int32Array(n);
+  let current = 0;
+  inTree[0] = 1;
+
+  for (let added = 1; added < n; added++) {
+    let next = -1;
+    for (let b = 0; b < n; b++) {
+      if (inTree[b]) continue;
+      const reach = Math.max(coreDistance[current], coreDistance[b], distance(current, b));
+      if (reach < best[b]) {
+        best[b] = reach;
+        bestFrom[b] = current;
+      }
+      if (next < 0 || best[b] < best[next]) next = b;
+    }
+    edges.push({ a: bestFrom[next], b: next, weight: best[next] });
+    inTree[next] = 1;
+    current = next;
+  }
+
+  const { selectedOf, fallCluster, fallLambda } = condenseAndSelect(
+    singleLinkage(n, edges),
+    n,
+    minSize
+  );
+
+  // Number the selected clusters, then label the points that fell out of them
+  const clusterIndex = new Map<number, number>();
+  const maxLambda: number[] = [];
+  for (let point = 0; point < n; point++) {
+    const selected = selectedOf[fallCluster[point]];
+    if (selected < 0) continue;
+
+    if (!clusterIndex.has(selected)) {
+      clusterIndex.set(selected, clusterIndex.size);
+      maxLambda.push(0);
+    }
+    const cluster = clusterIndex.get(selected)!;
+    assignment[points[point].position] = cluster;
+    maxLambda[cluster] = Math.max(maxLambda[cluster], fallLambda[point]);
+  }
+  for (let point = 0; point < n; point++) {
+    const { position } = points[point];
+    if (assignment[position] >= 0) {
+      probability[position] = fallLambda[point] / maxLambda[assignment[position]];
+    }
+  }
+
+  return buildResult(
+    firs,
+    assignment,
+    clusterIndex.size,
+    (position) => (assignment[position] < 0 ? 'noise' : 'core'),
+    (position) => probability[position]
+  );
+};
+
+/**
+ * Convex hull (monotone chain) as [latitude, longitude], counter-clockwise
+ * Fewer than three distinct points are returned as they are
+ *
+ * Time Complexity: O(n log n)
+ */
+export const convexHull = (firs: FIR[]): [number, number][] => {
+  const seen = new Set<string>();
+  const sorted = firs
+    .filter((fir) => {
+      const key = `${fir.latitude},${fir.longitude}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((fir): [number, number] => [fir.latitude, fir.longitude])
+    .sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+
+  if (sorted.length < 3) return sorted;
+
+  // Cross product of o→a and o→b, with longitude as x and latitude as y
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[1] - o[1]) * (b[0] - o[0]) - (a[0] - o[0]) * (b[1] - o[1]);
+
+  const half = (ordered: [number, number][]) => {
+    const chain: [number, number][] = [];
+    ordered.forEach((point) => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) {
+        chain.pop();
+      }
+      chain.push(point);
+    });
+    chain.pop();
+    return chain;
+  };
+
+  return [...half(sorted), ...half([...sorted].reverse())];
+};
+
+/**
+ * FIRs with finite coordinates and their positions in the input
+ */
+function locatedPoints(firs: FIR[]): { latitude: number; longitude: number; position: number }[] {
+  const points: { latitude: number; longitude: number; position: number }[] = [];
+  firs.forEach((fir, position) => {
+    if (Number.isFinite(fir.latitude) && Number.isFinite(fir.longitude)) {
+      points.push({ latitude: fir.latitude, longitude: fir.longitude, position });
+    }
+  });
+  return points;
+}
+
+/**
+ * Clusters and per-FIR membership from cluster indexes (-1 for noise)
+ * Clusters are renumbered largest first, then by lowest FIR ID, so the
+ * numbering doesn't depend on input order
+ */
+function buildResult(
+  firs: FIR[],
+  assignment: Int32Array,
+  clusterCount: number,
+  labelOf: (position: number) => PointLabel,
+  probabilityOf: (position: number) => number
+): ClusteringResult {
+  const members: FIR[][] = Array.from({ length: clusterCount }, () => []);
+  const coreCounts: number[] = new Array(clusterCount).fill(0);
+  firs.forEach((fir, position) => {
+    const cluster = assignment[position];
+    if (cluster < 0) return;
+    members[cluster].push(fir);
+    if (labelOf(position) === 'core') coreCounts[cluster]++;
+  });
+
+  const lowestId = members.map((group) =>
+    group.reduce((lowest, fir) => (fir.id < lowest ? fir.id : lowest), group[0].id)
+  );
+  const ranked = members
+    .map((_, cluster) => cluster)
+    .sort(
+      (a, b) =>
+        members[b].length - members[a].length ||
+        (lowestId[a] < lowestId[b] ? -1 : lowestId[a] > lowestId[b] ? 1 : 0)
+    );
+  const idOf: number[] = [];
+  ranked.forEach((cluster, rank) => {
+    idOf[cluster] = rank + 1;
+  });
+
+  const clusters = ranked.map((cluster) => {
+    const group = members[cluster];
+    return {
+      id: idOf[cluster],
+      firs: group,
+      coreCount: coreCounts[cluster],
+      centerLat: group.reduce((sum, fir) => sum + fir.latitude, 0) / group.length,
+      centerLng: group.reduce((sum, fir) => sum + fir.longitude, 0) / group.length,
+      hull: convexHull(group),
+    };
+  });
+
+  const points = firs.map((fir, position) => ({
+    fir,
+    clusterId: assignment[position] < 0 ? null : idOf[assignment[position]],
+    label: labelOf(position),
+    probability: probabilityOf(position),
+  }));
+
+  return { clusters, points, noise: points.filter((p) => p.clusterId === null).map((p) => p.fir) };
+}
+
+/**
+ * k-th smallest value (0-based); reorders values
+ */
+function kthSmallest(values: Float64Array, k: number): number {
+  let left = 0;
+  let right = values.length - 1;
+
+  while (left < right) {
+    const pivot = values[(left + right) >> 1];
+    let i = left;
+    let j = right;
+    while (i <= j) {
+      while (values[i] < pivot) i++;
+      while (values[j] > pivot) j--;
+      if (i <= j) {
+        const value = values[i];
+        values[i] = values[j];
+        values[j] = value;
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) right = j;
+    else if (k >= i) left = i;
+    else break;
+  }
+  return values[k];
+}
+
+/**
+ * Merge tree of the spanning tree: leaves are points 0..n-1 and merge m
+ * creates node n + m joining left[m] and right[m] at distance[m]
+ */
+interface LinkageTree {
+  left: Int32Array;
+  right: Int32Array;
+  distance: Float64Array;
+  size: Int32Array; // Points under each node
+}
+
+function singleLinkage(
+  n: number,
+  edges: { a: number; b: number; weight: number }[]
+): LinkageTree {
+  const merges = n - 1;
+  const tree: LinkageTree = {
+    left: new Int32Array(merges),
+    right: new Int32Array(merges),
+    distance: new Float64Array(merges),
+    size: new Int32Array(2 * n - 1).fill(1),
+  };
+
+  // Union-find over points; each set remembers its current tree node
+  const parent = Int32Array.from({ length: n }, (_, i) => i);
+  const node = Int32Array.from({ length: n }, (_, i) => i);
+  const find = (point: number): number => {
+    while (parent[point] !== point) {
+      parent[point] = parent[parent[point]];
+      point = parent[point];
+    }
+    return point;
+  };
+
+  [...edges]
+    .sort((x, y) => x.weight - y.weight)
+    .forEach((edge, m) => {
+      const a = find(edge.a);
+      const b = find(edge.b);
+      tree.left[m] = node[a];
+      tree.right[m] = node[b];
+      tree.distance[m] = edge.weight;
+      tree.size[n + m] = tree.size[node[a]] + tree.size[node[b]];
+      parent[b] = a;
+      node[a] = n + m;
+    });
+
+  return tree;
+}
+
+/**
+ * Condenses the merge tree to clusters of at least minSize points and
+ * selects the most stable ones (excess of mass; the root is never selected)
+ * Returns, per point, the cluster it fell out of and the density
+ * (1 / distance) at which it did, and per cluster its selected cluster or
+ * ancestor (-1 for none)
+ */
+function condenseAndSelect(
+  tree: LinkageTree,
+  n: number,
+  minSize: number
+): { selectedOf: number[]; fallCluster: Int32Array; fallLambda: Float64Array } {
+  const fallCluster = new Int32Array(n);
+  const fallLambda = new Float64Array(n);
+  const parentCluster = [-1];
+  const birthLambda = [0];
+  const stability = [0];
+  const children: number[][] = [[]];
+
+  const leaves = (root: number): number[] => {
+    const found: number[] = [];
+    const stack = [root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node < n) found.push(node);
+      else stack.push(tree.left[node - n], tree.right[node - n]);
+    }
+    return found;
+  };
+  const fallOut = (node: number, cluster: number, lambda: number) => {
+    leaves(node).forEach((point) => {
+      fallCluster[point] = cluster;
+      fallLambda[point] = lambda;
+      stability[cluster] += lambda - birthLambda[cluster];
+    });
+  };
+  const newCluster = (parent: number, lambda: number, size: number) => {
+    const cluster = birthLambda.length;
+    parentCluster.push(parent);
+    birthLambda.push(lambda);
+    stability.push(0);
+    children.push([]);
+    children[parent].push(cluster);
+    stability[parent] += size * (lambda - birthLambda[parent]);
+    return cluster;
+  };
+
+  // Walk down from the root, carrying each node's cluster
+  const stack: [number, number][] = [[2 * n - 2, 0]];
+  while (stack.length > 0) {
+    const [node, cluster] = stack.pop()!;
+    const m = node - n;
+    const lambda = 1 / tree.distance[m];
+    const left = tree.left[m];
+    const right = tree.right[m];
+    const leftBig = tree.size[left] >= minSize;
+    const rightBig = tree.size[right] >= minSize;
+
+    if (leftBig && rightBig) {
+      [left, right].forEach((child) => {
+        stack.push([child, newCluster(cluster, lambda, tree.size[child])]);
+      });
+      continue;
+    }
+
+    [left, right].forEach((child) => {
+      if (tree.size[child] >= minSize) stack.push([child, cluster]);
+      else fallOut(child, cluster, lambda);
+    });
+  }
+
+  // Children are numbered after their parents, so bottom-up is descending order
+  const selected = birthLambda.map(() => false);
+  const deselect = (cluster: number) => {
+    children[cluster].forEach((child) => {
+      selected[child] = false;
+      deselect(child);
+    });
+  };
+  for (let cluster = birthLambda.length - 1; cluster > 0; cluster--) {
+    const childStability = children[cluster].reduce((sum, child) => sum + stability[child], 0);
+    if (children[cluster].length > 0 && childStability > stability[cluster]) {
+      stability[cluster] = childStability;
+    } else {
+      selected[cluster] = true;
+      deselect(cluster);
+    }
+  }
+
+  const selectedOf: number[] = [];
+  for (let cluster = 0; cluster < birthLambda.length; cluster++) {
+    selectedOf.push(
+      selected[cluster] ? cluster : cluster === 0 ? -1 : selectedOf[parentCluster[cluster]]
+    );
+  }
+
+  return { selectedOf, fallCluster, fallLambda };
+}
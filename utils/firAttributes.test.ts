@@ -0,0 +1,125 @@
+import {
+  applyAttributeFilters,
+  describeAttributes,
+  formatAttributeValue,
+  hasAttributeFilters,
+  inferAttributeValue,
+  isAttributeColumn,
+  readAttributes,
+} from './firAttributes';
+import { FIR } from '../types';
+
+describe('firAttributes', () => {
+  const baseFIR: FIR = {
+    id: 'FIR001',
+    crimeType: 'Theft',
+    date: new Date(2026, 0, 20),
+    time: '14:30',
+    latitude: 19.1776,
+    longitude: 72.8298,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: false,
+  };
+
+  describe('isAttributeColumn', () => {
+    it('should exclude FIR fields and their duplicate columns', () => {
+      expect(isAttributeColumn('ipc section')).toBe(true);
+      expect(isAttributeColumn('crimetype')).toBe(false);
+      expect(isAttributeColumn('area_9')).toBe(false);
+      expect(isAttributeColumn('')).toBe(false);
+    });
+  });
+
+  describe('inferAttributeValue', () => {
+    it('should infer numbers, booleans, dates and text', () => {
+      expect(inferAttributeValue('379', 'DMY')).toBe(379);
+      expect(inferAttributeValue('Yes', 'DMY')).toBe(true);
+      expect(inferAttributeValue('05/02/2026', 'DMY')).toEqual(new Date(2026, 1, 5));
+      expect(inferAttributeValue('Knife', 'DMY')).toBe('Knife');
+      expect(inferAttributeValue('  ', 'DMY')).toBeUndefined();
+    });
+
+    it('should keep section codes and leading zeros as text', () => {
+      expect(inferAttributeValue('302/34', 'DMY')).toBe('302/34');
+      expect(inferAttributeValue('0042', 'DMY')).toBe('0042');
+    });
+
+    it('should keep phone, Aadhaar and account numbers as text', () => {
+      expect(inferAttributeValue('9876543210', 'DMY')).toBe('9876543210');
+      expect(inferAttributeValue('234567890123', 'DMY')).toBe('234567890123');
+      expect(inferAttributeValue('987654321', 'DMY')).toBe(987654321);
+    });
+  });
+
+  describe('readAttributes', () => {
+    it('should collect non-empty values of unknown columns', () => {
+      expect(
+        readAttributes(
+          { id: 'FIR001', 'victim gender': 'F', 'weapon used': '', area_9: 'x' },
+          'DMY'
+        )
+      ).toEqual({ 'victim gender': 'F' });
+      expect(readAttributes({ id: 'FIR001' }, 'DMY')).toBeUndefined();
+    });
+  });
+
+  describe('formatAttributeValue', () => {
+    it('should write values that infer back to the same value', () => {
+      [379, true, new Date(2026, 1, 5), 'Knife'].forEach((value) => {
+        expect(inferAttributeValue(formatAttributeValue(value), 'MDY')).toEqual(value);
+      });
+    });
+  });
+
+  describe('describeAttributes', () => {
+    it('should report the common type and distinct text values', () => {
+      const definitions = describeAttributes([
+        { ...baseFIR, attributes: { 'fir status': 'Open', 'ipc section': 379 } },
+        { ...baseFIR, attributes: { 'fir status': 'Closed', 'ipc section': '302/34' } },
+        { ...baseFIR, attributes: { 'victim age': 34 } },
+      ]);
+
+      expect(definitions).toEqual([
+        { name: 'fir status', label: 'Fir Status', type: 'string', values: ['Closed', 'Open'] },
+        { name: 'ipc section', label: 'Ipc Section', type: 'string', values: ['302/34', '379'] },
+        { name: 'victim age', label: 'Victim Age', type: 'number', values: [] },
+      ]);
+    });
+  });
+
+  describe('applyAttributeFilters', () => {
+    const firs: FIR[] = [
+      {
+        ...baseFIR,
+        id: 'A',
+        attributes: { 'fir status': 'Open', 'victim age': 19, 'arrest date': new Date(2026, 0, 22) },
+      },
+      {
+        ...baseFIR,
+        id: 'B',
+        attributes: { 'fir status': 'Closed', 'victim age': 45, 'arrest date': new Date(2026, 1, 3) },
+      },
+      { ...baseFIR, id: 'C' },
+    ];
+    const ids = (list: FIR[]) => list.map((fir) => fir.id);
+
+    it('should match exact values', () => {
+      expect(ids(applyAttributeFilters(firs, { 'fir status': { value: 'Open' } }))).toEqual(['A']);
+    });
+
+    it('should apply inclusive number and date ranges', () => {
+      expect(ids(applyAttributeFilters(firs, { 'victim age': { min: 19, max: 30 } }))).toEqual(['A']);
+      expect(
+        ids(applyAttributeFilters(firs, { 'arrest date': { from: '2026-02-03' } }))
+      ).toEqual(['B']);
+    });
+
+    it('should ignore empty filters', () => {
+      expect(hasAttributeFilters({ 'fir status': {} })).toBe(false);
+      expect(applyAttributeFilters(firs, { 'fir status': {} })).toBe(firs);
+    });
+  });
+});
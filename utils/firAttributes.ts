@@ -0,0 +1,262 @@
+import { FIR } from '../types';
+import { FIR_FIELDS } from './columnMapping';
+import { DateFormat, parseDateValue } from './dateFormats';
+
+/**
+ * Custom FIR attributes
+ *
+ * Station exports carry columns the importer has no field for (IPC/BNS
+ * section, victim gender, weapon used, FIR status...). Instead of being
+ * dropped they are kept per record in an attributes map, keyed by the
+ * column header (lowercase, as resolved by the importer). Values are typed
+ * by inference: numbers, booleans and dates are converted, anything else is
+ * kept as text.
+ *
+ * Attributes are written back under their header on export, so they
+ * survive a CSV round trip, and can be filtered on like the fixed fields.
+ */
+
+declare module '../types' {
+  interface FIR {
+    /** Values of source columns without a FIR field */
+    attributes?: FIRAttributes;
+  }
+
+  interface FilterCriteria {
+    /** Filters on custom attributes, keyed by attribute name */
+    attributes?: AttributeFilters;
+  }
+}
+
+export type AttributeValue = string | number | boolean | Date;
+export type AttributeType = 'string' | 'number' | 'boolean' | 'date';
+
+export interface FIRAttributes {
+  [name: string]: AttributeValue;
+}
+
+/**
+ * An attribute found in the dataset
+ * - type: the common type of its values ('string' when they differ)
+ * - values: distinct written values, for text and boolean attributes
+ */
+export interface AttributeDefinition {
+  name: string;
+  label: string;
+  type: AttributeType;
+  values: string[];
+}
+
+/**
+ * Filter on one attribute
+ * - value: exact written value (text and boolean attributes)
+ * - min / max: inclusive bounds for number attributes
+ * - from / to: inclusive YYYY-MM-DD bounds for date attributes
+ */
+export interface AttributeFilter {
+  value?: string;
+  min?: number;
+  max?: number;
+  from?: string;
+  to?: string;
+}
+
+export interface AttributeFilters {
+  [name: string]: AttributeFilter;
+}
+
+// Plain decimals only; codes with leading zeros such as "0042" stay text
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+// Digit runs this long are phone, Aadhaar or account numbers, not quantities
+const IDENTIFIER_PATTERN = /^\d{10,}$/;
+const BOOLEAN_VALUES: { [value: string]: boolean } = {
+  true: true,
+  false: false,
+  yes: true,
+  no: false,
+};
+
+const FIELD_KEYS = FIR_FIELDS.map((field) => field.key);
+
+// Columns buildRejectCSV appends to reject files, dropped when re-imported
+const REJECT_FILE_COLUMNS = ['source_row', 'error'];
+
+/**
+ * True for resolved headers that don't name a FIR field
+ * Extra copies of a field column (e.g. "area_9") are not attributes either
+ */
+export const isAttributeColumn = (header: string): boolean => {
+  if (!header || FIELD_KEYS.includes(header)) return false;
+  if (REJECT_FILE_COLUMNS.includes(header)) return false;
+
+  const duplicate = /^(.+)_\d+$/.exec(header);
+  return !(duplicate && FIELD_KEYS.includes(duplicate[1]));
+};
+
+/**
+ * Converts a source value to a number, boolean, date or text
+ * Long digit-only values stay text (see IDENTIFIER_PATTERN)
+ * Returns undefined for empty values
+ */
+export const inferAttributeValue = (
+  value: string,
+  dateFormat: DateFormat
+): AttributeValue | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+
+  if (NUMBER_PATTERN.test(trimmed) && !IDENTIFIER_PATTERN.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const flag = BOOLEAN_VALUES[trimmed.toLowerCase()];
+  if (flag !== undefined) return flag;
+
+  return parseDateValue(trimmed, dateFormat) || trimmed;
+};
+
+/**
+ * Collects the attributes of one source row
+ * Returns undefined when the row has no non-empty attribute values
+ */
+export const readAttributes = (
+  data: Record<string, string>,
+  dateFormat: DateFormat
+): FIRAttributes | undefined => {
+  const attributes: FIRAttributes = {};
+  let found = false;
+
+  Object.entries(data).forEach(([header, raw]) => {
+    if (!isAttributeColumn(header)) return;
+
+    const value = inferAttributeValue(raw, dateFormat);
+    if (value === undefined) return;
+
+    attributes[header] = value;
+    found = true;
+  });
+
+  return found ? attributes : undefined;
+};
+
+export const getAttributeType = (value: AttributeValue): AttributeType => {
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+};
+
+/**
+ * Writes an attribute value in the form inferAttributeValue reads back
+ * Dates are written as local YYYY-MM-DD
+ */
+export const formatAttributeValue = (value: AttributeValue): string => {
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+  }
+  return String(value);
+};
+
+/**
+ * Lists the attributes present in a dataset, sorted by name
+ *
+ * Time Complexity: O(n × a + v log v) where n = records,
+ * a = attributes per record, v = distinct values
+ */
+export const describeAttributes = (firs: FIR[]): AttributeDefinition[] => {
+  const types = new Map<string, AttributeType>();
+  const values = new Map<string, Set<string>>();
+
+  firs.forEach((fir) => {
+    Object.entries(fir.attributes || {}).forEach(([name, value]) => {
+      const type = getAttributeType(value);
+      const known = types.get(name);
+      types.set(name, known === undefined || known === type ? type : 'string');
+
+      if (!values.has(name)) values.set(name, new Set());
+      values.get(name)!.add(formatAttributeValue(value));
+    });
+  });
+
+  return Array.from(types.entries())
+    .map(([name, type]) => ({
+      name,
+      label: formatAttributeLabel(name),
+      type,
+      values:
+        type === 'string' || type === 'boolean'
+          ? Array.from(values.get(name)!).sort()
+          : [],
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * True when any attribute filter constrains the results
+ */
+export const hasAttributeFilters = (filters?: AttributeFilters): boolean =>
+  Object.values(filters || {}).some(isActiveFilter);
+
+/**
+ * Keeps the records matching every attribute filter
+ * Records without the attribute never match a filter on it
+ *
+ * Time Complexity: O(n × f) where n = records, f = filters
+ */
+export const applyAttributeFilters = (
+  firs: FIR[],
+  filters?: AttributeFilters
+): FIR[] => {
+  const active = Object.entries(filters || {}).filter(([, filter]) =>
+    isActiveFilter(filter)
+  );
+  if (active.length === 0) return firs;
+
+  return firs.filter((fir) =>
+    active.every(([name, filter]) =>
+      matchesAttributeFilter(fir.attributes?.[name], filter)
+    )
+  );
+};
+
+function isActiveFilter(filter: AttributeFilter): boolean {
+  return (
+    filter.value !== undefined ||
+    filter.min !== undefined ||
+    filter.max !== undefined ||
+    filter.from !== undefined ||
+    filter.to !== undefined
+  );
+}
+
+function matchesAttributeFilter(
+  value: AttributeValue | undefined,
+  filter: AttributeFilter
+): boolean {
+  if (value === undefined) return false;
+
+  const written = formatAttributeValue(value);
+  if (filter.value !== undefined && written !== filter.value) return false;
+
+  if (filter.min !== undefined || filter.max !== undefined) {
+    if (typeof value !== 'number') return false;
+    if (filter.min !== undefined && value < filter.min) return false;
+    if (filter.max !== undefined && value > filter.max) return false;
+  }
+
+  if (filter.from !== undefined || filter.to !== undefined) {
+    if (!(value instanceof Date)) return false;
+    // YYYY-MM-DD strings compare in calendar order
+    if (filter.from !== undefined && written < filter.from) return false;
+    if (filter.to !== undefined && written > filter.to) return false;
+  }
+
+  return true;
+}
+
+// "ipc section" -> "Ipc Section"; headers are resolved in lowercase
+function formatAttributeLabel(name: string): string {
+  return name.replace(/(^|[\s_-])(\w)/g, (_, sep: string, ch: string) =>
+    `${sep}${ch.toUpperCase()}`
+  );
+}
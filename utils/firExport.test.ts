@@ -0,0 +1,174 @@
+import * as XLSX from 'xlsx';
+import { buildGeoJSON, buildKML, buildWorkbook, exportFIRs } from './firExport';
+import { parseCSV, parseExcel } from './csvParser';
+import { parseJSONDocument } from './jsonParser';
+import { Hotspot } from '../types';
+
+describe('firExport', () => {
+  const source = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation,description,isAccident,isSensitiveZone,Weapon Used,Victim Age
+FIR001,Theft,2026-01-20,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS,"Bag snatched near ""Gate 2"", fled",false,true,None,34
+FIR002,Assault,2026-01-21,22:05,,,Marve Road,Zone 11,Malad PS,,true,false,Knife,`;
+  const { records: firs } = parseCSV(source);
+
+  const hotspots: Hotspot[] = [
+    {
+      zoneId: 'GRID_12',
+      zoneName: 'Grid 12 <Malad>',
+      centerLat: 19.18,
+      centerLng: 72.83,
+      firCount: 2,
+      severity: 'high',
+      percentage: 66.6667,
+      lastUpdated: new Date(2026, 0, 22),
+    },
+  ];
+
+  // The same zone with its grid cell outline
+  const zone: Hotspot = {
+    ...hotspots[0],
+    cellBoundary: [
+      [19.175, 72.825],
+      [19.175, 72.835],
+      [19.185, 72.835],
+      [19.185, 72.825],
+    ],
+  };
+
+  describe('exportFIRs', () => {
+    it('should write a CSV that parses back to the same records', () => {
+      const { content, extension } = exportFIRs('csv', firs);
+
+      expect(extension).toBe('csv');
+      expect(parseCSV(content as string).records).toEqual(firs);
+      expect(content).toContain('"Bag snatched near ""Gate 2"", fled"');
+    });
+  });
+
+  describe('buildGeoJSON', () => {
+    it('should write FIR points with typed properties, then hotspots', () => {
+      const collection = JSON.parse(buildGeoJSON(firs, hotspots));
+
+      expect(collection.features).toHaveLength(3);
+      expect(collection.features[0]).toEqual({
+        type: 'Feature',
+        id: 'FIR001',
+        geometry: { type: 'Point', coordinates: [72.8298, 19.1776] },
+        properties: expect.objectContaining({
+          layer: 'fir',
+          crimeType: 'Theft',
+          date: '2026-01-20',
+          isAccident: false,
+          isSensitiveZone: true,
+          'victim age': 34,
+        }),
+      });
+      expect(collection.features[0].properties.latitude).toBeUndefined();
+      expect(collection.features[1].properties).toEqual(
+        expect.objectContaining({ geocodeConfidence: 'high', geocodeMatch: 'Marve Road' })
+      );
+      expect(collection.features[2].properties).toEqual({
+        layer: 'hotspot',
+        zoneId: 'GRID_12',
+        zoneName: 'Grid 12 <Malad>',
+        severity: 'high',
+        firCount: 2,
+        percentage: 66.67,
+      });
+    });
+
+    it('should add hot spot statistics to hotspots that have them', () => {
+      const scored = { ...hotspots[0], giZScore: 3.14159, giPValue: 0.00168, giBin: 3 as const };
+      const collection = JSON.parse(buildGeoJSON([], [scored]));
+
+      expect(collection.features[0].properties).toEqual(
+        expect.objectContaining({ giZScore: 3.1416, giPValue: 0.0017, giBin: 3 })
+      );
+    });
+
+    it('should write hotspot zones with a cell outline as closed polygons', () => {
+      const collection = JSON.parse(buildGeoJSON([], [zone, hotspots[0]]));
+
+      expect(collection.features[0].geometry).toEqual({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [72.825, 19.175],
+            [72.835, 19.175],
+            [72.835, 19.185],
+            [72.825, 19.185],
+            [72.825, 19.175],
+          ],
+        ],
+      });
+      expect(collection.features[1].geometry).toEqual({
+        type: 'Point',
+        coordinates: [72.83, 19.18],
+      });
+    });
+
+    it('should import back through the JSON importer', () => {
+      const { records, errors } = parseJSONDocument(buildGeoJSON(firs));
+
+      expect(errors).toHaveLength(0);
+      expect(records.map((fir) => [fir.id, fir.latitude, fir.geocodeConfidence])).toEqual([
+        ['FIR001', 19.1776, undefined],
+        ['FIR002', firs[1].latitude, 'high'],
+      ]);
+    });
+  });
+
+  describe('buildKML', () => {
+    it('should write escaped placemarks for FIRs and hotspots', () => {
+      const kml = buildKML(firs, hotspots);
+
+      expect(kml).toContain('<coordinates>72.8298,19.1776</coordinates>');
+      expect(kml).toContain(
+        '<Data name="description"><value>Bag snatched near &quot;Gate 2&quot;, fled</value></Data>'
+      );
+      expect(kml).toContain('<styleUrl>#fir-approximate</styleUrl>');
+      expect(kml).toContain('Approximate location: Marve Road (high confidence)');
+      expect(kml).toContain('<when>2026-01-20T09:00:00.000Z</when>');
+      expect(kml).toContain('<name>Grid 12 &lt;Malad&gt;</name>');
+      expect(kml).toContain('<styleUrl>#hotspot-high</styleUrl>');
+      expect(kml).toContain('<coordinates>72.83,19.18</coordinates>');
+    });
+
+    it('should outline hotspot zones with a cell as polygons', () => {
+      const kml = buildKML([], [zone]);
+
+      expect(kml).toContain(
+        '<Polygon><outerBoundaryIs><LinearRing><coordinates>' +
+          '72.825,19.175 72.835,19.175 72.835,19.185 72.825,19.185 72.825,19.175' +
+          '</coordinates></LinearRing></outerBoundaryIs></Polygon>'
+      );
+      expect(kml).not.toContain('<Point>');
+      expect(kml).toContain('<PolyStyle><color>662828c6</color></PolyStyle>');
+    });
+  });
+
+  describe('buildWorkbook', () => {
+    it('should add summary and hotspot sheets around importable FIR rows', () => {
+      const workbook = XLSX.read(buildWorkbook(firs, hotspots), { type: 'array' });
+      const summary = XLSX.utils.sheet_to_json<(string | number)[]>(
+        workbook.Sheets.Summary,
+        { header: 1 }
+      );
+
+      expect(workbook.SheetNames).toEqual(['Summary', 'FIRs', 'Hotspots']);
+      expect(summary).toEqual(
+        expect.arrayContaining([
+          ['FIR records', 2],
+          ['Date range', '2026-01-20 to 2026-01-21'],
+          ['Approximate locations', 1],
+          ['Theft', 1],
+          ['Malad PS', 2],
+        ])
+      );
+      expect(workbook.Sheets.FIRs.E2).toEqual(expect.objectContaining({ t: 'n', v: 19.1776 }));
+
+      const { records, errors } = parseExcel(buildWorkbook(firs, hotspots));
+      expect(errors).toHaveLength(0);
+      expect(records).toEqual(firs);
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import * as XLSX from 'xlsx';
+import { FIR, Hotspot } from '../types';
+import { FIR_FIELDS } from './columnMapping';
+import { describeGeocode } from './geocoding';
+import { buildFIRCSV, buildFIRTable, firToFields } from './importErrors';
+import { formatDateTimeValue } from './incidentTime';
+
+/**
+ * FIR and hotspot export
+ *
+ * - CSV: every FIR field and custom attribute; imports back unchanged
+ * - GeoJSON: FIR points and hotspot zones for GIS tools, told apart by
+ *   their "layer" property
+ * - KML: FIR and hotspot folders for Google Earth briefings
+ *
+ * Hotspot zones are written as their cell polygons (square or hexagon),
+ * or as centre points when a hotspot has no cell outline.
+ * - XLSX: a summary sheet, the FIR records (same columns as the CSV) and
+ *   the hotspots
+ *
+ * Records placed by the gazetteer keep their geocode confidence in every
+ * format so they can be told apart from surveyed locations.
+ */
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml' | 'xlsx';
+
+export const EXPORT_FORMAT_LABELS: { [format in ExportFormat]: string } = {
+  csv: 'CSV',
+  geojson: 'GeoJSON',
+  kml: 'KML (Google Earth)',
+  xlsx: 'Excel (XLSX)',
+};
+
+/**
+ * A file ready to download
+ */
+export interface ExportFile {
+  content: string | ArrayBuffer;
+  mimeType: string;
+  extension: string;
+}
+
+// Written as the GeoJSON geometry / KML Point instead of as properties
+const GEOMETRY_FIELDS = ['latitude', 'longitude'];
+
+// KML colours are aabbggrr; fill is used by hotspot zone polygons
+const KML_STYLES: { id: string; color: string; scale: number; fill?: string }[] = [
+  { id: 'fir', color: 'ffd77800', scale: 0.8 },
+  { id: 'fir-approximate', color: '80d77800', scale: 0.8 },
+  { id: 'hotspot-low', color: 'ff327d2e', scale: 1.4, fill: '66327d2e' },
+  { id: 'hotspot-medium', color: 'ff007cf5', scale: 1.4, fill: '66007cf5' },
+  { id: 'hotspot-high', color: 'ff2828c6', scale: 1.4, fill: '662828c6' },
+];
+
+/**
+ * Builds the export file for a format
+ * Hotspots are included in the GeoJSON, KML and XLSX formats
+ */
+export const exportFIRs = (
+  format: ExportFormat,
+  firs: FIR[],
+  hotspots: Hotspot[] = []
+): ExportFile => {
+  switch (format) {
+    case 'geojson':
+      return {
+        content: buildGeoJSON(firs, hotspots),
+        mimeType: 'application/geo+json',
+        extension: 'geojson',
+      };
+    case 'kml':
+      return {
+        content: buildKML(firs, hotspots),
+        mimeType: 'application/vnd.google-earth.kml+xml',
+        extension: 'kml',
+      };
+    case 'xlsx':
+      return {
+        content: buildWorkbook(firs, hotspots),
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx',
+      };
+    default:
+      return { content: buildFIRCSV(firs), mimeType: 'text/csv', extension: 'csv' };
+  }
+};
+
+/**
+ * Builds a GeoJSON FeatureCollection of FIR points followed by hotspot zones
+ * FIR properties use the CSV column names; numbers and yes/no fields keep
+ * their JSON types
+ *
+ * Time Complexity: O(n × c + h) where n = FIRs, c = columns, h = hotspots
+ */
+export const buildGeoJSON = (firs: FIR[], hotspots: Hotspot[] = []): string =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: [
+        ...firs.map((fir) => ({
+          type: 'Feature',
+          id: fir.id,
+          geometry: { type: 'Point', coordinates: [fir.longitude, fir.latitude] },
+          properties: { layer: 'fir', ...toProperties(fir) },
+        })),
+        ...hotspots.map((hotspot) => ({
+          type: 'Feature',
+          id: hotspot.zoneId,
+          geometry: hotspot.cellBoundary
+            ? { type: 'Polygon', coordinates: [closedRing(hotspot.cellBoundary)] }
+            : { type: 'Point', coordinates: [hotspot.centerLng, hotspot.centerLat] },
+          properties: { layer: 'hotspot', ...hotspotProperties(hotspot) },
+        })),
+      ],
+    },
+    null,
+    2
+  );
+
+/**
+ * Builds a KML document with a folder of FIR placemarks and one of hotspots
+ * Every FIR field is kept as ExtendedData; approximate locations use a
+ * faded style
+ *
+ * Time Complexity: O(n × c + h) where n = FIRs, c = columns, h = hotspots
+ */
+export const buildKML = (firs: FIR[], hotspots: Hotspot[] = []): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '<name>SafeCity FIR export</name>',
+    ...KML_STYLES.map(
+      ({ id, color, scale, fill }) =>
+        `<Style id="${id}"><IconStyle><color>${color}</color><scale>${scale}</scale></IconStyle>${
+          fill
+            ? `<LineStyle><color>${color}</color><width>2</width></LineStyle><PolyStyle><color>${fill}</color></PolyStyle>`
+            : ''
+        }</Style>`
+    ),
+    '<Folder>',
+    '<name>FIR Incidents</name>',
+    ...firs.map(firPlacemark),
+    '</Folder>',
+    '<Folder>',
+    '<name>Hotspots</name>',
+    ...hotspots.map(hotspotPlacemark),
+    '</Folder>',
+    '</Document>',
+    '</kml>',
+  ];
+
+  return lines.join('\n');
+};
+
+/**
+ * Builds an XLSX workbook with Summary, FIRs and Hotspots sheets
+ * The FIRs sheet imports back through parseExcel
+ *
+ * Time Complexity: O(n × c + h) where n = FIRs, c = columns, h = hotspots
+ */
+export const buildWorkbook = (firs: FIR[], hotspots: Hotspot[] = []): ArrayBuffer => {
+  const workbook = XLSX.utils.book_new();
+  const { header, rows } = buildFIRTable(firs);
+
+  // Coordinates are written as numbers so spreadsheets can plot them
+  const numeric = GEOMETRY_FIELDS.map((column) => header.indexOf(column));
+  const firRows = rows.map((row) =>
+    row.map((value, i) => (numeric.includes(i) && value !== '' ? Number(value) : value))
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(buildSummaryRows(firs, hotspots)),
+    'Summary'
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([header, ...firRows]),
+    'FIRs'
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([
+      [
+        'zoneId',
+        'zoneName',
+        'severity',
+        'firCount',
+        'percentage',
+        'latitude',
+        'longitude',
+        'giZScore',
+        'giPValue',
+        'giBin',
+        'moranCluster',
+      ],
+      ...hotspots.map((hotspot) => [
+        hotspot.zoneId,
+        hotspot.zoneName,
+        hotspot.severity,
+        hotspot.firCount,
+        roundPercentage(hotspot.percentage),
+        hotspot.centerLat,
+        hotspot.centerLng,
+        hotspot.giZScore === undefined ? '' : roundStatistic(hotspot.giZScore),
+        hotspot.giPValue === undefined ? '' : roundStatistic(hotspot.giPValue),
+        hotspot.giBin ?? '',
+        hotspot.moranCluster || '',
+      ]),
+    ]),
+    'Hotspots'
+  );
+
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+/**
+ * Summary sheet: totals, date range, then counts by crime type and station
+ */
+function buildSummaryRows(firs: FIR[], hotspots: Hotspot[]): (string | number)[][] {
+  const dates = firs
+    .map((fir) => firToFields(fir).date)
+    .filter(Boolean)
+    .sort();
+
+  return [
+    ['SafeCity FIR export'],
+    ['Generated', formatDateTimeValue(new Date())],
+    ['FIR records', firs.length],
+    ['Date range', dates.length > 0 ? `${dates[0]} to ${dates[dates.length - 1]}` : ''],
+    ['Approximate locations', firs.filter((fir) => fir.geocodeConfidence).length],
+    ['Hotspots', hotspots.length],
+    ['High severity hotspots', hotspots.filter((h) => h.severity === 'high').length],
+    [],
+    ['Crime type', 'FIRs'],
+    ...countBy(firs, (fir) => fir.crimeType),
+    [],
+    ['Police station', 'FIRs'],
+    ...countBy(firs, (fir) => fir.policeStation),
+  ];
+}
+
+/**
+ * Counts per key, most frequent first (ties by name)
+ */
+function countBy(firs: FIR[], key: (fir: FIR) => string): [string, number][] {
+  const counts = new Map<string, number>();
+  firs.forEach((fir) => counts.set(key(fir), (counts.get(key(fir)) || 0) + 1));
+
+  return Array.from(counts.entries()).sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+  );
+}
+
+/**
+ * FIR fields and attributes other than the coordinates, keyed by CSV
+ * column name
+ */
+function toProperties(fir: FIR): { [column: string]: string | number | boolean } {
+  const fields = firToFields(fir);
+  const properties: { [column: string]: string | number | boolean } = {};
+
+  const add = (column: string, key: string, value: unknown) => {
+    if (!(key in fields)) return;
+    properties[column] =
+      typeof value === 'number' || typeof value === 'boolean' ? value : fields[key];
+  };
+
+  FIR_FIELDS.forEach((field) => {
+    if (GEOMETRY_FIELDS.includes(field.key)) return;
+    add(field.property, field.key, (fir as unknown as Record<string, unknown>)[field.property]);
+  });
+  Object.entries(fir.attributes || {}).forEach(([name, value]) => add(name, name, value));
+
+  return properties;
+}
+
+/**
+ * Hotspot fields, with the Gi* and Moran's I results when the hotspot has them
+ */
+function hotspotProperties(hotspot: Hotspot): { [name: string]: string | number } {
+  const properties: { [name: string]: string | number } = {
+    zoneId: hotspot.zoneId,
+    zoneName: hotspot.zoneName,
+    severity: hotspot.severity,
+    firCount: hotspot.firCount,
+    percentage: roundPercentage(hotspot.percentage),
+  };
+  if (hotspot.giZScore !== undefined) properties.giZScore = roundStatistic(hotspot.giZScore);
+  if (hotspot.giPValue !== undefined) properties.giPValue = roundStatistic(hotspot.giPValue);
+  if (hotspot.giBin !== undefined) properties.giBin = hotspot.giBin;
+  if (hotspot.moranCluster) properties.moranCluster = hotspot.moranCluster;
+  return properties;
+}
+
+function firPlacemark(fir: FIR): string {
+  const fields = firToFields(fir);
+  const summary = [
+    fir.crimeType,
+    `${fields.date || ''} ${fir.time}`.trim(),
+    `${fir.area}, ${fir.policeStation}`,
+    describeGeocode(fir),
+  ].filter(Boolean);
+
+  const columns: [string, string][] = [
+    ...FIR_FIELDS.filter(
+      (field) => field.key in fields && !GEOMETRY_FIELDS.includes(field.key)
+    ).map((field): [string, string] => [field.property, fields[field.key]]),
+    ...Object.keys(fir.attributes || {}).map((name): [string, string] => [name, fields[name]]),
+  ];
+  const data = columns.map(
+    ([column, value]) =>
+      `<Data name="${escapeXML(column)}"><value>${escapeXML(value)}</value></Data>`
+  );
+
+  const when =
+    fir.incidentAt instanceof Date && !isNaN(fir.incidentAt.getTime())
+      ? `<TimeStamp><when>${fir.incidentAt.toISOString()}</when></TimeStamp>`
+      : '';
+
+  return [
+    '<Placemark>',
+    `<name>${escapeXML(fir.id)}</name>`,
+    `<description>${escapeXML(summary.join(' | '))}</description>`,
+    `<styleUrl>#${fir.geocodeConfidence ? 'fir-approximate' : 'fir'}</styleUrl>`,
+    when,
+    `<ExtendedData>${data.join('')}</ExtendedData>`,
+    `<Point><coordinates>${fir.longitude},${fir.latitude}</coordinates></Point>`,
+    '</Placemark>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function hotspotPlacemark(hotspot: Hotspot): string {
+  const data = Object.entries(hotspotProperties(hotspot)).map(
+    ([name, value]) =>
+      `<Data name="${name}"><value>${escapeXML(String(value))}</value></Data>`
+  );
+
+  return [
+    '<Placemark>',
+    `<name>${escapeXML(hotspot.zoneName)}</name>`,
+    `<description>${escapeXML(
+      `${hotspot.severity.toUpperCase()} severity | ${hotspot.firCount} FIRs (${roundPercentage(
+        hotspot.percentage
+      )}%)`
+    )}</description>`,
+    `<styleUrl>#hotspot-${hotspot.severity}</styleUrl>`,
+    `<ExtendedData>${data.join('')}</ExtendedData>`,
+    hotspot.cellBoundary
+      ? `<Polygon><outerBoundaryIs><LinearRing><coordinates>${closedRing(hotspot.cellBoundary)
+          .map(([lng, lat]) => `${lng},${lat}`)
+          .join(' ')}</coordinates></LinearRing></outerBoundaryIs></Polygon>`
+      : `<Point><coordinates>${hotspot.centerLng},${hotspot.centerLat}</coordinates></Point>`,
+    '</Placemark>',
+  ].join('\n');
+}
+
+/**
+ * Cell corners as a closed [longitude, latitude] ring (GeoJSON and KML order)
+ */
+function closedRing(boundary: [number, number][]): [number, number][] {
+  const ring = boundary.map(([lat, lng]): [number, number] => [lng, lat]);
+  return [...ring, ring[0]];
+}
+
+function roundPercentage(percentage: number): number {
+  return Math.round(percentage * 100) / 100;
+}
+
+function roundStatistic(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -132,6 +132,18 @@ describe('geoUtils', () => {
         expect(clusters[i].length).toBeGreaterThanOrEqual(clusters[i + 1].length);
       }
     });
+
+    it('should join chains of nearby FIRs whatever the input order', () => {
+      // Each FIR ~0.4 km from the next; the ends are ~0.8 km apart
+      const chain = [0, 1, 2].map((i) => ({
+        ...firSet[0],
+        id: `CHAIN${i}`,
+        latitude: 28.5355 + i * 0.0036,
+      }));
+
+      expect(clusterFIRs(chain, 0.5)).toHaveLength(1);
+      expect(clusterFIRs([chain[0], chain[2], chain[1]], 0.5)).toHaveLength(1);
+    });
   });
 
   describe('calculateBounds', () => {
@@ -1,28 +1,78 @@
 import { FIR, Hotspot } from '../types';
 import { ZONE_DENSITY_THRESHOLDS } from '../config/constants';
+import {
+  SpatialIndex,
+  boundsAroundPoint,
+  createSpatialIndex,
+  pointBounds,
+  queryBounds,
+  withoutOutliers,
+} from './spatialIndex';
+import { CellWindows, getisOrdGiStar, localMoransI, squareWindows } from './hotspotStatistics';
+import {
+  DEFAULT_HEX_SIZE_M,
+  MAX_HEX_CELLS,
+  countHexCellsInBounds,
+  hexBoundary,
+  hexCellAt,
+  hexCellsInBounds,
+  hexWindows,
+} from './hexGrid';
 
 /**
  * Geospatial Utilities for Crime Mapping and Hotspot Detection
  *
  * Algorithm: Grid-based spatial clustering
- * - Divides the city into uniform grid cells
+ * - Divides the city into uniform grid cells (squares, or hexagons of a
+ *   size in metres; see GridConfig.tessellation)
  * - Calculates FIR density per cell
  * - Classifies cells by severity
+ * - Tests each cell's neighbourhood for significant hot and cold spots
+ *   (Getis-Ord Gi* and local Moran's I, hotspotStatistics.ts)
  * - Time Complexity: O(n) for density calculation, O(g) for grid processing where g = grid cells
+ *
+ * FIRs are placed in cells by direct addressing (row and column from the
+ * coordinates); radius searches and clustering use a KD-tree (spatialIndex.ts).
+ */
+
+declare module '../types' {
+  interface Hotspot {
+    /** Corners of the hotspot's cell as [latitude, longitude] */
+    cellBoundary?: [number, number][];
+  }
+}
+
+/**
+ * Shape of hotspot cells: a latitude/longitude grid, or hexagons of equal
+ * size with stable IDs (hexGrid.ts)
  */
+export type Tessellation = 'square' | 'hex';
+
+export const TESSELLATION_LABELS: { [k in Tessellation]: string } = {
+  square: 'Square grid',
+  hex: 'Hexagons',
+};
 
 interface GridCell {
   id: string;
-  minLat: number;
-  maxLat: number;
-  minLng: number;
-  maxLng: number;
+  name: string;
   centerLat: number;
   centerLng: number;
   firCount: number;
   firs: FIR[];
 }
 
+/**
+ * Cells of either tessellation with how to find a point's cell, a cell's
+ * corners and each cell's neighbourhood
+ */
+interface Grid {
+  cells: GridCell[];
+  locate: (latitude: number, longitude: number) => number; // Cell position, or -1 outside
+  boundary: (position: number) => [number, number][];
+  windows: (radius: number) => CellWindows;
+}
+
 export interface GridConfig {
   latGridSize: number; // degrees
   lngGridSize: number; // degrees
@@ -30,6 +80,9 @@ export interface GridConfig {
   maxLat: number;
   minLng: number;
   maxLng: number;
+  neighbourhoodCells?: number; // Gi* / Moran's I window radius in cells; default 1 (3 × 3)
+  tessellation?: Tessellation; // default 'square'
+  hexSizeM?: number; // Distance between hexagon centres; default DEFAULT_HEX_SIZE_M
 }
 
 // Default grid configuration for Delhi, India
@@ -42,68 +95,171 @@ const DEFAULT_GRID_CONFIG: GridConfig = {
   maxLng: 77.4,
 };
 
+/**
+ * Grid config of hexagons of a size covering the FIRs, less outliers
+ * (withoutOutliers in spatialIndex.ts)
+ * Hexagons come from a fixed lattice, so the bounds only pick which cells
+ * are listed. Areas needing more than MAX_HEX_CELLS hexagons get the next
+ * size up the hierarchy (twice as large) until they fit.
+ *
+ * Time Complexity: O(n log n) where n = FIRs
+ */
+export const hexGridConfig = (firs: FIR[], hexSizeM: number): GridConfig => {
+  const located = firs.filter(
+    (fir) => Number.isFinite(fir.latitude) && Number.isFinite(fir.longitude)
+  );
+  const minMargin = hexSizeM / 1000 / haversineDistance(0, 0, 1, 0);
+  const bounds =
+    located.length > 0 ? pointBounds(withoutOutliers(located, minMargin)) : DEFAULT_GRID_CONFIG;
+
+  let sizeM = hexSizeM;
+  while (countHexCellsInBounds({ sizeM }, bounds) > MAX_HEX_CELLS) sizeM *= 2;
+
+  return {
+    ...DEFAULT_GRID_CONFIG,
+    minLat: bounds.minLat,
+    maxLat: bounds.maxLat,
+    minLng: bounds.minLng,
+    maxLng: bounds.maxLng,
+    tessellation: 'hex',
+    hexSizeM: sizeM,
+  };
+};
+
+/**
+ * Creates the cells covering the configured area
+ */
+function createGrid(config: GridConfig): Grid {
+  return config.tessellation === 'hex' ? createHexGrid(config) : createSquareGrid(config);
+}
+
 /**
  * Creates a grid of cells covering the specified area
  * Each cell represents a geographic zone
  *
  * Time Complexity: O(rows × cols) where rows/cols depend on grid size
  */
-function createGrid(config: GridConfig): GridCell[] {
+function createSquareGrid(config: GridConfig): Grid {
+  const rowEdges = gridEdges(config.minLat, config.maxLat, config.latGridSize);
+  const colEdges = gridEdges(config.minLng, config.maxLng, config.lngGridSize);
   const cells: GridCell[] = [];
   let cellId = 0;
 
-  for (let lat = config.minLat; lat < config.maxLat; lat += config.latGridSize) {
-    for (
-      let lng = config.minLng;
-      lng < config.maxLng;
-      lng += config.lngGridSize
-    ) {
-      const minLat = lat;
-      const maxLat = lat + config.latGridSize;
-      const minLng = lng;
-      const maxLng = lng + config.lngGridSize;
-
+  rowEdges.forEach((lat) => {
+    colEdges.forEach((lng) => {
       cells.push({
         id: `GRID_${cellId}`,
-        minLat,
-        maxLat,
-        minLng,
-        maxLng,
-        centerLat: (minLat + maxLat) / 2,
-        centerLng: (minLng + maxLng) / 2,
+        name: `Zone ${cellId}`,
+        centerLat: lat + config.latGridSize / 2,
+        centerLng: lng + config.lngGridSize / 2,
         firCount: 0,
         firs: [],
       });
 
       cellId++;
-    }
-  }
+    });
+  });
 
-  return cells;
+  return {
+    cells,
+    locate: (latitude, longitude) => {
+      const row = findEdge(rowEdges, config.minLat, config.latGridSize, latitude);
+      const col = findEdge(colEdges, config.minLng, config.lngGridSize, longitude);
+      return row < 0 || col < 0 ? -1 : row * colEdges.length + col;
+    },
+    boundary: (position) => {
+      const minLat = rowEdges[Math.floor(position / colEdges.length)];
+      const minLng = colEdges[position % colEdges.length];
+      const maxLat = minLat + config.latGridSize;
+      const maxLng = minLng + config.lngGridSize;
+      return [
+        [minLat, minLng],
+        [minLat, maxLng],
+        [maxLat, maxLng],
+        [maxLat, minLng],
+      ];
+    },
+    windows: (radius) => squareWindows(rowEdges.length, colEdges.length, radius),
+  };
+}
+
+/**
+ * Creates the hexagons covering the specified area
+ * Cells come from a fixed lattice, so a cell keeps its ID across runs
+ * and areas; FIRs in hexagons outside the list are left out
+ *
+ * Time Complexity: O(c) where c = cells
+ */
+function createHexGrid(config: GridConfig): Grid {
+  const bounds = {
+    minLat: config.minLat,
+    maxLat: config.maxLat,
+    minLng: config.minLng,
+    maxLng: config.maxLng,
+  };
+  const lattice = { sizeM: config.hexSizeM ?? DEFAULT_HEX_SIZE_M };
+  const hexCells = hexCellsInBounds(lattice, bounds);
+  const positions = new Map(hexCells.map((cell, i) => [cell.id, i]));
+
+  return {
+    cells: hexCells.map((cell) => ({
+      id: cell.id,
+      name: `Hex ${cell.q},${cell.r}`,
+      centerLat: cell.centerLat,
+      centerLng: cell.centerLng,
+      firCount: 0,
+      firs: [],
+    })),
+    locate: (latitude, longitude) =>
+      positions.get(hexCellAt(lattice, latitude, longitude).id) ?? -1,
+    boundary: (position) => hexBoundary(lattice, hexCells[position].q, hexCells[position].r),
+    windows: (radius) => hexWindows(hexCells, radius),
+  };
+}
+
+/**
+ * Lower edges of the rows (or columns) from min up to max
+ * Accumulated step by step, so edges match cells built before indexing
+ */
+function gridEdges(min: number, max: number, size: number): number[] {
+  const edges: number[] = [];
+  for (let edge = min; edge < max; edge += size) edges.push(edge);
+  return edges;
 }
 
 /**
  * Assigns FIR records to grid cells
- * Time Complexity: O(n × g) where n = FIRs, g = grid cells (optimizable with spatial indexing)
- * Optimization: Could use R-tree or quadtree for large datasets
+ * Each FIR's cell is computed from its coordinates rather than by testing
+ * every cell; FIRs outside the grid are left out
+ *
+ * Time Complexity: O(n) where n = FIRs
  */
-function assignFIRsToGrid(firs: FIR[], grid: GridCell[]): void {
+function assignFIRsToGrid(firs: FIR[], grid: Grid): void {
   firs.forEach((fir) => {
-    for (const cell of grid) {
-      if (
-        fir.latitude >= cell.minLat &&
-        fir.latitude < cell.maxLat &&
-        fir.longitude >= cell.minLng &&
-        fir.longitude < cell.maxLng
-      ) {
-        cell.firs.push(fir);
-        cell.firCount++;
-        break; // Each FIR assigned to one cell only
-      }
-    }
+    const position = grid.locate(fir.latitude, fir.longitude);
+    if (position < 0) return;
+
+    const cell = grid.cells[position];
+    cell.firs.push(fir);
+    cell.firCount++;
   });
 }
 
+/**
+ * Row or column holding a value (edge <= value < edge + size), or -1
+ * The arithmetic guess is checked against the accumulated edges, which
+ * can drift from it by floating-point error; where rounding makes
+ * neighbours overlap the lower one wins, as when every cell was tested
+ */
+function findEdge(edges: number[], min: number, size: number, value: number): number {
+  const guess = Math.floor((value - min) / size);
+
+  for (const i of [guess - 1, guess, guess + 1]) {
+    if (i >= 0 && i < edges.length && value >= edges[i] && value < edges[i] + size) return i;
+  }
+  return -1;
+}
+
 /**
  * Classifies grid cells by crime density severity
  * Uses thresholds from config constants
@@ -121,11 +277,15 @@ function classifyBySeverity(
  * Returns array of hotspot zones
  *
  * Main Algorithm Steps:
- * 1. Create uniform grid covering the city
- * 2. Assign each FIR to its grid cell (O(n) with spatial indexing)
+ * 1. Create uniform grid (or hexagons) covering the city
+ * 2. Assign each FIR to its cell (O(n) by direct addressing)
  * 3. Calculate density for each cell
  * 4. Classify cells by severity
- * 5. Filter cells with detectable crime (> threshold)
+ * 5. Score every cell's neighbourhood with Gi* and local Moran's I
+ * 6. Filter cells with detectable crime (> threshold)
+ *
+ * Severity uses fixed count thresholds; giBin says whether the cell sits
+ * in a cluster that is significantly busier (or quieter) than the grid
  *
  * Time Complexity: O(n + g) where n = FIRs, g = grid cells
  */
@@ -141,21 +301,32 @@ export const detectHotspots = (
   // Assign FIRs to grid cells
   assignFIRsToGrid(firs, grid);
 
+  // Local statistics over every cell, empty ones included
+  const counts = grid.cells.map((cell) => cell.firCount);
+  const windows = grid.windows(config.neighbourhoodCells ?? 1);
+  const giStar = getisOrdGiStar(counts, windows);
+  const moran = localMoransI(counts, windows);
+
   // Convert grid cells to hotspots
   const hotspots: Hotspot[] = [];
   const totalFIRs = firs.length;
 
-  grid.forEach((cell) => {
+  grid.cells.forEach((cell, i) => {
     if (cell.firCount > 0) {
       hotspots.push({
         zoneId: cell.id,
-        zoneName: `Zone ${cell.id.replace('GRID_', '')}`,
+        zoneName: cell.name,
         centerLat: cell.centerLat,
         centerLng: cell.centerLng,
         firCount: cell.firCount,
         severity: classifyBySeverity(cell.firCount),
         percentage: (cell.firCount / totalFIRs) * 100,
         lastUpdated: new Date(),
+        giZScore: giStar[i].zScore,
+        giPValue: giStar[i].pValue,
+        giBin: giStar[i].bin,
+        moranCluster: moran[i].cluster ?? undefined,
+        cellBoundary: grid.boundary(i),
       });
     }
   });
@@ -205,7 +376,8 @@ function toRad(degrees: number): number {
  * Useful for proximity-based analysis
  *
  * Time Complexity: O(n) - scans all FIRs to calculate distance
- * Could be optimized with spatial index
+ * For repeated searches over the same FIRs, index them once
+ * (createSpatialIndex) and use queryNearby
  */
 export const findNearbyFIRs = (
   firs: FIR[],
@@ -225,10 +397,31 @@ export const findNearbyFIRs = (
 };
 
 /**
- * Clusters nearby FIRs using DBSCAN-inspired approach
- * Groups FIRs that are within radiusKm of each other
+ * Finds indexed items within a radius of a point, in input order
+ * Same result as findNearbyFIRs over the indexed items
+ *
+ * Time Complexity: O(√n + k) where k = items near the point
+ */
+export const queryNearby = <T extends { latitude: number; longitude: number }>(
+  index: SpatialIndex<T>,
+  centerLat: number,
+  centerLng: number,
+  radiusKm: number
+): T[] =>
+  queryBounds(index, boundsAroundPoint(centerLat, centerLng, radiusKm)).filter(
+    (item) =>
+      haversineDistance(centerLat, centerLng, item.latitude, item.longitude) <= radiusKm
+  );
+
+/**
+ * Clusters nearby FIRs by single linkage
+ * Groups FIRs connected by chains of FIRs within radiusKm of each other,
+ * the same groups whatever the input order (DBSCAN with minPts = 1, so
+ * there is no noise). For core, border and noise labels and hulls, use
+ * dbscan or hdbscan (densityClustering.ts)
  *
- * Time Complexity: O(n²) - considers all pairs
+ * Time Complexity: O(n log n + n × k) with the spatial index, where
+ * k = FIRs within radiusKm of a FIR
  * Space Complexity: O(n) for cluster storage
  *
  * Returns array of FIR clusters
@@ -239,6 +432,7 @@ export const clusterFIRs = (
 ): FIR[][] => {
   const clusters: FIR[][] = [];
   const visited = new Set<string>();
+  const index = createSpatialIndex(firs);
 
   firs.forEach((fir) => {
     if (visited.has(fir.id)) return;
@@ -246,19 +440,18 @@ export const clusterFIRs = (
     const cluster: FIR[] = [fir];
     visited.add(fir.id);
 
-    // Find all nearby FIRs
-    const nearby = findNearbyFIRs(firs, fir.latitude, fir.longitude, radiusKm);
-
-    nearby.forEach((nearFir) => {
-      if (!visited.has(nearFir.id)) {
-        cluster.push(nearFir);
-        visited.add(nearFir.id);
-      }
-    });
-
-    if (cluster.length > 0) {
-      clusters.push(cluster);
+    // Grow the cluster through the neighbours of every member
+    for (let i = 0; i < cluster.length; i++) {
+      const member = cluster[i];
+      queryNearby(index, member.latitude, member.longitude, radiusKm).forEach((nearFir) => {
+        if (!visited.has(nearFir.id)) {
+          cluster.push(nearFir);
+          visited.add(nearFir.id);
+        }
+      });
     }
+
+    clusters.push(cluster);
   });
 
   return clusters.sort((a, b) => b.length - a.length); // Sort by cluster size
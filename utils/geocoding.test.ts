@@ -0,0 +1,72 @@
+import {
+  createGazetteer,
+  describeGeocode,
+  geocodeLocation,
+  normalizePlaceName,
+  parseGeocodeConfidence,
+} from './geocoding';
+import { FIR } from '../types';
+
+describe('geocoding', () => {
+  const gazetteer = createGazetteer([
+    { name: 'Malad West', kind: 'area', latitude: 19.1874, longitude: 72.8395, aliases: ['मालाड पश्चिम'] },
+    { name: 'Evershine Nagar', kind: 'locality', latitude: 19.1845, longitude: 72.832 },
+    { name: 'Infiniti Mall Malad', kind: 'landmark', latitude: 19.1847, longitude: 72.8347 },
+    { name: 'Malad PS', kind: 'station', latitude: 19.1862, longitude: 72.8452 },
+  ]);
+
+  describe('normalizePlaceName', () => {
+    it('should ignore case and punctuation and expand abbreviations', () => {
+      expect(normalizePlaceName('Malad (W)')).toBe('malad west');
+      expect(normalizePlaceName('MALAD P.S.')).toBe('malad police station');
+      expect(normalizePlaceName(' मालाड  पश्चिम ')).toBe('मालाड पश्चिम');
+    });
+  });
+
+  describe('geocodeLocation', () => {
+    it('should rate matches by how precise the matched place is', () => {
+      expect(geocodeLocation({ landmark: 'Infiniti Mall Malad', area: 'Malad West' }, gazetteer))
+        .toEqual({
+          latitude: 19.1847,
+          longitude: 72.8347,
+          confidence: 'high',
+          matchedName: 'Infiniti Mall Malad',
+          matchedKind: 'landmark',
+        });
+      expect(geocodeLocation({ area: 'Malad (W)' }, gazetteer)?.confidence).toBe('medium');
+      expect(geocodeLocation({ area: 'मालाड पश्चिम' }, gazetteer)?.matchedName).toBe('Malad West');
+      expect(
+        geocodeLocation({ area: 'Unknown', policeStation: 'Malad Police Station' }, gazetteer)
+      ).toEqual(expect.objectContaining({ confidence: 'low', matchedName: 'Malad PS' }));
+    });
+
+    it('should lower the confidence of names found inside longer values', () => {
+      expect(
+        geocodeLocation({ area: 'Lane 4, Evershine Nagar, Malad West' }, gazetteer)
+      ).toEqual(expect.objectContaining({ confidence: 'medium', matchedName: 'Evershine Nagar' }));
+      expect(geocodeLocation({ area: 'Malad Westside' }, gazetteer)).toBeNull();
+    });
+
+    it('should use the bundled gazetteer by default', () => {
+      expect(geocodeLocation({ policeStation: 'Borivali PS' })?.matchedKind).toBe('station');
+    });
+  });
+
+  describe('parseGeocodeConfidence', () => {
+    it('should accept known levels only', () => {
+      expect(parseGeocodeConfidence(' High ')).toBe('high');
+      expect(parseGeocodeConfidence('exact')).toBeUndefined();
+    });
+  });
+
+  describe('describeGeocode', () => {
+    it('should describe approximate locations only', () => {
+      const fir = { id: 'FIR001' } as FIR;
+
+      expect(describeGeocode(fir)).toBeNull();
+      expect(
+        describeGeocode({ ...fir, geocodeConfidence: 'low', geocodeMatch: 'Malad PS' })
+      ).toBe('Approximate location: Malad PS (low confidence)');
+    });
+  });
+});
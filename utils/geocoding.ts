@@ -0,0 +1,211 @@
+import { FIR } from '../types';
+import GAZETTEER_DATA from '../data/gazetteer.json';
+
+/**
+ * Offline gazetteer geocoding
+ *
+ * Older FIRs often carry only an area name, a police station or a landmark.
+ * Those records are placed at the centroid of the best matching entry in a
+ * bundled gazetteer (data/gazetteer.json) instead of being rejected, and
+ * keep a confidence level so maps and exports can show them as approximate.
+ *
+ * Matching, first hit wins:
+ * 1. Landmark column, then area, then police station
+ * 2. Within a column: exact name or alias, then the longest gazetteer name
+ *    contained in the value ("Near Infiniti Mall Malad" -> Infiniti Mall Malad)
+ *
+ * Names are compared case-insensitively with punctuation removed and common
+ * abbreviations expanded ("Malad (W)" = "Malad West", "P.S." = "Police Station").
+ */
+
+export type GazetteerKind = 'landmark' | 'locality' | 'area' | 'station';
+
+export type GeocodeConfidence = 'high' | 'medium' | 'low';
+
+export const GEOCODE_CONFIDENCE_LEVELS: GeocodeConfidence[] = ['high', 'medium', 'low'];
+
+declare module '../types' {
+  interface FIR {
+    /** Set when the coordinates come from the gazetteer rather than the source */
+    geocodeConfidence?: GeocodeConfidence;
+    /** Gazetteer name the coordinates were taken from */
+    geocodeMatch?: string;
+  }
+}
+
+export interface GazetteerEntry {
+  name: string;
+  kind: GazetteerKind;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+/**
+ * Place names available to a FIR without coordinates
+ */
+export interface LocationQuery {
+  landmark?: string;
+  area?: string;
+  policeStation?: string;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  confidence: GeocodeConfidence;
+  matchedName: string;
+  matchedKind: GazetteerKind;
+}
+
+/**
+ * Gazetteer prepared for lookups (see createGazetteer)
+ */
+export interface Gazetteer {
+  exact: Map<string, GazetteerEntry>; // "kind:normalized name" -> entry
+  names: { name: string; entry: GazetteerEntry }[]; // Longest name first
+}
+
+// Entry kinds searched for each query field, in order of preference
+const LOOKUPS: { field: keyof LocationQuery; kinds: GazetteerKind[] }[] = [
+  { field: 'landmark', kinds: ['landmark', 'locality'] },
+  { field: 'area', kinds: ['locality', 'area', 'landmark'] },
+  { field: 'policeStation', kinds: ['station'] },
+];
+
+// A landmark pins a spot, an area centroid can be a kilometre off, a
+// station only tells the jurisdiction
+const KIND_CONFIDENCE: { [kind in GazetteerKind]: GeocodeConfidence } = {
+  landmark: 'high',
+  locality: 'high',
+  area: 'medium',
+  station: 'low',
+};
+
+const ABBREVIATIONS: { [token: string]: string } = {
+  w: 'west',
+  e: 'east',
+  n: 'north',
+  s: 'south',
+  rd: 'road',
+  stn: 'station',
+  ps: 'police station',
+};
+
+let defaultGazetteer: Gazetteer | null = null;
+
+/**
+ * Indexes gazetteer entries by normalized name and alias
+ *
+ * Time Complexity: O(g log g) where g = names and aliases
+ */
+export const createGazetteer = (entries: GazetteerEntry[]): Gazetteer => {
+  const exact = new Map<string, GazetteerEntry>();
+  const names: Gazetteer['names'] = [];
+
+  entries.forEach((entry) => {
+    [entry.name, ...(entry.aliases || [])].forEach((alias) => {
+      const name = normalizePlaceName(alias);
+      if (!name) return;
+
+      const key = `${entry.kind}:${name}`;
+      if (!exact.has(key)) exact.set(key, entry);
+      names.push({ name, entry });
+    });
+  });
+
+  names.sort((a, b) => b.name.length - a.name.length);
+  return { exact, names };
+};
+
+/**
+ * The bundled gazetteer (built on first use)
+ */
+export const getDefaultGazetteer = (): Gazetteer => {
+  if (!defaultGazetteer) {
+    defaultGazetteer = createGazetteer(GAZETTEER_DATA as GazetteerEntry[]);
+  }
+  return defaultGazetteer;
+};
+
+/**
+ * Finds coordinates for a FIR location in the gazetteer
+ * Contained-name matches are one confidence level below exact ones
+ *
+ * @returns The matched centroid and confidence, or null when nothing matches
+ *
+ * Time Complexity: O(g) per query field where g = gazetteer names
+ */
+export const geocodeLocation = (
+  query: LocationQuery,
+  gazetteer: Gazetteer = getDefaultGazetteer()
+): GeocodeResult | null => {
+  for (const { field, kinds } of LOOKUPS) {
+    const value = normalizePlaceName(query[field] || '');
+    if (!value) continue;
+
+    for (const kind of kinds) {
+      const entry = gazetteer.exact.get(`${kind}:${value}`);
+      if (entry) return toResult(entry, KIND_CONFIDENCE[kind]);
+    }
+
+    const padded = ` ${value} `;
+    const contained = gazetteer.names.find(
+      ({ name, entry }) => kinds.includes(entry.kind) && padded.includes(` ${name} `)
+    );
+    if (contained) {
+      return toResult(contained.entry, lowerConfidence(KIND_CONFIDENCE[contained.entry.kind]));
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Reads a confidence level written by an export ("High", "medium", ...)
+ */
+export const parseGeocodeConfidence = (value: string): GeocodeConfidence | undefined => {
+  const level = value.trim().toLowerCase();
+  return GEOCODE_CONFIDENCE_LEVELS.find((confidence) => confidence === level);
+};
+
+/**
+ * True when a FIR's coordinates are a gazetteer approximation
+ */
+export const isGeocoded = (fir: FIR): boolean => fir.geocodeConfidence !== undefined;
+
+/**
+ * Short note for popups and tables, e.g.
+ * "Approximate location: Malad West (medium confidence)"
+ */
+export const describeGeocode = (fir: FIR): string | null =>
+  fir.geocodeConfidence
+    ? `Approximate location: ${fir.geocodeMatch || 'gazetteer'} (${fir.geocodeConfidence} confidence)`
+    : null;
+
+/**
+ * Lowercases, drops punctuation and expands abbreviations
+ * Letters and marks of any script are kept so Devanagari names match
+ */
+export const normalizePlaceName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\./g, '')
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean)
+    .map((token) => ABBREVIATIONS[token] || token)
+    .join(' ');
+
+function toResult(entry: GazetteerEntry, confidence: GeocodeConfidence): GeocodeResult {
+  return {
+    latitude: entry.latitude,
+    longitude: entry.longitude,
+    confidence,
+    matchedName: entry.name,
+    matchedKind: entry.kind,
+  };
+}
+
+function lowerConfidence(confidence: GeocodeConfidence): GeocodeConfidence {
+  return confidence === 'high' ? 'medium' : 'low';
+}
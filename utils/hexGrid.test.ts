@@ -0,0 +1,186 @@
+import {
+  MAX_HEX_CELLS,
+  countHexCellsInBounds,
+  hexBoundary,
+  hexCell,
+  hexCellAt,
+  hexCellsInBounds,
+  hexNeighbours,
+  hexParent,
+  hexWindows,
+  parseHexCellId,
+} from './hexGrid';
+import { GridConfig, detectHotspots, haversineDistance, hexGridConfig } from './geoUtils';
+import { FIR } from '../types';
+
+describe('hexGrid', () => {
+  const bounds = { minLat: 19.1, maxLat: 19.2, minLng: 72.8, maxLng: 72.9 };
+  const lattice = { sizeM: 500 };
+
+  // Distance in metres between two cells' centres
+  const distanceM = (a: { centerLat: number; centerLng: number }, b: typeof a) =>
+    haversineDistance(a.centerLat, a.centerLng, b.centerLat, b.centerLng) * 1000;
+
+  it('should place points in the cell whose centre is nearest', () => {
+    const cell = hexCellAt(lattice, 19.15, 72.85);
+
+    expect(hexCellAt(lattice, cell.centerLat, cell.centerLng).id).toBe(cell.id);
+    expect(distanceM(cell, { centerLat: 19.15, centerLng: 72.85 })).toBeLessThanOrEqual(
+      500 / Math.sqrt(3)
+    );
+    hexNeighbours(cell.id).forEach((id) => {
+      const { q, r } = parseHexCellId(id)!;
+      expect(distanceM(cell, { centerLat: 19.15, centerLng: 72.85 })).toBeLessThanOrEqual(
+        distanceM(hexCell(lattice, q, r), { centerLat: 19.15, centerLng: 72.85 })
+      );
+    });
+  });
+
+  it('should space all six neighbours at the cell size', () => {
+    const cell = hexCellAt(lattice, 19.15, 72.85);
+
+    hexNeighbours(cell.id).forEach((id) => {
+      const { q, r } = parseHexCellId(id)!;
+      expect(distanceM(cell, hexCell(lattice, q, r))).toBeCloseTo(500, -1);
+    });
+    expect(hexBoundary(lattice, cell.q, cell.r)).toHaveLength(6);
+  });
+
+  it('should give a cell ID the same ground whatever the bounds', () => {
+    // Centred a degree further north, so its middle rounds differently
+    const northward = { minLat: 19.1, maxLat: 20.2, minLng: 72.8, maxLng: 72.9 };
+    const centres = new Map(hexCellsInBounds(lattice, northward).map((cell) => [cell.id, cell]));
+
+    hexCellsInBounds(lattice, bounds).forEach((cell) => {
+      expect(centres.get(cell.id)).toEqual(cell);
+    });
+  });
+
+  it('should cover the bounds without gaps', () => {
+    const ids = new Set(hexCellsInBounds(lattice, bounds).map((cell) => cell.id));
+
+    expect(countHexCellsInBounds(lattice, bounds)).toBe(ids.size);
+
+    [19.1, 19.13, 19.2].forEach((latitude) => {
+      [72.8, 72.87, 72.9].forEach((longitude) => {
+        expect(ids.has(hexCellAt(lattice, latitude, longitude).id)).toBe(true);
+      });
+    });
+  });
+
+  it('should nest each cell in a parent twice its size', () => {
+    const parentLattice = { ...lattice, sizeM: 1000 };
+
+    expect(hexParent('HEX_500_4_-2')).toBe('HEX_1000_2_-1');
+    expect(hexParent(hexParent('HEX_250_8_-4')!)).toBe('HEX_1000_2_-1');
+    expect(hexParent('GRID_12')).toBeNull();
+
+    // A parent holds the centres of its children (edges included)
+    hexCellsInBounds(lattice, bounds).forEach((cell) => {
+      const { q, r } = parseHexCellId(hexParent(cell.id)!)!;
+      expect(distanceM(cell, hexCell(parentLattice, q, r))).toBeLessThanOrEqual(
+        (1000 / Math.sqrt(3)) * 1.001
+      );
+    });
+  });
+
+  it('should build windows of a cell and its neighbours in the list', () => {
+    const cells = hexCellsInBounds(lattice, bounds);
+    const windows = hexWindows(cells);
+    const inner = cells.findIndex((cell) => cell.id === hexCellAt(lattice, 19.15, 72.85).id);
+
+    expect(windows[inner]).toHaveLength(7);
+    expect(windows[0].length).toBeLessThan(7);
+    expect(hexWindows(cells, 2)[inner]).toHaveLength(19);
+  });
+
+  describe('detectHotspots', () => {
+    const fir = (id: string, latitude: number, longitude: number): FIR => ({
+      id,
+      crimeType: 'Theft',
+      date: new Date(2026, 0, 20),
+      time: '14:30',
+      latitude,
+      longitude,
+      area: 'Malad West',
+      zone: 'Zone 11',
+      policeStation: 'Malad PS',
+      isAccident: false,
+      isSensitiveZone: false,
+    });
+
+    const config: GridConfig = {
+      latGridSize: 0.01,
+      lngGridSize: 0.01,
+      ...bounds,
+      tessellation: 'hex',
+      hexSizeM: 500,
+    };
+
+    // Five FIRs at the centre of each cell around a market
+    const market = hexCellAt(lattice, 19.15, 72.85);
+    const firs = [market.id, ...hexNeighbours(market.id)].flatMap((id) => {
+      const { q, r } = parseHexCellId(id)!;
+      const cell = hexCell(lattice, q, r);
+      return [0, 1, 2, 3, 4].map((i) => fir(`${id}-${i}`, cell.centerLat, cell.centerLng));
+    });
+
+    it('should count FIRs in hexagons and score their neighbourhoods', () => {
+      const hotspots = detectHotspots(firs, config);
+      const centre = hotspots.find((h) => h.zoneId === market.id)!;
+
+      expect(hotspots).toHaveLength(7);
+      expect(centre.firCount).toBe(5);
+      expect(centre.giBin).toBe(3);
+      expect(centre.cellBoundary).toHaveLength(6);
+      expect(centre.zoneName).toBe(`Hex ${market.q},${market.r}`);
+    });
+
+    it('should keep cell IDs, centres and counts across runs over different bounds', () => {
+      const cells = (hotspots: ReturnType<typeof detectHotspots>) =>
+        Object.fromEntries(
+          hotspots.map((h) => [h.zoneId, [h.firCount, h.centerLat, h.centerLng]])
+        );
+
+      expect(cells(detectHotspots(firs, { ...config, maxLat: 20.2, maxLng: 73.0 }))).toEqual(
+        cells(detectHotspots(firs, config))
+      );
+    });
+
+    it('should build a hex config around the FIRs', () => {
+      const hexConfig = hexGridConfig([...firs, fir('X', NaN, NaN)], 250);
+
+      expect(hexConfig).toEqual(expect.objectContaining({ tessellation: 'hex', hexSizeM: 250 }));
+      expect(hexConfig.minLat).toBe(Math.min(...firs.map((f) => f.latitude)));
+      expect(hexConfig.maxLng).toBe(Math.max(...firs.map((f) => f.longitude)));
+      expect(detectHotspots(firs, hexConfig)[0].zoneId).toMatch(/^HEX_250_/);
+      expect(detectHotspots(firs, { ...config, tessellation: undefined })[0].zoneId).toMatch(
+        /^GRID_/
+      );
+    });
+
+    it('should leave a far-away outlier out of the hex config', () => {
+      // 200 FIRs around the market and one geocoded to 0°, 0°
+      const many = Array.from({ length: 200 }, (_, i) => ({
+        ...firs[i % firs.length],
+        id: `M${i}`,
+      }));
+      const hexConfig = hexGridConfig([...many, fir('NULL-ISLAND', 0, 0)], 250);
+
+      expect(hexConfig.hexSizeM).toBe(250);
+      expect(hexConfig.minLat).toBeGreaterThan(19);
+      expect(hexConfig.minLng).toBeGreaterThan(72);
+    });
+
+    it('should enlarge hexagons when an outlier stretches the area', () => {
+      const hexConfig = hexGridConfig([...firs, fir('NULL-ISLAND', 0, 0)], 250);
+
+      expect(hexConfig.minLat).toBe(0);
+      expect(hexConfig.hexSizeM).toBeGreaterThan(250);
+      expect(countHexCellsInBounds({ sizeM: hexConfig.hexSizeM! }, hexConfig)).toBeLessThanOrEqual(
+        MAX_HEX_CELLS
+      );
+      expect(detectHotspots(firs, hexConfig).length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { CellWindows } from './hotspotStatistics';
+import { SpatialBounds } from './spatialIndex';
+
+/**
+ * Hexagonal tessellation
+ *
+ * Pointy-top hexagons with sizeM metres between neighbouring centres, so
+ * all six neighbours are equally far away. Cells sit on a flat projection
+ * anchored at 0°, 0° and true to scale at HEX_REFERENCE_LAT, so a size
+ * always gives the same cells and an ID always names the same ground,
+ * whatever the data or bounds. Away from the reference latitude cells are
+ * stretched or squeezed east-west, by under 7% between 8° N and 28° N.
+ *
+ * Cell IDs are HEX_<sizeM>_<q>_<r>, with axial coordinates q and r. Every
+ * other centre of a lattice is a centre of the lattice twice the size, so
+ * hexParent (the cell of twice the size holding a cell's centre) walks up
+ * a hierarchy of sizes: 250 m cells roll up into 500 m, 1 km, and so on.
+ */
+
+export interface HexLattice {
+  sizeM: number; // Distance between neighbouring centres
+}
+
+export interface HexCell {
+  id: string;
+  q: number;
+  r: number;
+  centerLat: number;
+  centerLng: number;
+}
+
+export const DEFAULT_HEX_SIZE_M = 500;
+
+export const HEX_SIZE_CHOICES_M = [250, 500, 1000, 2000];
+
+// Latitude where every lattice is true to scale (the middle of India)
+export const HEX_REFERENCE_LAT = 20;
+
+// Hexagons are enlarged for large areas to keep the grid below this
+export const MAX_HEX_CELLS = 250000;
+
+// Metres per degree of latitude (haversineDistance's Earth radius)
+const M_PER_DEGREE = (Math.PI * 6371000) / 180;
+
+// Metres per degree of longitude at HEX_REFERENCE_LAT
+const M_PER_LNG_DEGREE = M_PER_DEGREE * Math.cos((HEX_REFERENCE_LAT * Math.PI) / 180);
+
+// Offsets of the six neighbours in axial coordinates
+const NEIGHBOUR_OFFSETS: [number, number][] = [
+  [1, 0],
+  [1, -1],
+  [0, -1],
+  [-1, 0],
+  [-1, 1],
+  [0, 1],
+];
+
+export const hexCellId = (sizeM: number, q: number, r: number): string =>
+  `HEX_${sizeM}_${q}_${r}`;
+
+/**
+ * Size and axial coordinates of a hex cell ID, or null for other IDs
+ */
+export const parseHexCellId = (id: string): { sizeM: number; q: number; r: number } | null => {
+  const match = /^HEX_([\d.]+)_(-?\d+)_(-?\d+)$/.exec(id);
+  return match ? { sizeM: Number(match[1]), q: Number(match[2]), r: Number(match[3]) } : null;
+};
+
+/**
+ * Cell holding a point
+ */
+export const hexCellAt = (lattice: HexLattice, latitude: number, longitude: number): HexCell => {
+  const { x, y } = project(latitude, longitude);
+  const rowHeight = (lattice.sizeM * Math.sqrt(3)) / 2;
+  const r = y / rowHeight;
+  const [q, roundedR] = roundAxial(x / lattice.sizeM - r / 2, r);
+  return hexCell(lattice, q, roundedR);
+};
+
+/**
+ * Cell at axial coordinates, with its centre
+ */
+export const hexCell = (lattice: HexLattice, q: number, r: number): HexCell => {
+  const { latitude, longitude } = unproject(
+    lattice.sizeM * (q + r / 2),
+    ((lattice.sizeM * Math.sqrt(3)) / 2) * r
+  );
+  return {
+    id: hexCellId(lattice.sizeM, q, r),
+    q,
+    r,
+    centerLat: latitude,
+    centerLng: longitude,
+  };
+};
+
+/**
+ * Corners of a cell as [latitude, longitude], counter-clockwise from the east
+ */
+export const hexBoundary = (lattice: HexLattice, q: number, r: number): [number, number][] => {
+  const centerX = lattice.sizeM * (q + r / 2);
+  const centerY = ((lattice.sizeM * Math.sqrt(3)) / 2) * r;
+  const radius = lattice.sizeM / Math.sqrt(3);
+
+  return [0, 1, 2, 3, 4, 5].map((corner) => {
+    const angle = ((60 * corner + 30) * Math.PI) / 180;
+    const { latitude, longitude } = unproject(
+      centerX + radius * Math.cos(angle),
+      centerY + radius * Math.sin(angle)
+    );
+    return [latitude, longitude];
+  });
+};
+
+/**
+ * Cells covering a box: every cell whose centre lies within a cell radius
+ * of it, row by row from the south-west
+ *
+ * Time Complexity: O(c) where c = cells returned
+ */
+export const hexCellsInBounds = (lattice: HexLattice, bounds: SpatialBounds): HexCell[] => {
+  const cells: HexCell[] = [];
+  forEachRowInBounds(lattice, bounds, (r, firstQ, lastQ) => {
+    for (let q = firstQ; q <= lastQ; q++) cells.push(hexCell(lattice, q, r));
+  });
+  return cells;
+};
+
+/**
+ * Number of cells hexCellsInBounds returns, without building them
+ *
+ * Time Complexity: O(rows)
+ */
+export const countHexCellsInBounds = (lattice: HexLattice, bounds: SpatialBounds): number => {
+  let count = 0;
+  forEachRowInBounds(lattice, bounds, (_, firstQ, lastQ) => {
+    count += Math.max(0, lastQ - firstQ + 1);
+  });
+  return count;
+};
+
+/**
+ * Windows of hex cells: each cell and those within radius steps of it
+ * that are in the list (6 neighbours for radius 1)
+ *
+ * Time Complexity: O(c × w) where c = cells, w = window size
+ */
+export const hexWindows = (cells: HexCell[], radius: number = 1): CellWindows => {
+  const positions = new Map<string, number>();
+  cells.forEach((cell, i) => positions.set(`${cell.q},${cell.r}`, i));
+
+  return cells.map((cell) => {
+    const window: number[] = [];
+    for (let dq = -radius; dq <= radius; dq++) {
+      for (let dr = Math.max(-radius, -dq - radius); dr <= Math.min(radius, -dq + radius); dr++) {
+        const position = positions.get(`${cell.q + dq},${cell.r + dr}`);
+        if (position !== undefined) window.push(position);
+      }
+    }
+    return window;
+  });
+};
+
+/**
+ * Neighbouring cell IDs of a cell ID
+ */
+export const hexNeighbours = (id: string): string[] => {
+  const cell = parseHexCellId(id);
+  if (!cell) return [];
+  return NEIGHBOUR_OFFSETS.map(([dq, dr]) => hexCellId(cell.sizeM, cell.q + dq, cell.r + dr));
+};
+
+/**
+ * ID of the cell twice the size holding a cell's centre, or null for
+ * other IDs
+ * Centres on an edge of the larger cell go to the cell rounding picks, so
+ * the parent is always the same
+ */
+export const hexParent = (id: string): string | null => {
+  const cell = parseHexCellId(id);
+  if (!cell) return null;
+
+  const [q, r] = roundAxial(cell.q / 2, cell.r / 2);
+  return hexCellId(cell.sizeM * 2, q, r);
+};
+
+/**
+ * Visits each row of cells covering a box with its range of q
+ */
+function forEachRowInBounds(
+  lattice: HexLattice,
+  bounds: SpatialBounds,
+  visit: (r: number, firstQ: number, lastQ: number) => void
+): void {
+  const margin = lattice.sizeM / Math.sqrt(3);
+  const southWest = project(bounds.minLat, bounds.minLng);
+  const northEast = project(bounds.maxLat, bounds.maxLng);
+  const rowHeight = (lattice.sizeM * Math.sqrt(3)) / 2;
+
+  const firstRow = Math.ceil((southWest.y - margin) / rowHeight);
+  const lastRow = Math.floor((northEast.y + margin) / rowHeight);
+  for (let r = firstRow; r <= lastRow; r++) {
+    visit(
+      r,
+      Math.ceil((southWest.x - margin) / lattice.sizeM - r / 2),
+      Math.floor((northEast.x + margin) / lattice.sizeM - r / 2)
+    );
+  }
+}
+
+/**
+ * Metres east and north of 0°, 0°
+ */
+function project(latitude: number, longitude: number): { x: number; y: number } {
+  return { x: longitude * M_PER_LNG_DEGREE, y: latitude * M_PER_DEGREE };
+}
+
+function unproject(x: number, y: number): { latitude: number; longitude: number } {
+  return { latitude: y / M_PER_DEGREE, longitude: x / M_PER_LNG_DEGREE };
+}
+
+/**
+ * Nearest cell to fractional axial coordinates (cube rounding)
+ */
+function roundAxial(q: number, r: number): [number, number] {
+  const s = -q - r;
+  let roundedQ = Math.round(q);
+  let roundedR = Math.round(r);
+  const roundedS = Math.round(s);
+
+  const dq = Math.abs(roundedQ - q);
+  const dr = Math.abs(roundedR - r);
+  const ds = Math.abs(roundedS - s);
+  if (dq > dr && dq > ds) roundedQ = -roundedR - roundedS;
+  else if (dr > ds) roundedR = -roundedQ - roundedS;
+
+  // Avoid -0 in IDs
+  return [roundedQ + 0, roundedR + 0];
+}
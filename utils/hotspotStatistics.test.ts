@@ -0,0 +1,131 @@
+import {
+  confidenceBin,
+  getisOrdGiStar,
+  localMoransI,
+  normalPValue,
+  squareWindows,
+} from './hotspotStatistics';
+import { GridConfig, detectHotspots } from './geoUtils';
+import { FIR } from '../types';
+
+describe('hotspotStatistics', () => {
+  // Row-major grid with a value at the given cells and 0 elsewhere
+  const grid = (rows: number, cols: number, cells: [number, number, number][]) => {
+    const values = new Array(rows * cols).fill(0);
+    cells.forEach(([row, col, value]) => {
+      values[row * cols + col] = value;
+    });
+    return values;
+  };
+
+  describe('getisOrdGiStar', () => {
+    it('should match a hand-worked z-score at a grid corner', () => {
+      const values = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+      const statistics = getisOrdGiStar(values, squareWindows(3, 3));
+
+      // Corner window {0, 1, 3, 4}: (8 - 4 × 4) / (2.582 × √((9 × 4 - 16) / 8))
+      expect(statistics[0].zScore).toBeCloseTo(-1.9596, 3);
+      expect(statistics[0].bin).toBe(-1); // Just short of 95%
+      expect(statistics[4].zScore).toBeCloseTo(0, 10); // The window is the whole grid
+    });
+
+    it('should find a hot spot at a cluster and a cold spot at a gap', () => {
+      const hot = getisOrdGiStar(
+        grid(9, 9, [
+          [4, 4, 9],
+          [4, 5, 8],
+          [5, 4, 7],
+          [3, 4, 8],
+        ]),
+        squareWindows(9, 9)
+      );
+      const cold = getisOrdGiStar(
+        grid(9, 9, []).map((_, i) => ([39, 40, 41, 30, 31, 32, 48, 49, 50].includes(i) ? 0 : 5)),
+        squareWindows(9, 9)
+      );
+
+      expect(hot[4 * 9 + 4].bin).toBe(3);
+      expect(hot[0].bin).toBe(0);
+      expect(cold[40].bin).toBe(-3);
+    });
+
+    it('should score a flat grid as not significant', () => {
+      getisOrdGiStar(new Array(16).fill(3), squareWindows(4, 4)).forEach((statistic) => {
+        expect(statistic).toEqual({ zScore: 0, pValue: expect.closeTo(1, 6), bin: 0 });
+      });
+    });
+  });
+
+  describe('localMoransI', () => {
+    it('should tell clusters from outliers', () => {
+      const values = grid(9, 9, [
+        [1, 1, 9], // Busy cell among quiet ones
+        [6, 6, 8],
+        [6, 7, 8],
+        [7, 6, 8],
+        [7, 7, 8],
+      ]);
+      const statistics = localMoransI(values, squareWindows(9, 9));
+
+      expect(statistics[1 * 9 + 1].cluster).toBe('high-low');
+      expect(statistics[6 * 9 + 6].cluster).toBe('high-high');
+      expect(statistics[6 * 9 + 6].index).toBeGreaterThan(0);
+      expect(statistics[4 * 9 + 4].cluster).toBeNull();
+    });
+  });
+
+  it('should convert z-scores to p-values and bins', () => {
+    expect(normalPValue(0)).toBeCloseTo(1, 6);
+    expect(normalPValue(1.96)).toBeCloseTo(0.05, 3);
+    expect(normalPValue(-2.576)).toBeCloseTo(0.01, 3);
+    expect([2.6, 2, 1.7, 1, -1.7, -2, -2.6].map(confidenceBin)).toEqual([3, 2, 1, 0, -1, -2, -3]);
+  });
+
+  describe('detectHotspots', () => {
+    const fir = (id: string, latitude: number, longitude: number): FIR => ({
+      id,
+      crimeType: 'Theft',
+      date: new Date(2026, 0, 20),
+      time: '14:30',
+      latitude,
+      longitude,
+      area: 'Malad West',
+      zone: 'Zone 11',
+      policeStation: 'Malad PS',
+      isAccident: false,
+      isSensitiveZone: false,
+    });
+
+    const config: GridConfig = {
+      latGridSize: 0.01,
+      lngGridSize: 0.01,
+      minLat: 19.1,
+      maxLat: 19.2,
+      minLng: 72.8,
+      maxLng: 72.9,
+    };
+
+    // Five FIRs in a cell, centred on a cell centre
+    const cell = (prefix: string, row: number, col: number) =>
+      [0, 1, 2, 3, 4].map((i) =>
+        fir(`${prefix}${i}`, 19.1 + (row + 0.5) * 0.01, 72.8 + (col + 0.5) * 0.01)
+      );
+
+    it('should tell a busy market from a busy cell in a quiet district', () => {
+      const market = [2, 3, 4].flatMap((row) =>
+        [2, 3, 4].flatMap((col) => cell(`M${row}${col}`, row, col))
+      );
+      const lone = cell('LONE', 8, 8);
+      const hotspots = detectHotspots([...market, ...lone], config);
+
+      const centre = hotspots.find((h) => h.zoneId === `GRID_${3 * 10 + 3}`)!;
+      const quiet = hotspots.find((h) => h.zoneId === `GRID_${8 * 10 + 8}`)!;
+
+      expect(centre.severity).toBe(quiet.severity);
+      expect(centre.giBin).toBe(3);
+      expect(quiet.giBin).toBe(0);
+      expect(quiet.giZScore!).toBeLessThan(centre.giZScore!);
+      expect(quiet.moranCluster).toBe('high-low');
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Local spatial statistics over grid cell counts
+ *
+ * Getis-Ord Gi*: compares the FIRs in a cell's neighbourhood (its window:
+ * the cell and those around it, see squareWindows and hexWindows) with
+ * what the whole grid would put there. A large positive z-score is a hot spot: a cluster of high
+ * counts, not just one busy cell. Negative z-scores are cold spots.
+ *
+ * Local Moran's I: tells high-high and low-low clusters apart from
+ * outliers (a busy cell among quiet ones, high-low, and the reverse).
+ *
+ * Both use binary weights over every cell, empty ones included, and
+ * two-sided p-values from the normal approximation (no correction for
+ * multiple testing).
+ */
+
+declare module '../types' {
+  interface Hotspot {
+    /** Getis-Ord Gi* z-score of the cell's neighbourhood */
+    giZScore?: number;
+    /** Two-sided p-value of giZScore */
+    giPValue?: number;
+    /** Hot (positive) or cold (negative) spot confidence bin; 0 when not significant */
+    giBin?: ConfidenceBin;
+    /** Local Moran's I cluster type, when significant at 95% */
+    moranCluster?: MoranCluster;
+  }
+}
+
+/**
+ * 3, 2, 1: hot spot at 99, 95 and 90% confidence; -1 to -3 likewise for
+ * cold spots; 0: not significant
+ */
+export type ConfidenceBin = -3 | -2 | -1 | 0 | 1 | 2 | 3;
+
+export const CONFIDENCE_BINS: ConfidenceBin[] = [3, 2, 1, 0, -1, -2, -3];
+
+export const CONFIDENCE_BIN_LABELS: { [bin: number]: string } = {
+  3: 'Hot spot (99%)',
+  2: 'Hot spot (95%)',
+  1: 'Hot spot (90%)',
+  0: 'Not significant',
+  [-1]: 'Cold spot (90%)',
+  [-2]: 'Cold spot (95%)',
+  [-3]: 'Cold spot (99%)',
+};
+
+export const CONFIDENCE_BIN_COLORS: { [bin: number]: string } = {
+  3: '#b2182b',
+  2: '#ef6548',
+  1: '#fdae61',
+  0: '#9e9e9e',
+  [-1]: '#abd9e9',
+  [-2]: '#74add1',
+  [-3]: '#4575b4',
+};
+
+export type MoranCluster = 'high-high' | 'low-low' | 'high-low' | 'low-high';
+
+/**
+ * Each cell's window: positions of the cell itself and its neighbours
+ */
+export type CellWindows = number[][];
+
+export interface GiStarStatistic {
+  zScore: number;
+  pValue: number;
+  bin: ConfidenceBin;
+}
+
+export interface MoranStatistic {
+  index: number; // Local I
+  zScore: number;
+  pValue: number;
+  cluster: MoranCluster | null; // null when not significant at 95%
+}
+
+// Two-sided critical z-scores for 99, 95 and 90% confidence
+const CRITICAL_Z: [number, number][] = [
+  [2.576, 3],
+  [1.96, 2],
+  [1.645, 1],
+];
+
+/**
+ * Windows of a row-major grid: cells within radius rows and columns
+ * (3 × 3 for radius 1, fewer at the edges)
+ *
+ * Time Complexity: O(g × w) where g = cells, w = window size
+ */
+export const squareWindows = (rows: number, cols: number, radius: number = 1): CellWindows => {
+  const windows: CellWindows = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cells: number[] = [];
+      for (let wr = Math.max(0, r - radius); wr <= Math.min(rows - 1, r + radius); wr++) {
+        for (let wc = Math.max(0, c - radius); wc <= Math.min(cols - 1, c + radius); wc++) {
+          cells.push(wr * cols + wc);
+        }
+      }
+      windows.push(cells);
+    }
+  }
+  return windows;
+};
+
+/**
+ * Gi* statistic of every cell
+ *
+ * Time Complexity: O(g × w) where g = cells, w = window size
+ */
+export const getisOrdGiStar = (
+  values: ArrayLike<number>,
+  windows: CellWindows
+): GiStarStatistic[] => {
+  const n = values.length;
+  const mean = sum(values) / n;
+  const sd = Math.sqrt(Math.max(0, sumOfSquares(values) / n - mean * mean));
+  const windowSum = windowSums(values, windows);
+
+  return windows.map((cells, i) => {
+    const weights = cells.length; // Binary, so Σw = Σw²
+    const denominator = sd * Math.sqrt((n * weights - weights * weights) / (n - 1));
+    const zScore = denominator > 0 ? (windowSum[i] - mean * weights) / denominator : 0;
+    const pValue = normalPValue(zScore);
+
+    return { zScore, pValue, bin: confidenceBin(zScore) };
+  });
+};
+
+/**
+ * Local Moran's I of every cell, with the moments under randomization
+ * (Anselin 1995)
+ *
+ * Time Complexity: O(g × w) where g = cells, w = window size
+ */
+export const localMoransI = (
+  values: ArrayLike<number>,
+  windows: CellWindows
+): MoranStatistic[] => {
+  const n = values.length;
+  const mean = sum(values) / n;
+  const deviations = Array.from(values, (value) => value - mean);
+  const m2 = sumOfSquares(deviations) / n;
+  const m4 = deviations.reduce((total, z) => total + z * z * z * z, 0) / n;
+  const b2 = m2 > 0 ? m4 / (m2 * m2) : 0;
+  const windowSum = windowSums(deviations, windows);
+
+  return deviations.map((z, i) => {
+    const weights = windows[i].length - 1; // Neighbours, self excluded
+    if (m2 === 0 || weights === 0 || n < 3) {
+      return { index: 0, zScore: 0, pValue: 1, cluster: null };
+    }
+
+    const index = (z / m2) * (windowSum[i] - z);
+    const expected = -weights / (n - 1);
+    const variance =
+      (weights * (n - b2)) / (n - 1) +
+      ((weights * weights - weights) * (2 * b2 - n)) / ((n - 1) * (n - 2)) -
+      (weights * weights) / ((n - 1) * (n - 1));
+    const zScore = variance > 0 ? (index - expected) / Math.sqrt(variance) : 0;
+    const pValue = normalPValue(zScore);
+
+    // Quadrant of the cell and its neighbours against the mean
+    let cluster: MoranCluster | null = null;
+    if (pValue < 0.05) {
+      const lag = windowSum[i] - z;
+      cluster = `${z > 0 ? 'high' : 'low'}-${lag > 0 ? 'high' : 'low'}` as MoranCluster;
+    }
+
+    return { index, zScore, pValue, cluster };
+  });
+};
+
+/**
+ * Two-sided p-value of a standard normal z-score
+ */
+export const normalPValue = (zScore: number): number =>
+  Math.min(1, Math.max(0, 1 - erf(Math.abs(zScore) / Math.SQRT2)));
+
+/**
+ * Confidence bin of a z-score
+ */
+export const confidenceBin = (zScore: number): ConfidenceBin => {
+  const critical = CRITICAL_Z.find(([z]) => Math.abs(zScore) >= z);
+  if (!critical) return 0;
+  return (zScore > 0 ? critical[1] : -critical[1]) as ConfidenceBin;
+};
+
+/**
+ * Error function (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+function erf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * x);
+  const polynomial =
+    t *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return 1 - polynomial * Math.exp(-x * x);
+}
+
+/**
+ * Sum of the values over each cell's window
+ */
+function windowSums(values: ArrayLike<number>, windows: CellWindows): Float64Array {
+  return Float64Array.from(windows, (cells) =>
+    cells.reduce((total, position) => total + values[position], 0)
+  );
+}
+
+function sum(values: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < values.length; i++) total += values[i];
+  return total;
+}
+
+function sumOfSquares(values: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < values.length; i++) total += values[i] * values[i];
+  return total;
+}
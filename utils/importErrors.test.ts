@@ -0,0 +1,182 @@
+import {
+  buildFIRCSV,
+  buildRejectCSV,
+  firToFields,
+  formatImportError,
+  groupImportErrors,
+  ImportError,
+  RecordError,
+  RejectedRow,
+  toImportError,
+} from './importErrors';
+import { parseCSV } from './csvParser';
+import { FIR } from '../types';
+
+describe('importErrors', () => {
+  const latitudeError: ImportError = {
+    row: 3,
+    column: 'latitude',
+    code: 'INVALID_LATITUDE',
+    value: 'abc',
+    message: 'Invalid latitude: abc',
+  };
+
+  const dateError: ImportError = {
+    row: 5,
+    column: 'date',
+    code: 'INVALID_DATE',
+    value: '31/02/2026',
+    message: 'Invalid date format: 31/02/2026',
+  };
+
+  describe('toImportError', () => {
+    it('should keep the details of a RecordError', () => {
+      const error = toImportError(
+        new RecordError('INVALID_TIME', 'Invalid time format: 25:00', 'time', '25:00'),
+        7
+      );
+
+      expect(error).toEqual({
+        row: 7,
+        column: 'time',
+        code: 'INVALID_TIME',
+        value: '25:00',
+        message: 'Invalid time format: 25:00',
+      });
+    });
+
+    it('should classify unexpected errors as PARSE_ERROR', () => {
+      expect(toImportError(new Error('boom'), 2)).toEqual(
+        expect.objectContaining({ row: 2, code: 'PARSE_ERROR', message: 'boom' })
+      );
+    });
+  });
+
+  describe('formatImportError', () => {
+    it('should prefix row errors with the row number', () => {
+      expect(formatImportError(latitudeError)).toBe('Row 3: Invalid latitude: abc');
+      expect(formatImportError({ ...latitudeError, row: null })).toBe(
+        'Invalid latitude: abc'
+      );
+    });
+  });
+
+  describe('groupImportErrors', () => {
+    it('should count errors per code, most frequent first', () => {
+      const rejected: RejectedRow[] = [
+        { row: 3, fields: {}, errors: [latitudeError] },
+        { row: 5, fields: {}, errors: [dateError] },
+        { row: 8, fields: {}, errors: [{ ...latitudeError, row: 8 }] },
+      ];
+
+      const groups = groupImportErrors(rejected);
+
+      expect(groups.map((g) => [g.code, g.count, g.rows])).toEqual([
+        ['INVALID_LATITUDE', 2, [3, 8]],
+        ['INVALID_DATE', 1, [5]],
+      ]);
+      expect(groups[0].label).toBe('Invalid latitude');
+      expect(groups[0].example).toBe(latitudeError);
+    });
+  });
+
+  describe('firToFields', () => {
+    it('should write FIR values under canonical field keys', () => {
+      const fir: FIR = {
+        id: 'FIR001',
+        crimeType: 'Theft',
+        date: new Date(2026, 0, 20),
+        time: '14:30',
+        latitude: 19.1776,
+        longitude: 72.8298,
+        area: 'Malad West',
+        zone: 'Zone 11',
+        policeStation: 'Malad PS',
+        isAccident: false,
+        isSensitiveZone: true,
+      };
+
+      expect(firToFields(fir)).toEqual({
+        id: 'FIR001',
+        crimetype: 'Theft',
+        date: '2026-01-20',
+        time: '14:30',
+        latitude: '19.1776',
+        longitude: '72.8298',
+        area: 'Malad West',
+        zone: 'Zone 11',
+        policestation: 'Malad PS',
+        isaccident: 'false',
+        issensitivezone: 'true',
+      });
+    });
+  });
+
+  describe('buildRejectCSV', () => {
+    it('should write FIR columns, extra columns and an error column', () => {
+      const csv = buildRejectCSV([
+        {
+          row: 3,
+          fields: { id: 'FIR002', latitude: 'abc', description: 'Bag, phone', beat: 'B4' },
+          errors: [latitudeError],
+        },
+      ]);
+
+      const [header, line] = csv.split('\n');
+      expect(header).toBe(
+        'id,crimeType,date,time,latitude,longitude,area,zone,policeStation,description,isAccident,isSensitiveZone,reportedAt,updatedAt,geocodeConfidence,geocodeMatch,beat,source_row,error'
+      );
+      expect(line).toBe('FIR002,,,,abc,,,,,"Bag, phone",,,,,,,B4,3,Invalid latitude: abc');
+    });
+
+    it('should produce a file that imports again once corrected', () => {
+      const source = `FIR No,Offence Head,date,time,Lat,Long,area,zone,PS Name
+FIR001,Theft,2026-01-20,14:30,abc,72.8298,Malad West,Zone 11,Malad PS`;
+      const { rejected } = parseCSV(source);
+
+      const corrected = buildRejectCSV(rejected).replace(',abc,', ',19.1776,');
+      const { records, errors } = parseCSV(corrected);
+
+      expect(errors).toHaveLength(0);
+      expect(records[0]).toEqual(
+        expect.objectContaining({ id: 'FIR001', latitude: 19.1776, policeStation: 'Malad PS' })
+      );
+      expect(records[0].attributes).toBeUndefined();
+    });
+  });
+
+  describe('buildFIRCSV', () => {
+    it('should round-trip FIR fields and custom attributes', () => {
+      const source = `FIR No,Offence Head,date,time,Lat,Long,area,zone,PS Name,IPC Section,Victim Age,Arrested,Arrest Date
+FIR001,Theft,20/01/2026,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS,"379, 411",34,yes,22/01/2026
+FIR002,Robbery,21/01/2026,09:15,19.1865,72.8486,Malad East,Zone 11,Kurar PS,392,,no,`;
+      const { records } = parseCSV(source, { dateFormat: 'DMY' });
+
+      const csv = buildFIRCSV(records);
+      const reimported = parseCSV(csv);
+
+      expect(csv.split('\n')[0]).toBe(
+        'id,crimeType,date,time,latitude,longitude,area,zone,policeStation,description,isAccident,isSensitiveZone,reportedAt,updatedAt,geocodeConfidence,geocodeMatch,ipc section,victim age,arrested,arrest date'
+      );
+      expect(reimported.errors).toHaveLength(0);
+      expect(reimported.records).toEqual(records);
+      expect(records[0].attributes).toEqual({
+        'ipc section': '379, 411',
+        'victim age': 34,
+        arrested: true,
+        'arrest date': new Date(2026, 0, 22),
+      });
+    });
+
+    it('should keep the geocode flag of approximate locations', () => {
+      const source = `id,crimeType,date,time,latitude,longitude,area,zone,policeStation
+FIR001,Theft,2026-01-20,14:30,,,Marve Road,Zone 11,Malad PS`;
+      const { records } = parseCSV(source);
+
+      const csv = buildFIRCSV(records);
+
+      expect(csv.split('\n')[1]).toContain(',high,Marve Road');
+      expect(parseCSV(csv).records).toEqual(records);
+    });
+  });
+});
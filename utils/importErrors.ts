@@ -0,0 +1,314 @@
+import { FIR } from '../types';
+import { FIR_FIELDS } from './columnMapping';
+import { toCSV } from './csvWriter';
+import { formatAttributeValue } from './firAttributes';
+import { formatDateTimeValue } from './incidentTime';
+
+/**
+ * Structured import errors
+ *
+ * Every problem found while importing FIR data is reported with the source
+ * row, the field it concerns, a stable code, the offending value and a
+ * readable message. Rows that could not be imported are kept with their
+ * field values so they can be written back out as a reject file, corrected
+ * and uploaded again.
+ */
+
+export type ImportErrorCode =
+  | 'EMPTY_FILE'
+  | 'NO_DATA_ROWS'
+  | 'MISSING_HEADERS'
+  | 'UNREADABLE_FILE'
+  | 'SHEET_NOT_FOUND'
+  | 'UNTERMINATED_QUOTE'
+  | 'INVALID_JSON'
+  | 'INVALID_GEOMETRY'
+  | 'REQUIRED_FIELD'
+  | 'INVALID_DATE'
+  | 'FUTURE_DATE'
+  | 'INVALID_TIME'
+  | 'INVALID_LATITUDE'
+  | 'INVALID_LONGITUDE'
+  | 'LOCATION_NOT_FOUND'
+  | 'INVALID_BOOLEAN'
+  | 'INVALID_VALUE'
+  | 'NOT_ALLOWED'
+  | 'OUT_OF_BOUNDS'
+  | 'OUTSIDE_BOUNDARY'
+  | 'PARSE_ERROR';
+
+export const IMPORT_ERROR_LABELS: { [code in ImportErrorCode]: string } = {
+  EMPTY_FILE: 'Empty file',
+  NO_DATA_ROWS: 'No data rows',
+  MISSING_HEADERS: 'Missing required columns',
+  UNREADABLE_FILE: 'Unreadable file',
+  SHEET_NOT_FOUND: 'Sheet not found',
+  UNTERMINATED_QUOTE: 'Unterminated quoted field',
+  INVALID_JSON: 'Invalid JSON',
+  INVALID_GEOMETRY: 'Unsupported geometry',
+  REQUIRED_FIELD: 'Required field missing',
+  INVALID_DATE: 'Invalid date',
+  FUTURE_DATE: 'Date in the future',
+  INVALID_TIME: 'Invalid time',
+  INVALID_LATITUDE: 'Invalid latitude',
+  INVALID_LONGITUDE: 'Invalid longitude',
+  LOCATION_NOT_FOUND: 'Location not in gazetteer',
+  INVALID_BOOLEAN: 'Invalid yes/no value',
+  INVALID_VALUE: 'Invalid value',
+  NOT_ALLOWED: 'Value not allowed',
+  OUT_OF_BOUNDS: 'Outside jurisdiction bounds',
+  OUTSIDE_BOUNDARY: 'Outside declared boundary',
+  PARSE_ERROR: 'Unreadable row',
+};
+
+/**
+ * A problem with one field of a record
+ * column is the canonical field key (see FIR_FIELDS); null when the
+ * problem is not tied to a single field
+ */
+export interface FieldError {
+  code: ImportErrorCode;
+  column: string | null;
+  value: string | null;
+  message: string;
+}
+
+/**
+ * A field error located in the source file
+ * row is the physical row where the record starts; null for file-level errors
+ */
+export interface ImportError extends FieldError {
+  row: number | null;
+}
+
+/**
+ * A source row that was not imported
+ * fields holds the row's values keyed by canonical field key; columns
+ * the importer doesn't recognize keep their lowercased header name
+ */
+export interface RejectedRow {
+  row: number | null;
+  fields: { [column: string]: string };
+  errors: ImportError[];
+}
+
+/**
+ * Error counts for one error code, with the rows it affects
+ * and its first occurrence as an example
+ */
+export interface ImportErrorGroup {
+  code: ImportErrorCode;
+  label: string;
+  count: number;
+  rows: number[];
+  example: ImportError;
+}
+
+/**
+ * Thrown by record converters to reject a row with a typed error
+ */
+export class RecordError extends Error {
+  constructor(
+    readonly code: ImportErrorCode,
+    message: string,
+    readonly column: string | null = null,
+    readonly value: string | null = null
+  ) {
+    super(message);
+    this.name = 'RecordError';
+  }
+}
+
+/**
+ * Builds an error that applies to the whole file rather than a row
+ */
+export const fileError = (
+  code: ImportErrorCode,
+  message: string
+): ImportError => ({ row: null, column: null, code, value: null, message });
+
+/**
+ * Converts a caught exception into an ImportError for the given row
+ */
+export const toImportError = (error: unknown, row: number | null): ImportError => {
+  if (error instanceof RecordError) {
+    return {
+      row,
+      column: error.column,
+      code: error.code,
+      value: error.value,
+      message: error.message,
+    };
+  }
+
+  return {
+    row,
+    column: null,
+    code: 'PARSE_ERROR',
+    value: null,
+    message: error instanceof Error ? error.message : 'Unknown error',
+  };
+};
+
+/**
+ * One-line form used in banners and logs: "Row 4: Invalid latitude: x"
+ */
+export const formatImportError = (error: ImportError): string =>
+  error.row !== null ? `Row ${error.row}: ${error.message}` : error.message;
+
+/**
+ * Writes a FIR back into canonical field values for the reject file
+ * Custom attributes follow under their own column names
+ */
+export const firToFields = (fir: FIR): { [column: string]: string } => {
+  const fields: { [column: string]: string } = {};
+
+  FIR_FIELDS.forEach((field) => {
+    const value = (fir as unknown as Record<string, unknown>)[field.property];
+    if (value === undefined || value === null) return;
+
+    if (value instanceof Date && !isNaN(value.getTime())) {
+      // The incident date is a calendar date; other dates are instants
+      fields[field.key] =
+        field.key === 'date' ? formatLocalDate(value) : formatDateTimeValue(value);
+    } else {
+      fields[field.key] = String(value);
+    }
+  });
+
+  Object.entries(fir.attributes || {}).forEach(([name, value]) => {
+    fields[name] = formatAttributeValue(value);
+  });
+
+  return fields;
+};
+
+/**
+ * Groups the errors of rejected rows by code, most frequent first
+ */
+export const groupImportErrors = (rejected: RejectedRow[]): ImportErrorGroup[] =>
+  groupErrorsByCode(rejected.flatMap(({ errors }) => errors));
+
+/**
+ * Groups errors (or validation warnings) by code, most frequent first
+ *
+ * Time Complexity: O(e log e) where e = number of errors
+ */
+export const groupErrorsByCode = (errors: ImportError[]): ImportErrorGroup[] => {
+  const groups = new Map<ImportErrorCode, ImportErrorGroup>();
+
+  errors.forEach((error) => {
+    let group = groups.get(error.code);
+    if (!group) {
+      group = {
+        code: error.code,
+        label: IMPORT_ERROR_LABELS[error.code],
+        count: 0,
+        rows: [],
+        example: error,
+      };
+      groups.set(error.code, group);
+    }
+
+    group.count++;
+    if (error.row !== null && group.rows[group.rows.length - 1] !== error.row) {
+      group.rows.push(error.row);
+    }
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+};
+
+// Columns appended to every reject file
+const REJECT_ROW_COLUMN = 'source_row';
+const REJECT_ERROR_COLUMN = 'error';
+
+/**
+ * Builds a CSV of rejected rows that can be corrected and uploaded again
+ *
+ * Known fields are written under their FIR column names (which the importer
+ * recognizes), followed by any other columns from the source file, the
+ * source row number and an error column describing every problem in the row.
+ *
+ * Time Complexity: O(r × c) where r = rejected rows, c = columns
+ */
+export const buildRejectCSV = (rejected: RejectedRow[]): string => {
+  const known = FIR_FIELDS.map((field) => field.key);
+  const extra = collectExtraColumns(
+    rejected.map(({ fields }) => fields),
+    [REJECT_ROW_COLUMN, REJECT_ERROR_COLUMN]
+  );
+
+  const header = [
+    ...FIR_FIELDS.map((field) => field.property),
+    ...extra,
+    REJECT_ROW_COLUMN,
+    REJECT_ERROR_COLUMN,
+  ];
+
+  const lines = rejected.map(({ row, fields, errors }) => [
+    ...known.map((column) => fields[column] || ''),
+    ...extra.map((column) => fields[column] || ''),
+    row !== null ? String(row) : '',
+    errors.map((error) => error.message).join('; '),
+  ]);
+
+  return toCSV(header, lines);
+};
+
+/**
+ * Lays FIR records out as export columns and rows
+ * FIR fields come first under their property names, then every custom
+ * attribute found in the records. Shared by the CSV and workbook exports.
+ *
+ * Time Complexity: O(n × c) where n = records, c = columns
+ */
+export const buildFIRTable = (firs: FIR[]): { header: string[]; rows: string[][] } => {
+  const known = FIR_FIELDS.map((field) => field.key);
+  const fields = firs.map(firToFields);
+  const extra = collectExtraColumns(fields, []);
+
+  return {
+    header: [...FIR_FIELDS.map((field) => field.property), ...extra],
+    rows: fields.map((values) =>
+      [...known, ...extra].map((column) => values[column] || '')
+    ),
+  };
+};
+
+/**
+ * Builds a CSV of FIR records that imports back unchanged
+ */
+export const buildFIRCSV = (firs: FIR[]): string => {
+  const { header, rows } = buildFIRTable(firs);
+  return toCSV(header, rows);
+};
+
+/**
+ * Columns beyond the FIR fields, in order of first appearance
+ */
+function collectExtraColumns(
+  rows: { [column: string]: string }[],
+  exclude: string[]
+): string[] {
+  const known = FIR_FIELDS.map((field) => field.key);
+  const extra: string[] = [];
+
+  rows.forEach((fields) => {
+    Object.keys(fields).forEach((column) => {
+      if (
+        !known.includes(column) &&
+        !extra.includes(column) &&
+        !exclude.includes(column)
+      ) {
+        extra.push(column);
+      }
+    });
+  });
+
+  return extra;
+}
+
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,165 @@
+import {
+  StagedRow,
+  applyConflictPolicy,
+  buildChangeReportCSV,
+  countStagedRows,
+  diffFIRFields,
+  stageRecords,
+} from './importStaging';
+import { FIR } from '../types';
+
+describe('importStaging', () => {
+  const fir: FIR = {
+    id: 'FIR001',
+    crimeType: 'Theft',
+    date: new Date(2026, 0, 20),
+    time: '14:30',
+    latitude: 19.1776,
+    longitude: 72.8298,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: false,
+  };
+
+  describe('diffFIRFields', () => {
+    it('should treat equal dates and numbers as unchanged', () => {
+      expect(diffFIRFields(fir, { ...fir, date: new Date(2026, 0, 20) })).toEqual([]);
+    });
+
+    it('should list the changed fields with both values', () => {
+      expect(
+        diffFIRFields(fir, { ...fir, time: '15:00', policeStation: 'Kurar PS' })
+      ).toEqual([
+        { field: 'time', from: '14:30', to: '15:00' },
+        { field: 'policestation', from: 'Malad PS', to: 'Kurar PS' },
+      ]);
+    });
+
+    it('should compare custom attributes after the FIR fields', () => {
+      expect(
+        diffFIRFields(
+          { ...fir, attributes: { 'fir status': 'Open' } },
+          { ...fir, attributes: { 'fir status': 'Closed', 'weapon used': 'Knife' } }
+        )
+      ).toEqual([
+        { field: 'fir status', from: 'Open', to: 'Closed' },
+        { field: 'weapon used', from: '', to: 'Knife' },
+      ]);
+    });
+
+    it('should ignore the Last Updated time', () => {
+      expect(
+        diffFIRFields(fir, { ...fir, updatedAt: new Date('2026-01-21T00:00:00Z') })
+      ).toEqual([]);
+    });
+  });
+
+  describe('stageRecords', () => {
+    it('should classify new, duplicate and conflicting records', () => {
+      const index = new Map([[fir.id, fir]]);
+
+      const staged = stageRecords(
+        [{ ...fir }, { ...fir, area: 'Malad East' }, { ...fir, id: 'FIR002' }],
+        [2, 3, 4],
+        index
+      );
+
+      expect(staged.map((s) => [s.row, s.status, s.included])).toEqual([
+        [2, 'duplicate', false],
+        [3, 'conflict', false],
+        [4, 'new', true],
+      ]);
+      expect(staged[1].changes).toEqual([
+        { field: 'area', from: 'Malad West', to: 'Malad East' },
+      ]);
+      expect(staged[1].existing).toEqual(fir);
+      expect(staged.map((s) => s.needsReview)).toEqual([false, true, false]);
+    });
+
+    it('should compare repeated IDs within a file with the earlier row', () => {
+      const staged = stageRecords(
+        [fir, { ...fir, zone: 'Zone 12' }],
+        [2, 3],
+        new Map()
+      );
+
+      expect(staged.map((s) => s.status)).toEqual(['new', 'conflict']);
+      expect(staged[1].existing).toBe(fir);
+      expect(countStagedRows(staged)).toEqual({ new: 1, duplicate: 0, conflict: 1 });
+    });
+  });
+
+  describe('applyConflictPolicy', () => {
+    const older = { ...fir, updatedAt: new Date('2026-01-20T10:00:00Z') };
+    const newer = { ...fir, updatedAt: new Date('2026-01-21T10:00:00Z') };
+
+    const stageConflict = (existing: FIR, incoming: FIR): StagedRow[] =>
+      stageRecords(
+        [{ ...incoming, id: 'FIR002' }, { ...incoming, area: 'Malad East' }],
+        [2, 3],
+        new Map([[fir.id, existing]])
+      );
+
+    const decisions = (staged: StagedRow[]) =>
+      staged.map((s) => [s.status, s.included, s.needsReview]);
+
+    it('should keep existing records or overwrite them', () => {
+      const staged = stageConflict(fir, fir);
+
+      expect(decisions(applyConflictPolicy(staged, 'keep-existing'))).toEqual([
+        ['new', true, false],
+        ['conflict', false, false],
+      ]);
+      expect(decisions(applyConflictPolicy(staged, 'overwrite'))).toEqual([
+        ['new', true, false],
+        ['conflict', true, false],
+      ]);
+    });
+
+    it('should leave every conflict for review when manual', () => {
+      const staged = applyConflictPolicy(stageConflict(fir, fir), 'overwrite');
+
+      expect(decisions(applyConflictPolicy(staged, 'manual'))[1]).toEqual([
+        'conflict',
+        false,
+        true,
+      ]);
+    });
+
+    it('should apply the incoming record only when it is newer', () => {
+      expect(
+        applyConflictPolicy(stageConflict(older, newer), 'newest-wins')[1].included
+      ).toBe(true);
+      expect(
+        applyConflictPolicy(stageConflict(newer, older), 'newest-wins')[1].included
+      ).toBe(false);
+    });
+
+    it('should flag conflicts without both Last Updated times for review', () => {
+      const staged = applyConflictPolicy(stageConflict(fir, newer), 'newest-wins');
+
+      expect(decisions(staged)[1]).toEqual(['conflict', false, true]);
+    });
+  });
+
+  describe('buildChangeReportCSV', () => {
+    it('should list each changed field with the decision', () => {
+      const staged = applyConflictPolicy(
+        stageRecords(
+          [{ ...fir, area: 'Malad East', crimeType: 'Theft, Mobile' }],
+          [7],
+          new Map([[fir.id, fir]])
+        ),
+        'overwrite'
+      );
+
+      expect(buildChangeReportCSV(staged).split('\n')).toEqual([
+        'id,source_row,field,existing,incoming,decision',
+        'FIR001,7,crimeType,Theft,"Theft, Mobile",applied',
+        'FIR001,7,area,Malad West,Malad East,applied',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { FIR } from '../types';
+import { FIR_FIELDS } from './columnMapping';
+import { toCSV } from './csvWriter';
+import { firToFields } from './importErrors';
+
+/**
+ * Import staging
+ *
+ * Parsed and validated records are held in a preview before anything is
+ * added to the working dataset. Each record is classified against the
+ * records already loaded (and earlier rows of the same file):
+ * - new: the FIR ID isn't known yet
+ * - duplicate: same FIR ID with identical field values
+ * - conflict: same FIR ID with different field values
+ *
+ * Conflicts come from stations re-exporting corrected FIRs under the same
+ * ID. A conflict policy decides which version is kept; the field-level
+ * changes are reported either way.
+ *
+ * Invalid rows are kept separately as rejected rows (see importErrors).
+ */
+
+declare module '../types' {
+  interface FIR {
+    /** Last modification time in the source system, when exported */
+    updatedAt?: Date;
+  }
+}
+
+export type StagedStatus = 'new' | 'duplicate' | 'conflict';
+
+/**
+ * How records that conflict with a loaded FIR ID are resolved
+ * - keep-existing: ignore the incoming version
+ * - overwrite: replace the loaded record
+ * - newest-wins: keep whichever has the later Last Updated time
+ * - manual: leave every conflict for review in the preview
+ */
+export type ConflictPolicy =
+  | 'keep-existing'
+  | 'overwrite'
+  | 'newest-wins'
+  | 'manual';
+
+export const CONFLICT_POLICY_LABELS: { [policy in ConflictPolicy]: string } = {
+  'keep-existing': 'Keep existing',
+  overwrite: 'Overwrite',
+  'newest-wins': 'Newest wins',
+  manual: 'Review manually',
+};
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'manual';
+
+/**
+ * A field whose value differs between the loaded and incoming record
+ * Values are in their written (CSV) form
+ */
+export interface FieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * A valid record waiting to be committed
+ * - existing: the record it duplicates or conflicts with
+ * - changes: fields whose values differ from existing
+ * - included: whether the record is committed (new rows by default;
+ *   conflicts as decided by the conflict policy)
+ * - needsReview: the policy could not decide this conflict
+ */
+export interface StagedRow {
+  row: number | null;
+  fir: FIR;
+  status: StagedStatus;
+  existing?: FIR;
+  changes: FieldChange[];
+  included: boolean;
+  needsReview: boolean;
+}
+
+// Fields that describe the export rather than the incident
+const METADATA_FIELDS = ['updatedat'];
+
+/**
+ * Fields whose values differ between two records
+ * Compared in their written (CSV) form, so equal dates and numbers match;
+ * the Last Updated time alone doesn't make records differ. Custom
+ * attributes are compared after the FIR fields.
+ *
+ * Time Complexity: O(f) where f = number of fields and attributes
+ */
+export const diffFIRFields = (existing: FIR, incoming: FIR): FieldChange[] => {
+  const before = firToFields(existing);
+  const after = firToFields(incoming);
+
+  const columns = FIR_FIELDS.map((field) => field.key);
+  [...Object.keys(before), ...Object.keys(after)].forEach((column) => {
+    if (!columns.includes(column)) columns.push(column);
+  });
+
+  return columns
+    .filter((column) => !METADATA_FIELDS.includes(column))
+    .map((column) => ({
+      field: column,
+      from: before[column] || '',
+      to: after[column] || '',
+    }))
+    .filter((change) => change.from !== change.to);
+};
+
+/**
+ * Classifies records against an index of known records by FIR ID
+ * Staged records are added to the index so later rows of the same file
+ * are compared with earlier ones. Conflicts are left for review until a
+ * policy is applied with applyConflictPolicy.
+ *
+ * Time Complexity: O(n × f) where n = records, f = FIR fields
+ */
+export const stageRecords = (
+  records: FIR[],
+  rows: number[],
+  index: Map<string, FIR>
+): StagedRow[] =>
+  records.map((fir, i) => {
+    const row = rows[i] ?? null;
+    const existing = index.get(fir.id);
+    index.set(fir.id, fir);
+
+    if (!existing) {
+      return {
+        row,
+        fir,
+        status: 'new',
+        changes: [],
+        included: true,
+        needsReview: false,
+      };
+    }
+
+    const changes = diffFIRFields(existing, fir);
+    return {
+      row,
+      fir,
+      status: changes.length === 0 ? 'duplicate' : 'conflict',
+      existing,
+      changes,
+      included: false,
+      needsReview: changes.length > 0,
+    };
+  });
+
+/**
+ * Re-resolves every conflict with a different policy
+ * New and duplicate rows are returned unchanged
+ */
+export const applyConflictPolicy = (
+  staged: StagedRow[],
+  policy: ConflictPolicy
+): StagedRow[] =>
+  staged.map((row) =>
+    row.status === 'conflict' ? resolveConflict(row, policy) : row
+  );
+
+function resolveConflict(row: StagedRow, policy: ConflictPolicy): StagedRow {
+  switch (policy) {
+    case 'keep-existing':
+      return { ...row, included: false, needsReview: false };
+    case 'overwrite':
+      return { ...row, included: true, needsReview: false };
+    case 'newest-wins': {
+      const incoming = row.fir.updatedAt?.getTime();
+      const existing = row.existing?.updatedAt?.getTime();
+      if (incoming === undefined || existing === undefined) {
+        // Without both timestamps there is no newest; leave it to the user
+        return { ...row, included: false, needsReview: true };
+      }
+      return { ...row, included: incoming > existing, needsReview: false };
+    }
+    case 'manual':
+      return { ...row, included: false, needsReview: true };
+  }
+}
+
+/**
+ * Counts staged rows by status
+ */
+export const countStagedRows = (
+  staged: StagedRow[]
+): { [status in StagedStatus]: number } => {
+  const counts = { new: 0, duplicate: 0, conflict: 0 };
+  staged.forEach((row) => counts[row.status]++);
+  return counts;
+};
+
+/**
+ * Builds a CSV listing every changed field of the conflicting rows and
+ * whether the incoming value was applied
+ *
+ * Time Complexity: O(c × f) where c = conflicts, f = changed fields
+ */
+export const buildChangeReportCSV = (staged: StagedRow[]): string => {
+  const lines: string[][] = [];
+
+  staged.forEach(({ row, fir, status, changes, included }) => {
+    if (status !== 'conflict') return;
+
+    changes.forEach((change) => {
+      const field = FIR_FIELDS.find((f) => f.key === change.field);
+      lines.push([
+        fir.id,
+        row !== null ? String(row) : '',
+        field ? field.property : change.field,
+        change.from,
+        change.to,
+        included ? 'applied' : 'kept existing',
+      ]);
+    });
+  });
+
+  return toCSV(
+    ['id', 'source_row', 'field', 'existing', 'incoming', 'decision'],
+    lines
+  );
+};
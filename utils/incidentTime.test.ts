@@ -0,0 +1,166 @@
+import {
+  formatDateTimeValue,
+  formatTimeOfDay,
+  getIncidentParts,
+  parseDateTimeValue,
+  splitISOTimestamp,
+  parseTimeValue,
+  toIncidentTimestamp,
+  withIncidentTimestamp,
+} from './incidentTime';
+import { FIR } from '../types';
+
+describe('incidentTime', () => {
+  const baseFIR: FIR = {
+    id: 'FIR001',
+    crimeType: 'Theft',
+    date: new Date(2026, 0, 20),
+    time: '23:45',
+    latitude: 19.1776,
+    longitude: 72.8298,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: false,
+  };
+
+  describe('parseTimeValue', () => {
+    it('should parse 24-hour times with and without seconds', () => {
+      expect(parseTimeValue('14:30')).toEqual({ hours: 14, minutes: 30, seconds: 0 });
+      expect(parseTimeValue('14:30:45')).toEqual({ hours: 14, minutes: 30, seconds: 45 });
+      expect(parseTimeValue('9.15')).toEqual({ hours: 9, minutes: 15, seconds: 0 });
+    });
+
+    it('should parse 12-hour times', () => {
+      expect(parseTimeValue('2:30 PM')?.hours).toBe(14);
+      expect(parseTimeValue('2 pm')?.hours).toBe(14);
+      expect(parseTimeValue('12:05 a.m.')).toEqual({ hours: 0, minutes: 5, seconds: 0 });
+      expect(parseTimeValue('12:00 PM')?.hours).toBe(12);
+    });
+
+    it('should parse compact times', () => {
+      expect(parseTimeValue('1430')).toEqual({ hours: 14, minutes: 30, seconds: 0 });
+      expect(parseTimeValue('930')).toEqual({ hours: 9, minutes: 30, seconds: 0 });
+      expect(parseTimeValue('143045')).toEqual({ hours: 14, minutes: 30, seconds: 45 });
+    });
+
+    it('should reject out-of-range and malformed times', () => {
+      expect(parseTimeValue('25:70')).toBeNull();
+      expect(parseTimeValue('13:00 PM')).toBeNull();
+      expect(parseTimeValue('2460')).toBeNull();
+      expect(parseTimeValue('noon')).toBeNull();
+    });
+  });
+
+  describe('formatTimeOfDay', () => {
+    it('should zero-pad and include seconds only when present', () => {
+      expect(formatTimeOfDay({ hours: 9, minutes: 5, seconds: 0 })).toBe('09:05');
+      expect(formatTimeOfDay({ hours: 14, minutes: 30, seconds: 45 })).toBe('14:30:45');
+    });
+  });
+
+  describe('toIncidentTimestamp', () => {
+    it('should pin the wall-clock time to Asia/Kolkata', () => {
+      const timestamp = toIncidentTimestamp(new Date(2026, 0, 20), {
+        hours: 23,
+        minutes: 45,
+        seconds: 0,
+      });
+
+      expect(timestamp.toISOString()).toBe('2026-01-20T18:15:00.000Z');
+    });
+  });
+
+  describe('withIncidentTimestamp', () => {
+    it('should normalize the time and add incidentAt', () => {
+      const fir = withIncidentTimestamp({ ...baseFIR, time: '11:45 PM' });
+
+      expect(fir.time).toBe('23:45');
+      expect(fir.incidentAt?.toISOString()).toBe('2026-01-20T18:15:00.000Z');
+    });
+
+    it('should leave records with unparseable times unchanged', () => {
+      const fir = { ...baseFIR, time: 'unknown' };
+
+      expect(withIncidentTimestamp(fir)).toBe(fir);
+    });
+  });
+
+  describe('getIncidentParts', () => {
+    it('should read hour and weekday in IST from incidentAt', () => {
+      // 2026-01-20 23:45 IST is a Tuesday, whatever the runtime timezone
+      const parts = getIncidentParts({
+        ...baseFIR,
+        incidentAt: new Date('2026-01-20T18:15:00.000Z'),
+      });
+
+      expect(parts.hour).toBe(23);
+      expect(parts.minute).toBe(45);
+      expect(parts.weekday).toBe(2);
+      expect(parts.day).toBe(20);
+    });
+
+    it('should fall back to date and time fields', () => {
+      const parts = getIncidentParts({ ...baseFIR, time: '2:30 PM' });
+
+      expect(parts.hour).toBe(14);
+      expect(parts.weekday).toBe(baseFIR.date.getDay());
+    });
+
+    it('should report an unknown hour as null', () => {
+      expect(getIncidentParts({ ...baseFIR, time: '' }).hour).toBeNull();
+    });
+  });
+
+  describe('parseDateTimeValue', () => {
+    it('should read local date-times as IST', () => {
+      expect(parseDateTimeValue('20/01/2026 2:30 PM', 'DMY')?.toISOString()).toBe(
+        '2026-01-20T09:00:00.000Z'
+      );
+      expect(parseDateTimeValue('2026-01-20', 'DMY')?.toISOString()).toBe(
+        '2026-01-19T18:30:00.000Z'
+      );
+    });
+
+    it('should keep an explicit time zone', () => {
+      expect(
+        parseDateTimeValue('2026-01-20T14:30:00Z', 'DMY')?.toISOString()
+      ).toBe('2026-01-20T14:30:00.000Z');
+    });
+
+    it('should reject malformed values', () => {
+      expect(parseDateTimeValue('yesterday', 'DMY')).toBeNull();
+      expect(parseDateTimeValue('20/01/2026 25:00', 'DMY')).toBeNull();
+    });
+  });
+
+  describe('splitISOTimestamp', () => {
+    it('should take the date and time in IST', () => {
+      const split = splitISOTimestamp('2026-01-20T20:00:00Z');
+
+      expect(split?.date).toEqual(new Date(2026, 0, 21)); // 01:30 IST next day
+      expect(split?.time).toEqual({ hours: 1, minutes: 30, seconds: 0 });
+      expect(splitISOTimestamp('2026-01-20T14:30:00+05:30')?.time.hours).toBe(14);
+      expect(splitISOTimestamp('2026-01-20T14:30:15.250')?.time).toEqual({
+        hours: 14,
+        minutes: 30,
+        seconds: 15,
+      });
+    });
+
+    it('should reject bare dates and malformed timestamps', () => {
+      expect(splitISOTimestamp('2026-01-20')).toBeNull();
+      expect(splitISOTimestamp('2026-01-20T25:00:00')).toBeNull();
+      expect(splitISOTimestamp('20/01/2026 14:30')).toBeNull();
+    });
+  });
+
+  describe('formatDateTimeValue', () => {
+    it('should write the instant in IST', () => {
+      expect(formatDateTimeValue(new Date('2026-01-20T09:00:00Z'))).toBe(
+        '2026-01-20 14:30'
+      );
+    });
+  });
+});
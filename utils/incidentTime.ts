@@ -0,0 +1,243 @@
+import { FIR } from '../types';
+import { DateFormat, parseDateValue } from './dateFormats';
+
+/**
+ * Incident time normalization
+ *
+ * FIR exports write times as "14:30", "14:30:45", "2:30 PM" or "1430".
+ * The importer normalizes them to HH:MM[:SS] and combines them with the
+ * incident date into an absolute timestamp pinned to Asia/Kolkata, so hour
+ * and day-of-week analytics give the same answer in every browser timezone.
+ *
+ * India Standard Time has a fixed UTC+05:30 offset and no daylight saving,
+ * so conversions are plain arithmetic.
+ */
+
+declare module '../types' {
+  interface FIR {
+    /** Incident instant derived from date + time in Asia/Kolkata */
+    incidentAt?: Date;
+  }
+}
+
+export const INCIDENT_TIMEZONE = 'Asia/Kolkata';
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+export interface TimeOfDay {
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/**
+ * Calendar and clock fields of an incident in Asia/Kolkata
+ * month is 0-based and weekday 0 = Sunday, matching Date conventions;
+ * hour and minute are null when the incident time is unknown
+ */
+export interface IncidentParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number | null;
+  minute: number | null;
+}
+
+const TWELVE_HOUR_PATTERN =
+  /^(\d{1,2})(?:[:.](\d{2})(?::(\d{2}))?)?\s*([ap])\.?\s*m\.?$/i;
+const TWENTY_FOUR_HOUR_PATTERN = /^(\d{1,2})[:.](\d{2})(?::(\d{2}))?$/;
+const COMPACT_PATTERN = /^(\d{3,4}|\d{6})$/;
+const ZONED_ISO_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const DATE_TIME_PATTERN = /^(\S+)(?:[\sT]+(.+))?$/;
+const LOCAL_ISO_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}(?::\d{2})?)(?:\.\d+)?$/;
+
+/**
+ * Parses a time of day in 24-hour, 12-hour or compact form
+ * Accepts: 14:30, 14:30:45, 9.15, 2:30 PM, 2 pm, 12:05 a.m., 1430, 930, 143045
+ * Returns null for anything out of range
+ */
+export const parseTimeValue = (value: string): TimeOfDay | null => {
+  const trimmed = value.trim();
+  let hours: number;
+  let minutes: number;
+  let seconds: number;
+
+  const twelveHour = TWELVE_HOUR_PATTERN.exec(trimmed);
+  const twentyFourHour = TWENTY_FOUR_HOUR_PATTERN.exec(trimmed);
+
+  if (twelveHour) {
+    const hour12 = Number(twelveHour[1]);
+    if (hour12 < 1 || hour12 > 12) return null;
+    const isPM = twelveHour[4].toLowerCase() === 'p';
+    hours = (hour12 % 12) + (isPM ? 12 : 0);
+    minutes = Number(twelveHour[2] || 0);
+    seconds = Number(twelveHour[3] || 0);
+  } else if (twentyFourHour) {
+    hours = Number(twentyFourHour[1]);
+    minutes = Number(twentyFourHour[2]);
+    seconds = Number(twentyFourHour[3] || 0);
+  } else if (COMPACT_PATTERN.test(trimmed)) {
+    const clock = trimmed.length === 6 ? trimmed.slice(0, 4) : trimmed;
+    hours = Number(clock.slice(0, clock.length - 2));
+    minutes = Number(clock.slice(-2));
+    seconds = trimmed.length === 6 ? Number(trimmed.slice(4)) : 0;
+  } else {
+    return null;
+  }
+
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return { hours, minutes, seconds };
+};
+
+/**
+ * Formats a time of day as HH:MM, or HH:MM:SS when seconds are present
+ */
+export const formatTimeOfDay = ({ hours, minutes, seconds }: TimeOfDay): string => {
+  const hhmm = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  return seconds > 0 ? `${hhmm}:${String(seconds).padStart(2, '0')}` : hhmm;
+};
+
+/**
+ * Combines an incident's calendar date with a time of day in Asia/Kolkata
+ * The date is read through its local calendar fields (as built by the parsers)
+ */
+export const toIncidentTimestamp = (date: Date, time: TimeOfDay): Date => {
+  const wallClock = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    time.hours,
+    time.minutes,
+    time.seconds
+  );
+
+  return new Date(wallClock - IST_OFFSET_MS);
+};
+
+/**
+ * Returns the FIR with its incident timestamp and normalized time filled in
+ * Records whose time can't be parsed are returned unchanged
+ */
+export const withIncidentTimestamp = (fir: FIR): FIR => {
+  const time = parseTimeValue(fir.time || '');
+  if (!time || !(fir.date instanceof Date) || isNaN(fir.date.getTime())) {
+    return fir;
+  }
+
+  return {
+    ...fir,
+    time: formatTimeOfDay(time),
+    incidentAt: toIncidentTimestamp(fir.date, time),
+  };
+};
+
+/**
+ * Calendar and clock fields of an incident in Asia/Kolkata
+ *
+ * Uses incidentAt when present; otherwise falls back to the date's calendar
+ * fields and the parsed time string
+ */
+export const getIncidentParts = (fir: FIR): IncidentParts => {
+  if (fir.incidentAt && !isNaN(fir.incidentAt.getTime())) {
+    const shifted = new Date(fir.incidentAt.getTime() + IST_OFFSET_MS);
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth(),
+      day: shifted.getUTCDate(),
+      weekday: shifted.getUTCDay(),
+      hour: shifted.getUTCHours(),
+      minute: shifted.getUTCMinutes(),
+    };
+  }
+
+  const time = parseTimeValue(fir.time || '');
+  return {
+    year: fir.date.getFullYear(),
+    month: fir.date.getMonth(),
+    day: fir.date.getDate(),
+    weekday: fir.date.getDay(),
+    hour: time ? time.hours : null,
+    minute: time ? time.minutes : null,
+  };
+};
+
+/**
+ * Parses a date with an optional time of day into an instant
+ * ISO timestamps with an explicit offset are taken as-is; anything else is
+ * read as Asia/Kolkata wall-clock time (midnight when no time is given)
+ * e.g. "2026-01-20T09:00:00Z", "20/01/2026 2:30 PM", "2026-01-20"
+ */
+export const parseDateTimeValue = (
+  value: string,
+  dateFormat: DateFormat
+): Date | null => {
+  const trimmed = value.trim();
+
+  if (ZONED_ISO_PATTERN.test(trimmed)) {
+    const instant = new Date(trimmed);
+    return isNaN(instant.getTime()) ? null : instant;
+  }
+
+  const match = DATE_TIME_PATTERN.exec(trimmed);
+  if (!match) return null;
+
+  const date = parseDateValue(match[1], dateFormat);
+  const time = match[2]
+    ? parseTimeValue(match[2])
+    : { hours: 0, minutes: 0, seconds: 0 };
+  if (!date || !time) return null;
+
+  return toIncidentTimestamp(date, time);
+};
+
+/**
+ * Splits an ISO 8601 timestamp into its Asia/Kolkata calendar date (local
+ * midnight, as the parsers build dates) and time of day
+ * Timestamps without an offset are read as Asia/Kolkata wall-clock time
+ * e.g. "2026-01-20T14:30:00+05:30", "2026-01-20T09:00:00Z"; null for
+ * anything else, bare dates included
+ */
+export const splitISOTimestamp = (value: string): { date: Date; time: TimeOfDay } | null => {
+  const trimmed = value.trim();
+  let instant: Date | null = null;
+
+  if (ZONED_ISO_PATTERN.test(trimmed)) {
+    instant = new Date(trimmed);
+  } else {
+    const local = LOCAL_ISO_PATTERN.exec(trimmed);
+    const date = local && parseDateValue(local[1], 'DMY');
+    const time = local && parseTimeValue(local[2]);
+    if (date && time) instant = toIncidentTimestamp(date, time);
+  }
+  if (!instant || isNaN(instant.getTime())) return null;
+
+  const shifted = new Date(instant.getTime() + IST_OFFSET_MS);
+  return {
+    date: new Date(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate()),
+    time: {
+      hours: shifted.getUTCHours(),
+      minutes: shifted.getUTCMinutes(),
+      seconds: shifted.getUTCSeconds(),
+    },
+  };
+};
+
+/**
+ * Formats an instant as Asia/Kolkata "YYYY-MM-DD HH:MM[:SS]"
+ * The inverse of parseDateTimeValue for values written to CSV
+ */
+export const formatDateTimeValue = (instant: Date): string => {
+  const shifted = new Date(instant.getTime() + IST_OFFSET_MS);
+  const date = [
+    shifted.getUTCFullYear(),
+    String(shifted.getUTCMonth() + 1).padStart(2, '0'),
+    String(shifted.getUTCDate()).padStart(2, '0'),
+  ].join('-');
+
+  return `${date} ${formatTimeOfDay({
+    hours: shifted.getUTCHours(),
+    minutes: shifted.getUTCMinutes(),
+    seconds: shifted.getUTCSeconds(),
+  })}`;
+};
@@ -0,0 +1,192 @@
+import {
+  isJSONFile,
+  parseJSONDocument,
+  parseJSONFile,
+  parseNDJSON,
+  readJSONHeaders,
+} from './jsonParser';
+import { formatImportError } from './importErrors';
+
+describe('jsonParser', () => {
+  const properties = {
+    'FIR No': 'FIR001',
+    'Offence Head': 'Theft',
+    date: '20/01/2026',
+    time: '2:30 PM',
+    area: 'मालाड पश्चिम',
+    zone: 'Zone 11',
+    'PS Name': 'Malad PS',
+    isAccident: false,
+    'Weapon Used': 'None',
+  };
+
+  const feature = (props: object, geometry: object | null, id?: string) => ({
+    type: 'Feature',
+    ...(id ? { id } : {}),
+    properties: props,
+    geometry,
+  });
+
+  const point = { type: 'Point', coordinates: [72.8298, 19.1776] };
+
+  describe('isJSONFile', () => {
+    it('should recognize JSON, GeoJSON and NDJSON extensions', () => {
+      expect(['a.json', 'b.GeoJSON', 'c.ndjson', 'd.jsonl'].every(isJSONFile)).toBe(true);
+      expect(isJSONFile('e.csv')).toBe(false);
+    });
+  });
+
+  describe('parseJSONDocument', () => {
+    it('should map Point geometry and properties onto FIR records', () => {
+      const { records, rows, errors, dateReport } = parseJSONDocument(
+        JSON.stringify({ type: 'FeatureCollection', features: [feature(properties, point)] })
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(rows).toEqual([1]);
+      expect(records[0]).toEqual(
+        expect.objectContaining({
+          id: 'FIR001',
+          crimeType: 'Theft',
+          time: '14:30',
+          latitude: 19.1776,
+          longitude: 72.8298,
+          area: 'मालाड पश्चिम',
+          policeStation: 'Malad PS',
+          isAccident: false,
+          attributes: { 'weapon used': 'None' },
+        })
+      );
+      expect(records[0].date).toEqual(new Date(2026, 0, 20));
+      expect(dateReport?.format).toBe('DMY');
+    });
+
+    it('should take the FIR ID from the feature id', () => {
+      const { 'FIR No': _omitted, ...rest } = properties;
+      const { records } = parseJSONDocument(
+        JSON.stringify({ type: 'FeatureCollection', features: [feature(rest, point, 'FIR009')] })
+      );
+
+      expect(records[0].id).toBe('FIR009');
+    });
+
+    it('should report per-feature errors in the parseCSV shape', () => {
+      const { records, errors, rejected } = parseJSONDocument(
+        JSON.stringify({
+          type: 'FeatureCollection',
+          features: [
+            feature(properties, point),
+            feature({ ...properties, 'FIR No': 'FIR002' }, {
+              type: 'Polygon',
+              coordinates: [[[72.8, 19.1], [72.9, 19.1], [72.9, 19.2], [72.8, 19.1]]],
+            }),
+            feature({ ...properties, 'FIR No': 'FIR003', 'PS Name': '' }, point),
+          ],
+        })
+      );
+
+      expect(records.map((r) => r.id)).toEqual(['FIR001']);
+      expect(errors.map((e) => [e.row, e.code])).toEqual([
+        [2, 'INVALID_GEOMETRY'],
+        [3, 'REQUIRED_FIELD'],
+      ]);
+      expect(formatImportError(errors[0])).toBe(
+        'Row 2: Unsupported geometry type: Polygon (expected Point)'
+      );
+      expect(rejected.map((r) => r.row)).toEqual([2, 3]);
+      expect(rejected[0].fields).toEqual(
+        expect.objectContaining({ id: 'FIR002', policestation: 'Malad PS' })
+      );
+    });
+
+    it('should accept an array of plain records', () => {
+      const { records, errors } = parseJSONDocument(
+        JSON.stringify([{ ...properties, latitude: 19.1776, longitude: 72.8298 }])
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(records[0].latitude).toBe(19.1776);
+    });
+
+    it('should report invalid and empty documents', () => {
+      expect(parseJSONDocument('{"type":').errors[0].code).toBe('INVALID_JSON');
+      expect(parseJSONDocument('').errors[0].code).toBe('EMPTY_FILE');
+      expect(
+        parseJSONDocument('{"type":"FeatureCollection","features":[]}').errors[0].code
+      ).toBe('NO_DATA_ROWS');
+    });
+
+    it('should report missing required properties as missing headers', () => {
+      const { errors } = parseJSONDocument(
+        JSON.stringify([{ id: 'FIR001', latitude: 19.1, longitude: 72.8 }])
+      );
+
+      expect(errors[0].code).toBe('MISSING_HEADERS');
+    });
+  });
+
+  describe('parseNDJSON', () => {
+    it('should number rows by line and reject unparseable lines', () => {
+      const content = [
+        JSON.stringify(feature(properties, point)),
+        '',
+        '{"type": "Feature", ',
+        JSON.stringify({ ...properties, 'FIR No': 'FIR004', latitude: 19.18, longitude: 72.83 }),
+      ].join('\n');
+
+      const { records, rows, errors } = parseNDJSON(content);
+
+      expect(records.map((r) => r.id)).toEqual(['FIR001', 'FIR004']);
+      expect(rows).toEqual([1, 4]);
+      expect(errors.map((e) => [e.row, e.code])).toEqual([[3, 'INVALID_JSON']]);
+    });
+  });
+
+  describe('ISO timestamps', () => {
+    it('should take the date and time from a timestamp with no time property', () => {
+      const { date, time, ...rest } = { ...properties, latitude: 19.18, longitude: 72.83 };
+      const content = [
+        JSON.stringify({ ...rest, date: '2026-01-20T14:30:00+05:30' }),
+        JSON.stringify({ ...rest, 'FIR No': 'FIR002', date: '2026-01-20T20:00:00Z' }),
+      ].join('\n');
+
+      const { records, errors } = parseNDJSON(content);
+
+      expect(errors).toHaveLength(0);
+      expect(records[0].date).toEqual(new Date(2026, 0, 20));
+      expect(records[0].time).toBe('14:30');
+      expect(records[0].incidentAt?.toISOString()).toBe('2026-01-20T09:00:00.000Z');
+      expect(records[1].date).toEqual(new Date(2026, 0, 21));
+      expect(records[1].time).toBe('01:30');
+    });
+
+    it('should prefer a time property over the timestamp', () => {
+      const record = { ...properties, date: '2026-01-20T00:00:00+05:30' };
+      const { records } = parseJSONDocument(JSON.stringify([feature(record, point)]));
+
+      expect(records[0].time).toBe('14:30');
+    });
+  });
+
+  describe('parseJSONFile', () => {
+    it('should choose NDJSON by extension', () => {
+      const line = JSON.stringify(feature(properties, point));
+
+      expect(parseJSONFile(`${line}\n${line}`, 'firs.ndjson').records).toHaveLength(2);
+      expect(parseJSONFile(`${line}\n${line}`, 'firs.json').errors[0].code).toBe(
+        'INVALID_JSON'
+      );
+    });
+  });
+
+  describe('readJSONHeaders', () => {
+    it('should list geometry columns first, then property keys', () => {
+      const { headers } = readJSONHeaders(
+        JSON.stringify({ type: 'FeatureCollection', features: [feature(properties, point)] }),
+        'firs.geojson'
+      );
+
+      expect(headers.slice(0, 4)).toEqual(['latitude', 'longitude', 'FIR No', 'Offence Head']);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { resolveHeaders } from './columnMapping';
+import { CSVParseOptions, FIRParseResult, parseTabularRows } from './csvParser';
+import { CSVRow } from './csvTokenizer';
+import {
+  ImportError,
+  RecordError,
+  RejectedRow,
+  fileError,
+  toImportError,
+} from './importErrors';
+import { splitISOTimestamp } from './incidentTime';
+
+/**
+ * GeoJSON, JSON and NDJSON FIR import
+ *
+ * GIS teams export FIR points as GeoJSON FeatureCollections and scripts
+ * write NDJSON (one JSON object per line). Every feature or object is
+ * flattened into a row - properties become columns, a Point geometry
+ * becomes latitude and longitude - and converted by the CSV pipeline
+ * (parseTabularRows), so column aliases, mappings, date formats and typed
+ * errors behave exactly as for CSV uploads.
+ *
+ * Row numbers are the 1-based position of the feature or array element in
+ * JSON documents, and the physical line in NDJSON files.
+ */
+
+// Columns filled from a Point geometry; they take precedence over properties
+const GEOMETRY_COLUMNS = ['latitude', 'longitude'];
+
+interface FlatRecord {
+  line: number;
+  fields: { [column: string]: string };
+}
+
+interface FlattenResult {
+  records: FlatRecord[];
+  failures: { line: number; fields: { [column: string]: string }; error: unknown }[];
+  errors: ImportError[]; // File-level errors
+}
+
+/**
+ * True for files handled by parseJSONFile
+ */
+export const isJSONFile = (fileName: string): boolean =>
+  /\.(json|geojson|ndjson|jsonl)$/i.test(fileName);
+
+/**
+ * Parses a .json, .geojson, .ndjson or .jsonl file into FIR records
+ * NDJSON is chosen by extension; JSON documents may hold a
+ * FeatureCollection, a single Feature, or an array of features or records
+ *
+ * @returns FIR records, typed errors and rejected rows (same shape as parseCSV)
+ */
+export const parseJSONFile = (
+  content: string,
+  fileName: string,
+  options: CSVParseOptions = {}
+): FIRParseResult =>
+  isNDJSONFile(fileName)
+    ? parseNDJSON(content, options)
+    : parseJSONDocument(content, options);
+
+/**
+ * Parses a GeoJSON or JSON document into FIR records
+ *
+ * Time Complexity: O(n × c) where n = features, c = property columns
+ */
+export const parseJSONDocument = (
+  content: string,
+  options: CSVParseOptions = {}
+): FIRParseResult => convert(flattenDocument(content), options);
+
+/**
+ * Parses newline-delimited JSON into FIR records
+ * Lines that aren't valid JSON are rejected individually
+ *
+ * Time Complexity: O(n × c) where n = lines, c = property columns
+ */
+export const parseNDJSON = (
+  content: string,
+  options: CSVParseOptions = {}
+): FIRParseResult => convert(flattenLines(content), options);
+
+/**
+ * Lists the columns found in a JSON file without converting any records
+ * Used by the upload flow to offer a column mapping before import
+ */
+export const readJSONHeaders = (
+  content: string,
+  fileName: string
+): { headers: string[]; errors: ImportError[] } => {
+  const flat = isNDJSONFile(fileName)
+    ? flattenLines(content)
+    : flattenDocument(content);
+
+  return { headers: collectHeaders(flat.records), errors: flat.errors };
+};
+
+function isNDJSONFile(fileName: string): boolean {
+  return /\.(ndjson|jsonl)$/i.test(fileName);
+}
+
+/**
+ * Converts flattened records through the CSV pipeline and merges in the
+ * records that could not be flattened, ordered by row
+ */
+function convert(flat: FlattenResult, options: CSVParseOptions): FIRParseResult {
+  if (flat.errors.length > 0) {
+    return { records: [], rows: [], errors: flat.errors, rejected: [] };
+  }
+
+  if (flat.records.length === 0 && flat.failures.length === 0) {
+    return {
+      records: [],
+      rows: [],
+      errors: [fileError('NO_DATA_ROWS', 'File contains no features or records')],
+      rejected: [],
+    };
+  }
+
+  const headers = collectHeaders(flat.records);
+  const rows: CSVRow[] = flat.records.map(({ line, fields }) => ({
+    line,
+    values: headers.map((header) => fields[header] ?? ''),
+  }));
+
+  // With no usable records only the per-record failures are reported
+  const result: FIRParseResult =
+    rows.length > 0
+      ? parseTabularRows(headers, rows, options)
+      : { records: [], rows: [], errors: [], rejected: [] };
+  if (result.errors.some((error) => error.row === null)) return result;
+
+  // Key rejected values by canonical field, as parseCSV does
+  const sourceHeaders = Array.from(
+    new Set([...headers, ...flat.failures.flatMap(({ fields }) => Object.keys(fields))])
+  );
+  const resolved = resolveHeaders(sourceHeaders, options.mapping);
+  const canonical = new Map(sourceHeaders.map((header, i) => [header, resolved[i]]));
+
+  const rejected: RejectedRow[] = flat.failures.map(({ line, fields, error }) => {
+    const importError = toImportError(error, line);
+    const values: { [column: string]: string } = {};
+    Object.entries(fields).forEach(([header, value]) => {
+      values[canonical.get(header) || header] = value;
+    });
+    return { row: line, fields: values, errors: [importError] };
+  });
+
+  return {
+    ...result,
+    errors: [...result.errors, ...rejected.flatMap((r) => r.errors)].sort(byRow),
+    rejected: [...result.rejected, ...rejected].sort(byRow),
+  };
+}
+
+function byRow(a: { row: number | null }, b: { row: number | null }): number {
+  return (a.row ?? 0) - (b.row ?? 0);
+}
+
+/**
+ * Unpacks a JSON document into one flattened record per feature or element
+ */
+function flattenDocument(content: string): FlattenResult {
+  const result: FlattenResult = { records: [], failures: [], errors: [] };
+
+  if (!content || content.trim().length === 0) {
+    result.errors.push(fileError('EMPTY_FILE', 'JSON content is empty'));
+    return result;
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(stripBOM(content));
+  } catch (error) {
+    result.errors.push(
+      fileError('INVALID_JSON', `Invalid JSON: ${(error as Error).message}`)
+    );
+    return result;
+  }
+
+  let items: unknown[];
+  if (Array.isArray(document)) {
+    items = document;
+  } else if (isObject(document) && document.type === 'FeatureCollection') {
+    if (!Array.isArray(document.features)) {
+      result.errors.push(
+        fileError('INVALID_JSON', 'FeatureCollection has no features array')
+      );
+      return result;
+    }
+    items = document.features;
+  } else {
+    items = [document];
+  }
+
+  items.forEach((item, index) => addItem(result, item, index + 1));
+  return result;
+}
+
+/**
+ * Flattens each non-blank NDJSON line; unparseable lines become failures
+ */
+function flattenLines(content: string): FlattenResult {
+  const result: FlattenResult = { records: [], failures: [], errors: [] };
+
+  if (!content || content.trim().length === 0) {
+    result.errors.push(fileError('EMPTY_FILE', 'JSON content is empty'));
+    return result;
+  }
+
+  stripBOM(content).split(/\r\n|\n|\r/).forEach((text, index) => {
+    const line = index + 1;
+    if (text.trim() === '') return;
+
+    let item: unknown;
+    try {
+      item = JSON.parse(text);
+    } catch (error) {
+      result.failures.push({
+        line,
+        fields: {},
+        error: new RecordError(
+          'INVALID_JSON',
+          `Invalid JSON: ${(error as Error).message}`,
+          null,
+          text
+        ),
+      });
+      return;
+    }
+
+    addItem(result, item, line);
+  });
+
+  return result;
+}
+
+function addItem(result: FlattenResult, item: unknown, line: number): void {
+  try {
+    result.records.push({ line, fields: flattenItem(item) });
+  } catch (error) {
+    const fields =
+      isObject(item) && isObject(item.properties)
+        ? stringifyValues(item.properties)
+        : isObject(item)
+          ? stringifyValues(item)
+          : {};
+    result.failures.push({ line, fields, error });
+  }
+}
+
+/**
+ * Flattens a GeoJSON Feature or a plain record into column values
+ * A Feature's top-level id fills the id column when its properties have none
+ */
+function flattenItem(item: unknown): { [column: string]: string } {
+  if (!isObject(item)) {
+    throw new RecordError('INVALID_JSON', 'Record is not a JSON object');
+  }
+
+  if (item.type !== 'Feature') return stringifyValues(item);
+
+  const properties = isObject(item.properties) ? item.properties : {};
+  const fields = stringifyValues(properties);
+
+  if (item.id !== undefined && item.id !== null && !('id' in properties)) {
+    fields.id = String(item.id);
+  }
+
+  const geometry = item.geometry;
+  if (geometry === null || geometry === undefined) return fields;
+
+  const coordinates = isObject(geometry) ? geometry.coordinates : undefined;
+  if (
+    !isObject(geometry) ||
+    geometry.type !== 'Point' ||
+    !Array.isArray(coordinates) ||
+    coordinates.length < 2 ||
+    !coordinates.slice(0, 2).every((c) => typeof c === 'number')
+  ) {
+    const type = isObject(geometry) ? String(geometry.type) : typeof geometry;
+    throw new RecordError(
+      'INVALID_GEOMETRY',
+      type === 'Point'
+        ? 'Point geometry has no valid coordinates'
+        : `Unsupported geometry type: ${type} (expected Point)`,
+      null,
+      type
+    );
+  }
+
+  // GeoJSON positions are [longitude, latitude]
+  return {
+    ...fields,
+    longitude: String(coordinates[0]),
+    latitude: String(coordinates[1]),
+  };
+}
+
+/**
+ * Column order: geometry columns first, then keys by first appearance
+ * Geometry columns lead so they win over property aliases such as "Lat"
+ * A time column is added when dates are ISO timestamps and no key is a time
+ */
+function collectHeaders(records: FlatRecord[]): string[] {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+
+  const add = (header: string) => {
+    if (!seen.has(header)) {
+      seen.add(header);
+      headers.push(header);
+    }
+  };
+
+  if (records.some(({ fields }) => GEOMETRY_COLUMNS.every((c) => c in fields))) {
+    GEOMETRY_COLUMNS.forEach(add);
+  }
+  records.forEach(({ fields }) => Object.keys(fields).forEach(add));
+
+  // Scripts often write one ISO timestamp and no time; a blank time column
+  // lets the date's timestamp supply it (parseTabularRows)
+  const resolved = resolveHeaders(headers);
+  const dateHeader = headers[resolved.indexOf('date')];
+  if (
+    !resolved.includes('time') &&
+    dateHeader !== undefined &&
+    records.some(({ fields }) => splitISOTimestamp(fields[dateHeader] ?? '') !== null)
+  ) {
+    add('time');
+  }
+
+  return headers;
+}
+
+function stringifyValues(object: Record<string, unknown>): {
+  [column: string]: string;
+} {
+  const fields: { [column: string]: string } = {};
+
+  Object.entries(object).forEach(([key, value]) => {
+    if (value === null || value === undefined) fields[key] = '';
+    else if (typeof value === 'object') fields[key] = JSON.stringify(value);
+    else fields[key] = String(value);
+  });
+
+  return fields;
+}
+
+function stripBOM(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,154 @@
+import {
+  buildDensityCSV,
+  buildDensityGeoJSON,
+  densityAt,
+  densityColor,
+  densityWeight,
+  describeRaster,
+  estimateDensity,
+} from './kernelDensity';
+import { FIR } from '../types';
+
+describe('kernelDensity', () => {
+  const fir = (id: string, latitude: number, longitude: number, crimeType = 'Theft'): FIR => ({
+    id,
+    crimeType,
+    date: new Date(2026, 0, 20),
+    time: '14:30',
+    latitude,
+    longitude,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: false,
+  });
+
+  const options = {
+    kernel: 'quartic' as const,
+    bandwidthKm: 0.5,
+    cellSizeKm: 0.05,
+    weighting: 'count' as const,
+  };
+
+  it('should spread each FIR so the surface integrates to the FIR count', () => {
+    const firs = [fir('A', 19.187, 72.84), fir('B', 19.19, 72.845), fir('C', 19.2, 72.83)];
+
+    (['quartic', 'epanechnikov', 'gaussian'] as const).forEach((kernel) => {
+      const raster = estimateDensity(firs, { ...options, kernel });
+      const cellArea = raster.cellSizeKm * raster.cellSizeKm;
+      const total = raster.values.reduce((sum, value) => sum + value * cellArea, 0);
+
+      // The gaussian is cut off at three bandwidths (~1% of its mass)
+      expect(total).toBeCloseTo(kernel === 'gaussian' ? 3 * 0.989 : 3, 1);
+      expect(raster.totalWeight).toBe(3);
+    });
+  });
+
+  it('should peak at the FIRs and fall to zero beyond the bandwidth', () => {
+    const raster = estimateDensity([fir('A', 19.187, 72.84)], options);
+
+    expect(densityAt(raster, 19.187, 72.84)).toBeCloseTo(raster.max, 0);
+    expect(densityAt(raster, 19.187 + 0.006, 72.84)).toBe(0); // ~0.67 km north
+    expect(densityAt(raster, 25, 80)).toBe(0);
+  });
+
+  it('should show one peak for a cluster across where grid edges would split it', () => {
+    // Four FIRs around the 0.05° grid corner at 19.2, 72.85
+    const firs = [
+      fir('A', 19.1995, 72.8495),
+      fir('B', 19.1995, 72.8505),
+      fir('C', 19.2005, 72.8495),
+      fir('D', 19.2005, 72.8505),
+    ];
+    const raster = estimateDensity(firs, options);
+
+    expect(densityAt(raster, 19.2, 72.85)).toBeCloseTo(raster.max, 0);
+  });
+
+  it('should weight FIRs by severity', () => {
+    expect(densityWeight(fir('A', 19, 72, 'Murder'), 'severity')).toBe(10);
+    expect(densityWeight(fir('B', 19, 72, 'Pickpocketing'), 'severity')).toBe(1);
+    expect(densityWeight(fir('C', 19, 72, 'Murder'), 'count')).toBe(1);
+
+    const firs = [fir('A', 19.187, 72.84, 'Murder'), fir('B', 19.187, 72.86)];
+    const raster = estimateDensity(firs, { ...options, weighting: 'severity' });
+
+    expect(raster.totalWeight).toBe(11);
+    expect(densityAt(raster, 19.187, 72.84) / densityAt(raster, 19.187, 72.86)).toBeCloseTo(10, 0);
+  });
+
+  it('should coarsen cells to stay within the cell limit', () => {
+    const raster = estimateDensity([fir('A', 18.9, 72.8), fir('B', 19.3, 73.0)], {
+      ...options,
+      cellSizeKm: 0.01,
+    });
+
+    expect(raster.rows * raster.cols).toBeLessThanOrEqual(250000 * 1.01);
+    expect(raster.cellSizeKm).toBeGreaterThan(0.01);
+  });
+
+  it('should raise the bandwidth with coarsened cells so the surface keeps its weight', () => {
+    // 51 FIRs across a degree square, far more than 100 m cells can cover
+    const firs = Array.from({ length: 51 }, (_, i) =>
+      fir(`F${i}`, 18.6 + i / 50, 72.6 + ((i * 7) % 51) / 50)
+    );
+    const raster = estimateDensity(firs, { ...options, bandwidthKm: 0.25, cellSizeKm: 0.1 });
+    const cellArea = raster.cellSizeKm * raster.cellSizeKm;
+    const total = raster.values.reduce((sum, value) => sum + value * cellArea, 0);
+
+    expect(raster.cellSizeKm).toBeGreaterThan(0.125);
+    expect(raster.bandwidthKm).toBeCloseTo(raster.cellSizeKm * 2, 5);
+    expect(total).toBeCloseTo(51, 0);
+    expect(describeRaster(raster)).toContain('(raised from 0.25 km for the cell size)');
+  });
+
+  it('should leave outlying FIRs out of the default bounds', () => {
+    const cluster = Array.from({ length: 200 }, (_, i) =>
+      fir(`F${i}`, 19.18 + (i % 20) / 1000, 72.83 + Math.floor(i / 20) / 1000)
+    );
+    const raster = estimateDensity([...cluster, fir('STRAY', 21.1, 79.1)], options);
+
+    expect(raster.outliers).toBe(1);
+    expect(raster.totalWeight).toBe(200);
+    expect(raster.cellSizeKm).toBe(0.05);
+    expect(densityAt(raster, 19.18, 72.83)).toBeGreaterThan(0);
+    expect(describeRaster(raster)).toContain('1 outlying FIR left out');
+
+    // Explicit bounds keep every FIR
+    const bounded = estimateDensity([...cluster, fir('STRAY', 21.1, 79.1)], {
+      ...options,
+      cellSizeKm: 1,
+      bounds: { minLat: 19, maxLat: 21.5, minLng: 72.5, maxLng: 79.5 },
+    });
+    expect(bounded.outliers).toBe(0);
+    expect(bounded.totalWeight).toBe(201);
+  });
+
+  it('should return an empty raster without FIRs', () => {
+    const raster = estimateDensity([], options);
+
+    expect(raster.values).toHaveLength(0);
+    expect(raster.max).toBe(0);
+  });
+
+  it('should colour densities along the ramp and hide faint cells', () => {
+    expect(densityColor(0.01, 1)).toBeNull();
+    expect(densityColor(1, 1)).toEqual([189, 0, 38, 0.85]);
+    expect(densityColor(0.5, 1)).toEqual([253, 141, 60, 0.65]);
+  });
+
+  it('should export cells with density as GeoJSON polygons and CSV rows', () => {
+    const raster = estimateDensity([fir('A', 19.187, 72.84)], options);
+    const cells = raster.values.filter((value) => value > 0).length;
+
+    const geojson = JSON.parse(buildDensityGeoJSON(raster));
+    expect(geojson.features).toHaveLength(cells);
+    expect(geojson.features[0].geometry.coordinates[0]).toHaveLength(5);
+    expect(geojson.density).toBe('Quartic kernel, 0.5 km bandwidth, 50 m cells, fir count');
+
+    const lines = buildDensityCSV(raster).split('\n');
+    expect(lines[0]).toBe('row,col,latitude,longitude,density');
+    expect(lines).toHaveLength(cells + 1);
+  });
+});
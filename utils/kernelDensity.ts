@@ -0,0 +1,430 @@
+import { FIR } from '../types';
+import { classifyCrimeType } from './crimeTaxonomy';
+import { ExportFile } from './firExport';
+import { haversineDistance } from './geoUtils';
+import { SpatialBounds, pointBounds, withoutOutliers } from './spatialIndex';
+
+/**
+ * Kernel density estimation of FIR locations
+ *
+ * Every FIR spreads its weight over the cells around it with a kernel of
+ * radius bandwidthKm, so a cluster shows as one smooth peak however it
+ * falls across cell edges. The result is a raster of weighted FIRs per km²
+ * that sums (× cell area) to the total weight.
+ *
+ * Kernels (u = distance / bandwidth):
+ * - quartic: 3/π × (1 - u²)², u < 1 (the usual choice in crime mapping)
+ * - epanechnikov: 2/π × (1 - u²), u < 1
+ * - gaussian: 1/2π × e^(-u²/2), cut off at u = 3
+ *
+ * Distances use a flat projection about the middle of the area, which is
+ * exact enough at city scale.
+ *
+ * The kernel is sampled at cell centres, which only adds up to the FIR's
+ * weight while the bandwidth spans a couple of cells. When the cell size is
+ * coarsened for a large area, the bandwidth is raised with it to
+ * MIN_BANDWIDTH_CELLS cells and describeRaster says so.
+ *
+ * Without explicit bounds the raster covers the FIRs plus the kernel radius,
+ * less outliers (withoutOutliers in spatialIndex.ts), which are left out.
+ */
+
+export type KernelType = 'quartic' | 'epanechnikov' | 'gaussian';
+
+export const KERNEL_LABELS: { [kernel in KernelType]: string } = {
+  quartic: 'Quartic',
+  epanechnikov: 'Epanechnikov',
+  gaussian: 'Gaussian',
+};
+
+/**
+ * count: every FIR weighs 1; severity: weighted by SEVERITY_WEIGHTS
+ */
+export type DensityWeighting = 'count' | 'severity';
+
+export const DENSITY_WEIGHTING_LABELS: { [weighting in DensityWeighting]: string } = {
+  count: 'FIR count',
+  severity: 'Crime severity',
+};
+
+export interface DensityOptions {
+  kernel: KernelType;
+  bandwidthKm: number;
+  cellSizeKm: number;
+  weighting: DensityWeighting;
+  bounds?: SpatialBounds; // Defaults to the FIRs (less outliers) plus the kernel radius
+}
+
+export const DEFAULT_DENSITY_OPTIONS: DensityOptions = {
+  kernel: 'quartic',
+  bandwidthKm: 0.5,
+  cellSizeKm: 0.1, // Beat scale
+  weighting: 'count',
+};
+
+export const BANDWIDTH_CHOICES_KM = [0.25, 0.5, 1, 2];
+
+// The cell size is raised for large areas to keep the raster below this
+export const MAX_DENSITY_CELLS = 250000;
+
+// Smallest bandwidth in cells; sampling a narrower kernel loses or gains weight
+export const MIN_BANDWIDTH_CELLS = 2;
+
+// Weight per taxonomy subcategory; crime types not listed weigh 1
+export const SEVERITY_WEIGHTS: { [subcategoryId: string]: number } = {
+  murder: 10,
+  rape: 10,
+  'attempt-to-murder': 8,
+  'fatal-accident': 8,
+  dacoity: 7,
+  robbery: 6,
+  'grievous-hurt': 5,
+  'chain-snatching': 4,
+  molestation: 4,
+  'sexual-harassment': 4,
+  rioting: 4,
+  stalking: 3,
+  'cruelty-by-husband': 3,
+  burglary: 3,
+  assault: 3,
+  'vehicle-theft': 2,
+  'criminal-intimidation': 2,
+  accident: 2,
+};
+
+/**
+ * Density surface; row 0 is the southernmost row and values are row-major
+ */
+export interface DensityRaster {
+  minLat: number; // South-west corner of the raster
+  minLng: number;
+  latStep: number; // Degrees per cell
+  lngStep: number;
+  rows: number;
+  cols: number;
+  cellSizeKm: number; // After any coarsening for MAX_DENSITY_CELLS
+  values: Float64Array; // Weighted FIRs per km²
+  max: number;
+  totalWeight: number;
+  kernel: KernelType;
+  bandwidthKm: number; // After any raise to MIN_BANDWIDTH_CELLS cells
+  requestedBandwidthKm: number;
+  weighting: DensityWeighting;
+  outliers: number; // FIRs left out of the default bounds
+}
+
+export type DensityExportFormat = 'geojson' | 'csv';
+
+// Heatmap colour ramp from low to high density (RGBA, alpha 0 to 1)
+export const DENSITY_COLOR_STOPS: [number, number, number, number][] = [
+  [255, 255, 178, 0.25],
+  [254, 204, 92, 0.5],
+  [253, 141, 60, 0.65],
+  [240, 59, 32, 0.75],
+  [189, 0, 38, 0.85],
+];
+
+// Passes settling the cell size against MAX_DENSITY_CELLS, and the share
+// a coarsened cell is made larger than needed
+const MAX_SIZING_PASSES = 4;
+const SIZING_HEADROOM = 0.01;
+
+// Cells below this share of the maximum are left transparent
+const MIN_VISIBLE_SHARE = 0.02;
+
+/**
+ * Weight of a FIR under a weighting
+ */
+export const densityWeight = (fir: FIR, weighting: DensityWeighting): number => {
+  if (weighting === 'count') return 1;
+
+  const subcategory = classifyCrimeType(fir.crimeType)?.subcategory.id;
+  return (subcategory && SEVERITY_WEIGHTS[subcategory]) || 1;
+};
+
+/**
+ * Estimates the density surface of FIRs
+ *
+ * Time Complexity: O(g + n × (b / c)²) where g = cells, n = FIRs,
+ * b = kernel radius and c = cell size
+ */
+export const estimateDensity = (
+  firs: FIR[],
+  options: DensityOptions = DEFAULT_DENSITY_OPTIONS
+): DensityRaster => {
+  const { kernel, weighting } = options;
+  const located = firs.filter(
+    (fir) => Number.isFinite(fir.latitude) && Number.isFinite(fir.longitude)
+  );
+  const supportFactor = kernel === 'gaussian' ? 3 : 1;
+  const kmPerDegree = haversineDistance(0, 0, 1, 0);
+  const included = options.bounds
+    ? located
+    : withoutOutliers(located, (options.bandwidthKm * supportFactor) / kmPerDegree);
+  const core = options.bounds || pointBounds(included);
+
+  // A coarser cell raises the bandwidth, which widens the default padding
+  // and so the area; cells are coarsened a little past what is needed so
+  // the next pass fits
+  let cellSizeKm = options.cellSizeKm;
+  let bandwidthKm = options.bandwidthKm;
+  let bounds = core;
+  for (let pass = 0; pass < MAX_SIZING_PASSES; pass++) {
+    bandwidthKm = Math.max(options.bandwidthKm, cellSizeKm * MIN_BANDWIDTH_CELLS);
+    bounds = options.bounds || padBounds(core, (bandwidthKm * supportFactor) / kmPerDegree);
+    const { heightKm, widthKm } = extentKm(bounds, kmPerDegree);
+    const neededKm = Math.sqrt((heightKm * widthKm) / MAX_DENSITY_CELLS);
+    if (neededKm <= cellSizeKm) break;
+    cellSizeKm = neededKm * (1 + SIZING_HEADROOM);
+  }
+
+  const { heightKm, widthKm, kmPerLngDegree } = extentKm(bounds, kmPerDegree);
+  const supportKm = bandwidthKm * supportFactor;
+
+  const rows = located.length > 0 ? Math.max(1, Math.ceil(heightKm / cellSizeKm)) : 0;
+  const cols = located.length > 0 ? Math.max(1, Math.ceil(widthKm / cellSizeKm)) : 0;
+  const latStep = cellSizeKm / kmPerDegree;
+  const lngStep = cellSizeKm / kmPerLngDegree;
+  const values = new Float64Array(rows * cols);
+  const profile = kernelProfile(kernel);
+  const norm = KERNEL_NORMS[kernel] / (bandwidthKm * bandwidthKm);
+  const reach = Math.ceil(supportKm / cellSizeKm);
+  let totalWeight = 0;
+
+  included.forEach((fir) => {
+    const weight = densityWeight(fir, weighting);
+    totalWeight += weight;
+
+    // Position in cells, from the south-west corner
+    const y = (fir.latitude - bounds.minLat) / latStep;
+    const x = (fir.longitude - bounds.minLng) / lngStep;
+    const row = Math.floor(y);
+    const col = Math.floor(x);
+
+    for (let r = Math.max(0, row - reach); r <= Math.min(rows - 1, row + reach); r++) {
+      const dy = (r + 0.5 - y) * cellSizeKm;
+      for (let c = Math.max(0, col - reach); c <= Math.min(cols - 1, col + reach); c++) {
+        const dx = (c + 0.5 - x) * cellSizeKm;
+        const u2 = (dx * dx + dy * dy) / (bandwidthKm * bandwidthKm);
+        const k = profile(u2);
+        if (k > 0) values[r * cols + c] += weight * norm * k;
+      }
+    }
+  });
+
+  let max = 0;
+  values.forEach((value) => {
+    if (value > max) max = value;
+  });
+
+  return {
+    minLat: bounds.minLat,
+    minLng: bounds.minLng,
+    latStep,
+    lngStep,
+    rows,
+    cols,
+    cellSizeKm,
+    values,
+    max,
+    totalWeight,
+    kernel,
+    bandwidthKm,
+    requestedBandwidthKm: options.bandwidthKm,
+    weighting,
+    outliers: located.length - included.length,
+  };
+};
+
+/**
+ * Density at a point (its cell's value), or 0 outside the raster
+ */
+export const densityAt = (raster: DensityRaster, latitude: number, longitude: number): number => {
+  const row = Math.floor((latitude - raster.minLat) / raster.latStep);
+  const col = Math.floor((longitude - raster.minLng) / raster.lngStep);
+  if (row < 0 || row >= raster.rows || col < 0 || col >= raster.cols) return 0;
+  return raster.values[row * raster.cols + col];
+};
+
+/**
+ * Heatmap colour of a density; null for cells too faint to draw
+ */
+export const densityColor = (
+  value: number,
+  max: number
+): [number, number, number, number] | null => {
+  const share = max > 0 ? value / max : 0;
+  if (share < MIN_VISIBLE_SHARE) return null;
+
+  // Interpolate between the two stops around the share
+  const position = share * (DENSITY_COLOR_STOPS.length - 1);
+  const lower = Math.min(Math.floor(position), DENSITY_COLOR_STOPS.length - 2);
+  const t = position - lower;
+  const from = DENSITY_COLOR_STOPS[lower];
+  const to = DENSITY_COLOR_STOPS[lower + 1];
+  return [0, 1, 2, 3].map((i) =>
+    i < 3 ? Math.round(from[i] + (to[i] - from[i]) * t) : from[i] + (to[i] - from[i]) * t
+  ) as [number, number, number, number];
+};
+
+/**
+ * Builds the export file of a density raster
+ * - GeoJSON: a polygon per cell with its density
+ * - CSV: cell centres with their density
+ * Cells without density are left out of both
+ */
+export const exportDensity = (raster: DensityRaster, format: DensityExportFormat): ExportFile =>
+  format === 'csv'
+    ? { content: buildDensityCSV(raster), mimeType: 'text/csv', extension: 'csv' }
+    : {
+        content: buildDensityGeoJSON(raster),
+        mimeType: 'application/geo+json',
+        extension: 'geojson',
+      };
+
+/**
+ * Builds a GeoJSON FeatureCollection of the cells with density
+ * The raster settings are kept as foreign members of the collection
+ *
+ * Time Complexity: O(g) where g = cells
+ */
+export const buildDensityGeoJSON = (raster: DensityRaster): string =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      density: describeRaster(raster),
+      features: densityCells(raster).map(({ row, col, value }) => {
+        const south = raster.minLat + row * raster.latStep;
+        const west = raster.minLng + col * raster.lngStep;
+        const north = south + raster.latStep;
+        const east = west + raster.lngStep;
+        return {
+          type: 'Feature',
+          id: `${row}-${col}`,
+          geometry: {
+            type: 'Polygon',
+            coordinates: [
+              [
+                [west, south],
+                [east, south],
+                [east, north],
+                [west, north],
+                [west, south],
+              ],
+            ],
+          },
+          properties: { row, col, density: roundDensity(value) },
+        };
+      }),
+    },
+    null,
+    2
+  );
+
+/**
+ * Builds a CSV of cell centres: row, col, latitude, longitude, density
+ *
+ * Time Complexity: O(g) where g = cells
+ */
+export const buildDensityCSV = (raster: DensityRaster): string =>
+  [
+    'row,col,latitude,longitude,density',
+    ...densityCells(raster).map(({ row, col, value }) =>
+      [
+        row,
+        col,
+        (raster.minLat + (row + 0.5) * raster.latStep).toFixed(6),
+        (raster.minLng + (col + 0.5) * raster.lngStep).toFixed(6),
+        roundDensity(value),
+      ].join(',')
+    ),
+  ].join('\n');
+
+/**
+ * Short description of the raster settings, e.g. for legends and exports
+ */
+export const describeRaster = (raster: DensityRaster): string => {
+  const bandwidth =
+    raster.bandwidthKm > raster.requestedBandwidthKm
+      ? `${roundKm(raster.bandwidthKm)} km bandwidth ` +
+        `(raised from ${raster.requestedBandwidthKm} km for the cell size)`
+      : `${raster.bandwidthKm} km bandwidth`;
+  const outliers =
+    raster.outliers > 0
+      ? `, ${raster.outliers} outlying FIR${raster.outliers === 1 ? '' : 's'} left out`
+      : '';
+  return (
+    `${KERNEL_LABELS[raster.kernel]} kernel, ${bandwidth}, ` +
+    `${Math.round(raster.cellSizeKm * 1000)} m cells, ` +
+    `${DENSITY_WEIGHTING_LABELS[raster.weighting].toLowerCase()}${outliers}`
+  );
+};
+
+// Kernel constants making each kernel integrate to 1 over the plane
+const KERNEL_NORMS: { [kernel in KernelType]: number } = {
+  quartic: 3 / Math.PI,
+  epanechnikov: 2 / Math.PI,
+  gaussian: 1 / (2 * Math.PI),
+};
+
+/**
+ * Kernel shape as a function of u² (distance² / bandwidth²), before normalizing
+ */
+function kernelProfile(kernel: KernelType): (u2: number) => number {
+  switch (kernel) {
+    case 'epanechnikov':
+      return (u2) => (u2 < 1 ? 1 - u2 : 0);
+    case 'gaussian':
+      return (u2) => (u2 < 9 ? Math.exp(-u2 / 2) : 0);
+    default:
+      return (u2) => (u2 < 1 ? (1 - u2) * (1 - u2) : 0);
+  }
+}
+
+/**
+ * Height and width of bounds in km, and km per degree of longitude across them
+ */
+function extentKm(
+  bounds: SpatialBounds,
+  kmPerDegree: number
+): { heightKm: number; widthKm: number; kmPerLngDegree: number } {
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+  const kmPerLngDegree = kmPerDegree * Math.cos((midLat * Math.PI) / 180);
+  return {
+    heightKm: Math.max(0, bounds.maxLat - bounds.minLat) * kmPerDegree,
+    widthKm: Math.max(0, bounds.maxLng - bounds.minLng) * kmPerLngDegree,
+    kmPerLngDegree,
+  };
+}
+
+/**
+ * Bounds grown by a margin in degrees of latitude
+ */
+function padBounds(bounds: SpatialBounds, latMargin: number): SpatialBounds {
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+  const lngMargin = latMargin / Math.cos((midLat * Math.PI) / 180);
+  return {
+    minLat: bounds.minLat - latMargin,
+    maxLat: bounds.maxLat + latMargin,
+    minLng: bounds.minLng - lngMargin,
+    maxLng: bounds.maxLng + lngMargin,
+  };
+}
+
+function roundKm(km: number): number {
+  return Math.round(km * 100) / 100;
+}
+
+function densityCells(raster: DensityRaster): { row: number; col: number; value: number }[] {
+  const cells: { row: number; col: number; value: number }[] = [];
+  raster.values.forEach((value, i) => {
+    if (value > 0) {
+      cells.push({ row: Math.floor(i / raster.cols), col: i % raster.cols, value });
+    }
+  });
+  return cells;
+}
+
+function roundDensity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
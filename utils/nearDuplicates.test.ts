@@ -0,0 +1,140 @@
+import {
+  descriptionSimilarity,
+  duplicatePairKey,
+  findNearDuplicates,
+  mergeDuplicateFIRs,
+  scoreDuplicatePair,
+} from './nearDuplicates';
+import { makeFIR } from './testFixtures';
+import { FIR } from '../types';
+
+describe('nearDuplicates', () => {
+  const fir = (overrides: Partial<FIR>): FIR =>
+    makeFIR({
+      crimeType: 'Chain Snatching',
+      time: '21:30',
+      description: 'Gold chain snatched by two men on a motorcycle near the station',
+      ...overrides,
+    });
+
+  // Same incident registered at the neighbouring station 40 minutes later
+  const original = fir({});
+  const reregistered = fir({
+    id: 'FIR-KUR-104',
+    time: '22:10',
+    latitude: 19.1890,
+    longitude: 72.8410,
+    area: 'Malad (W)',
+    policeStation: 'Kurar PS',
+    description: 'Two men on motorcycle snatched gold chain near Malad station',
+  });
+
+  describe('scoreDuplicatePair', () => {
+    it('should score the same incident at a neighbouring station highly', () => {
+      const score = scoreDuplicatePair(original, reregistered);
+
+      expect(score.crimeType).toBe(1);
+      expect(score.distance).toBeGreaterThan(0.7);
+      expect(score.timeGap).toBeCloseTo(1 - 40 / 60 / 24, 5);
+      expect(score.description).toBeGreaterThan(0.5);
+      expect(score.total).toBeGreaterThan(0.85);
+    });
+
+    it('should leave description out when either record has none', () => {
+      const score = scoreDuplicatePair(original, { ...reregistered, description: undefined });
+
+      expect(score.description).toBeNull();
+      expect(score.total).toBeCloseTo(
+        (0.3 * score.crimeType + 0.3 * score.distance + 0.25 * score.timeGap) / 0.85,
+        5
+      );
+    });
+
+    it('should apply custom weights', () => {
+      const score = scoreDuplicatePair(
+        original,
+        { ...reregistered, crimeType: 'Robbery' },
+        { weights: { crimeType: 1, distance: 0, timeGap: 0, description: 0 } }
+      );
+
+      expect(score.total).toBe(0);
+    });
+  });
+
+  describe('findNearDuplicates', () => {
+    it('should pair likely duplicates with different IDs', () => {
+      const unrelated = fir({
+        id: 'FIR002',
+        crimeType: 'Assault',
+        time: '09:00',
+        description: 'Quarrel over parking',
+      });
+
+      const candidates = findNearDuplicates([original, unrelated, reregistered]);
+
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0].key).toBe(duplicatePairKey('FIR001', 'FIR-KUR-104'));
+      expect(candidates[0].primary.id).toBe('FIR001');
+      expect(candidates[0].duplicate.id).toBe('FIR-KUR-104');
+      expect(candidates[0].timeGapHours).toBeCloseTo(40 / 60, 5);
+      expect(candidates[0].distanceKm).toBeLessThan(0.3);
+    });
+
+    it('should skip records outside the time window or radius', () => {
+      const nextWeek = fir({ ...reregistered, date: new Date(2026, 0, 27) });
+      const farAway = fir({ ...reregistered, latitude: 19.23 });
+
+      expect(findNearDuplicates([original, nextWeek])).toHaveLength(0);
+      expect(findNearDuplicates([original, farAway])).toHaveLength(0);
+      expect(findNearDuplicates([original, farAway], { maxDistanceKm: 10, threshold: 0.5 }))
+        .toHaveLength(1);
+    });
+
+    it('should not pair separate incidents geocoded to the same area centroid', () => {
+      // Two thefts in Malad West without coordinates, placed at its centroid
+      const approximate = (id: string, time: string) =>
+        fir({
+          id,
+          crimeType: 'Theft',
+          time,
+          latitude: 19.1865,
+          longitude: 72.8486,
+          description: undefined,
+          geocodeConfidence: 'medium',
+          geocodeMatch: 'Malad West',
+        });
+      const morning = approximate('FIR-MAL-201', '09:00');
+      const evening = approximate('FIR-MAL-202', '16:30');
+
+      expect(scoreDuplicatePair(morning, evening).distance).toBe(0);
+      expect(scoreDuplicatePair(morning, evening).total).toBeLessThan(0.75);
+      expect(findNearDuplicates([morning, evening])).toHaveLength(0);
+    });
+
+    it('should leave identical IDs to findDuplicates', () => {
+      expect(findNearDuplicates([original, { ...original }])).toHaveLength(0);
+    });
+  });
+
+  describe('descriptionSimilarity', () => {
+    it('should compare words ignoring case, punctuation and stop words', () => {
+      expect(descriptionSimilarity('Phone stolen at the market', 'phone STOLEN, market')).toBe(1);
+      expect(descriptionSimilarity('Phone stolen', 'Bag stolen')).toBeCloseTo(1 / 3, 5);
+      expect(descriptionSimilarity('Phone stolen', '  ')).toBeNull();
+    });
+  });
+
+  describe('mergeDuplicateFIRs', () => {
+    it('should keep the kept record and fill its gaps from the duplicate', () => {
+      const merged = mergeDuplicateFIRs(
+        { ...original, description: '', attributes: { 'io name': 'Patil' } },
+        { ...reregistered, attributes: { 'io name': 'Shinde', 'vehicle no': 'MH02AB1234' } }
+      );
+
+      expect(merged.id).toBe('FIR001');
+      expect(merged.policeStation).toBe('Malad PS');
+      expect(merged.description).toBe(reregistered.description);
+      expect(merged.attributes).toEqual({ 'io name': 'Patil', 'vehicle no': 'MH02AB1234' });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { FIR } from '../types';
+import { haversineDistance } from './geoUtils';
+import { withIncidentTimestamp } from './incidentTime';
+
+/**
+ * Near-duplicate FIR detection
+ *
+ * The same incident is often registered twice, at neighbouring stations and
+ * under different FIR IDs. Candidate pairs are records within a time window
+ * and radius of each other; each pair is scored on four signals, each
+ * between 0 and 1:
+ * - crimeType: 1 when the crime types match (case-insensitive), else 0
+ * - distance: 1 at the same spot, falling to 0 at maxDistanceKm; 0 when
+ *   either location is approximate (geocodeConfidence set), as records
+ *   geocoded to the same gazetteer centroid are not known to be close
+ * - timeGap: 1 at the same time, falling to 0 at maxTimeGapHours
+ * - description: word overlap (Jaccard) of the two descriptions
+ *
+ * The total is the weighted mean of the signals; description is left out of
+ * the mean when either record has none. Pairs scoring at least the
+ * threshold are likely duplicates. Identical IDs are left to findDuplicates.
+ */
+
+export interface DuplicateWeights {
+  crimeType: number;
+  distance: number;
+  timeGap: number;
+  description: number;
+}
+
+export interface NearDuplicateOptions {
+  maxDistanceKm?: number;
+  maxTimeGapHours?: number;
+  threshold?: number; // Minimum total score of a likely duplicate
+  weights?: Partial<DuplicateWeights>;
+}
+
+/**
+ * Per-signal scores of a pair; description is null when either record has none
+ */
+export interface DuplicateScore {
+  crimeType: number;
+  distance: number;
+  timeGap: number;
+  description: number | null;
+  total: number;
+}
+
+/**
+ * A likely duplicate pair
+ * primary is the earlier record in the input (usually the one loaded first)
+ */
+export interface DuplicateCandidate {
+  key: string;
+  primary: FIR;
+  duplicate: FIR;
+  score: DuplicateScore;
+  distanceKm: number;
+  timeGapHours: number;
+}
+
+export const DEFAULT_DUPLICATE_WEIGHTS: DuplicateWeights = {
+  crimeType: 0.3,
+  distance: 0.3,
+  timeGap: 0.25,
+  description: 0.15,
+};
+
+const DEFAULT_MAX_DISTANCE_KM = 1;
+const DEFAULT_MAX_TIME_GAP_HOURS = 24;
+const DEFAULT_THRESHOLD = 0.75;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Words too common in FIR narratives to tell incidents apart
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'near', 'of', 'on',
+  'the', 'to', 'was', 'were', 'with',
+]);
+
+/**
+ * Key of an unordered pair of FIR IDs, used to remember review decisions
+ */
+export const duplicatePairKey = (a: string, b: string): string =>
+  [a, b].sort().join('|');
+
+/**
+ * Scores how likely two records describe the same incident
+ *
+ * Time Complexity: O(w) where w = words in the two descriptions
+ */
+export const scoreDuplicatePair = (
+  a: FIR,
+  b: FIR,
+  options: NearDuplicateOptions = {}
+): DuplicateScore => {
+  const maxDistanceKm = options.maxDistanceKm ?? DEFAULT_MAX_DISTANCE_KM;
+  const maxTimeGapHours = options.maxTimeGapHours ?? DEFAULT_MAX_TIME_GAP_HOURS;
+  const weights = { ...DEFAULT_DUPLICATE_WEIGHTS, ...options.weights };
+
+  const distanceKm = haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+  const gapHours = Math.abs(incidentTime(a) - incidentTime(b)) / HOUR_MS;
+
+  const crimeType =
+    a.crimeType.trim().toLowerCase() === b.crimeType.trim().toLowerCase() ? 1 : 0;
+  const distance =
+    a.geocodeConfidence || b.geocodeConfidence ? 0 : falloff(distanceKm, maxDistanceKm);
+  const timeGap = falloff(gapHours, maxTimeGapHours);
+  const description = descriptionSimilarity(a.description, b.description);
+
+  let weighted =
+    crimeType * weights.crimeType +
+    distance * weights.distance +
+    timeGap * weights.timeGap;
+  let weightSum = weights.crimeType + weights.distance + weights.timeGap;
+  if (description !== null) {
+    weighted += description * weights.description;
+    weightSum += weights.description;
+  }
+
+  return {
+    crimeType,
+    distance,
+    timeGap,
+    description,
+    total: weightSum > 0 ? weighted / weightSum : 0,
+  };
+};
+
+/**
+ * Finds likely duplicate pairs, highest score first
+ * Records are sorted by incident time so only records within the time
+ * window are compared with each other
+ *
+ * Time Complexity: O(n log n + n × k) where k = records per time window
+ */
+export const findNearDuplicates = (
+  firs: FIR[],
+  options: NearDuplicateOptions = {}
+): DuplicateCandidate[] => {
+  const maxDistanceKm = options.maxDistanceKm ?? DEFAULT_MAX_DISTANCE_KM;
+  const maxTimeGapHours = options.maxTimeGapHours ?? DEFAULT_MAX_TIME_GAP_HOURS;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const windowMs = maxTimeGapHours * HOUR_MS;
+
+  const entries = firs
+    .map((fir, index) => ({ fir, index, time: incidentTime(fir) }))
+    .filter(({ time }) => !isNaN(time))
+    .sort((a, b) => a.time - b.time);
+
+  const candidates: DuplicateCandidate[] = [];
+
+  entries.forEach((entry, i) => {
+    for (let j = i + 1; j < entries.length; j++) {
+      const other = entries[j];
+      if (other.time - entry.time > windowMs) break;
+      if (other.fir.id === entry.fir.id) continue;
+
+      const distanceKm = haversineDistance(
+        entry.fir.latitude,
+        entry.fir.longitude,
+        other.fir.latitude,
+        other.fir.longitude
+      );
+      if (distanceKm > maxDistanceKm) continue;
+
+      const score = scoreDuplicatePair(entry.fir, other.fir, options);
+      if (score.total < threshold) continue;
+
+      const [primary, duplicate] =
+        entry.index < other.index ? [entry, other] : [other, entry];
+      candidates.push({
+        key: duplicatePairKey(primary.fir.id, duplicate.fir.id),
+        primary: primary.fir,
+        duplicate: duplicate.fir,
+        score,
+        distanceKm,
+        timeGapHours: (other.time - entry.time) / HOUR_MS,
+      });
+    }
+  });
+
+  return candidates.sort(
+    (a, b) => b.score.total - a.score.total || a.key.localeCompare(b.key)
+  );
+};
+
+/**
+ * Merges a duplicate into the record that is kept
+ * The kept record's values win; its empty fields and missing attributes
+ * are filled from the duplicate
+ */
+export const mergeDuplicateFIRs = (kept: FIR, duplicate: FIR): FIR => {
+  const merged = { ...kept } as unknown as Record<string, unknown>;
+
+  Object.entries(duplicate).forEach(([field, value]) => {
+    const current = merged[field];
+    if (
+      current === undefined ||
+      current === null ||
+      (typeof current === 'string' && current.trim() === '')
+    ) {
+      merged[field] = value;
+    }
+  });
+
+  const result = merged as unknown as FIR;
+  if (kept.attributes || duplicate.attributes) {
+    result.attributes = { ...duplicate.attributes, ...kept.attributes };
+  }
+  return result;
+};
+
+/**
+ * Word overlap of two descriptions, or null when either is blank
+ */
+export const descriptionSimilarity = (a?: string, b?: string): number | null => {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return null;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+function descriptionWords(description?: string): Set<string> {
+  return new Set(
+    (description || '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{M}\p{N}]+/u)
+      .filter((word) => word && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Incident instant in ms: incidentAt, else date and time combined, else the date
+ */
+function incidentTime(fir: FIR): number {
+  const incidentAt = fir.incidentAt || withIncidentTimestamp(fir).incidentAt;
+  if (incidentAt) return incidentAt.getTime();
+  return fir.date instanceof Date ? fir.date.getTime() : NaN;
+}
+
+/**
+ * 1 at zero, falling linearly to 0 at the limit
+ */
+function falloff(value: number, limit: number): number {
+  if (limit <= 0) return value === 0 ? 1 : 0;
+  return Math.max(0, 1 - value / limit);
+}
@@ -0,0 +1,144 @@
+import {
+  DEFAULT_PII_DETECTORS,
+  DEFAULT_REDACTION_CONFIG,
+  RedactionConfig,
+  detectPII,
+  isRedactedField,
+  maskPII,
+  previewRedaction,
+  redactFIR,
+  redactFieldValues,
+  redactText,
+} from './piiRedaction';
+import { parseCSV } from './csvParser';
+import { FIR } from '../types';
+
+describe('piiRedaction', () => {
+  const partial: RedactionConfig = { ...DEFAULT_REDACTION_CONFIG, maskStyle: 'partial' };
+
+  describe('detectPII', () => {
+    it('should find phone, Aadhaar, vehicle, email and PAN numbers', () => {
+      const text =
+        'Call +91 98200 12345 or 022-28801234. Aadhaar 2345 6789 0123, car MH-02-AB-1234, ' +
+        'mail rk@example.com, PAN ABCDE1234F';
+
+      expect(detectPII(text).map((m) => [m.kind, m.text])).toEqual([
+        ['phone', '+91 98200 12345'],
+        ['phone', '022-28801234'],
+        ['aadhaar', '2345 6789 0123'],
+        ['vehicle', 'MH-02-AB-1234'],
+        ['email', 'rk@example.com'],
+        ['pan', 'ABCDE1234F'],
+      ]);
+    });
+
+    it('should not read dates, times or amounts as identifiers', () => {
+      expect(detectPII('On 20/01/2026 at 14:30, Rs 25000 and 2 phones taken at 10 2026')).toEqual([]);
+    });
+
+    it('should join dictionary names and keep the title out of the match', () => {
+      expect(detectPII('Smt. Priya Sharma and SUNIL PATIL saw Mr. Dsilva').map((m) => m.text)).toEqual([
+        'Priya Sharma',
+        'SUNIL PATIL',
+        'Dsilva',
+      ]);
+    });
+
+    it('should match dictionary names only as whole words', () => {
+      expect(detectPII('Shahid reported a Khanna store theft')).toEqual([]);
+      expect(detectPII('पीड़िता प्रिया ने बताया').map((m) => m.text)).toEqual(['प्रिया']);
+    });
+
+    it('should use only the configured detectors and names', () => {
+      const config: RedactionConfig = {
+        detectors: DEFAULT_PII_DETECTORS.filter((d) => d.id !== 'phone'),
+        names: ['Bunty'],
+        maskStyle: 'label',
+      };
+
+      expect(detectPII('Bunty, Priya, 98200 12345', config).map((m) => m.text)).toEqual(['Bunty']);
+    });
+  });
+
+  describe('redactText', () => {
+    const text = 'Victim Priya Sharma, ph 9820012345, Aadhaar 234567890123';
+
+    it('should replace matches with their kind', () => {
+      expect(redactText(text).text).toBe('Victim [NAME], ph [PHONE], Aadhaar [AADHAAR]');
+    });
+
+    it('should keep initials and the last four digits with partial masks', () => {
+      expect(redactText(text, partial).text).toBe('Victim P. S., ph XXXXXX2345, Aadhaar XXXXXXXX0123');
+    });
+
+    it('should return text without PII unchanged', () => {
+      expect(redactText('Chain snatching near station')).toEqual({
+        text: 'Chain snatching near station',
+        matches: [],
+      });
+    });
+  });
+
+  it('should mask emails keeping the domain', () => {
+    const [match] = detectPII('rk@example.com');
+
+    expect(maskPII(match, 'partial')).toBe('r***@example.com');
+  });
+
+  it('should split previews into plain and masked runs', () => {
+    expect(previewRedaction('ph 9820012345.')).toEqual([
+      { text: 'ph ' },
+      { text: '9820012345', match: expect.objectContaining({ kind: 'phone' }), mask: '[PHONE]' },
+      { text: '.' },
+    ]);
+  });
+
+  it('should redact descriptions and text attributes but not structured fields', () => {
+    const fir = {
+      id: 'FIR001',
+      area: 'Malad West',
+      description: 'Bag of Neha Joshi stolen',
+      attributes: { complainant: 'Neha Joshi', loss: 5000 },
+    } as unknown as FIR;
+
+    expect(redactFIR(fir)).toEqual({
+      ...fir,
+      description: 'Bag of [NAME] stolen',
+      attributes: { complainant: '[NAME]', loss: 5000 },
+    });
+    expect(fir.description).toBe('Bag of Neha Joshi stolen');
+  });
+
+  it('should redact identifiers held in numeric attributes', () => {
+    const fir = {
+      id: 'FIR001',
+      attributes: { 'complainant mobile': 9876543210, aadhaar: 234567890123, loss: 5000 },
+    } as unknown as FIR;
+
+    expect(redactFIR(fir).attributes).toEqual({
+      'complainant mobile': '[PHONE]',
+      aadhaar: '[AADHAAR]',
+      loss: 5000,
+    });
+  });
+
+  it('should redact identifier columns of imported records', () => {
+    const { records } = parseCSV(
+      'id,crimeType,date,time,latitude,longitude,area,zone,policeStation,Complainant Mobile,Aadhaar\n' +
+        'FIR001,Theft,2026-01-20,14:30,19.1776,72.8298,Malad West,Zone 11,Malad PS,9876543210,234567890123'
+    );
+
+    expect(redactFIR(records[0]).attributes).toEqual({
+      'complainant mobile': '[PHONE]',
+      aadhaar: '[AADHAAR]',
+    });
+  });
+
+  it('should redact free-text columns of field rows', () => {
+    expect(isRedactedField('description')).toBe(true);
+    expect(isRedactedField('policestation')).toBe(false);
+    expect(
+      redactFieldValues({ id: 'FIR001', description: 'ph 9820012345', witness: 'Ramesh' })
+    ).toEqual({ id: 'FIR001', description: 'ph [PHONE]', witness: '[NAME]' });
+  });
+});
@@ -0,0 +1,359 @@
+import { FIR } from '../types';
+import NAME_DATA from '../data/piiNames.json';
+import { FIR_FIELDS } from './columnMapping';
+import { FIRAttributes } from './firAttributes';
+
+/**
+ * PII detection and redaction
+ *
+ * FIR descriptions carry victim and witness names, phone numbers, Aadhaar
+ * numbers and vehicle registrations. Detectors are data: a regex per kind
+ * of identifier, plus a dictionary of names (data/piiNames.json and any
+ * names an analyst adds) matched as whole, capitalized words. Matches are
+ * resolved left to right, the longest winning where they overlap, and
+ * neighbouring name words are joined so "Priya Sharma" is one match.
+ *
+ * Masks either replace a match with its kind ("[PHONE]") or keep enough to
+ * tell records apart ("XXXXX X2345", "P. S."). Only free text is redacted:
+ * the description and custom attribute columns (numbers included). IDs,
+ * crime types and places are left as they are.
+ */
+
+export type PIIKind = 'phone' | 'aadhaar' | 'vehicle' | 'email' | 'pan' | 'name';
+
+export type MaskStyle = 'label' | 'partial';
+
+export interface PIIDetector {
+  id: string;
+  kind: PIIKind;
+  label: string;
+  pattern: string;
+  flags?: string;
+  group?: number; // Capture group holding the identifier; the whole match by default
+}
+
+export interface RedactionConfig {
+  detectors: PIIDetector[];
+  names: string[]; // Dictionary of names to mask wherever they appear
+  maskStyle: MaskStyle;
+}
+
+export interface PIIMatch {
+  detector: string;
+  kind: PIIKind;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  matches: PIIMatch[];
+}
+
+/**
+ * A run of text for previews; matched runs carry their mask
+ */
+export interface RedactionSegment {
+  text: string;
+  match?: PIIMatch;
+  mask?: string;
+}
+
+export const MASK_STYLE_LABELS: { [style in MaskStyle]: string } = {
+  label: 'Replace with type, e.g. [PHONE]',
+  partial: 'Partial, e.g. XXXXX X2345',
+};
+
+// Id the name dictionary goes by when detectors are switched on and off
+export const NAME_DICTIONARY_ID = 'name-dictionary';
+
+// Aadhaar comes before phone so a 12-digit number isn't read as a phone
+export const DEFAULT_PII_DETECTORS: PIIDetector[] = [
+  {
+    id: 'aadhaar',
+    kind: 'aadhaar',
+    label: 'Aadhaar number',
+    pattern: '\\b[2-9]\\d{3}[\\s-]?\\d{4}[\\s-]?\\d{4}\\b',
+  },
+  {
+    id: 'phone',
+    kind: 'phone',
+    label: 'Phone number',
+    pattern: '(?:\\+91[\\s-]?)?\\b[6-9]\\d{4}[\\s-]?\\d{5}\\b|\\b0\\d{2,4}[\\s-]\\d{6,8}\\b',
+  },
+  {
+    id: 'vehicle',
+    kind: 'vehicle',
+    label: 'Vehicle number',
+    pattern: '\\b[A-Z]{2}[\\s-]?\\d{1,2}[\\s-]?[A-Z]{1,3}[\\s-]?\\d{4}\\b',
+  },
+  {
+    id: 'email',
+    kind: 'email',
+    label: 'Email address',
+    pattern: '\\b[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+\\b',
+  },
+  {
+    id: 'pan',
+    kind: 'pan',
+    label: 'PAN',
+    pattern: '\\b[A-Z]{5}\\d{4}[A-Z]\\b',
+  },
+  {
+    id: 'honorific-name',
+    kind: 'name',
+    label: 'Name after a title (Smt., Shri, Mr. ...)',
+    pattern:
+      '\\b(?:Mr|Mrs|Ms|Miss|Smt|Shri|Shrimati|Sri|Kumari|Km|Dr)\\.?\\s+([A-Z][a-z]+(?:\\s+[A-Z][a-z]+){0,2})',
+    group: 1,
+  },
+];
+
+export const DEFAULT_PII_NAMES: string[] = [...NAME_DATA.firstNames, ...NAME_DATA.surnames];
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  detectors: DEFAULT_PII_DETECTORS,
+  names: DEFAULT_PII_NAMES,
+  maskStyle: 'label',
+};
+
+// Word characters of any script, for dictionary word boundaries
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+// Dictionary patterns are rebuilt only when the name list changes
+const namePatterns = new WeakMap<string[], RegExp | null>();
+
+const REDACTED_FIELDS = new Set(['description']);
+const FIR_FIELD_KEYS = new Set(FIR_FIELDS.map((field) => field.key));
+
+/**
+ * Finds identifiers in text, in order and without overlaps
+ *
+ * Time Complexity: O(d × l + m log m) where d = detectors, l = text length,
+ * m = raw matches
+ */
+export const detectPII = (
+  text: string,
+  config: RedactionConfig = DEFAULT_REDACTION_CONFIG
+): PIIMatch[] => {
+  if (!text) return [];
+
+  const found: { match: PIIMatch; order: number }[] = [];
+  const collect = (
+    detector: Pick<PIIDetector, 'id' | 'kind' | 'group'>,
+    pattern: RegExp,
+    order: number
+  ) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0] === '') pattern.lastIndex++;
+      const value = detector.group ? match[detector.group] : match[0];
+      if (!value) continue;
+
+      const start = match.index + match[0].indexOf(value);
+      found.push({
+        match: {
+          detector: detector.id,
+          kind: detector.kind,
+          start,
+          end: start + value.length,
+          text: value,
+        },
+        order,
+      });
+    }
+  };
+
+  config.detectors.forEach((detector, order) => {
+    collect(detector, compileDetector(detector), order);
+  });
+
+  const dictionary = getNamePattern(config.names);
+  if (dictionary) {
+    collect({ id: NAME_DICTIONARY_ID, kind: 'name' }, dictionary, config.detectors.length);
+  }
+
+  found.sort(
+    (a, b) =>
+      a.match.start - b.match.start ||
+      b.match.end - a.match.end ||
+      a.order - b.order
+  );
+
+  const matches: PIIMatch[] = [];
+  found.forEach(({ match }) => {
+    const previous = matches[matches.length - 1];
+    if (previous && match.start < previous.end) return;
+
+    // "Priya" + "Sharma" -> one name
+    if (
+      previous &&
+      previous.kind === 'name' &&
+      match.kind === 'name' &&
+      /^\s+$/.test(text.slice(previous.end, match.start))
+    ) {
+      previous.end = match.end;
+      previous.text = text.slice(previous.start, previous.end);
+      return;
+    }
+
+    matches.push({ ...match });
+  });
+
+  return matches;
+};
+
+/**
+ * Mask for one identifier
+ */
+export const maskPII = (match: PIIMatch, style: MaskStyle): string => {
+  if (style === 'label') return `[${match.kind.toUpperCase()}]`;
+
+  if (match.kind === 'name') {
+    return match.text
+      .split(/\s+/)
+      .map((word) => `${Array.from(word)[0]}.`)
+      .join(' ');
+  }
+
+  if (match.kind === 'email') {
+    const at = match.text.indexOf('@');
+    return `${match.text[0]}***${match.text.slice(at)}`;
+  }
+
+  // Keep the last four letters or digits, e.g. XXXX XXXX 0123
+  let kept = 0;
+  return Array.from(match.text)
+    .reverse()
+    .map((char) => {
+      if (!/[A-Za-z0-9]/.test(char)) return char;
+      kept++;
+      return kept <= 4 ? char : 'X';
+    })
+    .reverse()
+    .join('');
+};
+
+/**
+ * Masks every identifier found in text
+ */
+export const redactText = (
+  text: string,
+  config: RedactionConfig = DEFAULT_REDACTION_CONFIG
+): RedactionResult => {
+  const matches = detectPII(text, config);
+  if (matches.length === 0) return { text, matches };
+
+  return {
+    text: previewRedaction(text, config, matches)
+      .map((segment) => segment.mask ?? segment.text)
+      .join(''),
+    matches,
+  };
+};
+
+/**
+ * Splits text into plain and matched runs, to show what would be masked
+ */
+export const previewRedaction = (
+  text: string,
+  config: RedactionConfig = DEFAULT_REDACTION_CONFIG,
+  matches: PIIMatch[] = detectPII(text, config)
+): RedactionSegment[] => {
+  const segments: RedactionSegment[] = [];
+  let position = 0;
+
+  matches.forEach((match) => {
+    if (match.start > position) segments.push({ text: text.slice(position, match.start) });
+    segments.push({ text: match.text, match, mask: maskPII(match, config.maskStyle) });
+    position = match.end;
+  });
+
+  if (position < text.length) segments.push({ text: text.slice(position) });
+  return segments;
+};
+
+/**
+ * True for fields holding free text that may carry PII: the description
+ * and custom attribute columns
+ */
+export const isRedactedField = (field: string): boolean =>
+  REDACTED_FIELDS.has(field) || !FIR_FIELD_KEYS.has(field);
+
+/**
+ * Returns the FIR with its description and attributes masked
+ * Numeric attributes are checked as written, so a phone or Aadhaar number
+ * read as a number is masked too (and becomes text)
+ */
+export const redactFIR = (
+  fir: FIR,
+  config: RedactionConfig = DEFAULT_REDACTION_CONFIG
+): FIR => {
+  const redacted: FIR = { ...fir };
+
+  if (fir.description) redacted.description = redactText(fir.description, config).text;
+  if (fir.attributes) {
+    const attributes: FIRAttributes = {};
+    Object.entries(fir.attributes).forEach(([name, value]) => {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        attributes[name] = value; // Dates and yes/no values can't hold PII
+        return;
+      }
+      const text = String(value);
+      const masked = redactText(text, config).text;
+      attributes[name] = masked === text ? value : masked;
+    });
+    redacted.attributes = attributes;
+  }
+
+  return redacted;
+};
+
+/**
+ * Masks the free-text values of a row keyed by field or column name
+ * (firToFields output and rejected rows)
+ */
+export const redactFieldValues = (
+  fields: { [column: string]: string },
+  config: RedactionConfig = DEFAULT_REDACTION_CONFIG
+): { [column: string]: string } => {
+  const redacted: { [column: string]: string } = {};
+  Object.entries(fields).forEach(([column, value]) => {
+    redacted[column] = isRedactedField(column) ? redactText(value, config).text : value;
+  });
+  return redacted;
+};
+
+function compileDetector(detector: PIIDetector): RegExp {
+  const flags = detector.flags || '';
+  return new RegExp(detector.pattern, flags.includes('g') ? flags : `${flags}g`);
+}
+
+/**
+ * One pattern for the whole dictionary; names match as written or in capitals
+ */
+function getNamePattern(names: string[]): RegExp | null {
+  if (namePatterns.has(names)) return namePatterns.get(names)!;
+
+  const variants = new Set<string>();
+  names
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .forEach((name) => {
+      variants.add(name);
+      variants.add(name.toUpperCase());
+    });
+
+  const alternatives = Array.from(variants)
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  const pattern =
+    alternatives.length > 0
+      ? new RegExp(`(?<!${WORD_CHAR})(?:${alternatives.join('|')})(?!${WORD_CHAR})`, 'gu')
+      : null;
+  namePatterns.set(names, pattern);
+  return pattern;
+}
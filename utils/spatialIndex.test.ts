@@ -0,0 +1,188 @@
+import { boundsAroundPoint, createSpatialIndex, queryBounds } from './spatialIndex';
+import {
+  GridConfig,
+  clusterFIRs,
+  detectHotspots,
+  findNearbyFIRs,
+  haversineDistance,
+  queryNearby,
+} from './geoUtils';
+import { FIR } from '../types';
+
+describe('spatialIndex', () => {
+  // Deterministic pseudo-random points over Mumbai's western suburbs
+  const randomFIRs = (count: number, seed = 42): FIR[] => {
+    let state = seed;
+    const random = () => {
+      state = (state * 1664525 + 1013904223) % 4294967296;
+      return state / 4294967296;
+    };
+
+    return Array.from({ length: count }, (_, i) => ({
+      id: `FIR${i}`,
+      crimeType: 'Theft',
+      date: new Date(2026, 0, 1),
+      time: '12:00',
+      latitude: 19.0 + random() * 0.3,
+      longitude: 72.8 + random() * 0.2,
+      area: 'Malad West',
+      zone: 'Zone 11',
+      policeStation: 'Malad PS',
+      isAccident: false,
+      isSensitiveZone: false,
+    }));
+  };
+
+  const fineGrid: GridConfig = {
+    latGridSize: 0.0025,
+    lngGridSize: 0.0025,
+    minLat: 19.0,
+    maxLat: 19.3,
+    minLng: 72.8,
+    maxLng: 73.0,
+  };
+
+  describe('queries', () => {
+    const firs = randomFIRs(5000);
+    const index = createSpatialIndex(firs);
+
+    it('should return the same items as a scan of the box, in input order', () => {
+      const bounds = { minLat: 19.1, maxLat: 19.15, minLng: 72.85, maxLng: 72.9 };
+      const expected = firs.filter(
+        (fir) =>
+          fir.latitude >= bounds.minLat &&
+          fir.latitude <= bounds.maxLat &&
+          fir.longitude >= bounds.minLng &&
+          fir.longitude <= bounds.maxLng
+      );
+
+      expect(queryBounds(index, bounds)).toEqual(expected);
+    });
+
+    it('should match findNearbyFIRs for radius searches', () => {
+      [0.1, 0.5, 2, 50].forEach((radiusKm) => {
+        expect(queryNearby(index, 19.15, 72.9, radiusKm)).toEqual(
+          findNearbyFIRs(firs, 19.15, 72.9, radiusKm)
+        );
+      });
+    });
+
+    it('should bound every point within the radius', () => {
+      const bounds = boundsAroundPoint(19.15, 72.9, 1);
+      const corner = haversineDistance(19.15, 72.9, bounds.maxLat, 72.9);
+
+      expect(corner).toBeCloseTo(1, 6);
+      expect(haversineDistance(19.15, 72.9, 19.15, bounds.maxLng)).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should skip items without coordinates', () => {
+      const withMissing = [...firs.slice(0, 3), { ...firs[3], latitude: NaN }];
+
+      expect(createSpatialIndex(withMissing).order).toHaveLength(3);
+    });
+  });
+
+  describe('grid assignment', () => {
+    it('should place points on cell edges in the upper cell, as before', () => {
+      const grid: GridConfig = {
+        latGridSize: 0.125,
+        lngGridSize: 0.125,
+        minLat: 19,
+        maxLat: 19.5,
+        minLng: 72.75,
+        maxLng: 73,
+      };
+      const [onEdge] = randomFIRs(1);
+      onEdge.latitude = 19.125;
+      onEdge.longitude = 72.875;
+
+      const [hotspot] = detectHotspots([onEdge], grid);
+
+      // Row 1, column 1 of a 4 × 2 grid
+      expect(hotspot.zoneId).toBe('GRID_3');
+      expect(hotspot.centerLat).toBe(19.1875);
+      expect(hotspot.centerLng).toBe(72.9375);
+    });
+
+    it('should match testing every cell when edges drift by rounding', () => {
+      const grid: GridConfig = { ...fineGrid, latGridSize: 0.05, lngGridSize: 0.05 };
+      const firs = randomFIRs(200);
+      // Points exactly on the accumulated edges
+      firs[0].latitude = 19 + 0.05 + 0.05 + 0.05;
+      firs[1].longitude = 72.8 + 0.05 + 0.05;
+
+      const scan = new Map<string, number>();
+      firs.forEach((fir) => {
+        let id = 0;
+        for (let lat = grid.minLat; lat < grid.maxLat; lat += grid.latGridSize) {
+          for (let lng = grid.minLng; lng < grid.maxLng; lng += grid.lngGridSize) {
+            if (
+              fir.latitude >= lat &&
+              fir.latitude < lat + grid.latGridSize &&
+              fir.longitude >= lng &&
+              fir.longitude < lng + grid.lngGridSize
+            ) {
+              scan.set(`GRID_${id}`, (scan.get(`GRID_${id}`) || 0) + 1);
+            }
+            id++;
+          }
+        }
+      });
+
+      const counts = new Map(detectHotspots(firs, grid).map((h) => [h.zoneId, h.firCount]));
+
+      expect(counts).toEqual(scan);
+    });
+
+    it('should leave out points outside the grid', () => {
+      const firs = randomFIRs(10);
+      firs[0].latitude = 18.9;
+      firs[1].longitude = 73.1;
+
+      const hotspots = detectHotspots(firs, fineGrid);
+
+      expect(hotspots.reduce((sum, h) => sum + h.firCount, 0)).toBe(8);
+    });
+  });
+
+  describe('benchmark', () => {
+    // Generous limits for slow CI machines; the unindexed versions take
+    // minutes at these sizes (O(n × g) and O(n²))
+    it('should detect hotspots for 200k FIRs over a 9,600-cell grid quickly', () => {
+      const firs = randomFIRs(200000);
+
+      const start = Date.now();
+      const hotspots = detectHotspots(firs, fineGrid);
+      const elapsed = Date.now() - start;
+
+      expect(hotspots.reduce((sum, h) => sum + h.firCount, 0)).toBe(200000);
+      expect(elapsed).toBeLessThan(3000);
+    });
+
+    it('should index 200k FIRs and answer 10k radius searches quickly', () => {
+      const firs = randomFIRs(200000, 7);
+
+      const start = Date.now();
+      const index = createSpatialIndex(firs);
+      let found = 0;
+      for (let i = 0; i < 10000; i++) {
+        found += queryNearby(index, firs[i].latitude, firs[i].longitude, 0.2).length;
+      }
+      const elapsed = Date.now() - start;
+
+      expect(found).toBeGreaterThan(10000);
+      expect(elapsed).toBeLessThan(8000);
+    });
+
+    it('should cluster 50k FIRs quickly', () => {
+      const firs = randomFIRs(50000, 11);
+
+      const start = Date.now();
+      const clusters = clusterFIRs(firs, 0.1);
+      const elapsed = Date.now() - start;
+
+      expect(clusters.reduce((sum, cluster) => sum + cluster.length, 0)).toBe(50000);
+      expect(elapsed).toBeLessThan(5000);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Static KD-tree over latitude/longitude points
+ *
+ * Built once in O(n log n) by splitting on latitude and longitude in
+ * turn at the median; box queries then visit O(√n + k) points. Radius
+ * searches (queryNearby in geoUtils) query the box around the circle
+ * and check the haversine distance of what it returns. Points are stored
+ * in flat typed arrays, so an index over hundreds of thousands of FIRs
+ * stays small and quick to build.
+ *
+ * Results come back in input order, so code switching from a linear scan
+ * gets the same output. Boxes don't wrap around the 180th meridian (not
+ * an issue at city scale).
+ */
+
+export interface PointLike {
+  latitude: number;
+  longitude: number;
+}
+
+export interface SpatialBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * KD-tree over items; the tree is implicit in order (see createSpatialIndex)
+ */
+export interface SpatialIndex<T extends PointLike> {
+  items: T[];
+  order: Int32Array; // Item positions, arranged as the tree
+  lats: Float64Array; // Latitude of order[i]
+  lngs: Float64Array; // Longitude of order[i]
+}
+
+// Ranges this small are scanned instead of split further
+const LEAF_SIZE = 8;
+
+// Kilometres per degree of latitude (haversineDistance's Earth radius)
+const KM_PER_DEGREE = (Math.PI * 6371) / 180;
+
+// Share of points at each end of latitude and longitude outside the box
+// outliers are measured from (see withoutOutliers)
+export const OUTLIER_SHARE = 0.01;
+
+/**
+ * Builds an index over items with finite coordinates
+ *
+ * Time Complexity: O(n log n)
+ */
+export const createSpatialIndex = <T extends PointLike>(items: T[]): SpatialIndex<T> => {
+  const positions: number[] = [];
+  items.forEach((item, i) => {
+    if (Number.isFinite(item.latitude) && Number.isFinite(item.longitude)) positions.push(i);
+  });
+
+  const order = Int32Array.from(positions);
+  const lats = Float64Array.from(positions, (i) => items[i].latitude);
+  const lngs = Float64Array.from(positions, (i) => items[i].longitude);
+  const index = { items, order, lats, lngs };
+
+  build(index, 0, order.length, 0);
+  return index;
+};
+
+/**
+ * Items inside a latitude/longitude box (edges included), in input order
+ *
+ * Time Complexity: O(√n + k log k) where k = items returned
+ */
+export const queryBounds = <T extends PointLike>(
+  index: SpatialIndex<T>,
+  bounds: SpatialBounds
+): T[] => {
+  const found: number[] = [];
+  search(index, bounds, 0, index.order.length, 0, (i) => found.push(index.order[i]));
+  return found.sort((a, b) => a - b).map((position) => index.items[position]);
+};
+
+/**
+ * Smallest box holding every point within radiusKm of a point
+ */
+export const boundsAroundPoint = (
+  latitude: number,
+  longitude: number,
+  radiusKm: number
+): SpatialBounds => {
+  const latDelta = (radiusKm / KM_PER_DEGREE) * (1 + 1e-9); // Slack for rounding at the edge
+  const farthestLat = Math.min(
+    90,
+    Math.max(Math.abs(latitude - latDelta), Math.abs(latitude + latDelta))
+  );
+  const cosLat = Math.cos((farthestLat * Math.PI) / 180);
+  const lngDelta = cosLat > 1e-9 ? latDelta / cosLat : 360;
+
+  return {
+    minLat: latitude - latDelta,
+    maxLat: latitude + latDelta,
+    minLng: longitude - lngDelta,
+    maxLng: longitude + lngDelta,
+  };
+};
+
+/**
+ * Smallest box holding the points; all zero without points
+ *
+ * Time Complexity: O(n)
+ */
+export const pointBounds = (points: PointLike[]): SpatialBounds => {
+  if (points.length === 0) return { minLat: 0, maxLat: 0, minLng: 0, maxLng: 0 };
+
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+  points.forEach(({ latitude, longitude }) => {
+    bounds.minLat = Math.min(bounds.minLat, latitude);
+    bounds.maxLat = Math.max(bounds.maxLat, latitude);
+    bounds.minLng = Math.min(bounds.minLng, longitude);
+    bounds.maxLng = Math.max(bounds.maxLng, longitude);
+  });
+  return bounds;
+};
+
+/**
+ * Points less outliers: those further outside the box of the middle points
+ * (without OUTLIER_SHARE at each end of latitude and longitude) than that
+ * box is high or wide, and than minMargin degrees
+ * One stray geocode so cannot stretch a grid over a whole state; below
+ * 1 / OUTLIER_SHARE points nothing is trimmed
+ *
+ * Time Complexity: O(n log n)
+ */
+export const withoutOutliers = <T extends PointLike>(points: T[], minMargin: number): T[] => {
+  if (points.length === 0) return points;
+
+  const trim = Math.floor(points.length * OUTLIER_SHARE);
+  const latitudes = points.map((point) => point.latitude).sort((a, b) => a - b);
+  const longitudes = points.map((point) => point.longitude).sort((a, b) => a - b);
+  const minLat = latitudes[trim];
+  const maxLat = latitudes[points.length - 1 - trim];
+  const minLng = longitudes[trim];
+  const maxLng = longitudes[points.length - 1 - trim];
+  const latMargin = Math.max(maxLat - minLat, minMargin);
+  const lngMargin = Math.max(maxLng - minLng, minMargin);
+
+  return points.filter(
+    ({ latitude, longitude }) =>
+      latitude >= minLat - latMargin &&
+      latitude <= maxLat + latMargin &&
+      longitude >= minLng - lngMargin &&
+      longitude <= maxLng + lngMargin
+  );
+};
+
+/**
+ * Arranges [lo, hi) so its median on the axis sits in the middle, smaller
+ * or equal values before it and larger or equal after, then recurses
+ */
+function build(index: SpatialIndex<PointLike>, lo: number, hi: number, depth: number): void {
+  if (hi - lo <= LEAF_SIZE) return;
+
+  const mid = (lo + hi) >> 1;
+  select(index, lo, hi - 1, mid, depth % 2 === 0 ? index.lats : index.lngs);
+  build(index, lo, mid, depth + 1);
+  build(index, mid + 1, hi, depth + 1);
+}
+
+/**
+ * Quickselect (Hoare partition, middle pivot) of the k-th smallest in [left, right]
+ */
+function select(
+  index: SpatialIndex<PointLike>,
+  left: number,
+  right: number,
+  k: number,
+  axis: Float64Array
+): void {
+  while (left < right) {
+    const pivot = axis[(left + right) >> 1];
+    let i = left;
+    let j = right;
+
+    while (i <= j) {
+      while (axis[i] < pivot) i++;
+      while (axis[j] > pivot) j--;
+      if (i <= j) {
+        swap(index, i, j);
+        i++;
+        j--;
+      }
+    }
+
+    if (k <= j) right = j;
+    else if (k >= i) left = i;
+    else return;
+  }
+}
+
+function swap(index: SpatialIndex<PointLike>, a: number, b: number): void {
+  const { order, lats, lngs } = index;
+  const position = order[a];
+  order[a] = order[b];
+  order[b] = position;
+
+  const lat = lats[a];
+  lats[a] = lats[b];
+  lats[b] = lat;
+
+  const lng = lngs[a];
+  lngs[a] = lngs[b];
+  lngs[b] = lng;
+}
+
+/**
+ * Calls visit with the tree position of every point inside the bounds
+ */
+function search(
+  index: SpatialIndex<PointLike>,
+  bounds: SpatialBounds,
+  lo: number,
+  hi: number,
+  depth: number,
+  visit: (i: number) => void
+): void {
+  const { lats, lngs } = index;
+
+  if (hi - lo <= LEAF_SIZE) {
+    for (let i = lo; i < hi; i++) {
+      if (inBounds(lats[i], lngs[i], bounds)) visit(i);
+    }
+    return;
+  }
+
+  const mid = (lo + hi) >> 1;
+  const byLat = depth % 2 === 0;
+  const value = byLat ? lats[mid] : lngs[mid];
+  const min = byLat ? bounds.minLat : bounds.minLng;
+  const max = byLat ? bounds.maxLat : bounds.maxLng;
+
+  if (inBounds(lats[mid], lngs[mid], bounds)) visit(mid);
+  if (min <= value) search(index, bounds, lo, mid, depth + 1, visit);
+  if (max >= value) search(index, bounds, mid + 1, hi, depth + 1, visit);
+}
+
+function inBounds(lat: number, lng: number, bounds: SpatialBounds): boolean {
+  return (
+    lat >= bounds.minLat && lat <= bounds.maxLat && lng >= bounds.minLng && lng <= bounds.maxLng
+  );
+}
@@ -0,0 +1,26 @@
+import { FIR } from '../types';
+import { withIncidentTimestamp } from './incidentTime';
+
+/**
+ * Test fixtures shared by the test files
+ */
+
+/**
+ * A theft registered at Malad PS, with fields replaced by overrides
+ * The incident timestamp follows the final date and time
+ */
+export const makeFIR = (overrides: Partial<FIR> = {}): FIR =>
+  withIncidentTimestamp({
+    id: 'FIR001',
+    crimeType: 'Theft',
+    date: new Date(2026, 0, 20),
+    time: '14:30',
+    latitude: 19.1874,
+    longitude: 72.8395,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: false,
+    ...overrides,
+  });
@@ -1,4 +1,5 @@
 import { validateFIR, validateFIRBatch, findDuplicates, isValidGeoLocation, generateValidationReport } from './validation';
+import { getJurisdictionRules } from './validationRules';
 import { FIR } from '../types';
 
 describe('validation', () => {
@@ -82,6 +83,27 @@ describe('validation', () => {
       expect(result.errors).toContain('Longitude must be between -180 and 180');
     });
 
+    it('should report typed issues for each problem', () => {
+      const fir = { ...validFIR, crimeType: '', latitude: 100 };
+      const result = validateFIR(fir);
+
+      expect(result.issues).toEqual([
+        {
+          code: 'REQUIRED_FIELD',
+          column: 'crimetype',
+          value: '',
+          message: 'Crime type is required',
+        },
+        {
+          code: 'INVALID_LATITUDE',
+          column: 'latitude',
+          value: '100',
+          message: 'Latitude must be between -90 and 90',
+        },
+      ]);
+      expect(result.errors).toEqual(result.issues.map((i) => i.message));
+    });
+
     it('should accept valid time formats', () => {
       const fir1 = { ...validFIR, time: '14:30' };
       const fir2 = { ...validFIR, time: '14:30:45' };
@@ -106,6 +128,73 @@ describe('validation', () => {
 
       expect(result.validRecords).toHaveLength(2);
       expect(result.invalidRecords).toHaveLength(1);
+      expect(result.invalidRecords[0].index).toBe(2);
+      expect(result.invalidRecords[0].issues.map((i) => i.column)).toEqual([
+        'id',
+        'crimetype',
+      ]);
+    });
+  });
+
+  describe('jurisdiction rules', () => {
+    const rules = getJurisdictionRules('mumbai-north');
+    const mumbaiFIR: FIR = {
+      ...validFIR,
+      latitude: 19.1776,
+      longitude: 72.8298,
+      area: 'Malad West',
+      zone: 'Zone 11',
+      policeStation: 'Malad PS',
+    };
+
+    it('should keep records that only raise warnings', () => {
+      const result = validateFIR({ ...mumbaiFIR, longitude: 73.2 }, rules);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings.map((w) => w.code)).toEqual([
+        'OUTSIDE_BOUNDARY',
+        'OUTSIDE_BOUNDARY',
+        'OUTSIDE_BOUNDARY',
+        'OUT_OF_BOUNDS',
+      ]);
+    });
+
+    it('should warn when coordinates fall outside the declared station', () => {
+      const result = validateFIR({ ...mumbaiFIR, latitude: 19.2353, longitude: 72.8467 });
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          code: 'OUTSIDE_BOUNDARY',
+          column: 'policestation',
+          value: 'Malad PS',
+          message: 'Location 19.2353, 72.8467 is outside the station boundary of Malad PS (falls in Borivali PS)',
+        }),
+        expect.objectContaining({ column: 'area', value: 'Malad West' }),
+      ]);
+    });
+
+    it('should separate blocking errors from warnings in batches and reports', () => {
+      const records: FIR[] = [
+        mumbaiFIR,
+        { ...mumbaiFIR, id: 'FIR002', crimeType: 'Arson' },
+        { ...mumbaiFIR, id: 'FIR003', isSensitiveZone: true },
+      ];
+
+      const batch = validateFIRBatch(records, rules);
+      expect(batch.invalidRecords.map((r) => r.index)).toEqual([1]);
+      expect(batch.warnedRecords.map((r) => r.index)).toEqual([2]);
+
+      const report = generateValidationReport(records, rules);
+      expect(report).toEqual(
+        expect.objectContaining({
+          valid: 2,
+          invalid: 1,
+          warned: 1,
+          errors: { 'Crime Type "Arson" is not allowed': 1 },
+          warnings: { 'Description is required when Is Sensitive Zone is true': 1 },
+        })
+      );
     });
   });
 
@@ -136,14 +225,14 @@ describe('validation', () => {
   });
 
   describe('isValidGeoLocation', () => {
-    it('should validate location within default bounds (Delhi)', () => {
-      const valid = isValidGeoLocation(28.5355, 77.3910);
+    it('should validate location within default bounds (bundled Mumbai boundaries)', () => {
+      const valid = isValidGeoLocation(19.1874, 72.8395);
       expect(valid).toBe(true);
     });
 
     it('should reject location outside default bounds', () => {
-      const invalid = isValidGeoLocation(35.0, 85.0); // Outside Delhi
-      expect(invalid).toBe(false);
+      expect(isValidGeoLocation(35.0, 85.0)).toBe(false);
+      expect(isValidGeoLocation(28.5355, 77.3910)).toBe(false); // Delhi
     });
 
     it('should validate with custom bounds', () => {
@@ -1,107 +1,98 @@
 import { FIR } from '../types';
+import { getBoundaryExtent } from './boundaries';
+import { FieldError } from './importErrors';
+import { BASE_RULES, ValidationRule, evaluateRules } from './validationRules';
 
 /**
- * Validates a single FIR record for data integrity
+ * Validates a single FIR record against validation rules
  *
- * Checks:
+ * Checks (BASE_RULES unless a jurisdiction's rules are passed):
  * - All required fields are present
  * - Data types are correct
  * - Values are within acceptable ranges
  * - Geographic coordinates are valid
  *
- * Time Complexity: O(1) - constant number of field checks
+ * errors lists the blocking messages; issues carries the same problems as
+ * typed field errors (code, field key, offending value) for import
+ * reporting. Rules with warning severity are returned in warnings and
+ * don't make the record invalid.
+ *
+ * Time Complexity: O(r) where r = number of rules
  */
-export const validateFIR = (fir: FIR): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-
-  // Check required fields
-  if (!fir.id || fir.id.trim().length === 0) {
-    errors.push('FIR ID is required');
-  }
-
-  if (!fir.crimeType || fir.crimeType.trim().length === 0) {
-    errors.push('Crime type is required');
-  }
-
-  if (!fir.date) {
-    errors.push('Date is required');
-  } else if (!(fir.date instanceof Date) || isNaN(fir.date.getTime())) {
-    errors.push('Invalid date format');
-  } else if (fir.date > new Date()) {
-    errors.push('Date cannot be in the future');
-  }
-
-  if (!fir.time || !/^\d{2}:\d{2}(:\d{2})?$/.test(fir.time)) {
-    errors.push('Time must be in HH:MM or HH:MM:SS format');
-  }
-
-  // Validate coordinates
-  if (typeof fir.latitude !== 'number' || isNaN(fir.latitude)) {
-    errors.push('Latitude must be a valid number');
-  } else if (fir.latitude < -90 || fir.latitude > 90) {
-    errors.push('Latitude must be between -90 and 90');
-  }
-
-  if (typeof fir.longitude !== 'number' || isNaN(fir.longitude)) {
-    errors.push('Longitude must be a valid number');
-  } else if (fir.longitude < -180 || fir.longitude > 180) {
-    errors.push('Longitude must be between -180 and 180');
-  }
-
-  // Check text fields
-  if (!fir.area || fir.area.trim().length === 0) {
-    errors.push('Area is required');
-  }
-
-  if (!fir.zone || fir.zone.trim().length === 0) {
-    errors.push('Zone is required');
-  }
-
-  if (!fir.policeStation || fir.policeStation.trim().length === 0) {
-    errors.push('Police station is required');
-  }
-
-  // Check boolean fields
-  if (typeof fir.isAccident !== 'boolean') {
-    errors.push('isAccident must be a boolean value');
-  }
-
-  if (typeof fir.isSensitiveZone !== 'boolean') {
-    errors.push('isSensitiveZone must be a boolean value');
-  }
+export const validateFIR = (
+  fir: FIR,
+  rules: ValidationRule[] = BASE_RULES
+): { valid: boolean; errors: string[]; issues: FieldError[]; warnings: FieldError[] } => {
+  const violations = evaluateRules(fir, rules);
+  const issues = violations.filter((v) => v.severity === 'error').map((v) => v.issue);
+  const warnings = violations.filter((v) => v.severity === 'warning').map((v) => v.issue);
 
   return {
-    valid: errors.length === 0,
-    errors,
+    valid: issues.length === 0,
+    errors: issues.map((issue) => issue.message),
+    issues,
+    warnings,
   };
 };
 
+/**
+ * A record that failed validation
+ * index is the record's position in the validated batch
+ */
+export interface InvalidRecord {
+  fir: FIR;
+  index: number;
+  errors: string[];
+  issues: FieldError[];
+}
+
+/**
+ * A valid record that raised warnings
+ */
+export interface WarnedRecord {
+  fir: FIR;
+  index: number;
+  warnings: FieldError[];
+}
+
 /**
  * Validates an array of FIR records
+ * Records with only warnings are valid and also listed in warnedRecords
  *
- * Time Complexity: O(n) where n = number of records
+ * Time Complexity: O(n × r) where n = number of records, r = number of rules
  */
 export const validateFIRBatch = (
-  firs: FIR[]
-): { validRecords: FIR[]; invalidRecords: { fir: FIR; errors: string[] }[] } => {
+  firs: FIR[],
+  rules: ValidationRule[] = BASE_RULES
+): { validRecords: FIR[]; invalidRecords: InvalidRecord[]; warnedRecords: WarnedRecord[] } => {
   const validRecords: FIR[] = [];
-  const invalidRecords: { fir: FIR; errors: string[] }[] = [];
+  const invalidRecords: InvalidRecord[] = [];
+  const warnedRecords: WarnedRecord[] = [];
 
-  firs.forEach((fir) => {
-    const validation = validateFIR(fir);
+  firs.forEach((fir, index) => {
+    const validation = validateFIR(fir, rules);
     if (validation.valid) {
       validRecords.push(fir);
+      if (validation.warnings.length > 0) {
+        warnedRecords.push({ fir, index, warnings: validation.warnings });
+      }
     } else {
-      invalidRecords.push({ fir, errors: validation.errors });
+      invalidRecords.push({
+        fir,
+        index,
+        errors: validation.errors,
+        issues: validation.issues,
+      });
     }
   });
 
-  return { validRecords, invalidRecords };
+  return { validRecords, invalidRecords, warnedRecords };
 };
 
 /**
  * Checks for duplicate FIR records by ID
  * Returns records with duplicate IDs
+ * (the same incident under different IDs is found by findNearDuplicates)
  */
 export const findDuplicates = (firs: FIR[]): FIR[] => {
   const seen = new Set<string>();
@@ -121,6 +112,7 @@ export const findDuplicates = (firs: FIR[]): FIR[] => {
 /**
  * Sanitizes text fields to prevent injection attacks
  * Removes potentially dangerous characters
+ * Personal details in the description are masked separately (redactFIR)
  */
 export const sanitizeFIR = (fir: FIR): FIR => {
   return {
@@ -149,21 +141,14 @@ function sanitizeText(text: string): string {
 /**
  * Validates geographic area for a specific city
  * Example: Returns true if coordinates are within city bounds
+ * Defaults to the extent of the station, zone and ward boundaries in use
  */
 export const isValidGeoLocation = (
   latitude: number,
   longitude: number,
   bounds?: { minLat: number; maxLat: number; minLng: number; maxLng: number }
 ): boolean => {
-  // Default bounds for Delhi, India (MVP example)
-  const defaultBounds = {
-    minLat: 28.4,
-    maxLat: 28.9,
-    minLng: 76.8,
-    maxLng: 77.4,
-  };
-
-  const validBounds = bounds || defaultBounds;
+  const validBounds = bounds || getBoundaryExtent();
 
   return (
     latitude >= validBounds.minLat &&
@@ -175,19 +160,26 @@ export const isValidGeoLocation = (
 
 /**
  * Generates a validation report for a batch of FIR records
+ * errors counts blocking messages over invalid records; warned and
+ * warnings cover valid records that raised warnings
+ * (scoreDataQuality breaks quality down by police station and zone)
  */
 export const generateValidationReport = (
-  firs: FIR[]
+  firs: FIR[],
+  rules: ValidationRule[] = BASE_RULES
 ): {
   total: number;
   valid: number;
   invalid: number;
+  warned: number;
   duplicates: number;
   errors: { [key: string]: number };
+  warnings: { [key: string]: number };
 } => {
-  const { validRecords, invalidRecords } = validateFIRBatch(firs);
+  const { validRecords, invalidRecords, warnedRecords } = validateFIRBatch(firs, rules);
   const duplicates = findDuplicates(firs);
   const errorCounts: { [key: string]: number } = {};
+  const warningCounts: { [key: string]: number } = {};
 
   invalidRecords.forEach(({ errors }) => {
     errors.forEach((error) => {
@@ -195,11 +187,19 @@ export const generateValidationReport = (
     });
   });
 
+  warnedRecords.forEach(({ warnings }) => {
+    warnings.forEach(({ message }) => {
+      warningCounts[message] = (warningCounts[message] || 0) + 1;
+    });
+  });
+
   return {
     total: firs.length,
     valid: validRecords.length,
     invalid: invalidRecords.length,
+    warned: warnedRecords.length,
     duplicates: duplicates.length,
     errors: errorCounts,
+    warnings: warningCounts,
   };
 };
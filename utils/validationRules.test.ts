@@ -0,0 +1,161 @@
+import {
+  BASE_RULES,
+  JURISDICTIONS,
+  ValidationRule,
+  evaluateRules,
+  getJurisdictionRules,
+  parseRules,
+} from './validationRules';
+import { FIR } from '../types';
+
+describe('validationRules', () => {
+  const fir: FIR = {
+    id: 'FIR001',
+    crimeType: 'Robbery',
+    date: new Date(2026, 0, 20),
+    time: '22:00',
+    latitude: 19.1776,
+    longitude: 72.8298,
+    area: 'Malad West',
+    zone: 'Zone 11',
+    policeStation: 'Malad PS',
+    isAccident: false,
+    isSensitiveZone: true,
+    attributes: { 'victim age': 34 },
+  };
+
+  const messages = (record: FIR, rules: ValidationRule[]) =>
+    evaluateRules(record, rules).map(({ severity, issue }) => [severity, issue.message]);
+
+  describe('evaluateRules', () => {
+    it('should pass a complete record against the base rules', () => {
+      expect(evaluateRules(fir, BASE_RULES)).toEqual([]);
+    });
+
+    it('should check allowed values case-insensitively', () => {
+      const rules: ValidationRule[] = [
+        {
+          id: 'allowed',
+          field: 'crimetype',
+          type: 'allowedValues',
+          params: { values: ['Theft', 'robbery'] },
+          severity: 'error',
+        },
+      ];
+
+      expect(evaluateRules(fir, rules)).toEqual([]);
+      expect(evaluateRules({ ...fir, crimeType: 'Arson' }, rules)).toEqual([
+        {
+          rule: 'allowed',
+          severity: 'error',
+          issue: {
+            code: 'NOT_ALLOWED',
+            column: 'crimetype',
+            value: 'Arson',
+            message: 'Crime Type "Arson" is not allowed',
+          },
+        },
+      ]);
+    });
+
+    it('should require a field when another field has a listed value', () => {
+      const rules: ValidationRule[] = [
+        {
+          id: 'description',
+          field: 'description',
+          type: 'requiredWhen',
+          params: { field: 'crimetype', values: ['Robbery'] },
+          severity: 'error',
+        },
+      ];
+
+      expect(messages(fir, rules)).toEqual([
+        ['error', 'Description is required when Crime Type is Robbery'],
+      ]);
+      expect(messages({ ...fir, crimeType: 'Theft' }, rules)).toEqual([]);
+      expect(messages({ ...fir, description: 'Two men on a bike' }, rules)).toEqual([]);
+    });
+
+    it('should check coordinates against the bounds of the record zone', () => {
+      const rules: ValidationRule[] = [
+        {
+          id: 'bounds',
+          field: 'latitude',
+          type: 'bounds',
+          params: {
+            zones: { 'Zone 11': { minLat: 19.1, maxLat: 19.3, minLng: 72.7, maxLng: 72.9 } },
+          },
+          severity: 'warning',
+        },
+      ];
+
+      expect(messages(fir, rules)).toEqual([]);
+      expect(messages({ ...fir, longitude: 73.1 }, rules)).toEqual([
+        ['warning', 'Location 19.1776, 73.1 is outside the bounds of Zone 11'],
+      ]);
+      expect(messages({ ...fir, zone: 'Zone 99', longitude: 73.1 }, rules)).toEqual([]);
+    });
+
+    it('should check ranges and patterns on custom attributes', () => {
+      const rules: ValidationRule[] = [
+        {
+          id: 'age',
+          field: 'victim age',
+          type: 'range',
+          params: { min: 0, max: 30 },
+          severity: 'warning',
+        },
+        {
+          id: 'id-format',
+          field: 'id',
+          type: 'pattern',
+          params: { pattern: '^FIR\\d{3}$' },
+          severity: 'error',
+          message: 'FIR ID must look like FIR123',
+        },
+      ];
+
+      expect(messages({ ...fir, id: 'X-1' }, rules)).toEqual([
+        ['warning', 'victim age must be between 0 and 30'],
+        ['error', 'FIR ID must look like FIR123'],
+      ]);
+    });
+
+    it('should reject times outside the clock', () => {
+      expect(messages({ ...fir, time: '25:70' }, BASE_RULES)).toEqual([
+        ['error', 'Time must be in HH:MM or HH:MM:SS format'],
+      ]);
+    });
+  });
+
+  describe('getJurisdictionRules', () => {
+    it('should add jurisdiction rules to the base rules', () => {
+      const rules = getJurisdictionRules('mumbai-north');
+
+      expect(rules.slice(0, BASE_RULES.length)).toEqual(BASE_RULES);
+      expect(rules.map((rule) => rule.id)).toContain('crimetype-allowed');
+      expect(messages(fir, rules)).toEqual([
+        ['error', 'Description is required when Crime Type is Robbery'],
+        ['warning', 'Description is required when Is Sensitive Zone is true'],
+      ]);
+    });
+
+    it('should fall back to the base rules', () => {
+      expect(getJurisdictionRules()).toBe(BASE_RULES);
+      expect(getJurisdictionRules('unknown')).toBe(BASE_RULES);
+      expect(JURISDICTIONS[0].id).toBe('default');
+    });
+  });
+
+  describe('parseRules', () => {
+    it('should reject malformed rule definitions', () => {
+      expect(() =>
+        parseRules([{ id: 'x', field: 'area', type: 'regex', severity: 'error' }])
+      ).toThrow('Validation rule x has unknown type: regex');
+      expect(() => parseRules([{ id: 'x', field: 'area', type: 'required' }])).toThrow(
+        'unknown severity'
+      );
+      expect(() => parseRules({})).toThrow('must be an array');
+    });
+  });
+});
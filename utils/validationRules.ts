@@ -0,0 +1,410 @@
+import { FIR } from '../types';
+import JURISDICTION_DATA from '../data/jurisdictions.json';
+import { BoundaryKind, checkDeclaredBoundary } from './boundaries';
+import { FIR_FIELDS } from './columnMapping';
+import { FieldError, ImportErrorCode } from './importErrors';
+import { parseTimeValue } from './incidentTime';
+
+/**
+ * Declarative FIR validation rules
+ *
+ * A rule names a field (canonical FIR field key or custom attribute), a
+ * rule type with its parameters, and a severity: errors block a record,
+ * warnings are reported but the record is kept.
+ *
+ * BASE_RULES hold the integrity checks every record must pass. Each
+ * jurisdiction (data/jurisdictions.json) adds its own rules - allowed crime
+ * types, descriptions mandatory for some offences, per-zone coordinate
+ * bounds - and may replace a base rule by reusing its id.
+ *
+ * withinBoundary rules compare the coordinates with the polygon named by
+ * the field's value (see boundaries.ts); values with no polygon pass.
+ *
+ * Rules other than required, requiredWhen and boolean pass empty values,
+ * so a missing field is only reported once.
+ */
+
+export type RuleSeverity = 'error' | 'warning';
+
+export interface GeoBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export type RuleCheck =
+  | { type: 'required' }
+  | { type: 'requiredWhen'; params: { field: string; values: string[] } }
+  | { type: 'allowedValues'; params: { values: string[] } }
+  | { type: 'pattern'; params: { pattern: string; flags?: string } }
+  | { type: 'range'; params: { min?: number; max?: number } }
+  | { type: 'date' }
+  | { type: 'notFuture' }
+  | { type: 'time' }
+  | { type: 'boolean' }
+  | { type: 'bounds'; params: { zones?: { [zone: string]: GeoBounds }; default?: GeoBounds } }
+  | { type: 'withinBoundary'; params: { kind: BoundaryKind } };
+
+export type RuleType = RuleCheck['type'];
+
+/**
+ * One rule; message and code override the rule type's defaults
+ */
+export type ValidationRule = RuleCheck & {
+  id: string;
+  field: string;
+  severity: RuleSeverity;
+  message?: string;
+  code?: ImportErrorCode;
+};
+
+/**
+ * A rule a record failed, as a typed field error
+ */
+export interface RuleViolation {
+  rule: string;
+  severity: RuleSeverity;
+  issue: FieldError;
+}
+
+export interface Jurisdiction {
+  id: string;
+  name: string;
+  rules: ValidationRule[];
+}
+
+export const DEFAULT_JURISDICTION = 'default';
+
+const RULE_TYPES: RuleType[] = [
+  'required',
+  'requiredWhen',
+  'allowedValues',
+  'pattern',
+  'range',
+  'date',
+  'notFuture',
+  'time',
+  'boolean',
+  'bounds',
+  'withinBoundary',
+];
+
+const DEFAULT_CODES: { [type in RuleType]: ImportErrorCode } = {
+  required: 'REQUIRED_FIELD',
+  requiredWhen: 'REQUIRED_FIELD',
+  allowedValues: 'NOT_ALLOWED',
+  pattern: 'INVALID_VALUE',
+  range: 'INVALID_VALUE',
+  date: 'INVALID_DATE',
+  notFuture: 'FUTURE_DATE',
+  time: 'INVALID_TIME',
+  boolean: 'INVALID_BOOLEAN',
+  bounds: 'OUT_OF_BOUNDS',
+  withinBoundary: 'OUTSIDE_BOUNDARY',
+};
+
+/**
+ * Checks every record must pass, in reporting order
+ */
+export const BASE_RULES: ValidationRule[] = [
+  { id: 'id-required', field: 'id', type: 'required', severity: 'error' },
+  {
+    id: 'crimetype-required',
+    field: 'crimetype',
+    type: 'required',
+    severity: 'error',
+    message: 'Crime type is required',
+  },
+  { id: 'date-required', field: 'date', type: 'required', severity: 'error' },
+  {
+    id: 'date-valid',
+    field: 'date',
+    type: 'date',
+    severity: 'error',
+    message: 'Invalid date format',
+  },
+  { id: 'date-not-future', field: 'date', type: 'notFuture', severity: 'error' },
+  { id: 'time-required', field: 'time', type: 'required', severity: 'error' },
+  { id: 'time-valid', field: 'time', type: 'time', severity: 'error' },
+  {
+    id: 'latitude-required',
+    field: 'latitude',
+    type: 'required',
+    severity: 'error',
+    code: 'INVALID_LATITUDE',
+  },
+  {
+    id: 'latitude-range',
+    field: 'latitude',
+    type: 'range',
+    params: { min: -90, max: 90 },
+    severity: 'error',
+    code: 'INVALID_LATITUDE',
+  },
+  {
+    id: 'longitude-required',
+    field: 'longitude',
+    type: 'required',
+    severity: 'error',
+    code: 'INVALID_LONGITUDE',
+  },
+  {
+    id: 'longitude-range',
+    field: 'longitude',
+    type: 'range',
+    params: { min: -180, max: 180 },
+    severity: 'error',
+    code: 'INVALID_LONGITUDE',
+  },
+  { id: 'area-required', field: 'area', type: 'required', severity: 'error' },
+  { id: 'zone-required', field: 'zone', type: 'required', severity: 'error' },
+  {
+    id: 'policestation-required',
+    field: 'policestation',
+    type: 'required',
+    severity: 'error',
+    message: 'Police station is required',
+  },
+  {
+    id: 'isaccident-boolean',
+    field: 'isaccident',
+    type: 'boolean',
+    severity: 'error',
+    message: 'isAccident must be a boolean value',
+  },
+  {
+    id: 'issensitivezone-boolean',
+    field: 'issensitivezone',
+    type: 'boolean',
+    severity: 'error',
+    message: 'isSensitiveZone must be a boolean value',
+  },
+  {
+    id: 'policestation-boundary',
+    field: 'policestation',
+    type: 'withinBoundary',
+    params: { kind: 'station' },
+    severity: 'warning',
+  },
+  {
+    id: 'zone-boundary',
+    field: 'zone',
+    type: 'withinBoundary',
+    params: { kind: 'zone' },
+    severity: 'warning',
+  },
+  {
+    id: 'area-boundary',
+    field: 'area',
+    type: 'withinBoundary',
+    params: { kind: 'ward' },
+    severity: 'warning',
+  },
+];
+
+/**
+ * Reads rule definitions from configuration data (e.g. parsed JSON)
+ * Throws when a rule lacks an id or field, or names an unknown type or severity
+ */
+export const parseRules = (data: unknown): ValidationRule[] => {
+  if (!Array.isArray(data)) throw new Error('Validation rules must be an array');
+
+  return data.map((rule, index) => {
+    const { id, field, type, severity } = (rule || {}) as Record<string, unknown>;
+    const name = typeof id === 'string' ? id : `#${index + 1}`;
+
+    if (typeof id !== 'string' || typeof field !== 'string') {
+      throw new Error(`Validation rule ${name} needs an id and a field`);
+    }
+    if (!RULE_TYPES.includes(type as RuleType)) {
+      throw new Error(`Validation rule ${name} has unknown type: ${String(type)}`);
+    }
+    if (severity !== 'error' && severity !== 'warning') {
+      throw new Error(`Validation rule ${name} has unknown severity: ${String(severity)}`);
+    }
+
+    return rule as ValidationRule;
+  });
+};
+
+/**
+ * Jurisdictions bundled with the app, the default (base rules only) first
+ */
+export const JURISDICTIONS: Jurisdiction[] = [
+  { id: DEFAULT_JURISDICTION, name: 'Default rules', rules: [] },
+  ...JURISDICTION_DATA.map((jurisdiction) => ({
+    id: jurisdiction.id,
+    name: jurisdiction.name,
+    rules: parseRules(jurisdiction.rules),
+  })),
+];
+
+/**
+ * Rules for a jurisdiction: the base rules, with the jurisdiction's rules
+ * replacing base rules of the same id and the rest appended
+ * Unknown jurisdictions get the base rules
+ */
+export const getJurisdictionRules = (
+  jurisdictionId: string = DEFAULT_JURISDICTION
+): ValidationRule[] => {
+  const jurisdiction = JURISDICTIONS.find((j) => j.id === jurisdictionId);
+  if (!jurisdiction || jurisdiction.rules.length === 0) return BASE_RULES;
+
+  const overrides = new Map(jurisdiction.rules.map((rule) => [rule.id, rule]));
+  return [
+    ...BASE_RULES.map((rule) => overrides.get(rule.id) || rule),
+    ...jurisdiction.rules.filter((rule) => !BASE_RULES.some((base) => base.id === rule.id)),
+  ];
+};
+
+/**
+ * Evaluates rules against one record, in rule order
+ *
+ * Time Complexity: O(r) where r = number of rules
+ */
+export const evaluateRules = (fir: FIR, rules: ValidationRule[]): RuleViolation[] => {
+  const violations: RuleViolation[] = [];
+
+  rules.forEach((rule) => {
+    const value = readField(fir, rule.field);
+    const message = checkRule(rule, value, fir);
+    if (message === null) return;
+
+    violations.push({
+      rule: rule.id,
+      severity: rule.severity,
+      issue: {
+        code: rule.code || DEFAULT_CODES[rule.type],
+        column: rule.field,
+        value: formatValue(value),
+        message: rule.message || message,
+      },
+    });
+  });
+
+  return violations;
+};
+
+/**
+ * Returns the default message when the value fails the rule, else null
+ */
+function checkRule(rule: ValidationRule, value: unknown, fir: FIR): string | null {
+  const label = fieldLabel(rule.field);
+
+  switch (rule.type) {
+    case 'required':
+      return isEmpty(value) ? `${label} is required` : null;
+
+    case 'requiredWhen': {
+      const { field, values } = rule.params;
+      const condition = readField(fir, field);
+      const applies =
+        !isEmpty(condition) && includesValue(values, String(condition));
+      return applies && isEmpty(value)
+        ? `${label} is required when ${fieldLabel(field)} is ${String(condition)}`
+        : null;
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${label} must be true or false`;
+  }
+
+  if (isEmpty(value)) return null;
+
+  switch (rule.type) {
+    case 'allowedValues':
+      return includesValue(rule.params.values, String(value))
+        ? null
+        : `${label} "${String(value)}" is not allowed`;
+
+    case 'pattern':
+      return new RegExp(rule.params.pattern, rule.params.flags).test(String(value))
+        ? null
+        : `${label} does not match the expected format`;
+
+    case 'range': {
+      const { min, max } = rule.params;
+      if (typeof value !== 'number' || isNaN(value)) {
+        return `${label} must be a valid number`;
+      }
+      if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        if (min !== undefined && max !== undefined) {
+          return `${label} must be between ${min} and ${max}`;
+        }
+        return min !== undefined ? `${label} must be at least ${min}` : `${label} must be at most ${max}`;
+      }
+      return null;
+    }
+
+    case 'date':
+      return isValidDate(value) ? null : `${label} is not a valid date`;
+
+    case 'notFuture':
+      return isValidDate(value) && value > new Date()
+        ? `${label} cannot be in the future`
+        : null;
+
+    case 'time':
+      return /^\d{2}:\d{2}(:\d{2})?$/.test(String(value)) && parseTimeValue(String(value))
+        ? null
+        : `${label} must be in HH:MM or HH:MM:SS format`;
+
+    case 'bounds': {
+      const bounds = rule.params.zones?.[fir.zone] || rule.params.default;
+      if (!bounds) return null;
+      const inside =
+        fir.latitude >= bounds.minLat &&
+        fir.latitude <= bounds.maxLat &&
+        fir.longitude >= bounds.minLng &&
+        fir.longitude <= bounds.maxLng;
+      return inside
+        ? null
+        : `Location ${fir.latitude}, ${fir.longitude} is outside the bounds of ${
+            rule.params.zones?.[fir.zone] ? fir.zone : 'the jurisdiction'
+          }`;
+    }
+
+    case 'withinBoundary':
+      return checkDeclaredBoundary(fir, rule.params.kind, String(value));
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Value of a canonical FIR field, or of a custom attribute
+ */
+function readField(fir: FIR, field: string): unknown {
+  const definition = FIR_FIELDS.find((f) => f.key === field);
+  return definition
+    ? (fir as unknown as Record<string, unknown>)[definition.property]
+    : fir.attributes?.[field];
+}
+
+function fieldLabel(field: string): string {
+  return FIR_FIELDS.find((f) => f.key === field)?.label || field;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim().length === 0)
+  );
+}
+
+function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !isNaN(value.getTime());
+}
+
+function includesValue(values: string[], value: string): boolean {
+  const wanted = value.trim().toLowerCase();
+  return values.some((v) => v.trim().toLowerCase() === wanted);
+}
+
+function formatValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return isValidDate(value) ? value.toISOString() : String(value);
+}
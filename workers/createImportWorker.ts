@@ -0,0 +1,8 @@
+/**
+ * Creates the CSV import worker
+ * Returns null where Web Workers are unavailable (tests, older browsers)
+ */
+export const createImportWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  return new Worker(new URL('./csvImport.worker.ts', import.meta.url));
+};
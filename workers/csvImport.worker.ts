@@ -0,0 +1,122 @@
+import { FIR } from '../types';
+import {
+  CSVParseOptions,
+  FIRParseResult,
+  FIRStreamParser,
+} from '../utils/csvParser';
+import {
+  CSVDialectReport,
+  resolveDelimiter,
+  resolveEncoding,
+} from '../utils/csvDialect';
+import { ImportError, RejectedRow } from '../utils/importErrors';
+import type {
+  ImportWorkerMessage,
+  ImportWorkerRequest,
+} from '../services/importService';
+
+/**
+ * CSV Import Worker
+ *
+ * Reads an uploaded file in slices off the main thread, decodes it as a
+ * text stream and parses it incrementally. The encoding and delimiter are
+ * resolved from the first slice. Parsed records are posted back in batches
+ * together with running progress counters.
+ *
+ * Memory: O(chunk size + batch size) - the file is never held in full
+ */
+
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<ImportWorkerRequest>) => {
+  const { file, chunkSize, batchSize, options } = event.data;
+
+  runImport(file, chunkSize, batchSize, options).catch((error) => {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Import failed',
+    });
+  });
+};
+
+async function runImport(
+  file: File,
+  chunkSize: number,
+  batchSize: number,
+  options: CSVParseOptions
+): Promise<void> {
+  let parser: FIRStreamParser | null = null;
+  let decoder: TextDecoder | null = null;
+  let dialect: CSVDialectReport | null = null;
+  let pendingRecords: FIR[] = [];
+  let pendingRows: number[] = [];
+  let pendingErrors: ImportError[] = [];
+  let pendingRejected: RejectedRow[] = [];
+  let rowsParsed = 0;
+  let errorCount = 0;
+  let bytesRead = 0;
+
+  const collect = (result: FIRParseResult) => {
+    pendingRecords.push(...result.records);
+    pendingRows.push(...result.rows);
+    pendingErrors.push(...result.errors);
+    pendingRejected.push(...result.rejected);
+    rowsParsed += result.records.length + result.rejected.length;
+    errorCount += result.errors.length;
+  };
+
+  const flush = () => {
+    post({
+      type: 'batch',
+      records: pendingRecords,
+      rows: pendingRows,
+      errors: pendingErrors,
+      rejected: pendingRejected,
+      rowsParsed,
+      errorCount,
+      bytesRead,
+      totalBytes: file.size,
+    });
+    pendingRecords = [];
+    pendingRows = [];
+    pendingErrors = [];
+    pendingRejected = [];
+  };
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const buffer = await file.slice(offset, offset + chunkSize).arrayBuffer();
+    bytesRead = Math.min(offset + chunkSize, file.size);
+
+    if (!decoder) {
+      const encoding = resolveEncoding(
+        options.encoding || 'auto',
+        new Uint8Array(buffer)
+      );
+      decoder = new TextDecoder(encoding.encoding);
+      const text = decoder.decode(buffer, { stream: true });
+      dialect = {
+        ...encoding,
+        ...resolveDelimiter(options.delimiter || 'auto', text),
+      };
+      parser = new FIRStreamParser({ ...options, delimiter: dialect.delimiter });
+      collect(parser.write(text));
+    } else {
+      collect(parser!.write(decoder.decode(buffer, { stream: true })));
+    }
+
+    if (pendingRecords.length >= batchSize) flush();
+  }
+
+  // Empty files have no slices; parse them with the declared options
+  parser = parser || new FIRStreamParser(options);
+  if (decoder) collect(parser.write(decoder.decode()));
+  collect(parser.end());
+  flush();
+
+  post({ type: 'done', dateReport: parser.getDateReport(), dialect });
+}
+
+function post(message: ImportWorkerMessage): void {
+  ctx.postMessage(message);
+}